@@ -20,6 +20,7 @@ import {
   Loader2,
   CheckCircle2,
   XCircle,
+  Timer,
 } from 'lucide-react';
 
 interface Alert {
@@ -48,6 +49,8 @@ const typeIcons: Record<string, React.ReactNode> = {
   FRAUD_SUSPECTED: <AlertTriangle className="h-5 w-5" />,
   LOW_STOCK: <AlertTriangle className="h-5 w-5" />,
   COST_OVERRUN: <AlertTriangle className="h-5 w-5" />,
+  STOCK_VARIANCE: <AlertTriangle className="h-5 w-5" />,
+  SLA_BREACH: <Timer className="h-5 w-5" />,
 };
 
 export default function AlertsPage() {
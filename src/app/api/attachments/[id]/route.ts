@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT } from '@/lib/auth';
+import { AttachmentVariant, readAttachment, voidAttachment } from '@/lib/attachments';
+
+// GET - Download an attachment of the user's company (?variant=preview|thumbnail for images)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const variant = (searchParams.get('variant') || 'original') as AttachmentVariant;
+
+    if (!['original', 'preview', 'thumbnail'].includes(variant)) {
+      return NextResponse.json({ error: 'Invalid variant' }, { status: 400 });
+    }
+
+    try {
+      const { attachment, data, mimeType } = await readAttachment(payload.companyId, id, variant);
+      const disposition = searchParams.get('download') === 'true' ? 'attachment' : 'inline';
+
+      return new NextResponse(new Uint8Array(data), {
+        headers: {
+          'Content-Type': mimeType,
+          'Content-Disposition': `${disposition}; filename="${encodeURIComponent(attachment.fileName)}"`,
+          'Cache-Control': 'private, max-age=86400',
+          'X-Content-SHA256': attachment.sha256,
+        },
+      });
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to load attachment' 
+      }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Get attachment error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Remove an attachment from its record (uploader or Supervisor); the file is kept as evidence
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    try {
+      await voidAttachment(
+        payload.companyId,
+        id,
+        payload.userId,
+        ['ADMIN', 'MANAGER', 'SUPERVISOR'].includes(payload.role)
+      );
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to remove attachment' 
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Delete attachment error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT } from '@/lib/auth';
+import { ATTACHMENT_ENTITIES, listAttachments, saveAttachment } from '@/lib/attachments';
+import { AttachmentEntity } from '@prisma/client';
+
+// GET - Attachments of a job, asset, external repair, fuel issue or meter reading (?entityType=&entityId=)
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const entityType = searchParams.get('entityType') as AttachmentEntity | null;
+    const entityId = searchParams.get('entityId');
+
+    if (!entityType || !entityId || !ATTACHMENT_ENTITIES.includes(entityType)) {
+      return NextResponse.json({ error: 'entityType and entityId are required' }, { status: 400 });
+    }
+
+    const attachments = await listAttachments(payload.companyId, entityType, entityId);
+
+    return NextResponse.json({ attachments });
+  } catch (error) {
+    console.error('Get attachments error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Upload files (multipart: file, entityType, entityId, category); without a target the
+// file is linked once the record referencing its URL is saved
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const files = formData.getAll('file').filter((f): f is File => f instanceof File);
+    const entityType = (formData.get('entityType') as AttachmentEntity | null) || null;
+    const entityId = (formData.get('entityId') as string | null) || null;
+    const category = (formData.get('category') as string | null) || null;
+
+    if (files.length === 0) {
+      return NextResponse.json({ error: 'No file uploaded' }, { status: 400 });
+    }
+
+    try {
+      const attachments: Awaited<ReturnType<typeof saveAttachment>>[] = [];
+      for (const file of files) {
+        attachments.push(await saveAttachment({
+          companyId: payload.companyId,
+          entityType,
+          entityId,
+          category,
+          fileName: file.name,
+          mimeType: file.type,
+          data: Buffer.from(await file.arrayBuffer()),
+          userId: payload.userId,
+        }));
+      }
+
+      return NextResponse.json({ attachments }, { status: 201 });
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to upload file' 
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Upload attachment error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { verifyJWT } from '@/lib/auth';
+import { capitaliseOverhaulInvoice, completeRotableOverhaul } from '@/lib/rotables';
 
 // GET /api/external-repairs - List external repairs
 export async function GET(request: NextRequest) {
@@ -27,6 +28,12 @@ export async function GET(request: NextRequest) {
       where,
       include: {
         asset: { select: { code: true, description: true } },
+        rotableUnit: {
+          select: {
+            serialNumber: true,
+            item: { select: { code: true, description: true } },
+          },
+        },
       },
       orderBy: { createdAt: 'desc' },
     });
@@ -134,6 +141,10 @@ export async function PUT(request: NextRequest) {
     let updatedRepair;
 
     if (action === 'receive') {
+      if (repair.receivedAt) {
+        return NextResponse.json({ error: 'Repair has already been received' }, { status: 400 });
+      }
+
       updatedRepair = await db.externalRepair.update({
         where: { id },
         data: {
@@ -150,9 +161,14 @@ export async function PUT(request: NextRequest) {
         include: { asset: { select: { code: true, description: true } } },
       });
 
-      await db.asset.update({ where: { id: repair.assetId }, data: { status: 'ACTIVE' } });
+      if (repair.assetId) {
+        await db.asset.update({ where: { id: repair.assetId }, data: { status: 'ACTIVE' } });
+      }
 
-      if (repair.jobId && invoiceAmount) {
+      // Rotable overhauls are capitalised to the unit, not charged to the job
+      if (repair.rotableUnitId) {
+        await completeRotableOverhaul(repair, invoiceAmount ? parseFloat(invoiceAmount) : 0, payload.userId);
+      } else if (repair.jobId && invoiceAmount) {
         await db.jobCostLog.create({
           data: {
             jobId: repair.jobId,
@@ -168,6 +184,10 @@ export async function PUT(request: NextRequest) {
         });
       }
     } else if (action === 'invoice') {
+      if (repair.rotableUnitId && repair.receivedAt) {
+        await capitaliseOverhaulInvoice(repair, invoiceAmount ? parseFloat(invoiceAmount) : 0, payload.userId);
+      }
+
       updatedRepair = await db.externalRepair.update({
         where: { id },
         data: {
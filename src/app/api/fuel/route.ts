@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { verifyJWT } from '@/lib/auth';
+import { linkAttachments } from '@/lib/attachments';
 import { addFuelCost } from '@/lib/costing';
+import { getSlaDueDates } from '@/lib/sla';
 
 // GET - List fuel issues
 export async function GET(request: NextRequest) {
@@ -231,6 +233,9 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await linkAttachments(payload.companyId, [meterPhotoUrl], 'FUEL_ISSUE', fuelIssue.id, 'METER');
+    await linkAttachments(payload.companyId, [dashboardPhotoUrl], 'FUEL_ISSUE', fuelIssue.id, 'DASHBOARD');
+
     // Update asset meter
     if (!meterBroken) {
       await db.asset.update({
@@ -261,6 +266,7 @@ export async function POST(request: NextRequest) {
             priority: 'HIGH',
             status: 'CREATED',
             createdById: payload.userId,
+            ...(await getSlaDueDates(payload.companyId, 'HIGH', 'CORRECTIVE')),
           },
         });
       }
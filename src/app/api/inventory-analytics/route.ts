@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+import {
+  DEFAULT_ANALYSIS_MONTHS,
+  DEFAULT_DEAD_STOCK_MONTHS,
+  classifyItemsByConsumption,
+  getDeadStock,
+  getInventoryTurnover,
+} from '@/lib/inventory-analytics';
+
+// GET - Inventory analytics: ABC/XYZ matrix, turnover and days of cover, or dead stock (?type=)
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'SUPERVISOR', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const type = searchParams.get('type') || 'classification';
+    const storeId = searchParams.get('storeId') || undefined;
+    const months = parseInt(searchParams.get('months') || '');
+
+    if (type === 'turnover') {
+      const turnover = await getInventoryTurnover(
+        payload.companyId,
+        months > 0 ? months : DEFAULT_ANALYSIS_MONTHS,
+        storeId
+      );
+
+      return NextResponse.json(turnover);
+    }
+
+    if (type === 'dead-stock') {
+      const deadStock = await getDeadStock(
+        payload.companyId,
+        months > 0 ? months : DEFAULT_DEAD_STOCK_MONTHS,
+        storeId
+      );
+
+      return NextResponse.json(deadStock);
+    }
+
+    if (type === 'classification') {
+      // The classes last persisted on the item master
+      const items = await db.item.findMany({
+        where: { companyId: payload.companyId, status: 'ACTIVE' },
+        select: {
+          id: true,
+          code: true,
+          description: true,
+          abcClass: true,
+          xyzClass: true,
+          classifiedAt: true,
+        },
+        orderBy: { code: 'asc' },
+      });
+
+      const matrix: Record<string, number> = {};
+      for (const item of items) {
+        const key = `${item.abcClass || '-'}${item.xyzClass || '-'}`;
+        matrix[key] = (matrix[key] || 0) + 1;
+      }
+
+      const classifiedAt = items.reduce<Date | null>(
+        (latest, item) => (item.classifiedAt && (!latest || item.classifiedAt > latest) ? item.classifiedAt : latest),
+        null
+      );
+
+      return NextResponse.json({ items, matrix, classifiedAt });
+    }
+
+    return NextResponse.json({ error: 'Invalid analytics type' }, { status: 400 });
+  } catch (error) {
+    console.error('Get inventory analytics error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Reclassify items ABC/XYZ from consumption history (Admin/Manager)
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const months = body.months ? Number(body.months) : DEFAULT_ANALYSIS_MONTHS;
+
+    try {
+      const result = await classifyItemsByConsumption(payload.companyId, months, payload.userId);
+
+      return NextResponse.json(result);
+    } catch (error) {
+      return NextResponse.json({
+        error: error instanceof Error ? error.message : 'Failed to classify items'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Classify items error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
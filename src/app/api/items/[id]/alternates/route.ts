@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+import { getAlternates, getSubstituteIds, linkAlternate, unlinkAlternate } from '@/lib/alternates';
+import { ItemAlternateType } from '@prisma/client';
+
+// GET - Alternates of an item (superseded by, supersedes, interchangeable), or what may be issued in its place (?substitutes=true)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const item = await db.item.findFirst({
+      where: {
+        id,
+        companyId: payload.companyId,
+      },
+    });
+
+    if (!item) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    if (searchParams.get('substitutes') === 'true') {
+      const substitutes = await db.item.findMany({
+        where: {
+          id: { in: await getSubstituteIds(id) },
+          companyId: payload.companyId,
+          status: 'ACTIVE',
+        },
+        select: {
+          id: true,
+          code: true,
+          description: true,
+          uom: true,
+          trackingType: true,
+        },
+        orderBy: { code: 'asc' },
+      });
+
+      return NextResponse.json({ substitutes });
+    }
+
+    const alternates = await getAlternates(id);
+
+    return NextResponse.json({ alternates });
+  } catch (error) {
+    console.error('Get item alternates error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Link an alternate: this item superseded by another, or interchangeable with it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { alternateItemId, type, notes } = body;
+
+    if (!alternateItemId || !type) {
+      return NextResponse.json({
+        error: 'Alternate item and type are required'
+      }, { status: 400 });
+    }
+
+    try {
+      const link = await linkAlternate({
+        companyId: payload.companyId,
+        itemId: id,
+        alternateItemId,
+        type: type as ItemAlternateType,
+        notes,
+        userId: payload.userId,
+      });
+
+      return NextResponse.json({ alternate: link }, { status: 201 });
+    } catch (error) {
+      return NextResponse.json({
+        error: error instanceof Error ? error.message : 'Failed to link alternate'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Link item alternate error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Remove an alternate link (?linkId=)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const linkId = searchParams.get('linkId');
+
+    if (!linkId) {
+      return NextResponse.json({ error: 'Link ID is required' }, { status: 400 });
+    }
+
+    try {
+      await unlinkAlternate(payload.companyId, id, linkId, payload.userId);
+    } catch (error) {
+      return NextResponse.json({
+        error: error instanceof Error ? error.message : 'Failed to remove alternate'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Remove item alternate error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
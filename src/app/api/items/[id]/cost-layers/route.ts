@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+import { getCostLayers } from '@/lib/cost-layers';
+
+// GET - Get open cost layers for an item (finance / storekeepers)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const storeId = searchParams.get('storeId') || undefined;
+
+    const item = await db.item.findFirst({
+      where: {
+        id,
+        companyId: payload.companyId,
+      },
+      select: {
+        id: true,
+        code: true,
+        description: true,
+        valuationMethod: true,
+        weightedAvgCost: true,
+        unitPrice: true,
+      },
+    });
+
+    if (!item) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+
+    const layers = await getCostLayers(id, storeId);
+    const totalQty = layers.reduce((sum, l) => sum + l.remainingQty, 0);
+    const totalValue = layers.reduce((sum, l) => sum + l.remainingQty * l.unitCost, 0);
+
+    return NextResponse.json({ item, layers, totalQty, totalValue });
+  } catch (error) {
+    console.error('Get cost layers error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { verifyJWT } from '@/lib/auth';
+import { evaluateStockLevel } from '@/lib/replenishment';
+import { setItemConversions, UomConversionInput, validateItemUoms } from '@/lib/uom';
 
 // GET - Get single item
 export async function GET(
@@ -26,6 +28,11 @@ export async function GET(
         id,
         companyId: payload.companyId,
       },
+      include: {
+        uomConversions: {
+          select: { uom: true, factor: true },
+        },
+      },
     });
 
     if (!item) {
@@ -62,9 +69,13 @@ export async function PUT(
       code, 
       description, 
       uom, 
+      purchaseUom,
+      issueUom,
+      uomConversions,
       category, 
       status, 
       valuationMethod,
+      trackingType,
       unitPrice,
       minStock,
       maxStock
@@ -75,6 +86,9 @@ export async function PUT(
         id,
         companyId: payload.companyId,
       },
+      include: {
+        uomConversions: true,
+      },
     });
 
     if (!existingItem) {
@@ -97,15 +111,40 @@ export async function PUT(
       }
     }
 
+    const nextUom = uom !== undefined ? uom || null : existingItem.uom;
+    const nextPurchaseUom = purchaseUom !== undefined ? purchaseUom || null : existingItem.purchaseUom;
+    const nextIssueUom = issueUom !== undefined ? issueUom || null : existingItem.issueUom;
+    const conversions: UomConversionInput[] = uomConversions !== undefined
+      ? (uomConversions || []).map(
+          (c: { uom: string; factor: number | string }) => ({ uom: c.uom, factor: parseFloat(String(c.factor)) })
+        )
+      : existingItem.uomConversions.map((c) => ({ uom: c.uom, factor: c.factor }));
+
+    try {
+      await validateItemUoms(payload.companyId, {
+        uom: nextUom,
+        purchaseUom: nextPurchaseUom,
+        issueUom: nextIssueUom,
+        conversions,
+      });
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Invalid units of measure' 
+      }, { status: 400 });
+    }
+
     const item = await db.item.update({
       where: { id },
       data: {
         code: code || existingItem.code,
         description: description || existingItem.description,
-        uom: uom !== undefined ? uom : existingItem.uom,
+        uom: nextUom,
+        purchaseUom: nextPurchaseUom,
+        issueUom: nextIssueUom,
         category: category !== undefined ? category : existingItem.category,
         status: status || existingItem.status,
         valuationMethod: valuationMethod || existingItem.valuationMethod,
+        trackingType: trackingType || existingItem.trackingType,
         unitPrice: unitPrice !== undefined ? (unitPrice ? parseFloat(unitPrice) : null) : existingItem.unitPrice,
         minStock: minStock !== undefined ? (minStock ? parseFloat(minStock) : null) : existingItem.minStock,
         maxStock: maxStock !== undefined ? (maxStock ? parseFloat(maxStock) : null) : existingItem.maxStock,
@@ -113,6 +152,21 @@ export async function PUT(
       },
     });
 
+    // Re-check LOW_STOCK alerts in every store when the minimum changes
+    if (item.minStock !== existingItem.minStock) {
+      const stockLevels = await db.itemStock.findMany({
+        where: { itemId: id },
+        select: { storeId: true },
+      });
+      for (const level of stockLevels) {
+        await evaluateStockLevel(id, level.storeId);
+      }
+    }
+
+    if (uomConversions !== undefined) {
+      await setItemConversions(id, conversions);
+    }
+
     return NextResponse.json({ item });
   } catch (error) {
     console.error('Update item error:', error);
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { verifyJWT } from '@/lib/auth';
+import { setItemConversions, UomConversionInput, validateItemUoms } from '@/lib/uom';
 
 // GET - List all items
 export async function GET(request: NextRequest) {
@@ -42,6 +43,11 @@ export async function GET(request: NextRequest) {
 
     const items = await db.item.findMany({
       where,
+      include: {
+        uomConversions: {
+          select: { uom: true, factor: true },
+        },
+      },
       orderBy: { createdAt: 'desc' },
     });
 
@@ -71,9 +77,13 @@ export async function POST(request: NextRequest) {
       code, 
       description, 
       uom, 
+      purchaseUom,
+      issueUom,
+      uomConversions,
       category, 
       status, 
       valuationMethod,
+      trackingType,
       unitPrice,
       minStock,
       maxStock
@@ -97,14 +107,34 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Item code already exists' }, { status: 400 });
     }
 
+    const conversions: UomConversionInput[] = (uomConversions || []).map(
+      (c: { uom: string; factor: number | string }) => ({ uom: c.uom, factor: parseFloat(String(c.factor)) })
+    );
+
+    try {
+      await validateItemUoms(payload.companyId, {
+        uom: uom || null,
+        purchaseUom: purchaseUom || null,
+        issueUom: issueUom || null,
+        conversions,
+      });
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Invalid units of measure' 
+      }, { status: 400 });
+    }
+
     const item = await db.item.create({
       data: {
         code,
         description,
         uom,
+        purchaseUom: purchaseUom || null,
+        issueUom: issueUom || null,
         category,
         status: status || 'ACTIVE',
         valuationMethod: valuationMethod || 'WEIGHTED_AVERAGE',
+        trackingType: trackingType || 'NONE',
         unitPrice: unitPrice ? parseFloat(unitPrice) : null,
         minStock: minStock ? parseFloat(minStock) : null,
         maxStock: maxStock ? parseFloat(maxStock) : null,
@@ -113,6 +143,8 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await setItemConversions(item.id, conversions);
+
     return NextResponse.json({ item }, { status: 201 });
   } catch (error) {
     console.error('Create item error:', error);
@@ -42,14 +42,44 @@ export async function GET(request: NextRequest) {
         code: true,
         description: true,
         uom: true,
+        issueUom: true,
         category: true,
         barcode: true,
+        uomConversions: {
+          select: { uom: true, factor: true },
+        },
+        alternates: {
+          where: { alternateItem: { status: 'ACTIVE' } },
+          select: {
+            type: true,
+            alternateItem: { select: { id: true, code: true, description: true } },
+          },
+        },
+        alternateOf: {
+          where: { type: 'INTERCHANGEABLE', item: { status: 'ACTIVE' } },
+          select: {
+            type: true,
+            item: { select: { id: true, code: true, description: true } },
+          },
+        },
       },
       take: 20,
       orderBy: { description: 'asc' },
     });
 
-    return NextResponse.json({ items });
+    // Superseding part numbers and interchangeable brands, so the picker can offer them
+    const results = items.map(({ alternates, alternateOf, ...item }) => ({
+      ...item,
+      alternates: [
+        ...alternates.map((a) => ({
+          ...a.alternateItem,
+          relation: a.type === 'SUPERSESSION' ? 'SUPERSEDED_BY' : 'INTERCHANGEABLE',
+        })),
+        ...alternateOf.map((a) => ({ ...a.item, relation: 'INTERCHANGEABLE' })),
+      ],
+    }));
+
+    return NextResponse.json({ items: results });
   } catch (error) {
     console.error('Blind item search error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT } from '@/lib/auth';
+import { clockOff, clockOn } from '@/lib/time-entries';
+
+// POST - Clock on to or off a job (technicians themselves; supervisors may clock someone off)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'SUPERVISOR', 'TECHNICIAN'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { action, userId, notes } = body;
+
+    const technicianId = userId || payload.userId;
+    if (technicianId !== payload.userId && (action !== 'off' || payload.role === 'TECHNICIAN')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    let entry;
+    try {
+      if (action === 'on') {
+        entry = await clockOn(payload.companyId, id, technicianId, notes);
+      } else if (action === 'off') {
+        entry = await clockOff(payload.companyId, id, technicianId, payload.userId);
+      } else {
+        return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+      }
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to clock ' + action 
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({ entry });
+  } catch (error) {
+    console.error('Clock on/off error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
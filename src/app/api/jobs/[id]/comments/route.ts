@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT } from '@/lib/auth';
+import { addJobComment } from '@/lib/job-timeline';
+
+// POST - Comment on a job (@Full Name or @email-name notifies that user)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    try {
+      const comment = await addJobComment(payload.companyId, id, payload.userId, body.body);
+
+      return NextResponse.json({ comment }, { status: 201 });
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to add comment' 
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Add job comment error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -39,6 +39,10 @@ export async function GET(
             hourlyRate: true,
           },
         },
+        timeEntries: {
+          where: { status: 'APPROVED' },
+          select: { hours: true, laborCost: true },
+        },
       },
     });
 
@@ -48,9 +52,15 @@ export async function GET(
 
     const breakdown = await getJobCostBreakdown(id);
 
-    // Calculate labor hours
+    // Calculate labor hours (booked time entries, else the assignee's elapsed time)
     let laborHours = 0;
-    if (job.startedAt) {
+    let hourlyRate = job.assignedTo?.hourlyRate || 0;
+    if (job.timeEntries.length > 0) {
+      laborHours = job.timeEntries.reduce((sum, entry) => sum + (entry.hours || 0), 0);
+      hourlyRate = laborHours > 0
+        ? job.timeEntries.reduce((sum, entry) => sum + (entry.laborCost || 0), 0) / laborHours
+        : 0;
+    } else if (job.startedAt) {
       const startTime = new Date(job.startedAt).getTime();
       const endTime = job.completedAt ? new Date(job.completedAt).getTime() : Date.now();
       const totalSeconds = (endTime - startTime) / 1000;
@@ -65,7 +75,7 @@ export async function GET(
       },
       breakdown,
       laborHours,
-      hourlyRate: job.assignedTo?.hourlyRate || 0,
+      hourlyRate,
       costLogs: job.costLogs,
       costSnapshot: job.costSnapshot,
     });
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { verifyJWT } from '@/lib/auth';
+import { recordJobStatusEvent } from '@/lib/job-timeline';
+import { linkAttachments } from '@/lib/attachments';
+import { releaseJobReservations } from '@/lib/reservations';
+import { getJobSlaState, getSlaDueDates } from '@/lib/sla';
 
 // GET - Get single job
 export async function GET(
@@ -59,6 +63,33 @@ export async function GET(
             store: true,
           },
         },
+        tasks: {
+          orderBy: { sequence: 'asc' },
+        },
+        parentJob: {
+          select: {
+            id: true,
+            title: true,
+            status: true,
+          },
+        },
+        childJobs: {
+          where: { isVoid: false },
+          select: {
+            id: true,
+            title: true,
+            status: true,
+            priority: true,
+            totalCost: true,
+            assignedTo: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
       },
     });
 
@@ -66,7 +97,7 @@ export async function GET(
       return NextResponse.json({ error: 'Job not found' }, { status: 404 });
     }
 
-    return NextResponse.json({ job });
+    return NextResponse.json({ job, sla: getJobSlaState(job) });
   } catch (error) {
     console.error('Get job error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -99,6 +130,7 @@ export async function PUT(
       assignedToId,
       closureNotes,
       afterPhotos,
+      estimatedMinutes,
     } = body;
 
     const existingJob = await db.job.findFirst({
@@ -119,6 +151,14 @@ export async function PUT(
     if (title) updateData.title = title;
     if (description !== undefined) updateData.description = description;
     if (priority) updateData.priority = priority;
+
+    // A new priority moves the SLA due times, still measured from creation
+    if (priority && priority !== existingJob.priority) {
+      Object.assign(
+        updateData,
+        await getSlaDueDates(payload.companyId, priority, existingJob.type, existingJob.createdAt)
+      );
+    }
     if (assignedToId !== undefined) {
       updateData.assignedToId = assignedToId;
       if (assignedToId && existingJob.status === 'CREATED') {
@@ -126,6 +166,9 @@ export async function PUT(
       }
     }
     if (closureNotes !== undefined) updateData.closureNotes = closureNotes;
+    if (estimatedMinutes !== undefined) {
+      updateData.estimatedMinutes = estimatedMinutes ? Math.round(estimatedMinutes) : null;
+    }
     if (afterPhotos) updateData.afterPhotos = JSON.stringify(afterPhotos);
 
     const job = await db.job.update({
@@ -142,8 +185,21 @@ export async function PUT(
       },
     });
 
+    if (Array.isArray(afterPhotos)) {
+      await linkAttachments(payload.companyId, afterPhotos, 'JOB', id, 'AFTER');
+    }
+
     // Notify if assigned
     if (assignedToId && assignedToId !== existingJob.assignedToId) {
+      await recordJobStatusEvent({
+        jobId: id,
+        fromStatus: existingJob.status,
+        toStatus: job.status,
+        action: existingJob.assignedToId ? 'reassign' : 'assign',
+        reason: `Assigned to ${job.assignedTo?.name}`,
+        userId: payload.userId,
+      });
+
       await db.notification.create({
         data: {
           userId: assignedToId,
@@ -199,6 +255,9 @@ export async function DELETE(
       }, { status: 400 });
     }
 
+    // Reserved stock must be handed back before the job's requests are deleted with it
+    await releaseJobReservations(id, 'Job deleted', payload.userId);
+
     await db.job.delete({
       where: { id },
     });
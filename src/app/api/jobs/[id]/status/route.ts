@@ -2,6 +2,13 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { verifyJWT } from '@/lib/auth';
 import { calculateLaborCost, canCloseJob, createCostSnapshot } from '@/lib/costing';
+import { releaseJobReservations } from '@/lib/reservations';
+import { clockOffJob } from '@/lib/time-entries';
+import { getOpenMandatoryTasks } from '@/lib/job-tasks';
+import { recordJobStatusEvent } from '@/lib/job-timeline';
+import { linkAttachments } from '@/lib/attachments';
+import { getAssignableTechnician } from '@/lib/scheduling';
+import { PARENT_JOB_ACTIONS, syncParentJobStatus } from '@/lib/sub-jobs';
 
 // POST - Update job status with workflow
 export async function POST(
@@ -22,7 +29,7 @@ export async function POST(
 
     const { id } = await params;
     const body = await request.json();
-    const { action, notes, safetyPhotoUrl } = body;
+    const { action, notes, reason, safetyPhotoUrl, assignedToId, scheduledStart, estimatedMinutes } = body;
 
     const job = await db.job.findFirst({
       where: {
@@ -46,6 +53,10 @@ export async function POST(
             lines: true,
           },
         },
+        childJobs: {
+          where: { isVoid: false },
+          select: { status: true },
+        },
       },
     });
 
@@ -56,7 +67,7 @@ export async function POST(
     // Define valid status transitions
     const transitions: Record<string, string[]> = {
       'CREATED': ['ASSIGNED', 'CANCELLED'],
-      'ASSIGNED': ['IN_PROGRESS', 'CANCELLED'],
+      'ASSIGNED': ['ASSIGNED', 'IN_PROGRESS', 'CANCELLED'], // Reassign or reschedule
       'IN_PROGRESS': ['PAUSED', 'COMPLETED'],
       'PAUSED': ['IN_PROGRESS', 'CANCELLED'],
       'COMPLETED': ['CLOSED'],
@@ -84,6 +95,32 @@ export async function POST(
       }, { status: 400 });
     }
 
+    // A parent's work happens on its sub-jobs, which drive its status
+    if (job.childJobs.length > 0) {
+      if (!PARENT_JOB_ACTIONS.includes(action)) {
+        return NextResponse.json({ 
+          error: `Cannot ${action} a job with sub-jobs; its status follows its sub-jobs`,
+          code: 'PARENT_JOB',
+        }, { status: 400 });
+      }
+
+      const openChildren = job.childJobs.filter((c) => c.status !== 'CLOSED' && c.status !== 'CANCELLED');
+      if (action === 'cancel' && openChildren.length > 0) {
+        return NextResponse.json({ 
+          error: `${openChildren.length} sub-job(s) must be closed or cancelled first.`,
+          code: 'PARENT_JOB',
+        }, { status: 400 });
+      }
+
+      const unfinishedChildren = openChildren.filter((c) => c.status !== 'COMPLETED');
+      if (action === 'complete' && unfinishedChildren.length > 0) {
+        return NextResponse.json({ 
+          error: `${unfinishedChildren.length} sub-job(s) must be completed first.`,
+          code: 'PARENT_JOB',
+        }, { status: 400 });
+      }
+    }
+
     // Check for pending item returns before completing
     if (action === 'complete') {
       const pendingReturns = job.itemRequests.some(req => 
@@ -110,6 +147,16 @@ export async function POST(
           code: 'SAFETY_PHOTO_REQUIRED',
         }, { status: 400 });
       }
+
+      // Check mandatory checklist steps
+      const openTasks = await getOpenMandatoryTasks(id);
+      if (openTasks.length > 0) {
+        return NextResponse.json({ 
+          error: `Cannot complete job with open mandatory steps: ${openTasks.map((t) => `${t.sequence}. ${t.title}`).join(', ')}`,
+          code: 'TASKS_INCOMPLETE',
+          openTasks,
+        }, { status: 400 });
+      }
     }
 
     // Check for job closure requirements
@@ -127,9 +174,44 @@ export async function POST(
       status: newStatus,
       updatedBy: payload.userId,
     };
+    let assignReason: string | null = null;
 
     // Add timestamps based on action
     switch (action) {
+      case 'assign': {
+        const technicianId = assignedToId || job.assignedToId;
+        if (!technicianId) {
+          return NextResponse.json({ error: 'A technician is required to assign a job' }, { status: 400 });
+        }
+
+        let technician;
+        try {
+          technician = await getAssignableTechnician(payload.companyId, technicianId);
+        } catch (error) {
+          return NextResponse.json({ 
+            error: error instanceof Error ? error.message : 'Invalid technician' 
+          }, { status: 400 });
+        }
+        updateData.assignedToId = technician.id;
+        assignReason = `Assigned to ${technician.name}`;
+
+        if (scheduledStart !== undefined) {
+          const start = scheduledStart ? new Date(scheduledStart) : null;
+          if (start && isNaN(start.getTime())) {
+            return NextResponse.json({ error: 'Invalid scheduled start' }, { status: 400 });
+          }
+          updateData.scheduledStart = start;
+          if (start) assignReason += ` for ${start.toLocaleDateString()}`;
+        }
+
+        if (estimatedMinutes !== undefined && estimatedMinutes !== null) {
+          if (!Number.isInteger(estimatedMinutes) || estimatedMinutes <= 0) {
+            return NextResponse.json({ error: 'Estimate must be a whole number of minutes' }, { status: 400 });
+          }
+          updateData.estimatedMinutes = estimatedMinutes;
+        }
+        break;
+      }
       case 'start':
         updateData.startedAt = new Date();
         break;
@@ -170,6 +252,36 @@ export async function POST(
       },
     });
 
+    if (safetyPhotoUrl) {
+      await linkAttachments(payload.companyId, [safetyPhotoUrl], 'JOB', id, 'SAFETY');
+    }
+
+    await recordJobStatusEvent({
+      jobId: id,
+      fromStatus: job.status,
+      toStatus: updatedJob.status,
+      action,
+      reason: reason || notes || assignReason,
+      userId: payload.userId,
+    });
+
+    if (action === 'assign' && updatedJob.assignedToId !== job.assignedToId) {
+      await db.notification.create({
+        data: {
+          userId: updatedJob.assignedToId!,
+          title: 'Job Assigned',
+          message: `Job "${job.title}" has been assigned to you`,
+          type: 'JOB_ASSIGNED',
+          referenceId: job.id,
+        },
+      });
+    }
+
+    // Nobody stays clocked on to a paused or completed job
+    if (action === 'pause' || action === 'complete') {
+      await clockOffJob(id, payload.userId);
+    }
+
     // Calculate labor cost on completion
     if (action === 'complete') {
       await calculateLaborCost(id, payload.userId);
@@ -180,6 +292,24 @@ export async function POST(
       await createCostSnapshot(id, payload.userId);
     }
 
+    // Void open requests of a cancelled job and release their reserved stock
+    if (action === 'cancel') {
+      await releaseJobReservations(id, 'Job cancelled', payload.userId);
+      await db.itemRequest.updateMany({
+        where: {
+          jobId: id,
+          status: { in: ['PENDING', 'APPROVED'] },
+        },
+        data: {
+          status: 'CANCELLED',
+          isVoid: true,
+          voidedAt: new Date(),
+          voidedById: payload.userId,
+          updatedBy: payload.userId,
+        },
+      });
+    }
+
     // Create notifications
     if (action === 'complete') {
       const supervisors = await db.user.findMany({
@@ -203,6 +333,10 @@ export async function POST(
       }
     }
 
+    if (job.parentJobId) {
+      await syncParentJobStatus(job.parentJobId, payload.userId);
+    }
+
     return NextResponse.json({ job: updatedJob });
   } catch (error) {
     console.error('Update job status error:', error);
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT } from '@/lib/auth';
+import { createSubJob } from '@/lib/sub-jobs';
+
+// POST - Add a sub-job, optionally splitting item requests and costs off the job
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'SUPERVISOR'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { title, description, assignedToId, priority, estimatedMinutes, itemRequestIds, costLogIds } = body;
+
+    try {
+      const job = await createSubJob(payload.companyId, id, {
+        title,
+        description,
+        assignedToId,
+        priority,
+        estimatedMinutes,
+        itemRequestIds,
+        costLogIds,
+      }, payload.userId);
+
+      return NextResponse.json({ job }, { status: 201 });
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to create sub-job' 
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Create sub-job error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
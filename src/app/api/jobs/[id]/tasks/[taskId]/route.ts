@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT } from '@/lib/auth';
+import { recordJobTask } from '@/lib/job-tasks';
+
+// POST - Record a checklist step: complete (with check result, reading, photo), skip or reopen
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; taskId: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'SUPERVISOR', 'TECHNICIAN'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id, taskId } = await params;
+    const body = await request.json();
+    const { action, passed, readingValue, photoUrl, notes } = body;
+
+    try {
+      const task = await recordJobTask(
+        payload.companyId,
+        id,
+        taskId,
+        { action, passed, readingValue, photoUrl, notes },
+        payload.userId
+      );
+
+      return NextResponse.json({ task });
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to record task' 
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Record job task error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
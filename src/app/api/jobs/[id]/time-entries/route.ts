@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+import { createManualEntry } from '@/lib/time-entries';
+
+// GET - Labour time entries booked on a job
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const entries = await db.jobTimeEntry.findMany({
+      where: {
+        jobId: id,
+        companyId: payload.companyId,
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        approvedBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: { startedAt: 'asc' },
+    });
+
+    const approved = entries.filter((e) => e.status === 'APPROVED');
+    const summary = {
+      approvedHours: approved.reduce((sum, e) => sum + (e.hours || 0), 0),
+      laborCost: approved.reduce((sum, e) => sum + (e.laborCost || 0), 0),
+      pending: entries.filter((e) => e.status === 'PENDING_APPROVAL').length,
+      clockedOn: entries.filter((e) => e.status === 'OPEN').map((e) => e.user),
+    };
+
+    return NextResponse.json({ entries, summary });
+  } catch (error) {
+    console.error('Get time entries error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Enter time worked after the fact, for supervisor approval
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'SUPERVISOR', 'TECHNICIAN'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { userId, startedAt, endedAt, notes } = body;
+
+    if (!startedAt || !endedAt) {
+      return NextResponse.json({ error: 'Start and end time are required' }, { status: 400 });
+    }
+
+    // Technicians enter their own time; supervisors may enter it for anyone
+    const technicianId = userId || payload.userId;
+    if (payload.role === 'TECHNICIAN' && technicianId !== payload.userId) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    try {
+      const entry = await createManualEntry({
+        companyId: payload.companyId,
+        jobId: id,
+        userId: technicianId,
+        startedAt: new Date(startedAt),
+        endedAt: new Date(endedAt),
+        notes,
+        createdBy: payload.userId,
+      });
+
+      return NextResponse.json({ entry }, { status: 201 });
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to enter time' 
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Create time entry error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
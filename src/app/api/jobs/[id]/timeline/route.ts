@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT } from '@/lib/auth';
+import { getJobTimeline } from '@/lib/job-timeline';
+
+// GET - Job activity: status history, comments and linked stores / fuel / downtime / repair events
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    try {
+      const timeline = await getJobTimeline(payload.companyId, id);
+
+      return NextResponse.json({ timeline });
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to load timeline' 
+      }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Get job timeline error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { verifyJWT } from '@/lib/auth';
+import { applyJobTaskTemplate } from '@/lib/job-tasks';
+import { linkAttachments } from '@/lib/attachments';
+import { getSlaDueDates } from '@/lib/sla';
+import { getJobEstimateMinutes } from '@/lib/scheduling';
 
 // GET - List jobs with filters
 export async function GET(request: NextRequest) {
@@ -68,6 +72,11 @@ export async function GET(request: NextRequest) {
             name: true,
           },
         },
+        pmSchedule: {
+          select: {
+            estimatedDuration: true,
+          },
+        },
         itemRequests: {
           include: {
             lines: {
@@ -88,7 +97,9 @@ export async function GET(request: NextRequest) {
       orderBy: { createdAt: 'desc' },
     });
 
-    return NextResponse.json({ jobs });
+    return NextResponse.json({
+      jobs: jobs.map((job) => ({ ...job, estimateMinutes: getJobEstimateMinutes(job) })),
+    });
   } catch (error) {
     console.error('Get jobs error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -120,6 +131,7 @@ export async function POST(request: NextRequest) {
       assignedToId,
       beforePhotos,
       localId,
+      estimatedMinutes,
     } = body;
 
     if (!assetId || !title) {
@@ -138,6 +150,10 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Asset not found' }, { status: 404 });
     }
 
+    const jobPriority = priority || 'MEDIUM';
+    const jobType = type || 'BREAKDOWN';
+    const slaDueDates = await getSlaDueDates(payload.companyId, jobPriority, jobType);
+
     const job = await db.job.create({
       data: {
         companyId: payload.companyId,
@@ -147,9 +163,11 @@ export async function POST(request: NextRequest) {
         assignedToId,
         title,
         description,
-        priority: priority || 'MEDIUM',
-        type: type || 'BREAKDOWN',
+        priority: jobPriority,
+        type: jobType,
         status: assignedToId ? 'ASSIGNED' : 'CREATED',
+        estimatedMinutes: estimatedMinutes ? Math.round(estimatedMinutes) : null,
+        ...slaDueDates,
         beforePhotos: beforePhotos ? JSON.stringify(beforePhotos) : null,
         localId,
         syncStatus: 'SYNCED',
@@ -167,6 +185,13 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    if (Array.isArray(beforePhotos)) {
+      await linkAttachments(payload.companyId, beforePhotos, 'JOB', job.id, 'BEFORE');
+    }
+
+    // Copy the failure type's checklist into the job
+    await applyJobTaskTemplate(job, payload.userId);
+
     // Create notification for supervisor if assigned
     if (assignedToId) {
       await db.notification.create({
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT } from '@/lib/auth';
+import {
+  LABEL_STOCKS,
+  LabelEntity,
+  getLabelData,
+  renderLabelsPdf,
+  renderLabelsZpl,
+} from '@/lib/labels';
+
+// GET - Label stocks (sheet and thermal roll templates)
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    return NextResponse.json({
+      stocks: LABEL_STOCKS.map(({ id, name, kind }) => ({ id, name, kind })),
+    });
+  } catch (error) {
+    console.error('Get label stocks error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Render item, asset or bin labels as a PDF sheet or ZPL file
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { entity, ids, storeId, format = 'pdf', stock, copies } = body;
+
+    if (!entity || !stock) {
+      return NextResponse.json({
+        error: 'Label type and label stock are required'
+      }, { status: 400 });
+    }
+
+    if (!['pdf', 'zpl'].includes(format)) {
+      return NextResponse.json({ error: 'Format must be pdf or zpl' }, { status: 400 });
+    }
+
+    const copyCount = Math.min(Math.max(parseInt(copies) || 1, 1), 100);
+    const filename = `${String(entity).toLowerCase()}-labels-${new Date().toISOString().slice(0, 10)}`;
+
+    try {
+      const labels = await getLabelData({
+        companyId: payload.companyId,
+        entity: entity as LabelEntity,
+        ids: Array.isArray(ids) ? ids : undefined,
+        storeId: storeId || undefined,
+      });
+
+      if (labels.length === 0) {
+        return NextResponse.json({ error: 'Nothing to label' }, { status: 400 });
+      }
+
+      if (format === 'zpl') {
+        return new NextResponse(renderLabelsZpl(labels, stock, copyCount), {
+          headers: {
+            'Content-Type': 'application/zpl',
+            'Content-Disposition': `attachment; filename="${filename}.zpl"`,
+          },
+        });
+      }
+
+      const pdf = await renderLabelsPdf(labels, stock, copyCount);
+
+      return new NextResponse(Buffer.from(pdf), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${filename}.pdf"`,
+        },
+      });
+    } catch (error) {
+      return NextResponse.json({
+        error: error instanceof Error ? error.message : 'Failed to render labels'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Print labels error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { verifyJWT } from '@/lib/auth';
+import { linkAttachments } from '@/lib/attachments';
 
 // GET /api/meter-readings - List meter readings
 export async function GET(request: NextRequest) {
@@ -130,6 +131,8 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await linkAttachments(payload.companyId, [photoUrl], 'METER_READING', meterReading.id, 'METER');
+
     // Update asset current meter
     await db.asset.update({
       where: { id: assetId },
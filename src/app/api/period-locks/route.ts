@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { verifyJWT } from '@/lib/auth';
+import { getClosingInventoryValue } from '@/lib/valuation';
 
 // GET /api/period-locks - List period locks
 export async function GET(request: NextRequest) {
@@ -116,6 +117,8 @@ export async function POST(request: NextRequest) {
         },
       });
 
+      const closingInventoryValue = await getClosingInventoryValue(payload.companyId, year, month);
+
       const lock = await db.periodLock.upsert({
         where: {
           companyId_year_month: { companyId: payload.companyId, year, month },
@@ -125,10 +128,12 @@ export async function POST(request: NextRequest) {
           lockedAt: new Date(),
           lockedById: payload.userId,
           totalMaterialCost, totalLaborCost, totalFuelCost, totalExternalCost, totalCost, jobsClosed: closedJobs,
+          closingInventoryValue,
         },
         create: {
           companyId: payload.companyId, year, month, isLocked: true, lockedAt: new Date(), lockedById: payload.userId,
           totalMaterialCost, totalLaborCost, totalFuelCost, totalExternalCost, totalCost, jobsClosed: closedJobs,
+          closingInventoryValue,
         },
       });
 
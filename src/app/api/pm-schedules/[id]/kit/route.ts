@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT } from '@/lib/auth';
+import { PMKitLineInput, setPMKit } from '@/lib/pm-engine';
+
+// PUT /api/pm-schedules/:id/kit - Replace the parts kit requested for each generated PM job
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'SUPERVISOR'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { storeId, lines } = body;
+
+    if (!Array.isArray(lines)) {
+      return NextResponse.json({ error: 'Kit lines are required' }, { status: 400 });
+    }
+
+    try {
+      const schedule = await setPMKit(
+        payload.companyId,
+        id,
+        storeId || null,
+        (lines as PMKitLineInput[]).map((line) => ({
+          itemId: line.itemId,
+          quantity: Number(line.quantity),
+          uom: line.uom || null,
+        })),
+        payload.userId
+      );
+
+      return NextResponse.json(schedule);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Failed to save parts kit' },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Error saving PM kit:', error);
+    return NextResponse.json(
+      { error: 'Failed to save PM kit' },
+      { status: 500 }
+    );
+  }
+}
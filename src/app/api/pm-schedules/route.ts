@@ -42,6 +42,24 @@ export async function GET(request: NextRequest) {
             status: true,
           },
         },
+        kitStore: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        kitLines: {
+          include: {
+            item: {
+              select: {
+                id: true,
+                code: true,
+                description: true,
+                uom: true,
+              },
+            },
+          },
+        },
       },
       orderBy: { createdAt: 'desc' },
     });
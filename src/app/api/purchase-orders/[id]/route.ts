@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+import {
+  approvePurchaseOrder,
+  cancelPurchaseOrder,
+  closePurchaseOrder,
+  receivePurchaseOrder,
+} from '@/lib/procurement';
+import { parseSerialNumbers } from '@/lib/tracking';
+
+// GET - Get single purchase order with receipts and invoices
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const order = await db.purchaseOrder.findFirst({
+      where: {
+        id,
+        companyId: payload.companyId,
+      },
+      include: {
+        supplier: true,
+        store: true,
+        requisition: {
+          select: {
+            id: true,
+            requisitionNumber: true,
+          },
+        },
+        lines: {
+          include: {
+            item: true,
+          },
+        },
+        receipts: {
+          select: {
+            id: true,
+            receiptNumber: true,
+            receivedAt: true,
+            totalValue: true,
+          },
+        },
+        invoices: {
+          select: {
+            id: true,
+            invoiceNumber: true,
+            invoiceDate: true,
+            status: true,
+            totalAmount: true,
+            matchNotes: true,
+          },
+        },
+      },
+    });
+
+    if (!order) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ order });
+  } catch (error) {
+    console.error('Get purchase order error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Approve, cancel, close or receive against a purchase order
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { action, lines, supplierReference, notes } = body;
+
+    // Only managers/admins may change the commitment
+    if (['approve', 'cancel', 'close'].includes(action) && !['ADMIN', 'MANAGER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    try {
+      if (action === 'approve') {
+        const order = await approvePurchaseOrder(id, payload.companyId, payload.userId, payload.role);
+        return NextResponse.json({ order });
+      } else if (action === 'cancel') {
+        const order = await cancelPurchaseOrder(id, payload.companyId, payload.userId);
+        return NextResponse.json({ order });
+      } else if (action === 'close') {
+        const order = await closePurchaseOrder(id, payload.companyId, payload.userId);
+        return NextResponse.json({ order });
+      } else if (action === 'receive') {
+        const receipt = await receivePurchaseOrder(
+          id,
+          payload.companyId,
+          payload.userId,
+          (lines || []).map((line: {
+            orderLineId: string;
+            quantity: number;
+            serialNumbers?: string[] | string;
+            batchNumber?: string;
+            expiryDate?: string;
+          }) => ({
+            orderLineId: line.orderLineId,
+            quantity: parseFloat(String(line.quantity)),
+            serialNumbers: parseSerialNumbers(line.serialNumbers),
+            batchNumber: line.batchNumber?.trim() || undefined,
+            expiryDate: line.expiryDate ? new Date(line.expiryDate) : null,
+          })),
+          supplierReference,
+          notes
+        );
+        return NextResponse.json({ receipt }, { status: 201 });
+      }
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to update purchase order' 
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+  } catch (error) {
+    console.error('Update purchase order error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+import { createPurchaseOrder } from '@/lib/procurement';
+
+// GET - List purchase orders
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const supplierId = searchParams.get('supplierId');
+    const storeId = searchParams.get('storeId');
+
+    const where: Record<string, unknown> = {
+      companyId: payload.companyId,
+    };
+
+    if (status) {
+      where.status = { in: status.split(',') };
+    }
+
+    if (supplierId) {
+      where.supplierId = supplierId;
+    }
+
+    if (storeId) {
+      where.storeId = storeId;
+    }
+
+    const orders = await db.purchaseOrder.findMany({
+      where,
+      include: {
+        supplier: {
+          select: {
+            id: true,
+            code: true,
+            name: true,
+          },
+        },
+        store: {
+          select: {
+            id: true,
+            name: true,
+            code: true,
+          },
+        },
+        lines: {
+          include: {
+            item: {
+              select: {
+                id: true,
+                code: true,
+                description: true,
+                uom: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: { orderDate: 'desc' },
+    });
+
+    return NextResponse.json({ orders });
+  } catch (error) {
+    console.error('Get purchase orders error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Create purchase order (DRAFT)
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { supplierId, storeId, requisitionId, expectedDeliveryDate, notes, lines } = body;
+
+    if (!supplierId || !storeId || !lines || lines.length === 0) {
+      return NextResponse.json({ 
+        error: 'Supplier, delivery store and at least one item are required' 
+      }, { status: 400 });
+    }
+
+    let order;
+    try {
+      order = await createPurchaseOrder({
+        companyId: payload.companyId,
+        supplierId,
+        storeId,
+        requisitionId,
+        expectedDeliveryDate: expectedDeliveryDate ? new Date(expectedDeliveryDate) : undefined,
+        notes,
+        lines: lines.map((line: { itemId: string; quantity: number; unitPrice: number; uom?: string }) => ({
+          itemId: line.itemId,
+          quantity: parseFloat(String(line.quantity)),
+          unitPrice: parseFloat(String(line.unitPrice)),
+          uom: line.uom || null,
+        })),
+        userId: payload.userId,
+      });
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to create purchase order' 
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({ order }, { status: 201 });
+  } catch (error) {
+    console.error('Create purchase order error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
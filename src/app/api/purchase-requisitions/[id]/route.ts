@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+import { decideRequisition } from '@/lib/procurement';
+
+// GET - Get single purchase requisition
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const requisition = await db.purchaseRequisition.findFirst({
+      where: {
+        id,
+        companyId: payload.companyId,
+      },
+      include: {
+        store: true,
+        requestedBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        lines: {
+          include: {
+            item: true,
+          },
+        },
+        purchaseOrders: {
+          select: {
+            id: true,
+            poNumber: true,
+            status: true,
+          },
+        },
+      },
+    });
+
+    if (!requisition) {
+      return NextResponse.json({ error: 'Requisition not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ requisition });
+  } catch (error) {
+    console.error('Get requisition error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Approve or reject a purchase requisition (Manager/Admin within limit)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { action, reason } = body;
+
+    if (!['approve', 'reject'].includes(action)) {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+
+    let requisition;
+    try {
+      requisition = await decideRequisition(
+        id,
+        payload.companyId,
+        payload.userId,
+        payload.role,
+        action === 'approve',
+        reason
+      );
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to update requisition' 
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({ requisition });
+  } catch (error) {
+    console.error('Update requisition error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+import { createRequisition, createRequisitionsFromReorder } from '@/lib/procurement';
+
+// GET - List purchase requisitions
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const storeId = searchParams.get('storeId');
+
+    const where: Record<string, unknown> = {
+      companyId: payload.companyId,
+    };
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (storeId) {
+      where.storeId = storeId;
+    }
+
+    const requisitions = await db.purchaseRequisition.findMany({
+      where,
+      include: {
+        store: {
+          select: {
+            id: true,
+            name: true,
+            code: true,
+          },
+        },
+        requestedBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        lines: {
+          include: {
+            item: {
+              select: {
+                id: true,
+                code: true,
+                description: true,
+                uom: true,
+                purchaseUom: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({ requisitions });
+  } catch (error) {
+    console.error('Get requisitions error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Create purchase requisition (or raise from reorder proposals)
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { storeId, notes, lines, fromReorder } = body;
+
+    try {
+      if (fromReorder) {
+        const requisitions = await createRequisitionsFromReorder(
+          payload.companyId,
+          payload.userId,
+          storeId
+        );
+        return NextResponse.json({ requisitions }, { status: 201 });
+      }
+
+      if (!storeId || !lines || lines.length === 0) {
+        return NextResponse.json({ 
+          error: 'Store and at least one item are required' 
+        }, { status: 400 });
+      }
+
+      const requisition = await createRequisition({
+        companyId: payload.companyId,
+        storeId,
+        notes,
+        lines: lines.map((line: { itemId: string; quantity: number; estimatedUnitCost?: number }) => ({
+          itemId: line.itemId,
+          quantity: parseFloat(String(line.quantity)),
+          estimatedUnitCost: line.estimatedUnitCost !== undefined
+            ? parseFloat(String(line.estimatedUnitCost))
+            : undefined,
+        })),
+        userId: payload.userId,
+      });
+
+      return NextResponse.json({ requisition }, { status: 201 });
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to create requisition' 
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Create requisition error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
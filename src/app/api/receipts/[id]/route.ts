@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+
+// GET - Get single goods receipt
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const receipt = await db.goodsReceipt.findFirst({
+      where: {
+        id,
+        companyId: payload.companyId,
+      },
+      include: {
+        store: true,
+        receivedBy: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        lines: {
+          include: {
+            item: true,
+          },
+        },
+      },
+    });
+
+    if (!receipt) {
+      return NextResponse.json({ error: 'Receipt not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ receipt });
+  } catch (error) {
+    console.error('Get receipt error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+import { postGoodsReceipt } from '@/lib/inventory';
+import { parseSerialNumbers } from '@/lib/tracking';
+
+// GET - List goods receipts
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    // Receipts expose costs, so restrict to store and management roles
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const storeId = searchParams.get('storeId');
+    const itemId = searchParams.get('itemId');
+    const search = searchParams.get('search');
+
+    const where: Record<string, unknown> = {
+      companyId: payload.companyId,
+    };
+
+    if (storeId) {
+      where.storeId = storeId;
+    }
+
+    if (itemId) {
+      where.lines = { some: { itemId } };
+    }
+
+    if (search) {
+      where.OR = [
+        { receiptNumber: { contains: search } },
+        { supplierName: { contains: search } },
+        { supplierReference: { contains: search } },
+      ];
+    }
+
+    const receipts = await db.goodsReceipt.findMany({
+      where,
+      include: {
+        store: {
+          select: {
+            id: true,
+            name: true,
+            code: true,
+          },
+        },
+        receivedBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        lines: {
+          include: {
+            item: {
+              select: {
+                id: true,
+                code: true,
+                description: true,
+                uom: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: { receivedAt: 'desc' },
+      take: 100,
+    });
+
+    return NextResponse.json({ receipts });
+  } catch (error) {
+    console.error('Get receipts error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Receive goods into a store (Storekeeper)
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    // Only storekeepers can receive
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { storeId, supplierName, supplierReference, receivedAt, notes, lines } = body;
+
+    if (!storeId || !lines || lines.length === 0) {
+      return NextResponse.json({ 
+        error: 'Store and at least one item are required' 
+      }, { status: 400 });
+    }
+
+    let receipt;
+    try {
+      receipt = await postGoodsReceipt({
+        companyId: payload.companyId,
+        storeId,
+        receivedById: payload.userId,
+        supplierName,
+        supplierReference,
+        receivedAt: receivedAt ? new Date(receivedAt) : undefined,
+        notes,
+        lines: lines.map((line: {
+          itemId: string;
+          quantity: number;
+          unitCost: number;
+          uom?: string;
+          binId?: string;
+          serialNumbers?: string[] | string;
+          batchNumber?: string;
+          expiryDate?: string;
+        }) => ({
+          itemId: line.itemId,
+          quantity: parseFloat(String(line.quantity)),
+          unitCost: parseFloat(String(line.unitCost)),
+          uom: line.uom || undefined,
+          binId: line.binId || undefined,
+          serialNumbers: parseSerialNumbers(line.serialNumbers),
+          batchNumber: line.batchNumber?.trim() || undefined,
+          expiryDate: line.expiryDate ? new Date(line.expiryDate) : null,
+        })),
+      });
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to post receipt' 
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({ receipt }, { status: 201 });
+  } catch (error) {
+    console.error('Create receipt error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT } from '@/lib/auth';
+import { evaluateAllStockLevels, getReorderProposals } from '@/lib/replenishment';
+
+// GET - Reorder proposals for items below minimum stock
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const storeId = searchParams.get('storeId') || undefined;
+
+    const proposals = await getReorderProposals(payload.companyId, storeId);
+    const totalValue = proposals.reduce((sum, p) => sum + p.estimatedValue, 0);
+
+    return NextResponse.json({ proposals, totalValue });
+  } catch (error) {
+    console.error('Get reorder proposals error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Re-evaluate all stock levels and refresh LOW_STOCK alerts
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const evaluated = await evaluateAllStockLevels(payload.companyId);
+
+    return NextResponse.json({ evaluated });
+  } catch (error) {
+    console.error('Evaluate stock levels error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
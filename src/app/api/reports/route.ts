@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { verifyJWT } from '@/lib/auth';
+import { getStockValuation, valuationToCsv } from '@/lib/valuation';
+import { getScrapRegister } from '@/lib/quarantine';
+import { getSlaCompliance } from '@/lib/sla';
 
 // GET /api/reports - Generate reports
 export async function GET(request: NextRequest) {
@@ -32,6 +35,17 @@ export async function GET(request: NextRequest) {
       case 'availability':
         return await generateAvailabilityReport(payload.companyId, targetYear, targetMonth);
 
+      case 'stock-valuation':
+        return await generateStockValuationReport(
+          payload.companyId,
+          searchParams.get('asOf'),
+          searchParams.get('storeId') || undefined,
+          searchParams.get('format')
+        );
+
+      case 'scrap-register':
+        return await generateScrapRegisterReport(payload.companyId, targetYear, targetMonth);
+
       default:
         return NextResponse.json({ error: 'Invalid report type' }, { status: 400 });
     }
@@ -75,6 +89,9 @@ async function generateExecutiveDashboard(companyId: string, year: number, month
   const totalAssets = await db.asset.count({ where: { companyId } });
   const activeAssets = await db.asset.count({ where: { companyId, status: 'ACTIVE' } });
 
+  // SLA compliance of jobs raised in the period
+  const sla = await getSlaCompliance(companyId, startDate, endDate);
+
   return NextResponse.json({
     period: { year, month },
     fleetAvailability: {
@@ -86,6 +103,7 @@ async function generateExecutiveDashboard(companyId: string, year: number, month
     jobs: { total: totalJobs, completed: completedJobs, preventive: preventiveJobs, breakdown: breakdownJobs },
     safety: { compliance: safetyCompliance, criticalJobs: safetyCriticalJobs, compliantJobs: jobsWithSafetyPhotos },
     alerts: { active: activeAlerts, critical: criticalAlerts },
+    sla,
   });
 }
 
@@ -141,3 +159,61 @@ async function generateAvailabilityReport(companyId: string, year: number, month
     assets: availabilityData,
   });
 }
+
+async function generateStockValuationReport(
+  companyId: string,
+  asOfParam: string | null,
+  storeId: string | undefined,
+  format: string | null
+) {
+  // A plain date means end of that day
+  const asOf = asOfParam
+    ? new Date(asOfParam.length === 10 ? `${asOfParam}T23:59:59.999` : asOfParam)
+    : new Date();
+
+  if (isNaN(asOf.getTime())) {
+    return NextResponse.json({ error: 'Invalid asOf date' }, { status: 400 });
+  }
+
+  const valuation = await getStockValuation(companyId, asOf, storeId);
+
+  if (format === 'csv') {
+    return new NextResponse(valuationToCsv(valuation), {
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="stock-valuation-${asOf.toISOString().slice(0, 10)}.csv"`,
+      },
+    });
+  }
+
+  // Closing value stored when the month was locked, for comparison
+  const periodLock = await db.periodLock.findUnique({
+    where: {
+      companyId_year_month: {
+        companyId,
+        year: asOf.getFullYear(),
+        month: asOf.getMonth() + 1,
+      },
+    },
+    select: { isLocked: true, lockedAt: true, closingInventoryValue: true },
+  });
+
+  return NextResponse.json({
+    ...valuation,
+    periodLock: periodLock?.isLocked ? periodLock : null,
+  });
+}
+
+async function generateScrapRegisterReport(companyId: string, year: number, month: number) {
+  const startDate = new Date(year, month - 1, 1);
+  const endDate = new Date(year, month, 0, 23, 59, 59);
+
+  const lines = await getScrapRegister(companyId, startDate, endDate);
+
+  return NextResponse.json({
+    period: { year, month },
+    lines,
+    totalQuantity: lines.reduce((sum, l) => sum + l.quantity, 0),
+    totalWriteOff: lines.reduce((sum, l) => sum + l.writeOffValue, 0),
+  });
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { verifyJWT } from '@/lib/auth';
+import { generatePickList } from '@/lib/bins';
+import { releaseRequestReservations, reserveRequest } from '@/lib/reservations';
+import { describeOutstanding } from '@/lib/backorders';
 
 // POST - Approve or reject request
 export async function POST(
@@ -63,6 +66,8 @@ export async function POST(
         },
       });
 
+      await releaseRequestReservations(id, 'Request rejected', payload.userId);
+
       // Notify requester
       await db.notification.create({
         data: {
@@ -78,8 +83,20 @@ export async function POST(
     }
 
     if (action === 'approve') {
-      // Update request status and line quantities
-      const updatePromises = (approvedLines || []).map((line: { lineId: string; quantity: number }) =>
+      const lineUpdates: { lineId: string; quantity: number }[] = approvedLines || [];
+
+      // Validate every line before anything is written
+      for (const line of lineUpdates) {
+        if (!itemRequest.lines.some((l) => l.id === line.lineId)) {
+          return NextResponse.json({ error: 'Request line not found' }, { status: 400 });
+        }
+        if (typeof line.quantity !== 'number' || isNaN(line.quantity) || line.quantity < 0) {
+          return NextResponse.json({ error: 'Approved quantity must be 0 or greater' }, { status: 400 });
+        }
+      }
+
+      // Update line quantities
+      const updatePromises = lineUpdates.map((line) =>
         db.itemRequestLine.update({
           where: { id: line.lineId },
           data: { approvedQty: line.quantity },
@@ -88,6 +105,10 @@ export async function POST(
 
       await Promise.all(updatePromises);
 
+      // Hold what is available so it cannot be promised to another request; the rest is backordered
+      const backordered = await reserveRequest(id, payload.userId);
+      const outstanding = describeOutstanding(backordered);
+
       const updated = await db.itemRequest.update({
         where: { id },
         data: {
@@ -105,6 +126,9 @@ export async function POST(
         },
       });
 
+      // Pick list in bin walk order for the storekeeper
+      await generatePickList(id, payload.userId);
+
       // Notify storekeeper
       const storekeepers = await db.user.findMany({
         where: {
@@ -128,16 +152,24 @@ export async function POST(
 
       // Notify requester
       await db.notification.create({
-        data: {
-          userId: itemRequest.requestedById,
-          title: 'Request Approved',
-          message: `Your item request for job "${itemRequest.job.title}" was approved`,
-          type: 'REQUEST_APPROVED',
-          referenceId: itemRequest.id,
-        },
+        data: outstanding
+          ? {
+              userId: itemRequest.requestedById,
+              title: 'Request Approved - Backordered',
+              message: `Your item request for job "${itemRequest.job.title}" was approved. Awaiting stock: ${outstanding}`,
+              type: 'ITEMS_BACKORDERED',
+              referenceId: itemRequest.id,
+            }
+          : {
+              userId: itemRequest.requestedById,
+              title: 'Request Approved',
+              message: `Your item request for job "${itemRequest.job.title}" was approved`,
+              type: 'REQUEST_APPROVED',
+              referenceId: itemRequest.id,
+            },
       });
 
-      return NextResponse.json({ request: updated });
+      return NextResponse.json({ request: updated, outstanding: outstanding || null });
     }
 
     return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+import { releaseRequestReservations } from '@/lib/reservations';
+
+// POST - Cancel a pending or approved request, or close a partially issued one short, and release its reserved stock
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const itemRequest = await db.itemRequest.findFirst({
+      where: {
+        id,
+        job: {
+          companyId: payload.companyId,
+        },
+      },
+      include: {
+        pickList: true,
+      },
+    });
+
+    if (!itemRequest) {
+      return NextResponse.json({ error: 'Request not found' }, { status: 404 });
+    }
+
+    // Requesters may withdraw their own requests; supervisors and stores may cancel any
+    const canCancel = ['ADMIN', 'MANAGER', 'SUPERVISOR', 'STOREKEEPER'].includes(payload.role) ||
+      itemRequest.requestedById === payload.userId;
+    if (!canCancel) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    if (!['PENDING', 'APPROVED', 'PARTIAL'].includes(itemRequest.status)) {
+      return NextResponse.json({
+        error: `Cannot cancel request in ${itemRequest.status} status`
+      }, { status: 400 });
+    }
+
+    // What was issued on a partial request stands; it is closed short rather than cancelled
+    const closedShort = itemRequest.status === 'PARTIAL';
+
+    const updated = await db.itemRequest.update({
+      where: { id },
+      data: {
+        status: closedShort ? 'ISSUED' : 'CANCELLED',
+        updatedBy: payload.userId,
+      },
+    });
+
+    // Nothing is left to wait for, so incoming stock is no longer offered to it
+    await db.itemRequestLine.updateMany({
+      where: { requestId: id, backorderQty: { gt: 0 } },
+      data: { backorderQty: 0 },
+    });
+
+    await releaseRequestReservations(id, closedShort ? 'Request closed short' : 'Request cancelled', payload.userId);
+
+    if (itemRequest.pickList) {
+      await db.pickList.update({
+        where: { id: itemRequest.pickList.id },
+        data: { status: 'CANCELLED' },
+      });
+    }
+
+    return NextResponse.json({ request: updated });
+  } catch (error) {
+    console.error('Cancel request error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -2,8 +2,34 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { verifyJWT } from '@/lib/auth';
 import { addMaterialCost } from '@/lib/costing';
+import { costOutgoingStock } from '@/lib/cost-layers';
+import { evaluateStockLevel } from '@/lib/replenishment';
+import { generatePickList, releaseFromBins } from '@/lib/bins';
+import { consumeReservation, getIssuableQty, getStockAvailability, releaseRequestReservations } from '@/lib/reservations';
+import { assertSubstitutable } from '@/lib/alternates';
+import { describeOutstanding, getOutstandingQty } from '@/lib/backorders';
+import {
+  assertSerialsIssuable,
+  BatchAllocation,
+  consumeBatches,
+  fitSerials,
+  getIssuableBatchQty,
+  parseSerialNumbers,
+  validateTrackedLine,
+} from '@/lib/tracking';
 import crypto from 'crypto';
 
+// Issued serials / batches are stored on the line as JSON arrays
+function parseJsonArray<T>(value: string | null): T[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
 // POST - Issue items (Storekeeper)
 export async function POST(
   request: NextRequest,
@@ -53,6 +79,13 @@ export async function POST(
         },
         store: true,
         job: true,
+        pickList: {
+          include: {
+            lines: {
+              orderBy: { sequence: 'asc' },
+            },
+          },
+        },
       },
     });
 
@@ -82,7 +115,7 @@ export async function POST(
     }
 
     if (action === 'issue') {
-      if (itemRequest.status !== 'APPROVED') {
+      if (!['APPROVED', 'PARTIAL'].includes(itemRequest.status)) {
         return NextResponse.json({ 
           error: 'Request must be approved first' 
         }, { status: 400 });
@@ -95,42 +128,155 @@ export async function POST(
         }, { status: 400 });
       }
 
-      // Process each line with stock decrement and cost capture
-      for (const line of issuedLines || itemRequest.lines) {
-        const stockLevel = await db.itemStock.findFirst({
-          where: {
-            itemId: line.itemId,
-            storeId: itemRequest.storeId,
-          },
-        });
+      // Each line is planned against its quantities as loaded, so it can appear only once
+      if (issuedLines) {
+        const lineIds = (issuedLines as { id?: string; lineId?: string }[]).map((entry) => entry.lineId || entry.id).filter(Boolean);
+        if (new Set(lineIds).size !== lineIds.length) {
+          return NextResponse.json({ 
+            error: 'Each request line can be issued only once per issue' 
+          }, { status: 400 });
+        }
+      }
+
+      // Issued lines reference request lines by id and may carry serial / batch numbers
+      // and an alternate item to issue in place of the one requested
+      const linesToIssue = issuedLines
+        ? (issuedLines as {
+            id?: string;
+            lineId?: string;
+            issuedQty?: number;
+            serialNumbers?: string[] | string;
+            batchNumber?: string;
+            substituteItemId?: string;
+          }[]).flatMap((entry) => {
+            const line = itemRequest.lines.find((l) => l.id === (entry.lineId || entry.id));
+            return line
+              ? [{
+                  line,
+                  issueQty: entry.issuedQty !== undefined
+                    ? parseFloat(String(entry.issuedQty))
+                    : getOutstandingQty(line),
+                  serialNumbers: parseSerialNumbers(entry.serialNumbers),
+                  batchNumber: entry.batchNumber?.trim() || undefined,
+                  substituteItemId: entry.substituteItemId || undefined,
+                }]
+              : [];
+          })
+        : itemRequest.lines.map((line) => ({
+            line,
+            issueQty: getOutstandingQty(line),
+            serialNumbers: [] as string[],
+            batchNumber: undefined as string | undefined,
+            substituteItemId: undefined as string | undefined,
+          }));
+
+      // Work out what each line can issue before any stock moves; short lines are issued in part
+      const plannedLines: (typeof linesToIssue[number] & {
+        issueItem: { id: string; code: string; trackingType: string };
+      })[] = [];
+      for (const entry of linesToIssue) {
+        const { line, serialNumbers, batchNumber } = entry;
+
+        // A line keeps issuing the alternate it was first issued as
+        const issueItemId = entry.substituteItemId || line.issuedItemId || line.itemId;
+        const substituted = issueItemId !== line.itemId;
+
+        let issueItem: { id: string; code: string; trackingType: string } = line.item;
+        let issuableQty: number;
+
+        try {
+          if ((line.issuedQty || 0) > 0 && issueItemId !== (line.issuedItemId || line.itemId)) {
+            throw new Error(`${line.item.code} has already been partly issued; the rest must be issued as the same item`);
+          }
 
-        if (!stockLevel) {
+          if (substituted) {
+            issueItem = await assertSubstitutable(payload.companyId, line.itemId, issueItemId);
+            // The line's reservation is on the requested item, so an alternate can only draw unreserved stock
+            const [availability] = await getStockAvailability(itemRequest.storeId, [issueItemId]);
+            issuableQty = availability.availableQty;
+          } else {
+            issuableQty = await getIssuableQty(line.id, line.itemId, itemRequest.storeId);
+          }
+        } catch (error) {
           return NextResponse.json({ 
-            error: `No stock found for item` 
+            error: error instanceof Error ? error.message : 'Failed to substitute item' 
           }, { status: 400 });
         }
 
-        const issueQty = line.issuedQty || line.approvedQty;
+        let issueQty = Math.min(
+          entry.issueQty,
+          getOutstandingQty(line),
+          issuableQty
+        );
 
-        if (stockLevel.quantity < issueQty) {
+        try {
+          if (issueItem.trackingType === 'SERIAL') {
+            // Only the serials picked can be fitted
+            issueQty = Math.min(issueQty, serialNumbers.length);
+            if (issueQty > 0) {
+              validateTrackedLine('SERIAL', issueItem.code, { quantity: issueQty, serialNumbers });
+              await assertSerialsIssuable(payload.companyId, issueItem.id, serialNumbers, itemRequest.storeId);
+            }
+          } else if (issueItem.trackingType === 'BATCH') {
+            issueQty = Math.min(
+              issueQty,
+              await getIssuableBatchQty(issueItem.id, itemRequest.storeId, batchNumber)
+            );
+          }
+        } catch (error) {
           return NextResponse.json({ 
-            error: `Insufficient stock. Available: ${stockLevel.quantity}` 
+            error: error instanceof Error ? error.message : 'Failed to issue tracked item' 
           }, { status: 400 });
         }
 
-        // Get item with current cost
-        const item = await db.item.findUnique({
-          where: { id: line.itemId },
-          select: { 
-            unitPrice: true, 
-            weightedAvgCost: true,
-            description: true,
+        if (issueQty > 0) {
+          plannedLines.push({ ...entry, issueQty, issueItem });
+        }
+      }
+
+      if (plannedLines.length === 0) {
+        return NextResponse.json({ 
+          error: 'No stock available to issue; outstanding quantities remain on backorder' 
+        }, { status: 400 });
+      }
+
+      // Process each line with stock decrement and cost capture
+      for (const { line, issueQty, serialNumbers, batchNumber, issueItem } of plannedLines) {
+        const itemId = issueItem.id;
+        const substituted = itemId !== line.itemId;
+
+        const stockLevel = await db.itemStock.findFirst({
+          where: {
+            itemId,
+            storeId: itemRequest.storeId,
           },
         });
 
-        // Capture unit cost at transaction time
-        const unitCost = item?.weightedAvgCost || item?.unitPrice || 0;
-        const totalCost = issueQty * unitCost;
+        if (!stockLevel) continue;
+
+        // Serial-tracked items are fitted to the job's asset; batch items are issued FEFO, never expired
+        let batches: BatchAllocation[] = [];
+        if (issueItem.trackingType === 'SERIAL') {
+          await fitSerials({
+            companyId: payload.companyId,
+            itemId,
+            storeId: itemRequest.storeId,
+            serialNumbers,
+            jobId: itemRequest.jobId,
+            assetId: itemRequest.job.assetId,
+            requestId: itemRequest.id,
+            userId: payload.userId,
+          });
+        } else if (issueItem.trackingType === 'BATCH') {
+          batches = await consumeBatches(itemId, itemRequest.storeId, issueQty, batchNumber);
+        }
+
+        // Capture unit cost at transaction time using the item's valuation method
+        const { unitCost, totalCost } = await costOutgoingStock(
+          itemId,
+          itemRequest.storeId,
+          issueQty
+        );
 
         // Decrement stock
         const newQuantity = stockLevel.quantity - issueQty;
@@ -139,10 +285,19 @@ export async function POST(
           data: { quantity: newQuantity },
         });
 
+        // Pick from the bins on the pick list first
+        const pickBinIds = (itemRequest.pickList?.lines || [])
+          .filter((pick) => pick.itemId === itemId && pick.binId)
+          .map((pick) => pick.binId!);
+        await releaseFromBins(itemId, itemRequest.storeId, issueQty, pickBinIds);
+
+        // The need is met either way, so the requested item's reservation is drawn down
+        await consumeReservation(line.id, issueQty);
+
         // Create stock ledger entry with cost
         await db.stockLedger.create({
           data: {
-            itemId: line.itemId,
+            itemId,
             storeId: itemRequest.storeId,
             movementType: 'OUT',
             quantity: issueQty,
@@ -151,17 +306,35 @@ export async function POST(
             totalValue: totalCost,
             referenceType: 'REQUEST',
             referenceId: itemRequest.id,
+            uom: line.uom,
+            uomQty: issueQty / line.uomFactor,
             userId: payload.userId,
           },
         });
 
-        // Update request line with cost
+        await evaluateStockLevel(itemId, itemRequest.storeId);
+
+        // Accumulate issued quantity and cost across partial issues
+        const issuedQty = (line.issuedQty || 0) + issueQty;
+        const lineTotalCost = (line.totalCost || 0) + totalCost;
+        const issuedSerials = [...parseJsonArray<string>(line.issuedSerials), ...serialNumbers];
+        const issuedBatches = [
+          ...parseJsonArray<{ batchNumber: string; quantity: number }>(line.issuedBatches),
+          ...batches.map((b) => ({ batchNumber: b.batchNumber, quantity: b.quantity })),
+        ];
+
         await db.itemRequestLine.update({
           where: { id: line.id },
           data: { 
-            issuedQty: issueQty,
-            unitCost,
-            totalCost,
+            issuedQty,
+            unitCost: issuedQty > 0 ? lineTotalCost / issuedQty : unitCost,
+            totalCost: lineTotalCost,
+            backorderQty: getOutstandingQty({ ...line, issuedQty }),
+            issuedSerials: issuedSerials.length > 0 ? JSON.stringify(issuedSerials) : undefined,
+            issuedBatches: issuedBatches.length > 0 ? JSON.stringify(issuedBatches) : undefined,
+            ...(substituted && !line.issuedItemId
+              ? { issuedItemId: itemId, substitutedById: payload.userId, substitutedAt: new Date() }
+              : {}),
           },
         });
 
@@ -169,20 +342,58 @@ export async function POST(
         if (unitCost > 0 && itemRequest.jobId) {
           await addMaterialCost(
             itemRequest.jobId,
-            line.itemId,
+            itemId,
             issueQty,
             unitCost,
             'ISSUE',
             itemRequest.id,
-            payload.userId
+            payload.userId,
+            line.uom,
+            line.uomFactor
           );
         }
       }
 
+      // Lines left short (including lines not picked this time) stay on backorder
+      const lines = await db.itemRequestLine.findMany({
+        where: { requestId: id },
+        include: {
+          item: { select: { code: true, uom: true } },
+        },
+      });
+
+      for (const line of lines) {
+        const backorderQty = getOutstandingQty(line);
+        if (backorderQty !== line.backorderQty) {
+          await db.itemRequestLine.update({
+            where: { id: line.id },
+            data: { backorderQty },
+          });
+        }
+      }
+
+      const outstanding = describeOutstanding(lines);
+      const fullyIssued = outstanding === '';
+
+      if (fullyIssued) {
+        // Anything approved but not issued goes back to available stock
+        await releaseRequestReservations(id, 'Request issued', payload.userId);
+
+        if (itemRequest.pickList) {
+          await db.pickList.update({
+            where: { id: itemRequest.pickList.id },
+            data: { status: 'PICKED' },
+          });
+        }
+      } else {
+        // Pick list now covers only the backordered quantities
+        await generatePickList(id, payload.userId);
+      }
+
       const updated = await db.itemRequest.update({
         where: { id },
         data: {
-          status: 'ISSUED',
+          status: fullyIssued ? 'ISSUED' : 'PARTIAL',
           issuedAt: new Date(),
           issuedById: payload.userId,
           receivedById,
@@ -200,16 +411,24 @@ export async function POST(
 
       // Notify requester
       await db.notification.create({
-        data: {
-          userId: itemRequest.requestedById,
-          title: 'Items Issued',
-          message: `Items for job "${itemRequest.job.title}" have been issued`,
-          type: 'ITEMS_ISSUED',
-          referenceId: itemRequest.id,
-        },
+        data: fullyIssued
+          ? {
+              userId: itemRequest.requestedById,
+              title: 'Items Issued',
+              message: `Items for job "${itemRequest.job.title}" have been issued`,
+              type: 'ITEMS_ISSUED',
+              referenceId: itemRequest.id,
+            }
+          : {
+              userId: itemRequest.requestedById,
+              title: 'Items Partially Issued',
+              message: `Items for job "${itemRequest.job.title}" were partially issued. Still outstanding: ${outstanding}`,
+              type: 'ITEMS_BACKORDERED',
+              referenceId: itemRequest.id,
+            },
       });
 
-      return NextResponse.json({ request: updated });
+      return NextResponse.json({ request: updated, outstanding: fullyIssued ? null : outstanding });
     }
 
     return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+import { generatePickList } from '@/lib/bins';
+
+// GET - Get the pick list for an approved request (in bin walk order)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const pickList = await db.pickList.findFirst({
+      where: {
+        requestId: id,
+        request: {
+          job: {
+            companyId: payload.companyId,
+          },
+        },
+      },
+      include: {
+        lines: {
+          include: {
+            bin: {
+              select: {
+                id: true,
+                code: true,
+                zone: true,
+              },
+            },
+            item: {
+              select: {
+                id: true,
+                code: true,
+                description: true,
+                uom: true,
+              },
+            },
+          },
+          orderBy: { sequence: 'asc' },
+        },
+      },
+    });
+
+    if (!pickList) {
+      return NextResponse.json({ error: 'Pick list not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ pickList });
+  } catch (error) {
+    console.error('Get pick list error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Regenerate the pick list from current bin stock
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const itemRequest = await db.itemRequest.findFirst({
+      where: {
+        id,
+        job: {
+          companyId: payload.companyId,
+        },
+      },
+    });
+
+    if (!itemRequest) {
+      return NextResponse.json({ error: 'Request not found' }, { status: 404 });
+    }
+
+    if (itemRequest.status !== 'APPROVED') {
+      return NextResponse.json({ error: 'Request must be approved' }, { status: 400 });
+    }
+
+    const pickList = await generatePickList(id, payload.userId);
+
+    return NextResponse.json({ pickList });
+  } catch (error) {
+    console.error('Generate pick list error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { verifyJWT } from '@/lib/auth';
+import { toStockQuantity } from '@/lib/uom';
 import crypto from 'crypto';
 
 // GET - List item requests
@@ -64,6 +65,14 @@ export async function GET(request: NextRequest) {
                 code: true,
                 description: true,
                 uom: true,
+                trackingType: true,
+              },
+            },
+            issuedItem: {
+              select: {
+                id: true,
+                code: true,
+                trackingType: true,
               },
             },
           },
@@ -75,6 +84,21 @@ export async function GET(request: NextRequest) {
             code: true,
           },
         },
+        pickList: {
+          include: {
+            lines: {
+              include: {
+                bin: {
+                  select: {
+                    id: true,
+                    code: true,
+                  },
+                },
+              },
+              orderBy: { sequence: 'asc' },
+            },
+          },
+        },
         requestedBy: {
           select: {
             id: true,
@@ -134,11 +158,12 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Verify store
+    // Verify store (quarantined stock cannot be requested)
     const store = await db.store.findFirst({
       where: {
         id: storeId,
         companyId: payload.companyId,
+        isQuarantine: false,
       },
     });
 
@@ -146,6 +171,24 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Store not found' }, { status: 404 });
     }
 
+    // Lines may be requested in the item's issue unit; quantities are held in stock units
+    const requestLines: { itemId: string; requestedQty: number; uom: string | null; uomFactor: number }[] = [];
+    try {
+      for (const line of lines as { itemId: string; quantity: number; uom?: string }[]) {
+        const converted = await toStockQuantity(line.itemId, line.quantity, line.uom);
+        requestLines.push({
+          itemId: line.itemId,
+          requestedQty: converted.quantity,
+          uom: converted.uom,
+          uomFactor: converted.factor,
+        });
+      }
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Invalid unit of measure' 
+      }, { status: 400 });
+    }
+
     // Create the request
     const itemRequest = await db.itemRequest.create({
       data: {
@@ -156,10 +199,7 @@ export async function POST(request: NextRequest) {
         syncStatus: 'SYNCED',
         createdBy: payload.userId,
         lines: {
-          create: lines.map((line: { itemId: string; quantity: number }) => ({
-            itemId: line.itemId,
-            requestedQty: line.quantity,
-          })),
+          create: requestLines,
         },
       },
       include: {
@@ -2,6 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { verifyJWT } from '@/lib/auth';
 import { creditMaterialCost } from '@/lib/costing';
+import { addCostLayer } from '@/lib/cost-layers';
+import { evaluateStockLevel } from '@/lib/replenishment';
+import { putawayToBin } from '@/lib/bins';
+import { assertSerialRemovable, recordSerialRemoval, returnSerialToStore } from '@/lib/tracking';
+import { allocateBackorders } from '@/lib/backorders';
+import { getQuarantineStore } from '@/lib/quarantine';
 
 // POST - Accept return (Storekeeper)
 export async function POST(
@@ -50,13 +56,50 @@ export async function POST(
     }
 
     if (action === 'accept') {
+      // The serial may have been returned on another job since this return was raised
+      if (itemReturn.serialNumber) {
+        try {
+          await assertSerialRemovable(itemReturn.itemId, itemReturn.serialNumber);
+        } catch (error) {
+          return NextResponse.json({ 
+            error: error instanceof Error ? error.message : 'Invalid serial number' 
+          }, { status: 400 });
+        }
+      }
+
+      // Damaged and defective returns are held in quarantine, not put back into saleable stock
+      const quarantined = itemReturn.condition !== 'GOOD';
+
+      let targetStoreId = storeId || itemReturn.storeId;
+      if (quarantined) {
+        try {
+          targetStoreId = (await getQuarantineStore(payload.companyId, storeId)).id;
+        } catch (error) {
+          return NextResponse.json({ 
+            error: error instanceof Error ? error.message : 'Quarantine store not found' 
+          }, { status: 400 });
+        }
+      }
+
       // Get stock level
-      const stockLevel = await db.itemStock.findFirst({
-        where: {
-          itemId: itemReturn.itemId,
-          storeId: storeId || itemReturn.storeId,
-        },
-      });
+      const stockLevel = quarantined
+        ? await db.itemStock.upsert({
+            where: {
+              itemId_storeId: { itemId: itemReturn.itemId, storeId: targetStoreId },
+            },
+            update: {},
+            create: {
+              itemId: itemReturn.itemId,
+              storeId: targetStoreId,
+              quantity: 0,
+            },
+          })
+        : await db.itemStock.findFirst({
+            where: {
+              itemId: itemReturn.itemId,
+              storeId: targetStoreId,
+            },
+          });
 
       if (!stockLevel) {
         return NextResponse.json({ 
@@ -70,7 +113,16 @@ export async function POST(
         select: { unitPrice: true, weightedAvgCost: true },
       });
 
-      const unitCost = item?.weightedAvgCost || item?.unitPrice || 0;
+      const requestLine = itemReturn.requestLineId
+        ? await db.itemRequestLine.findUnique({
+            where: { id: itemReturn.requestLineId },
+          })
+        : null;
+
+      // Credit the job at the cost it was charged at; only returns not tied to an issue use today's cost
+      const unitCost = requestLine?.unitCost != null
+        ? requestLine.unitCost
+        : item?.weightedAvgCost || item?.unitPrice || 0;
       const totalCredit = itemReturn.quantity * unitCost;
 
       // Increment stock
@@ -80,6 +132,8 @@ export async function POST(
         data: { quantity: newQuantity },
       });
 
+      const binId = await putawayToBin(itemReturn.itemId, stockLevel.storeId, itemReturn.quantity);
+
       // Create stock ledger entry
       await db.stockLedger.create({
         data: {
@@ -92,10 +146,47 @@ export async function POST(
           totalValue: totalCredit,
           referenceType: 'RETURN',
           referenceId: itemReturn.id,
+          binId,
           userId: payload.userId,
         },
       });
 
+      // Replenish a cost layer for the returned quantity
+      await addCostLayer({
+        itemId: itemReturn.itemId,
+        storeId: stockLevel.storeId,
+        quantity: itemReturn.quantity,
+        unitCost,
+        sourceType: 'RETURN',
+        sourceId: itemReturn.id,
+      });
+
+      await evaluateStockLevel(itemReturn.itemId, stockLevel.storeId);
+      if (!quarantined) {
+        await allocateBackorders(itemReturn.itemId, stockLevel.storeId, payload.userId);
+      }
+
+      // Serial comes off the asset only now the return is accepted, then goes back to stock or is held as DEFECTIVE
+      if (itemReturn.serialNumber) {
+        await recordSerialRemoval({
+          companyId: payload.companyId,
+          itemId: itemReturn.itemId,
+          serialNumber: itemReturn.serialNumber,
+          jobId: itemReturn.jobId,
+          returnId: itemReturn.id,
+          userId: payload.userId,
+        });
+
+        await returnSerialToStore({
+          itemId: itemReturn.itemId,
+          serialNumber: itemReturn.serialNumber,
+          storeId: stockLevel.storeId,
+          condition: itemReturn.condition,
+          returnId: itemReturn.id,
+          userId: payload.userId,
+        });
+      }
+
       // Update return status with cost
       const updated = await db.itemReturn.update({
         where: { id },
@@ -105,27 +196,25 @@ export async function POST(
           acceptedAt: new Date(),
           storeId: stockLevel.storeId,
           unitCost,
-          totalCredit,
+          // Quarantined returns are credited (or not) when their disposition is decided
+          totalCredit: quarantined ? 0 : totalCredit,
+          disposition: quarantined ? 'QUARANTINED' : null,
+          quarantineStoreId: quarantined ? stockLevel.storeId : null,
         },
       });
 
       // Update request line if linked
-      if (itemReturn.requestLineId) {
-        const requestLine = await db.itemRequestLine.findUnique({
-          where: { id: itemReturn.requestLineId },
+      if (requestLine) {
+        await db.itemRequestLine.update({
+          where: { id: requestLine.id },
+          data: {
+            returnedQty: (requestLine.returnedQty || 0) + itemReturn.quantity,
+          },
         });
-        if (requestLine) {
-          await db.itemRequestLine.update({
-            where: { id: itemReturn.requestLineId },
-            data: {
-              returnedQty: (requestLine.returnedQty || 0) + itemReturn.quantity,
-            },
-          });
-        }
       }
 
       // Credit material cost to job
-      if (unitCost > 0 && itemReturn.jobId) {
+      if (!quarantined && unitCost > 0 && itemReturn.jobId) {
         await creditMaterialCost(
           itemReturn.jobId,
           itemReturn.itemId,
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT } from '@/lib/auth';
+import { DispositionAction, disposeQuarantinedReturn } from '@/lib/quarantine';
+
+// POST - Decide what happens to a quarantined return: repair, return to supplier or scrap
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { action, storeId, supplierId, notes } = body;
+
+    if (!['REPAIR', 'SUPPLIER_RETURN', 'SCRAP'].includes(action)) {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+
+    // Writing stock off is a manager decision
+    if (action === 'SCRAP' && !['ADMIN', 'MANAGER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    try {
+      const itemReturn = await disposeQuarantinedReturn({
+        companyId: payload.companyId,
+        returnId: id,
+        action: action as DispositionAction,
+        storeId,
+        supplierId,
+        notes,
+        userId: payload.userId,
+      });
+
+      return NextResponse.json({ return: itemReturn });
+    } catch (error) {
+      return NextResponse.json({
+        error: error instanceof Error ? error.message : 'Failed to apply disposition'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Return disposition error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { verifyJWT } from '@/lib/auth';
+import { assertSerialRemovable } from '@/lib/tracking';
 
 // GET - List returns
 export async function GET(request: NextRequest) {
@@ -19,6 +20,7 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const status = searchParams.get('status');
     const jobId = searchParams.get('jobId');
+    const disposition = searchParams.get('disposition');
 
     const where: Record<string, unknown> = {
       companyId: payload.companyId,
@@ -32,6 +34,10 @@ export async function GET(request: NextRequest) {
       where.jobId = jobId;
     }
 
+    if (disposition) {
+      where.disposition = disposition;
+    }
+
     const returns = await db.itemReturn.findMany({
       where,
       include: {
@@ -69,7 +75,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { jobId, storeId, itemId, quantity, condition, notes, localId } = body;
+    const { jobId, storeId, itemId, quantity, condition, serialNumber, notes, localId } = body;
 
     if (!jobId || !itemId || !quantity) {
       return NextResponse.json({ 
@@ -89,6 +95,31 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Job not found' }, { status: 404 });
     }
 
+    // Serial-tracked items are returned one serial at a time
+    const item = await db.item.findFirst({
+      where: {
+        id: itemId,
+        companyId: payload.companyId,
+      },
+      select: { trackingType: true },
+    });
+
+    if (item?.trackingType === 'SERIAL' && (!serialNumber || quantity !== 1)) {
+      return NextResponse.json({ 
+        error: 'Serial-tracked items must be returned one at a time with their serial number' 
+      }, { status: 400 });
+    }
+
+    if (item?.trackingType === 'SERIAL') {
+      try {
+        await assertSerialRemovable(itemId, serialNumber);
+      } catch (error) {
+        return NextResponse.json({ 
+          error: error instanceof Error ? error.message : 'Invalid serial number' 
+        }, { status: 400 });
+      }
+    }
+
     const itemReturn = await db.itemReturn.create({
       data: {
         companyId: payload.companyId,
@@ -97,6 +128,7 @@ export async function POST(request: NextRequest) {
         itemId,
         quantity,
         condition: condition || 'GOOD',
+        serialNumber: item?.trackingType === 'SERIAL' ? serialNumber : undefined,
         notes,
         returnedById: payload.userId,
         localId,
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT } from '@/lib/auth';
+import { exchangeRotableCore } from '@/lib/rotables';
+
+// POST - Exchange a unit awaiting repair as a core for a vendor's serviceable unit
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { vendorName, vendorReference, serialNumber, storeId, exchangeCost, notes } = body;
+
+    if (!vendorName || !serialNumber?.trim() || !storeId) {
+      return NextResponse.json({
+        error: 'Vendor, exchange unit serial number and store are required'
+      }, { status: 400 });
+    }
+
+    try {
+      const unit = await exchangeRotableCore({
+        companyId: payload.companyId,
+        unitId: id,
+        vendorName,
+        vendorReference,
+        serialNumber: serialNumber.trim(),
+        storeId,
+        exchangeCost: exchangeCost ? parseFloat(exchangeCost) : 0,
+        notes,
+        userId: payload.userId,
+      });
+
+      return NextResponse.json({ unit }, { status: 201 });
+    } catch (error) {
+      return NextResponse.json({
+        error: error instanceof Error ? error.message : 'Failed to exchange core'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Rotable exchange error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
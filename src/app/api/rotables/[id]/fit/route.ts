@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT } from '@/lib/auth';
+import { fitRotableUnit } from '@/lib/rotables';
+
+// POST - Fit a serviceable unit to the asset of an open job
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'SUPERVISOR', 'TECHNICIAN'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { jobId, notes } = body;
+
+    if (!jobId) {
+      return NextResponse.json({ error: 'Job ID is required' }, { status: 400 });
+    }
+
+    try {
+      const unit = await fitRotableUnit({
+        companyId: payload.companyId,
+        unitId: id,
+        jobId,
+        notes,
+        userId: payload.userId,
+      });
+
+      return NextResponse.json({ unit });
+    } catch (error) {
+      return NextResponse.json({
+        error: error instanceof Error ? error.message : 'Failed to fit unit'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Fit rotable error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
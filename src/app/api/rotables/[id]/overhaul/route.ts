@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT } from '@/lib/auth';
+import { sendRotableForOverhaul } from '@/lib/rotables';
+
+// POST - Send a unit out for overhaul, raising an external repair gate pass
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'SUPERVISOR'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { vendorName, vendorReference, vendorContact, estimatedCost, jobId, notes } = body;
+
+    if (!vendorName) {
+      return NextResponse.json({ error: 'Vendor name is required' }, { status: 400 });
+    }
+
+    try {
+      const repair = await sendRotableForOverhaul({
+        companyId: payload.companyId,
+        unitId: id,
+        vendorName,
+        vendorReference,
+        vendorContact,
+        estimatedCost: estimatedCost ? parseFloat(estimatedCost) : null,
+        jobId,
+        notes,
+        userId: payload.userId,
+      });
+
+      return NextResponse.json({ repair }, { status: 201 });
+    } catch (error) {
+      return NextResponse.json({
+        error: error instanceof Error ? error.message : 'Failed to send unit for overhaul'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Rotable overhaul error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT } from '@/lib/auth';
+import { removeRotableUnit } from '@/lib/rotables';
+
+// POST - Remove a fitted unit against a job into a store, serviceable or awaiting repair
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'SUPERVISOR', 'TECHNICIAN'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { jobId, storeId, serviceable, notes } = body;
+
+    if (!jobId || !storeId) {
+      return NextResponse.json({ error: 'Job and store are required' }, { status: 400 });
+    }
+
+    try {
+      const unit = await removeRotableUnit({
+        companyId: payload.companyId,
+        unitId: id,
+        jobId,
+        storeId,
+        serviceable: serviceable === true,
+        notes,
+        userId: payload.userId,
+      });
+
+      return NextResponse.json({ unit });
+    } catch (error) {
+      return NextResponse.json({
+        error: error instanceof Error ? error.message : 'Failed to remove unit'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Remove rotable error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT } from '@/lib/auth';
+import { getRotableHistory } from '@/lib/rotables';
+
+// GET - Life history of a rotable unit with hours since new and since overhaul
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const unit = await getRotableHistory(payload.companyId, id);
+
+    if (!unit) {
+      return NextResponse.json({ error: 'Rotable unit not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ unit });
+  } catch (error) {
+    console.error('Get rotable history error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
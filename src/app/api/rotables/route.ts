@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+import { getRotableHours, registerRotableUnit } from '@/lib/rotables';
+
+// GET - Rotable pool with each unit's location, book value and hours
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const itemId = searchParams.get('itemId');
+    const assetId = searchParams.get('assetId');
+    const status = searchParams.get('status');
+
+    const where: Record<string, unknown> = {
+      companyId: payload.companyId,
+    };
+
+    if (itemId) {
+      where.itemId = itemId;
+    }
+
+    if (assetId) {
+      where.assetId = assetId;
+    }
+
+    if (status) {
+      where.status = status;
+    }
+
+    const units = await db.rotableUnit.findMany({
+      where,
+      include: {
+        item: { select: { id: true, code: true, description: true } },
+        asset: { select: { id: true, code: true, description: true } },
+        store: { select: { id: true, code: true, name: true } },
+        events: {
+          select: { eventType: true, meterReading: true, createdAt: true },
+        },
+      },
+      orderBy: [{ itemId: 'asc' }, { serialNumber: 'asc' }],
+    });
+
+    const pool = await Promise.all(
+      units.map(async ({ events, ...unit }) => ({
+        ...unit,
+        ...(await getRotableHours({ ...unit, events })),
+      }))
+    );
+
+    return NextResponse.json({ units: pool });
+  } catch (error) {
+    console.error('Get rotables error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Register a unit in stock or fitted to an asset in the rotable pool
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { itemId, serialNumber, purchaseCost } = body;
+
+    if (!itemId || !serialNumber?.trim()) {
+      return NextResponse.json({
+        error: 'Item and serial number are required'
+      }, { status: 400 });
+    }
+
+    try {
+      const unit = await registerRotableUnit({
+        companyId: payload.companyId,
+        itemId,
+        serialNumber: serialNumber.trim(),
+        purchaseCost: purchaseCost ? parseFloat(purchaseCost) : undefined,
+        userId: payload.userId,
+      });
+
+      return NextResponse.json({ unit }, { status: 201 });
+    } catch (error) {
+      return NextResponse.json({
+        error: error instanceof Error ? error.message : 'Failed to register unit'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Register rotable error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT } from '@/lib/auth';
+import { getScheduleBoard } from '@/lib/scheduling';
+
+// GET - Technician lanes with assigned jobs per day and load against capacity
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'SUPERVISOR'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const fromParam = searchParams.get('from');
+    const days = Math.min(Math.max(parseInt(searchParams.get('days') || '7'), 1), 31);
+
+    // A plain date means the start of that local day
+    const from = fromParam ? new Date(fromParam.length === 10 ? `${fromParam}T00:00:00` : fromParam) : new Date();
+    if (isNaN(from.getTime()) || isNaN(days)) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+
+    const lanes = await getScheduleBoard(payload.companyId, from, days);
+
+    return NextResponse.json({ lanes });
+  } catch (error) {
+    console.error('Get schedule error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+import { getSerialHistory } from '@/lib/tracking';
+
+// GET - Serial history lookup, or serials currently fitted to an asset
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const serialNumber = searchParams.get('serialNumber');
+    const assetId = searchParams.get('assetId');
+    const itemId = searchParams.get('itemId');
+    const status = searchParams.get('status');
+
+    if (serialNumber) {
+      const serials = await getSerialHistory(payload.companyId, serialNumber.trim());
+      return NextResponse.json({ serials });
+    }
+
+    const where: Record<string, unknown> = {
+      companyId: payload.companyId,
+    };
+
+    if (assetId) {
+      where.assetId = assetId;
+    }
+
+    if (itemId) {
+      where.itemId = itemId;
+    }
+
+    if (status) {
+      where.status = status;
+    }
+
+    const serials = await db.itemSerial.findMany({
+      where,
+      include: {
+        item: {
+          select: {
+            id: true,
+            code: true,
+            description: true,
+          },
+        },
+        asset: {
+          select: {
+            id: true,
+            code: true,
+            description: true,
+          },
+        },
+      },
+      orderBy: { updatedAt: 'desc' },
+      take: 200,
+    });
+
+    return NextResponse.json({ serials });
+  } catch (error) {
+    console.error('Get serials error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
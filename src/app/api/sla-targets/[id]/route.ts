@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT } from '@/lib/auth';
+import { deleteSlaTarget } from '@/lib/sla';
+
+// DELETE - Remove an SLA target (existing jobs keep their due times)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    try {
+      await deleteSlaTarget(payload.companyId, id, payload.userId);
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to delete SLA target' 
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Delete SLA target error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT } from '@/lib/auth';
+import { getSlaTargets, saveSlaTarget } from '@/lib/sla';
+
+// GET - Configured SLA targets and the effective target per priority and job type
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const { targets, effective } = await getSlaTargets(payload.companyId);
+
+    return NextResponse.json({ targets, effective });
+  } catch (error) {
+    console.error('Get SLA targets error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Create or replace the target of a priority (optionally for one job type)
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { priority, jobType, responseMinutes, resolutionMinutes } = body;
+
+    try {
+      const target = await saveSlaTarget(
+        payload.companyId,
+        {
+          priority,
+          jobType,
+          responseMinutes: Number(responseMinutes),
+          resolutionMinutes: Number(resolutionMinutes),
+        },
+        payload.userId
+      );
+
+      return NextResponse.json({ target }, { status: 201 });
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to save SLA target' 
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Save SLA target error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+import { recordCounts, submitCount, approveCount, cancelCount } from '@/lib/stock-count';
+
+// Roles that may see frozen system quantities and approve variances
+const REVIEWER_ROLES = ['ADMIN', 'MANAGER', 'SUPERVISOR'];
+
+// GET - Get single stock count (blind for counters)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'SUPERVISOR', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const count = await db.stockCount.findFirst({
+      where: {
+        id,
+        companyId: payload.companyId,
+      },
+      include: {
+        store: {
+          select: {
+            id: true,
+            name: true,
+            code: true,
+          },
+        },
+        lines: {
+          include: {
+            item: {
+              select: {
+                id: true,
+                code: true,
+                description: true,
+                uom: true,
+                barcode: true,
+                abcClass: true,
+                trackingType: true,
+              },
+            },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!count) {
+      return NextResponse.json({ error: 'Stock count not found' }, { status: 404 });
+    }
+
+    // Counters never see the system quantity or variance
+    if (!REVIEWER_ROLES.includes(payload.role)) {
+      return NextResponse.json({
+        count: {
+          ...count,
+          totalVarianceValue: null,
+          lines: count.lines.map((line) => ({
+            ...line,
+            systemQty: null,
+            countedSystemQty: null,
+            recountSystemQty: null,
+            varianceQty: null,
+            varianceValue: null,
+          })),
+        },
+      });
+    }
+
+    return NextResponse.json({ count });
+  } catch (error) {
+    console.error('Get stock count error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Record counts, submit, approve or cancel a stock count
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'SUPERVISOR', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { action, entries } = body;
+
+    if (['approve', 'cancel'].includes(action) && !REVIEWER_ROLES.includes(payload.role)) {
+      return NextResponse.json({ error: 'Supervisor approval required' }, { status: 403 });
+    }
+
+    let count;
+    try {
+      if (action === 'count') {
+        if (!entries || entries.length === 0) {
+          return NextResponse.json({ error: 'At least one count entry is required' }, { status: 400 });
+        }
+        count = await recordCounts(id, payload.companyId, payload.userId, entries);
+      } else if (action === 'submit') {
+        count = await submitCount(id, payload.companyId, payload.userId);
+      } else if (action === 'approve') {
+        count = await approveCount(id, payload.companyId, payload.userId);
+      } else if (action === 'cancel') {
+        count = await cancelCount(id, payload.companyId, payload.userId);
+      } else {
+        return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+      }
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to update stock count' 
+      }, { status: 400 });
+    }
+
+    // Do not leak the frozen quantities back to counters
+    if (!REVIEWER_ROLES.includes(payload.role)) {
+      return NextResponse.json({ success: true, status: count?.status });
+    }
+
+    return NextResponse.json({ count });
+  } catch (error) {
+    console.error('Update stock count error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+import { createStockCount } from '@/lib/stock-count';
+
+// GET - List stock counts
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'SUPERVISOR', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const storeId = searchParams.get('storeId');
+
+    const where: Record<string, unknown> = {
+      companyId: payload.companyId,
+    };
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (storeId) {
+      where.storeId = storeId;
+    }
+
+    const counts = await db.stockCount.findMany({
+      where,
+      include: {
+        store: {
+          select: {
+            id: true,
+            name: true,
+            code: true,
+          },
+        },
+        _count: {
+          select: { lines: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({ counts });
+  } catch (error) {
+    console.error('Get stock counts error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Start a stock count (freezes system quantities)
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'SUPERVISOR', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { storeId, type, itemIds, notes } = body;
+
+    if (!storeId) {
+      return NextResponse.json({ error: 'Store is required' }, { status: 400 });
+    }
+
+    if (type && !['FULL', 'CYCLE'].includes(type)) {
+      return NextResponse.json({ error: 'Invalid count type' }, { status: 400 });
+    }
+
+    let count;
+    try {
+      count = await createStockCount({
+        companyId: payload.companyId,
+        storeId,
+        type,
+        itemIds,
+        notes,
+        userId: payload.userId,
+      });
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to create stock count' 
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({ count }, { status: 201 });
+  } catch (error) {
+    console.error('Create stock count error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT } from '@/lib/auth';
+import { getCycleCountDue } from '@/lib/stock-count';
+import { DEFAULT_ANALYSIS_MONTHS, classifyItemsByConsumption } from '@/lib/inventory-analytics';
+
+// GET - Items due for a cycle count in a store
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'SUPERVISOR', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const storeId = searchParams.get('storeId');
+
+    if (!storeId) {
+      return NextResponse.json({ error: 'Store is required' }, { status: 400 });
+    }
+
+    const items = await getCycleCountDue(payload.companyId, storeId);
+
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error('Get cycle count schedule error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Reclassify items ABC/XYZ from consumption history (Admin/Manager)
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const months = searchParams.get('months') ? Number(searchParams.get('months')) : DEFAULT_ANALYSIS_MONTHS;
+
+    try {
+      const { summary, classifiedAt } = await classifyItemsByConsumption(payload.companyId, months, payload.userId);
+
+      return NextResponse.json({ summary, classifiedAt });
+    } catch (error) {
+      return NextResponse.json({
+        error: error instanceof Error ? error.message : 'Failed to classify items'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Classify items error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+import { getStockAvailability } from '@/lib/reservations';
+
+// GET - On hand, reserved and available-to-promise quantities for items in a store
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER', 'SUPERVISOR'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const storeId = searchParams.get('storeId');
+    const itemIds = (searchParams.get('itemIds') || '').split(',').filter(Boolean);
+
+    if (!storeId || itemIds.length === 0) {
+      return NextResponse.json({
+        error: 'Store and item IDs are required'
+      }, { status: 400 });
+    }
+
+    const store = await db.store.findFirst({
+      where: {
+        id: storeId,
+        companyId: payload.companyId,
+      },
+    });
+
+    if (!store) {
+      return NextResponse.json({ error: 'Store not found' }, { status: 404 });
+    }
+
+    const availability = await getStockAvailability(storeId, itemIds);
+
+    return NextResponse.json({ availability });
+  } catch (error) {
+    console.error('Get stock availability error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
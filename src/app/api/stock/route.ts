@@ -56,6 +56,7 @@ export async function GET(request: NextRequest) {
             id: true,
             name: true,
             code: true,
+            isQuarantine: true,
           },
         },
       },
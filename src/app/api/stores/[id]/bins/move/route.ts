@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+import { moveBetweenBins } from '@/lib/bins';
+
+// POST - Move stock from one bin to another within the store (Storekeeper)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { itemId, fromBinId, toBinId, quantity } = body;
+
+    if (!itemId || !fromBinId || !toBinId || !quantity) {
+      return NextResponse.json({ 
+        error: 'Item, source bin, destination bin and quantity are required' 
+      }, { status: 400 });
+    }
+
+    const store = await db.store.findFirst({
+      where: {
+        id,
+        companyId: payload.companyId,
+      },
+    });
+
+    if (!store) {
+      return NextResponse.json({ error: 'Store not found' }, { status: 404 });
+    }
+
+    const fromBin = await db.storeBin.findFirst({
+      where: { id: fromBinId, storeId: id },
+    });
+
+    if (!fromBin) {
+      return NextResponse.json({ error: 'Bin not found in this store' }, { status: 404 });
+    }
+
+    let move;
+    try {
+      move = await moveBetweenBins({
+        itemId,
+        fromBinId,
+        toBinId,
+        quantity: parseFloat(String(quantity)),
+        userId: payload.userId,
+      });
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to move stock' 
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({ move });
+  } catch (error) {
+    console.error('Bin move error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
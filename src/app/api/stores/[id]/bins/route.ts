@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+
+// GET - List bins in a store with their stock
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const store = await db.store.findFirst({
+      where: {
+        id,
+        companyId: payload.companyId,
+      },
+    });
+
+    if (!store) {
+      return NextResponse.json({ error: 'Store not found' }, { status: 404 });
+    }
+
+    const bins = await db.storeBin.findMany({
+      where: { storeId: id },
+      include: {
+        stock: {
+          where: { quantity: { gt: 0 } },
+          include: {
+            item: {
+              select: {
+                id: true,
+                code: true,
+                description: true,
+                uom: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: [{ walkSequence: 'asc' }, { code: 'asc' }],
+    });
+
+    return NextResponse.json({ bins });
+  } catch (error) {
+    console.error('Get bins error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Create bin location in a store
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { code, description, zone, walkSequence } = body;
+
+    if (!code) {
+      return NextResponse.json({ error: 'Bin code is required' }, { status: 400 });
+    }
+
+    const store = await db.store.findFirst({
+      where: {
+        id,
+        companyId: payload.companyId,
+      },
+    });
+
+    if (!store) {
+      return NextResponse.json({ error: 'Store not found' }, { status: 404 });
+    }
+
+    // Check if bin code already exists in this store
+    const existing = await db.storeBin.findFirst({
+      where: {
+        storeId: id,
+        code,
+      },
+    });
+
+    if (existing) {
+      return NextResponse.json({ error: 'Bin code already exists in this store' }, { status: 400 });
+    }
+
+    const bin = await db.storeBin.create({
+      data: {
+        storeId: id,
+        code,
+        description,
+        zone,
+        walkSequence: walkSequence !== undefined ? parseInt(String(walkSequence)) || 0 : 0,
+        createdBy: payload.userId,
+      },
+    });
+
+    return NextResponse.json({ bin }, { status: 201 });
+  } catch (error) {
+    console.error('Create bin error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -58,7 +58,7 @@ export async function PUT(
 
     const { id } = await params;
     const body = await request.json();
-    const { name, code, location, status } = body;
+    const { name, code, location, status, isQuarantine } = body;
 
     const existingStore = await db.store.findFirst({
       where: {
@@ -92,6 +92,7 @@ export async function PUT(
         code: code !== undefined ? code : existingStore.code,
         location: location !== undefined ? location : existingStore.location,
         status: status || existingStore.status,
+        isQuarantine: isQuarantine !== undefined ? !!isQuarantine : existingStore.isQuarantine,
         updatedBy: payload.userId,
       },
     });
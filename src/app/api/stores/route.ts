@@ -63,7 +63,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { name, code, location, status } = body;
+    const { name, code, location, status, isQuarantine } = body;
 
     if (!name) {
       return NextResponse.json({ error: 'Name is required' }, { status: 400 });
@@ -87,6 +87,7 @@ export async function POST(request: NextRequest) {
         code,
         location,
         status: status || 'ACTIVE',
+        isQuarantine: !!isQuarantine,
         companyId: payload.companyId,
         createdBy: payload.userId,
       },
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT } from '@/lib/auth';
+import { approveSupplierInvoice, rejectSupplierInvoice } from '@/lib/procurement';
+
+// POST - Approve or reject a supplier invoice (Manager/Admin within limit)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { action } = body;
+
+    let invoice;
+    try {
+      if (action === 'approve') {
+        invoice = await approveSupplierInvoice(id, payload.companyId, payload.userId, payload.role);
+      } else if (action === 'reject') {
+        invoice = await rejectSupplierInvoice(id, payload.companyId, payload.userId);
+      } else {
+        return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+      }
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to update invoice' 
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({ invoice });
+  } catch (error) {
+    console.error('Update supplier invoice error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
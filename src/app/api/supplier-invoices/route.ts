@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+import { recordSupplierInvoice } from '@/lib/procurement';
+
+// GET - List supplier invoices
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const purchaseOrderId = searchParams.get('purchaseOrderId');
+
+    const where: Record<string, unknown> = {
+      companyId: payload.companyId,
+    };
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (purchaseOrderId) {
+      where.purchaseOrderId = purchaseOrderId;
+    }
+
+    const invoices = await db.supplierInvoice.findMany({
+      where,
+      include: {
+        supplier: {
+          select: {
+            id: true,
+            code: true,
+            name: true,
+          },
+        },
+        purchaseOrder: {
+          select: {
+            id: true,
+            poNumber: true,
+          },
+        },
+        lines: {
+          include: {
+            item: {
+              select: {
+                id: true,
+                code: true,
+                description: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: { invoiceDate: 'desc' },
+    });
+
+    return NextResponse.json({ invoices });
+  } catch (error) {
+    console.error('Get supplier invoices error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Enter supplier invoice and run the three-way match
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { purchaseOrderId, invoiceNumber, invoiceDate, lines } = body;
+
+    if (!purchaseOrderId || !invoiceNumber || !lines || lines.length === 0) {
+      return NextResponse.json({ 
+        error: 'Purchase order, invoice number and at least one line are required' 
+      }, { status: 400 });
+    }
+
+    let invoice;
+    try {
+      invoice = await recordSupplierInvoice({
+        companyId: payload.companyId,
+        purchaseOrderId,
+        invoiceNumber,
+        invoiceDate: invoiceDate ? new Date(invoiceDate) : undefined,
+        lines: lines.map((line: { orderLineId: string; quantity: number; unitPrice: number }) => ({
+          orderLineId: line.orderLineId,
+          quantity: parseFloat(String(line.quantity)),
+          unitPrice: parseFloat(String(line.unitPrice)),
+        })),
+        userId: payload.userId,
+      });
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to record invoice' 
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({ invoice }, { status: 201 });
+  } catch (error) {
+    console.error('Create supplier invoice error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+
+// GET - Get single supplier
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const supplier = await db.supplier.findFirst({
+      where: {
+        id,
+        companyId: payload.companyId,
+      },
+      include: {
+        purchaseOrders: {
+          select: {
+            id: true,
+            poNumber: true,
+            status: true,
+            orderDate: true,
+            totalValue: true,
+          },
+          orderBy: { orderDate: 'desc' },
+          take: 20,
+        },
+      },
+    });
+
+    if (!supplier) {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ supplier });
+  } catch (error) {
+    console.error('Get supplier error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT - Update supplier
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { code, name, contactName, email, phone, address, paymentTerms, status } = body;
+
+    const existingSupplier = await db.supplier.findFirst({
+      where: {
+        id,
+        companyId: payload.companyId,
+      },
+    });
+
+    if (!existingSupplier) {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+    }
+
+    // If code is being changed, check for duplicates
+    if (code && code !== existingSupplier.code) {
+      const duplicate = await db.supplier.findFirst({
+        where: {
+          companyId: payload.companyId,
+          code,
+        },
+      });
+
+      if (duplicate) {
+        return NextResponse.json({ error: 'Supplier code already exists' }, { status: 400 });
+      }
+    }
+
+    const supplier = await db.supplier.update({
+      where: { id },
+      data: {
+        code: code || existingSupplier.code,
+        name: name || existingSupplier.name,
+        contactName: contactName !== undefined ? contactName : existingSupplier.contactName,
+        email: email !== undefined ? email : existingSupplier.email,
+        phone: phone !== undefined ? phone : existingSupplier.phone,
+        address: address !== undefined ? address : existingSupplier.address,
+        paymentTerms: paymentTerms !== undefined ? paymentTerms : existingSupplier.paymentTerms,
+        status: status || existingSupplier.status,
+        updatedBy: payload.userId,
+      },
+    });
+
+    return NextResponse.json({ supplier });
+  } catch (error) {
+    console.error('Update supplier error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+
+// GET - List suppliers
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const search = searchParams.get('search');
+
+    const where: Record<string, unknown> = {
+      companyId: payload.companyId,
+    };
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (search) {
+      where.OR = [
+        { name: { contains: search } },
+        { code: { contains: search } },
+        { contactName: { contains: search } },
+      ];
+    }
+
+    const suppliers = await db.supplier.findMany({
+      where,
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ suppliers });
+  } catch (error) {
+    console.error('Get suppliers error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Create new supplier
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { code, name, contactName, email, phone, address, paymentTerms, status } = body;
+
+    if (!code || !name) {
+      return NextResponse.json({ error: 'Code and name are required' }, { status: 400 });
+    }
+
+    // Check if supplier code already exists
+    const existing = await db.supplier.findFirst({
+      where: {
+        companyId: payload.companyId,
+        code,
+      },
+    });
+
+    if (existing) {
+      return NextResponse.json({ error: 'Supplier code already exists' }, { status: 400 });
+    }
+
+    const supplier = await db.supplier.create({
+      data: {
+        code,
+        name,
+        contactName,
+        email,
+        phone,
+        address,
+        paymentTerms,
+        status: status || 'ACTIVE',
+        companyId: payload.companyId,
+        createdBy: payload.userId,
+      },
+    });
+
+    return NextResponse.json({ supplier }, { status: 201 });
+  } catch (error) {
+    console.error('Create supplier error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT } from '@/lib/auth';
+import { saveTaskTemplate } from '@/lib/job-tasks';
+
+// PUT - Update task template steps, links or active flag (jobs already created keep their copy)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'SUPERVISOR'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { name, description, isActive, steps, failureTypeIds, pmScheduleIds } = body;
+
+    try {
+      const template = await saveTaskTemplate(
+        payload.companyId,
+        { name, description, isActive, steps, failureTypeIds, pmScheduleIds },
+        payload.userId,
+        id
+      );
+
+      return NextResponse.json({ template });
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to update task template' 
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Update task template error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+import { saveTaskTemplate } from '@/lib/job-tasks';
+
+// GET - List task templates with their steps and linked failure types / PM schedules
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const templates = await db.taskTemplate.findMany({
+      where: {
+        companyId: payload.companyId,
+      },
+      include: {
+        steps: {
+          orderBy: { sequence: 'asc' },
+        },
+        failureTypes: {
+          select: {
+            id: true,
+            code: true,
+            name: true,
+          },
+        },
+        pmSchedules: {
+          select: {
+            id: true,
+            jobTitleTemplate: true,
+            asset: {
+              select: {
+                code: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error('Get task templates error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Create task template (Admin/Manager/Supervisor)
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'SUPERVISOR'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { name, description, steps, failureTypeIds, pmScheduleIds } = body;
+
+    try {
+      const template = await saveTaskTemplate(
+        payload.companyId,
+        { name, description, steps, failureTypeIds, pmScheduleIds },
+        payload.userId
+      );
+
+      return NextResponse.json({ template }, { status: 201 });
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to create task template' 
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Create task template error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT } from '@/lib/auth';
+import { approveTimeEntry, rejectTimeEntry } from '@/lib/time-entries';
+
+// POST - Approve or reject a manual time entry (Supervisor)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'SUPERVISOR'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { action, reason } = body;
+
+    let entry;
+    try {
+      if (action === 'approve') {
+        entry = await approveTimeEntry(payload.companyId, id, payload.userId);
+      } else if (action === 'reject') {
+        entry = await rejectTimeEntry(payload.companyId, id, payload.userId, reason);
+      } else {
+        return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+      }
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to update time entry' 
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({ entry });
+  } catch (error) {
+    console.error('Update time entry error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+
+// GET - Time entries across jobs (?status=PENDING_APPROVAL for the approval queue, ?mine=true for own entries)
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const mine = searchParams.get('mine') === 'true';
+
+    // Only supervisors see other people's time
+    const ownOnly = mine || !['ADMIN', 'MANAGER', 'SUPERVISOR'].includes(payload.role);
+
+    const where: Record<string, unknown> = {
+      companyId: payload.companyId,
+    };
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (ownOnly) {
+      where.userId = payload.userId;
+    }
+
+    const entries = await db.jobTimeEntry.findMany({
+      where,
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        job: {
+          select: {
+            id: true,
+            title: true,
+            status: true,
+            asset: {
+              select: {
+                code: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: { startedAt: 'desc' },
+      take: 200,
+    });
+
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('Get time entries error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+import { dispatchTransfer, receiveTransfer, cancelTransfer } from '@/lib/transfers';
+
+// GET - Get single stock transfer
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const transfer = await db.stockTransfer.findFirst({
+      where: {
+        id,
+        companyId: payload.companyId,
+      },
+      include: {
+        fromStore: true,
+        toStore: true,
+        dispatchedBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        receivedBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        lines: {
+          include: {
+            item: true,
+          },
+        },
+      },
+    });
+
+    if (!transfer) {
+      return NextResponse.json({ error: 'Transfer not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ transfer });
+  } catch (error) {
+    console.error('Get transfer error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Dispatch, receive or cancel a stock transfer (Storekeeper)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { action, receivedLines } = body;
+
+    const existing = await db.stockTransfer.findFirst({
+      where: {
+        id,
+        companyId: payload.companyId,
+      },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Transfer not found' }, { status: 404 });
+    }
+
+    let transfer;
+    try {
+      if (action === 'dispatch') {
+        transfer = await dispatchTransfer(id, payload.companyId, payload.userId);
+      } else if (action === 'receive') {
+        transfer = await receiveTransfer(id, payload.companyId, payload.userId, receivedLines);
+      } else if (action === 'cancel') {
+        transfer = await cancelTransfer(id, payload.companyId, payload.userId);
+      } else {
+        return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+      }
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to update transfer' 
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({ transfer });
+  } catch (error) {
+    console.error('Update transfer error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
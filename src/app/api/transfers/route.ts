@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+import { createTransfer, dispatchTransfer } from '@/lib/transfers';
+
+// GET - List stock transfers
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const storeId = searchParams.get('storeId');
+
+    const where: Record<string, unknown> = {
+      companyId: payload.companyId,
+    };
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (storeId) {
+      where.OR = [
+        { fromStoreId: storeId },
+        { toStoreId: storeId },
+      ];
+    }
+
+    const transfers = await db.stockTransfer.findMany({
+      where,
+      include: {
+        fromStore: {
+          select: {
+            id: true,
+            name: true,
+            code: true,
+          },
+        },
+        toStore: {
+          select: {
+            id: true,
+            name: true,
+            code: true,
+          },
+        },
+        dispatchedBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        receivedBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        lines: {
+          include: {
+            item: {
+              select: {
+                id: true,
+                code: true,
+                description: true,
+                uom: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({ transfers });
+  } catch (error) {
+    console.error('Get transfers error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Create stock transfer (optionally dispatch immediately)
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER', 'STOREKEEPER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { fromStoreId, toStoreId, notes, lines, dispatch } = body;
+
+    if (!fromStoreId || !toStoreId || !lines || lines.length === 0) {
+      return NextResponse.json({ 
+        error: 'Source store, destination store and at least one item are required' 
+      }, { status: 400 });
+    }
+
+    let transfer;
+    try {
+      transfer = await createTransfer({
+        companyId: payload.companyId,
+        fromStoreId,
+        toStoreId,
+        notes,
+        lines: lines.map((line: { itemId: string; quantity: number; serialNumbers?: string[] }) => ({
+          itemId: line.itemId,
+          quantity: parseFloat(String(line.quantity)),
+          serialNumbers: line.serialNumbers,
+        })),
+        userId: payload.userId,
+      });
+
+      if (dispatch) {
+        transfer = await dispatchTransfer(transfer.id, payload.companyId, payload.userId);
+      }
+    } catch (error) {
+      return NextResponse.json({ 
+        error: error instanceof Error ? error.message : 'Failed to create transfer' 
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({ transfer }, { status: 201 });
+  } catch (error) {
+    console.error('Create transfer error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyJWT } from '@/lib/auth';
+
+// GET - List units of measure
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const uoms = await db.unitOfMeasure.findMany({
+      where: {
+        companyId: payload.companyId,
+        isActive: true,
+      },
+      orderBy: { code: 'asc' },
+    });
+
+    return NextResponse.json({ uoms });
+  } catch (error) {
+    console.error('Get units of measure error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Create unit of measure
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = verifyJWT(accessToken);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    if (!['ADMIN', 'MANAGER'].includes(payload.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { code, name } = body;
+
+    if (!code || !name) {
+      return NextResponse.json({ error: 'Code and name are required' }, { status: 400 });
+    }
+
+    const normalizedCode = String(code).trim();
+
+    const existing = await db.unitOfMeasure.findUnique({
+      where: {
+        companyId_code: {
+          companyId: payload.companyId,
+          code: normalizedCode,
+        },
+      },
+    });
+
+    if (existing) {
+      return NextResponse.json({ error: 'Unit of measure already exists' }, { status: 400 });
+    }
+
+    const uom = await db.unitOfMeasure.create({
+      data: {
+        companyId: payload.companyId,
+        code: normalizedCode,
+        name,
+        createdBy: payload.userId,
+      },
+    });
+
+    return NextResponse.json({ uom }, { status: 201 });
+  } catch (error) {
+    console.error('Create unit of measure error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -29,6 +29,7 @@ import {
   XCircle,
   Loader2,
   AlertCircle,
+  Timer,
 } from 'lucide-react';
 
 interface RequestLine {
@@ -68,6 +69,33 @@ interface ItemRequest {
   lines: RequestLine[];
 }
 
+interface PendingTimeEntry {
+  id: string;
+  startedAt: string;
+  endedAt: string;
+  hours: number;
+  notes?: string;
+  user: {
+    id: string;
+    name: string;
+  };
+  job: {
+    id: string;
+    title: string;
+    asset?: {
+      code: string;
+    };
+  };
+}
+
+interface StockAvailability {
+  itemId: string;
+  storeId: string;
+  onHandQty: number;
+  reservedQty: number;
+  availableQty: number;
+}
+
 export default function ApprovalsPage() {
   const { isAuthenticated, isLoading: authLoading, hasRole } = useAuth();
   const router = useRouter();
@@ -80,8 +108,58 @@ export default function ApprovalsPage() {
   const [approvedLines, setApprovedLines] = useState<Record<string, number>>({});
   const [rejectionReason, setRejectionReason] = useState('');
   const [actionLoading, setActionLoading] = useState(false);
+  const [availability, setAvailability] = useState<Record<string, StockAvailability>>({});
+  const [pendingTimeEntries, setPendingTimeEntries] = useState<PendingTimeEntry[]>([]);
+  const [timeEntryLoading, setTimeEntryLoading] = useState<string | null>(null);
+
+  // Available-to-promise per store/item for the pending requests
+  const fetchAvailability = useCallback(async (requests: ItemRequest[]) => {
+    const itemsByStore = new Map<string, Set<string>>();
+    requests.forEach(request => {
+      const itemIds = itemsByStore.get(request.store.id) || new Set<string>();
+      request.lines.forEach(line => itemIds.add(line.itemId));
+      itemsByStore.set(request.store.id, itemIds);
+    });
+
+    const result: Record<string, StockAvailability> = {};
+    for (const [storeId, itemIds] of itemsByStore) {
+      try {
+        const params = new URLSearchParams({ storeId, itemIds: [...itemIds].join(',') });
+        const response = await fetch(`/api/stock/availability?${params}`, {
+          credentials: 'include',
+        });
+        if (response.ok) {
+          const data = await response.json();
+          data.availability.forEach((a: StockAvailability) => {
+            result[`${a.storeId}:${a.itemId}`] = a;
+          });
+        }
+      } catch (error) {
+        console.error('Failed to fetch availability:', error);
+      }
+    }
+    setAvailability(result);
+  }, []);
+
+  const getAvailability = (request: ItemRequest, line: RequestLine) =>
+    availability[`${request.store.id}:${line.itemId}`];
+
+  const fetchTimeEntries = useCallback(async () => {
+    try {
+      const response = await fetch('/api/time-entries?status=PENDING_APPROVAL', {
+        credentials: 'include',
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setPendingTimeEntries(data.entries);
+      }
+    } catch (error) {
+      console.error('Failed to fetch time entries:', error);
+    }
+  }, []);
 
   const fetchData = useCallback(async () => {
+    fetchTimeEntries();
     try {
       const response = await fetch('/api/requests', {
         credentials: 'include',
@@ -89,7 +167,9 @@ export default function ApprovalsPage() {
 
       if (response.ok) {
         const data = await response.json();
-        setPendingRequests(data.requests.filter((r: ItemRequest) => r.status === 'PENDING'));
+        const pending = data.requests.filter((r: ItemRequest) => r.status === 'PENDING');
+        setPendingRequests(pending);
+        fetchAvailability(pending);
         setProcessedRequests(data.requests.filter((r: ItemRequest) => 
           ['APPROVED', 'REJECTED', 'ISSUED'].includes(r.status)
         ));
@@ -99,7 +179,7 @@ export default function ApprovalsPage() {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [fetchAvailability, fetchTimeEntries]);
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -194,6 +274,33 @@ export default function ApprovalsPage() {
     }
   };
 
+  const handleTimeEntry = async (entry: PendingTimeEntry, action: 'approve' | 'reject') => {
+    setTimeEntryLoading(entry.id);
+    try {
+      const response = await fetch(`/api/time-entries/${entry.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ action }),
+      });
+
+      if (response.ok) {
+        toast({
+          title: 'Success',
+          description: action === 'approve' ? 'Time entry approved and costed' : 'Time entry rejected',
+        });
+        fetchTimeEntries();
+      } else {
+        const data = await response.json();
+        toast({ title: 'Error', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: `Failed to ${action} time entry`, variant: 'destructive' });
+    } finally {
+      setTimeEntryLoading(null);
+    }
+  };
+
   if (authLoading || loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -246,6 +353,11 @@ export default function ApprovalsPage() {
                 <TabsTrigger value="processed">
                   Processed ({processedRequests.length})
                 </TabsTrigger>
+                {hasRole(['ADMIN', 'MANAGER', 'SUPERVISOR']) && (
+                  <TabsTrigger value="time">
+                    Time Entries ({pendingTimeEntries.length})
+                  </TabsTrigger>
+                )}
               </TabsList>
 
               <TabsContent value="pending" className="space-y-4">
@@ -288,9 +400,21 @@ export default function ApprovalsPage() {
                                   {line.item.code} • {line.item.uom}
                                 </p>
                               </div>
-                              <div className="text-right">
-                                <p className="font-bold">{line.requestedQty}</p>
-                                <p className="text-xs text-muted-foreground">Requested</p>
+                              <div className="flex gap-4 text-right">
+                                <div>
+                                  <p className={`font-bold ${
+                                    (getAvailability(request, line)?.availableQty ?? 0) < line.requestedQty
+                                      ? 'text-red-600'
+                                      : ''
+                                  }`}>
+                                    {getAvailability(request, line)?.availableQty ?? '-'}
+                                  </p>
+                                  <p className="text-xs text-muted-foreground">Available</p>
+                                </div>
+                                <div>
+                                  <p className="font-bold">{line.requestedQty}</p>
+                                  <p className="text-xs text-muted-foreground">Requested</p>
+                                </div>
                               </div>
                             </div>
                           ))}
@@ -350,6 +474,55 @@ export default function ApprovalsPage() {
                   ))
                 )}
               </TabsContent>
+
+              <TabsContent value="time" className="space-y-4">
+                {pendingTimeEntries.length === 0 ? (
+                  <Card>
+                    <CardContent className="p-6 text-center text-muted-foreground">
+                      <Timer className="h-8 w-8 mx-auto mb-2" />
+                      <p>No time entries awaiting approval</p>
+                    </CardContent>
+                  </Card>
+                ) : (
+                  pendingTimeEntries.map((entry) => (
+                    <Card key={entry.id}>
+                      <CardContent className="p-4">
+                        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                          <div>
+                            <p className="font-medium">{entry.user.name} • {entry.hours.toFixed(2)} h</p>
+                            <p className="text-sm text-muted-foreground">
+                              {entry.job.asset ? `${entry.job.asset.code} - ` : ''}{entry.job.title}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {new Date(entry.startedAt).toLocaleString()} – {new Date(entry.endedAt).toLocaleString()}
+                            </p>
+                            {entry.notes && (
+                              <p className="text-sm mt-1">{entry.notes}</p>
+                            )}
+                          </div>
+                          <div className="flex gap-2">
+                            <Button
+                              variant="outline"
+                              onClick={() => handleTimeEntry(entry, 'reject')}
+                              disabled={timeEntryLoading === entry.id}
+                            >
+                              <XCircle className="h-4 w-4 mr-2" />
+                              Reject
+                            </Button>
+                            <Button
+                              onClick={() => handleTimeEntry(entry, 'approve')}
+                              disabled={timeEntryLoading === entry.id}
+                            >
+                              <CheckCircle2 className="h-4 w-4 mr-2" />
+                              Approve
+                            </Button>
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))
+                )}
+              </TabsContent>
             </Tabs>
           </div>
         </main>
@@ -382,6 +555,17 @@ export default function ApprovalsPage() {
                     / {line.requestedQty} {line.item.uom}
                   </span>
                 </div>
+                {selectedRequest && getAvailability(selectedRequest, line) && (
+                  <p className={`text-xs ${
+                    (approvedLines[line.id] || 0) > getAvailability(selectedRequest, line).availableQty
+                      ? 'text-red-600'
+                      : 'text-muted-foreground'
+                  }`}>
+                    {`Available to promise: ${getAvailability(selectedRequest, line).availableQty} ` +
+                      `(on hand ${getAvailability(selectedRequest, line).onHandQty}, ` +
+                      `reserved ${getAvailability(selectedRequest, line).reservedQty})`}
+                  </p>
+                )}
               </div>
             ))}
           </div>
@@ -37,7 +37,9 @@ import {
 } from '@/components/ui/select';
 import { toast } from '@/components/ui/use-toast';
 import { ColumnDef } from '@tanstack/react-table';
-import { Plus, Pencil, Trash2, Package, Loader2 } from 'lucide-react';
+import { PrintLabelsDialog } from '@/components/labels/PrintLabelsDialog';
+import { AttachmentsDialog } from '@/components/attachments/AttachmentList';
+import { Plus, Pencil, Trash2, Package, Loader2, Printer, Paperclip } from 'lucide-react';
 
 interface Asset {
   id: string;
@@ -76,6 +78,8 @@ export default function AssetsPage() {
     purchaseDate: '',
   });
   const [saving, setSaving] = useState(false);
+  const [labelAssetIds, setLabelAssetIds] = useState<string[] | null>(null);
+  const [attachmentAsset, setAttachmentAsset] = useState<Asset | null>(null);
 
   const canEdit = hasRole(['ADMIN', 'MANAGER']);
 
@@ -260,26 +264,43 @@ export default function AssetsPage() {
       id: 'actions',
       header: 'Actions',
       cell: ({ row }) => {
-        if (!canEdit) return null;
         return (
           <div className="flex items-center gap-2">
             <Button
               variant="ghost"
               size="icon"
-              onClick={() => handleOpenDialog(row.original)}
+              onClick={() => setLabelAssetIds([row.original.id])}
             >
-              <Pencil className="h-4 w-4" />
+              <Printer className="h-4 w-4" />
             </Button>
             <Button
               variant="ghost"
               size="icon"
-              onClick={() => {
-                setSelectedAsset(row.original);
-                setDeleteDialogOpen(true);
-              }}
+              onClick={() => setAttachmentAsset(row.original)}
             >
-              <Trash2 className="h-4 w-4 text-red-500" />
+              <Paperclip className="h-4 w-4" />
             </Button>
+            {canEdit && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleOpenDialog(row.original)}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => {
+                    setSelectedAsset(row.original);
+                    setDeleteDialogOpen(true);
+                  }}
+                >
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              </>
+            )}
           </div>
         );
       },
@@ -315,12 +336,22 @@ export default function AssetsPage() {
                   Manage your company assets
                 </p>
               </div>
-              {canEdit && (
-                <Button onClick={() => handleOpenDialog()}>
-                  <Plus className="mr-2 h-4 w-4" />
-                  Add Asset
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setLabelAssetIds(assets.map((a) => a.id))}
+                  disabled={assets.length === 0}
+                >
+                  <Printer className="mr-2 h-4 w-4" />
+                  Print Labels
                 </Button>
-              )}
+                {canEdit && (
+                  <Button onClick={() => handleOpenDialog()}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Asset
+                  </Button>
+                )}
+              </div>
             </div>
 
             <DataTable
@@ -333,6 +364,24 @@ export default function AssetsPage() {
         </main>
       </div>
 
+      <PrintLabelsDialog
+        open={labelAssetIds !== null}
+        onOpenChange={(open) => !open && setLabelAssetIds(null)}
+        entity="ASSET"
+        ids={labelAssetIds || []}
+        title="Print Asset Labels"
+      />
+
+      {attachmentAsset && (
+        <AttachmentsDialog
+          open={attachmentAsset !== null}
+          onOpenChange={(open) => !open && setAttachmentAsset(null)}
+          entityType="ASSET"
+          entityId={attachmentAsset.id}
+          title={`${attachmentAsset.code} Documents`}
+        />
+      )}
+
       {/* Add/Edit Dialog */}
       <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
         <DialogContent className="sm:max-w-[500px]">
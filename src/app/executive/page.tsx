@@ -28,6 +28,9 @@ import {
   Lock,
   Unlock,
   Clock,
+  Package,
+  Download,
+  Timer,
 } from 'lucide-react';
 
 interface ExecutiveData {
@@ -70,6 +73,29 @@ interface ExecutiveData {
     cost: number;
   };
   activeDowntimes: any[];
+  sla: {
+    overall: SlaComplianceRow;
+    openBreaches: number;
+    bySite: SlaComplianceRow[];
+    byTechnician: SlaComplianceRow[];
+  };
+}
+
+interface SlaComplianceRow {
+  key: string;
+  jobs: number;
+  responseMet: number;
+  responseBreached: number;
+  resolutionMet: number;
+  resolutionBreached: number;
+  compliance: number;
+}
+
+interface StockValuationSummary {
+  totalValue: number;
+  mismatchCount: number;
+  byStore: { key: string; value: number }[];
+  periodLock: { closingInventoryValue: number } | null;
 }
 
 export default function ExecutivePage() {
@@ -81,6 +107,12 @@ export default function ExecutivePage() {
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
   const [selectedMonth, setSelectedMonth] = useState(new Date().getMonth() + 1);
   const [isLocked, setIsLocked] = useState(false);
+  const [valuation, setValuation] = useState<StockValuationSummary | null>(null);
+
+  // Month-end date (YYYY-MM-DD) of the selected period
+  const periodEnd = `${selectedYear}-${String(selectedMonth).padStart(2, '0')}-${String(
+    new Date(selectedYear, selectedMonth, 0).getDate()
+  ).padStart(2, '0')}`;
 
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
@@ -108,6 +140,14 @@ export default function ExecutivePage() {
       );
       const result = await res.json();
       setData(result);
+
+      const valuationRes = await fetch(
+        `/api/reports?type=stock-valuation&asOf=${periodEnd}`,
+        { credentials: 'include' }
+      );
+      if (valuationRes.ok) {
+        setValuation(await valuationRes.json());
+      }
     } catch (error) {
       console.error('Error fetching executive data:', error);
     } finally {
@@ -539,6 +579,116 @@ export default function ExecutivePage() {
                   </CardContent>
                 </Card>
               </div>
+
+              {/* SLA Compliance */}
+              {data.sla && (
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <CardTitle className="flex items-center gap-2">
+                          <Timer className="h-5 w-5" />
+                          SLA Compliance
+                        </CardTitle>
+                        <CardDescription>
+                          Resolution targets met for jobs raised this period, paused time excluded
+                        </CardDescription>
+                      </div>
+                      <div className="text-right">
+                        <p className={`text-2xl font-bold ${
+                          data.sla.overall.compliance >= 90 ? 'text-green-600' : 'text-red-600'
+                        }`}>
+                          {data.sla.overall.compliance.toFixed(0)}%
+                        </p>
+                        {data.sla.openBreaches > 0 && (
+                          <Badge variant="destructive" className="text-xs">
+                            {data.sla.openBreaches} open breach{data.sla.openBreaches === 1 ? '' : 'es'}
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      {[
+                        { title: 'By Site', rows: data.sla.bySite },
+                        { title: 'By Technician', rows: data.sla.byTechnician },
+                      ].map((group) => (
+                        <div key={group.title}>
+                          <p className="text-sm font-medium mb-2">{group.title}</p>
+                          <div className="space-y-1 max-h-60 overflow-y-auto">
+                            {group.rows.length === 0 ? (
+                              <p className="text-sm text-muted-foreground">No jobs with SLA targets</p>
+                            ) : (
+                              group.rows.map((row) => (
+                                <div key={row.key} className="flex items-center justify-between text-sm p-2 bg-muted/50 rounded">
+                                  <span>{row.key}</span>
+                                  <span className="flex items-center gap-3">
+                                    <span className="text-xs text-muted-foreground">
+                                      {row.jobs} jobs • response {row.responseMet}/{row.responseMet + row.responseBreached}
+                                    </span>
+                                    <span className={`font-medium ${row.compliance >= 90 ? 'text-green-600' : 'text-red-600'}`}>
+                                      {row.compliance.toFixed(0)}%
+                                    </span>
+                                  </span>
+                                </div>
+                              ))
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Inventory Valuation */}
+              {valuation && (
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <CardTitle className="flex items-center gap-2">
+                          <Package className="h-5 w-5" />
+                          Inventory Value
+                        </CardTitle>
+                        <CardDescription>Reconstructed from the stock ledger as of {periodEnd}</CardDescription>
+                      </div>
+                      <Button
+                        variant="outline"
+                        onClick={() => window.open(`/api/reports?type=stock-valuation&asOf=${periodEnd}&format=csv`)}
+                      >
+                        <Download className="h-4 w-4 mr-2" />
+                        Export CSV
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex flex-wrap items-center gap-4">
+                      <p className="text-2xl font-bold">${valuation.totalValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}</p>
+                      {valuation.periodLock && (
+                        <Badge variant="secondary" className="gap-1">
+                          <Lock className="h-3 w-3" />
+                          Locked at ${valuation.periodLock.closingInventoryValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                        </Badge>
+                      )}
+                      {valuation.mismatchCount > 0 && (
+                        <Badge variant="destructive">
+                          {valuation.mismatchCount} ledger/stock mismatch{valuation.mismatchCount === 1 ? '' : 'es'}
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                      {valuation.byStore.map((store) => (
+                        <div key={store.key} className="flex justify-between text-sm p-2 bg-muted/50 rounded">
+                          <span>{store.key}</span>
+                          <span className="font-medium">${store.value.toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
             </>
           ) : (
             <p className="text-center text-muted-foreground py-12">No data available</p>
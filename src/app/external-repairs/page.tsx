@@ -20,6 +20,7 @@ import {
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { AttachmentsDialog } from '@/components/attachments/AttachmentList';
 import {
   Select,
   SelectContent,
@@ -36,15 +37,23 @@ import {
   CheckCircle,
   AlertTriangle,
   FileText,
+  Paperclip,
 } from 'lucide-react';
 
 interface ExternalRepair {
   id: string;
-  assetId: string;
+  assetId: string | null;
   asset: {
     code: string;
     description: string;
-  };
+  } | null;
+  rotableUnit: {
+    serialNumber: string;
+    item: {
+      code: string;
+      description: string;
+    };
+  } | null;
   vendorName: string;
   vendorReference: string | null;
   gatePassNumber: string;
@@ -89,6 +98,7 @@ export default function ExternalRepairsPage() {
   const [showReceiveDialog, setShowReceiveDialog] = useState(false);
   const [showInvoiceDialog, setShowInvoiceDialog] = useState(false);
   const [selectedRepair, setSelectedRepair] = useState<ExternalRepair | null>(null);
+  const [attachmentRepair, setAttachmentRepair] = useState<ExternalRepair | null>(null);
 
   const [formData, setFormData] = useState({
     assetId: '',
@@ -470,7 +480,14 @@ export default function ExternalRepairsPage() {
                         </div>
                         <div>
                           <div className="flex items-center gap-2">
-                            <p className="font-medium">{repair.asset.code}</p>
+                            <p className="font-medium">
+                              {repair.asset
+                                ? repair.asset.code
+                                : `${repair.rotableUnit?.item.code} S/N ${repair.rotableUnit?.serialNumber}`}
+                            </p>
+                            {repair.rotableUnit && (
+                              <Badge variant="outline">Rotable Overhaul</Badge>
+                            )}
                             <Badge className={getStatusColor(repair.status)}>
                               {repair.status}
                             </Badge>
@@ -481,7 +498,7 @@ export default function ExternalRepairsPage() {
                             )}
                           </div>
                           <p className="text-sm text-muted-foreground">
-                            {repair.asset.description}
+                            {repair.asset?.description || repair.rotableUnit?.item.description}
                           </p>
                           <div className="flex items-center gap-4 mt-1 text-xs text-muted-foreground">
                             <span>Vendor: {repair.vendorName}</span>
@@ -538,6 +555,14 @@ export default function ExternalRepairsPage() {
                               Mark Paid
                             </Button>
                           )}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setAttachmentRepair(repair)}
+                          >
+                            <Paperclip className="h-4 w-4 mr-1" />
+                            Documents
+                          </Button>
                         </div>
                       </div>
                     </div>
@@ -547,6 +572,17 @@ export default function ExternalRepairsPage() {
             </CardContent>
           </Card>
 
+          {attachmentRepair && (
+            <AttachmentsDialog
+              open={attachmentRepair !== null}
+              onOpenChange={(open) => !open && setAttachmentRepair(null)}
+              entityType="EXTERNAL_REPAIR"
+              entityId={attachmentRepair.id}
+              canUpload={canCreate}
+              title="Repair Documents"
+            />
+          )}
+
           {/* Receive Dialog */}
           <Dialog open={showReceiveDialog} onOpenChange={setShowReceiveDialog}>
             <DialogContent>
@@ -0,0 +1,464 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { Sidebar } from '@/components/layout/Sidebar';
+import { Header } from '@/components/layout/Header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from '@/components/ui/use-toast';
+import { RefreshCw, Layers, TrendingDown, Archive } from 'lucide-react';
+
+interface TurnoverLine {
+  itemId: string;
+  itemCode: string;
+  itemDescription: string;
+  uom: string | null;
+  abcClass: string | null;
+  xyzClass: string | null;
+  storeId: string;
+  storeName: string;
+  onHandQty: number;
+  onHandValue: number;
+  consumedQty: number;
+  consumedValue: number;
+  turnover: number | null;
+  daysOfCover: number | null;
+}
+
+interface StoreTurnover {
+  storeId: string;
+  storeName: string;
+  onHandValue: number;
+  consumedValue: number;
+  turnover: number | null;
+  daysOfCover: number | null;
+}
+
+interface DeadStockLine {
+  itemId: string;
+  itemCode: string;
+  itemDescription: string;
+  uom: string | null;
+  abcClass: string | null;
+  storeId: string;
+  storeName: string;
+  quantity: number;
+  value: number;
+  lastMovementAt: string | null;
+  daysSinceMovement: number | null;
+}
+
+const ABC_CLASSES = ['A', 'B', 'C'];
+const XYZ_CLASSES = ['X', 'Y', 'Z'];
+
+const formatMoney = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export default function InventoryAnalyticsPage() {
+  const { isAuthenticated, isLoading, hasRole } = useAuth();
+  const router = useRouter();
+
+  const [stores, setStores] = useState<{ id: string; name: string }[]>([]);
+  const [storeId, setStoreId] = useState('ALL');
+  const [months, setMonths] = useState('12');
+  const [deadMonths, setDeadMonths] = useState('6');
+  const [matrix, setMatrix] = useState<Record<string, number>>({});
+  const [classifiedAt, setClassifiedAt] = useState<string | null>(null);
+  const [turnoverLines, setTurnoverLines] = useState<TurnoverLine[]>([]);
+  const [storeTurnover, setStoreTurnover] = useState<StoreTurnover[]>([]);
+  const [deadStock, setDeadStock] = useState<DeadStockLine[]>([]);
+  const [deadStockValue, setDeadStockValue] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [classifying, setClassifying] = useState(false);
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/login');
+    }
+  }, [isAuthenticated, isLoading, router]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchStores();
+    }
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchData();
+    }
+  }, [isAuthenticated, storeId, months, deadMonths]);
+
+  const fetchStores = async () => {
+    try {
+      const response = await fetch('/api/stores?status=ACTIVE', { credentials: 'include' });
+      if (response.ok) {
+        const data = await response.json();
+        setStores(data.stores.filter((s: { isQuarantine?: boolean }) => !s.isQuarantine));
+      }
+    } catch (error) {
+      console.error('Error fetching stores:', error);
+    }
+  };
+
+  const fetchData = async () => {
+    setLoading(true);
+    const storeParam = storeId === 'ALL' ? '' : `&storeId=${storeId}`;
+
+    try {
+      const [classificationRes, turnoverRes, deadStockRes] = await Promise.all([
+        fetch('/api/inventory-analytics?type=classification', { credentials: 'include' }),
+        fetch(`/api/inventory-analytics?type=turnover&months=${months}${storeParam}`, { credentials: 'include' }),
+        fetch(`/api/inventory-analytics?type=dead-stock&months=${deadMonths}${storeParam}`, { credentials: 'include' }),
+      ]);
+
+      if (classificationRes.ok) {
+        const data = await classificationRes.json();
+        setMatrix(data.matrix);
+        setClassifiedAt(data.classifiedAt);
+      }
+
+      if (turnoverRes.ok) {
+        const data = await turnoverRes.json();
+        setTurnoverLines(data.lines);
+        setStoreTurnover(data.stores);
+      }
+
+      if (deadStockRes.ok) {
+        const data = await deadStockRes.json();
+        setDeadStock(data.lines);
+        setDeadStockValue(data.totalValue);
+      }
+    } catch (error) {
+      console.error('Error fetching inventory analytics:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClassify = async () => {
+    setClassifying(true);
+    try {
+      const response = await fetch('/api/inventory-analytics', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ months: parseInt(months) }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        toast({ title: 'Success', description: `${data.items.length} items classified on ${months} months of consumption` });
+        fetchData();
+      } else {
+        toast({ title: 'Error', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to classify items', variant: 'destructive' });
+    } finally {
+      setClassifying(false);
+    }
+  };
+
+  const getClassColor = (abcClass: string | null) => {
+    switch (abcClass) {
+      case 'A':
+        return 'bg-red-100 text-red-700 dark:bg-red-900/20';
+      case 'B':
+        return 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/20';
+      case 'C':
+        return 'bg-green-100 text-green-700 dark:bg-green-900/20';
+      default:
+        return 'bg-gray-100 text-gray-700 dark:bg-gray-900/20';
+    }
+  };
+
+  const canClassify = hasRole(['ADMIN', 'MANAGER']);
+  const unclassified = Object.entries(matrix)
+    .filter(([key]) => key.includes('-'))
+    .reduce((sum, [, count]) => sum + count, 0);
+
+  if (isLoading || !isAuthenticated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col md:flex-row">
+      <Sidebar />
+      <div className="flex-1 flex flex-col min-h-screen">
+        <Header title="Inventory Analytics" />
+        <main className="flex-1 overflow-auto p-4 md:p-6 space-y-6">
+          <div className="flex flex-wrap justify-between gap-2">
+            <div className="flex flex-wrap gap-2">
+              <Select value={storeId} onValueChange={setStoreId}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ALL">All Stores</SelectItem>
+                  {stores.map((store) => (
+                    <SelectItem key={store.id} value={store.id}>{store.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={months} onValueChange={setMonths}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="6">Last 6 months</SelectItem>
+                  <SelectItem value="12">Last 12 months</SelectItem>
+                  <SelectItem value="24">Last 24 months</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={fetchData}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Refresh
+              </Button>
+              {canClassify && (
+                <Button onClick={handleClassify} disabled={classifying}>
+                  <Layers className="h-4 w-4 mr-2" />
+                  {classifying ? 'Classifying...' : 'Reclassify ABC/XYZ'}
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            {/* ABC/XYZ matrix */}
+            <Card>
+              <CardHeader>
+                <CardTitle>ABC / XYZ Matrix</CardTitle>
+                <CardDescription>
+                  ABC by consumption value (80% / 15% / 5%), XYZ by variability of monthly demand
+                  {classifiedAt ? ` - classified ${new Date(classifiedAt).toLocaleDateString()}` : ' - not yet classified'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-4 gap-2 text-center text-sm">
+                  <div />
+                  {XYZ_CLASSES.map((xyz) => (
+                    <div key={xyz} className="font-medium text-muted-foreground">{xyz}</div>
+                  ))}
+                  {ABC_CLASSES.map((abc) => (
+                    <React.Fragment key={abc}>
+                      <div className="font-medium text-muted-foreground flex items-center justify-center">{abc}</div>
+                      {XYZ_CLASSES.map((xyz) => (
+                        <div key={xyz} className={`rounded-lg p-3 ${getClassColor(abc)}`}>
+                          <p className="text-xl font-bold">{matrix[`${abc}${xyz}`] || 0}</p>
+                          <p className="text-xs">{abc}{xyz}</p>
+                        </div>
+                      ))}
+                    </React.Fragment>
+                  ))}
+                </div>
+                {unclassified > 0 && (
+                  <p className="text-xs text-muted-foreground mt-3">{unclassified} active items not yet classified</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Store turnover */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Turnover by Store</CardTitle>
+                <CardDescription>Consumption value over average inventory value for the period</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {storeTurnover.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">No stock held</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b text-left">
+                          <th className="py-2 pr-4">Store</th>
+                          <th className="py-2 pr-4 text-right">On Hand</th>
+                          <th className="py-2 pr-4 text-right">Consumed</th>
+                          <th className="py-2 pr-4 text-right">Turns</th>
+                          <th className="py-2 text-right">Days Cover</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {storeTurnover.map((store) => (
+                          <tr key={store.storeId} className="border-b last:border-0">
+                            <td className="py-2 pr-4 font-medium">{store.storeName}</td>
+                            <td className="py-2 pr-4 text-right">{formatMoney(store.onHandValue)}</td>
+                            <td className="py-2 pr-4 text-right">{formatMoney(store.consumedValue)}</td>
+                            <td className="py-2 pr-4 text-right">{store.turnover !== null ? store.turnover.toFixed(2) : '-'}</td>
+                            <td className="py-2 text-right">{store.daysOfCover !== null ? Math.round(store.daysOfCover) : '-'}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Tabs defaultValue="dead">
+            <TabsList>
+              <TabsTrigger value="dead">
+                <Archive className="h-4 w-4 mr-2" />
+                Dead Stock ({deadStock.length})
+              </TabsTrigger>
+              <TabsTrigger value="turnover">
+                <TrendingDown className="h-4 w-4 mr-2" />
+                Item Turnover
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="dead">
+              <Card>
+                <CardHeader className="flex flex-row items-start justify-between gap-4">
+                  <div>
+                    <CardTitle>Dead Stock</CardTitle>
+                    <CardDescription>
+                      Stock with no movement in the last {deadMonths} months - {formatMoney(deadStockValue)} tied up
+                    </CardDescription>
+                  </div>
+                  <Select value={deadMonths} onValueChange={setDeadMonths}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="3">3 months</SelectItem>
+                      <SelectItem value="6">6 months</SelectItem>
+                      <SelectItem value="12">12 months</SelectItem>
+                      <SelectItem value="24">24 months</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </CardHeader>
+                <CardContent>
+                  {loading ? (
+                    <div className="flex justify-center py-8">
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+                    </div>
+                  ) : deadStock.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-8">No dead stock</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b text-left">
+                            <th className="py-2 pr-4">Item</th>
+                            <th className="py-2 pr-4">Store</th>
+                            <th className="py-2 pr-4 text-right">Quantity</th>
+                            <th className="py-2 pr-4 text-right">Value</th>
+                            <th className="py-2">Last Movement</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {deadStock.map((line) => (
+                            <tr key={`${line.itemId}:${line.storeId}`} className="border-b last:border-0">
+                              <td className="py-2 pr-4">
+                                <div className="flex items-center gap-2">
+                                  <span className="font-medium">{line.itemCode}</span>
+                                  {line.abcClass && (
+                                    <Badge className={getClassColor(line.abcClass)}>{line.abcClass}</Badge>
+                                  )}
+                                </div>
+                                <p className="text-xs text-muted-foreground">{line.itemDescription}</p>
+                              </td>
+                              <td className="py-2 pr-4">{line.storeName}</td>
+                              <td className="py-2 pr-4 text-right">{line.quantity} {line.uom}</td>
+                              <td className="py-2 pr-4 text-right">{formatMoney(line.value)}</td>
+                              <td className="py-2">
+                                {line.lastMovementAt
+                                  ? `${new Date(line.lastMovementAt).toLocaleDateString()} (${line.daysSinceMovement} days)`
+                                  : 'Never'}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="turnover">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Item Turnover</CardTitle>
+                  <CardDescription>Slowest moving first; days of cover at the average daily consumption</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {loading ? (
+                    <div className="flex justify-center py-8">
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+                    </div>
+                  ) : turnoverLines.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-8">No stock held</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b text-left">
+                            <th className="py-2 pr-4">Item</th>
+                            <th className="py-2 pr-4">Store</th>
+                            <th className="py-2 pr-4 text-right">On Hand</th>
+                            <th className="py-2 pr-4 text-right">Consumed</th>
+                            <th className="py-2 pr-4 text-right">Turns</th>
+                            <th className="py-2 text-right">Days Cover</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {turnoverLines.map((line) => (
+                            <tr key={`${line.itemId}:${line.storeId}`} className="border-b last:border-0">
+                              <td className="py-2 pr-4">
+                                <div className="flex items-center gap-2">
+                                  <span className="font-medium">{line.itemCode}</span>
+                                  {line.abcClass && (
+                                    <Badge className={getClassColor(line.abcClass)}>
+                                      {line.abcClass}{line.xyzClass || ''}
+                                    </Badge>
+                                  )}
+                                </div>
+                                <p className="text-xs text-muted-foreground">{line.itemDescription}</p>
+                              </td>
+                              <td className="py-2 pr-4">{line.storeName}</td>
+                              <td className="py-2 pr-4 text-right">
+                                {line.onHandQty} {line.uom}
+                                <p className="text-xs text-muted-foreground">{formatMoney(line.onHandValue)}</p>
+                              </td>
+                              <td className="py-2 pr-4 text-right">
+                                {line.consumedQty} {line.uom}
+                                <p className="text-xs text-muted-foreground">{formatMoney(line.consumedValue)}</p>
+                              </td>
+                              <td className="py-2 pr-4 text-right">{line.turnover !== null ? line.turnover.toFixed(2) : '-'}</td>
+                              <td className="py-2 text-right">{line.daysOfCover !== null ? Math.round(line.daysOfCover) : '-'}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        </main>
+      </div>
+    </div>
+  );
+}
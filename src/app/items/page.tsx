@@ -37,16 +37,21 @@ import {
 } from '@/components/ui/select';
 import { toast } from '@/components/ui/use-toast';
 import { ColumnDef } from '@tanstack/react-table';
-import { Plus, Pencil, Trash2, Box, Loader2 } from 'lucide-react';
+import { PrintLabelsDialog } from '@/components/labels/PrintLabelsDialog';
+import { Plus, Pencil, Trash2, Box, Loader2, Printer } from 'lucide-react';
 
 interface Item {
   id: string;
   code: string;
   description: string;
   uom: string | null;
+  purchaseUom: string | null;
+  issueUom: string | null;
+  uomConversions: { uom: string; factor: number }[];
   category: string | null;
   status: string;
   valuationMethod: string;
+  trackingType: string;
   unitPrice: number | null;
   minStock: number | null;
   maxStock: number | null;
@@ -71,14 +76,19 @@ export default function ItemsPage() {
     code: '',
     description: '',
     uom: '',
+    purchaseUom: '',
+    issueUom: '',
+    uomConversions: [] as { uom: string; factor: string }[],
     category: '',
     status: 'ACTIVE',
     valuationMethod: 'WEIGHTED_AVERAGE',
+    trackingType: 'NONE',
     unitPrice: '',
     minStock: '',
     maxStock: '',
   });
   const [saving, setSaving] = useState(false);
+  const [labelItemIds, setLabelItemIds] = useState<string[] | null>(null);
 
   const canEdit = hasRole(['ADMIN', 'MANAGER']);
 
@@ -117,9 +127,13 @@ export default function ItemsPage() {
         code: item.code,
         description: item.description,
         uom: item.uom || '',
+        purchaseUom: item.purchaseUom || '',
+        issueUom: item.issueUom || '',
+        uomConversions: (item.uomConversions || []).map((c) => ({ uom: c.uom, factor: c.factor.toString() })),
         category: item.category || '',
         status: item.status,
         valuationMethod: item.valuationMethod,
+        trackingType: item.trackingType,
         unitPrice: item.unitPrice?.toString() || '',
         minStock: item.minStock?.toString() || '',
         maxStock: item.maxStock?.toString() || '',
@@ -130,9 +144,13 @@ export default function ItemsPage() {
         code: '',
         description: '',
         uom: '',
+        purchaseUom: '',
+        issueUom: '',
+        uomConversions: [],
         category: '',
         status: 'ACTIVE',
         valuationMethod: 'WEIGHTED_AVERAGE',
+        trackingType: 'NONE',
         unitPrice: '',
         minStock: '',
         maxStock: '',
@@ -141,6 +159,15 @@ export default function ItemsPage() {
     setDialogOpen(true);
   };
 
+  const updateConversion = (index: number, field: 'uom' | 'factor', value: string) => {
+    setFormData({
+      ...formData,
+      uomConversions: formData.uomConversions.map((c, i) =>
+        i === index ? { ...c, [field]: field === 'uom' ? value.toUpperCase() : value } : c
+      ),
+    });
+  };
+
   const handleSave = async () => {
     if (!formData.code || !formData.description) {
       toast({
@@ -162,7 +189,10 @@ export default function ItemsPage() {
           'Content-Type': 'application/json',
         },
         credentials: 'include',
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          ...formData,
+          uomConversions: formData.uomConversions.filter((c) => c.uom && c.factor),
+        }),
       });
 
       if (response.ok) {
@@ -275,26 +305,36 @@ export default function ItemsPage() {
       id: 'actions',
       header: 'Actions',
       cell: ({ row }) => {
-        if (!canEdit) return null;
         return (
           <div className="flex items-center gap-2">
             <Button
               variant="ghost"
               size="icon"
-              onClick={() => handleOpenDialog(row.original)}
-            >
-              <Pencil className="h-4 w-4" />
-            </Button>
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={() => {
-                setSelectedItem(row.original);
-                setDeleteDialogOpen(true);
-              }}
+              onClick={() => setLabelItemIds([row.original.id])}
             >
-              <Trash2 className="h-4 w-4 text-red-500" />
+              <Printer className="h-4 w-4" />
             </Button>
+            {canEdit && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleOpenDialog(row.original)}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => {
+                    setSelectedItem(row.original);
+                    setDeleteDialogOpen(true);
+                  }}
+                >
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              </>
+            )}
           </div>
         );
       },
@@ -330,12 +370,22 @@ export default function ItemsPage() {
                   Manage your inventory items
                 </p>
               </div>
-              {canEdit && (
-                <Button onClick={() => handleOpenDialog()}>
-                  <Plus className="mr-2 h-4 w-4" />
-                  Add Item
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setLabelItemIds(items.map((i) => i.id))}
+                  disabled={items.length === 0}
+                >
+                  <Printer className="mr-2 h-4 w-4" />
+                  Print Labels
                 </Button>
-              )}
+                {canEdit && (
+                  <Button onClick={() => handleOpenDialog()}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Item
+                  </Button>
+                )}
+              </div>
             </div>
 
             <DataTable
@@ -348,6 +398,14 @@ export default function ItemsPage() {
         </main>
       </div>
 
+      <PrintLabelsDialog
+        open={labelItemIds !== null}
+        onOpenChange={(open) => !open && setLabelItemIds(null)}
+        entity="ITEM"
+        ids={labelItemIds || []}
+        title="Print Item Labels"
+      />
+
       {/* Add/Edit Dialog */}
       <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
         <DialogContent className="sm:max-w-[500px]">
@@ -402,6 +460,87 @@ export default function ItemsPage() {
                 placeholder="e.g., PCS, KG, LTR"
               />
             </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="purchaseUom" className="text-right">
+                Purchase UoM
+              </Label>
+              <Input
+                id="purchaseUom"
+                value={formData.purchaseUom}
+                onChange={(e) =>
+                  setFormData({ ...formData, purchaseUom: e.target.value.toUpperCase() })
+                }
+                className="col-span-3"
+                placeholder="Defaults to stock UoM"
+              />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="issueUom" className="text-right">
+                Issue UoM
+              </Label>
+              <Input
+                id="issueUom"
+                value={formData.issueUom}
+                onChange={(e) =>
+                  setFormData({ ...formData, issueUom: e.target.value.toUpperCase() })
+                }
+                className="col-span-3"
+                placeholder="Defaults to stock UoM"
+              />
+            </div>
+            <div className="grid grid-cols-4 items-start gap-4">
+              <Label className="text-right pt-2">
+                Conversions
+              </Label>
+              <div className="col-span-3 space-y-2">
+                {formData.uomConversions.map((conversion, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <span className="text-sm">1</span>
+                    <Input
+                      value={conversion.uom}
+                      onChange={(e) => updateConversion(index, 'uom', e.target.value)}
+                      placeholder="DRUM"
+                      className="w-24"
+                    />
+                    <span className="text-sm">=</span>
+                    <Input
+                      type="number"
+                      step="0.0001"
+                      value={conversion.factor}
+                      onChange={(e) => updateConversion(index, 'factor', e.target.value)}
+                      placeholder="208"
+                      className="w-24"
+                    />
+                    <span className="text-sm text-muted-foreground">{formData.uom || 'stock'}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() =>
+                        setFormData({
+                          ...formData,
+                          uomConversions: formData.uomConversions.filter((_, i) => i !== index),
+                        })
+                      }
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setFormData({
+                      ...formData,
+                      uomConversions: [...formData.uomConversions, { uom: '', factor: '' }],
+                    })
+                  }
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Conversion
+                </Button>
+              </div>
+            </div>
             <div className="grid grid-cols-4 items-center gap-4">
               <Label htmlFor="category" className="text-right">
                 Category
@@ -456,6 +595,26 @@ export default function ItemsPage() {
                 </SelectContent>
               </Select>
             </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="trackingType" className="text-right">
+                Tracking
+              </Label>
+              <Select
+                value={formData.trackingType}
+                onValueChange={(value) =>
+                  setFormData({ ...formData, trackingType: value })
+                }
+              >
+                <SelectTrigger className="col-span-3">
+                  <SelectValue placeholder="Select tracking" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="NONE">None</SelectItem>
+                  <SelectItem value="SERIAL">Serial Number</SelectItem>
+                  <SelectItem value="BATCH">Batch / Expiry</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
             <div className="grid grid-cols-4 items-center gap-4">
               <Label htmlFor="unitPrice" className="text-right">
                 Unit Price
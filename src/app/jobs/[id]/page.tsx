@@ -10,6 +10,15 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Dialog,
   DialogContent,
@@ -19,6 +28,8 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { toast } from '@/components/ui/use-toast';
+import { JobTimeline } from '@/components/jobs/JobTimeline';
+import { AttachmentList } from '@/components/attachments/AttachmentList';
 import {
   Wrench,
   Clock,
@@ -34,6 +45,13 @@ import {
   Calendar,
   User,
   History,
+  Timer,
+  TimerOff,
+  Plus,
+  ListChecks,
+  Paperclip,
+  MessageSquare,
+  GitBranch,
 } from 'lucide-react';
 
 interface Job {
@@ -84,8 +102,63 @@ interface Job {
       };
     }[];
   }[];
+  tasks?: {
+    id: string;
+    sequence: number;
+    title: string;
+    stepType: string;
+    mandatory: boolean;
+    status: string;
+    passed: boolean | null;
+    readingValue: number | null;
+    unit: string | null;
+    notes: string | null;
+  }[];
+  parentJob?: {
+    id: string;
+    title: string;
+    status: string;
+  } | null;
+  childJobs?: {
+    id: string;
+    title: string;
+    status: string;
+    priority: string;
+    totalCost: number;
+    assignedTo: { id: string; name: string } | null;
+  }[];
 }
 
+interface TimeEntry {
+  id: string;
+  source: string;
+  status: string;
+  startedAt: string;
+  endedAt?: string;
+  hours?: number;
+  laborCost?: number;
+  notes?: string;
+  rejectionReason?: string;
+  user: {
+    id: string;
+    name: string;
+  };
+}
+
+interface TimeEntrySummary {
+  approvedHours: number;
+  laborCost: number;
+  pending: number;
+  clockedOn: { id: string; name: string }[];
+}
+
+const timeEntryStatusColors: Record<string, string> = {
+  OPEN: 'bg-blue-100 text-blue-800',
+  PENDING_APPROVAL: 'bg-yellow-100 text-yellow-800',
+  APPROVED: 'bg-green-100 text-green-800',
+  REJECTED: 'bg-red-100 text-red-800',
+};
+
 const statusConfig: Record<string, { color: string; icon: React.ReactNode; label: string }> = {
   CREATED: { color: 'bg-gray-500', icon: <Clock className="h-4 w-4" />, label: 'Created' },
   ASSIGNED: { color: 'bg-blue-500', icon: <User className="h-4 w-4" />, label: 'Assigned' },
@@ -96,6 +169,19 @@ const statusConfig: Record<string, { color: string; icon: React.ReactNode; label
   CANCELLED: { color: 'bg-red-500', icon: <XCircle className="h-4 w-4" />, label: 'Cancelled' },
 };
 
+interface JobSla {
+  responseDueAt: string | null;
+  resolutionDueAt: string | null;
+  response: 'MET' | 'BREACHED' | 'PENDING' | null;
+  resolution: 'MET' | 'BREACHED' | 'PENDING' | null;
+}
+
+const slaColors: Record<string, string> = {
+  MET: 'text-green-600',
+  BREACHED: 'text-red-600',
+  PENDING: '',
+};
+
 const priorityConfig: Record<string, string> = {
   LOW: 'bg-gray-100 text-gray-700 border-gray-300',
   MEDIUM: 'bg-blue-100 text-blue-700 border-blue-300',
@@ -110,10 +196,25 @@ export default function JobDetailPage() {
   const jobId = params.id as string;
 
   const [job, setJob] = useState<Job | null>(null);
+  const [sla, setSla] = useState<JobSla | null>(null);
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState(false);
   const [completeDialogOpen, setCompleteDialogOpen] = useState(false);
   const [closureNotes, setClosureNotes] = useState('');
+  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
+  const [timeSummary, setTimeSummary] = useState<TimeEntrySummary | null>(null);
+  const [timeDialogOpen, setTimeDialogOpen] = useState(false);
+  const [technicians, setTechnicians] = useState<{ id: string; name: string }[]>([]);
+  const [timeForm, setTimeForm] = useState({ userId: '', startedAt: '', endedAt: '', notes: '' });
+  const [timelineKey, setTimelineKey] = useState(0);
+  const [subJobDialogOpen, setSubJobDialogOpen] = useState(false);
+  const [subJobForm, setSubJobForm] = useState({
+    title: '',
+    description: '',
+    assignedToId: '',
+    estimateHours: '',
+    itemRequestIds: [] as string[],
+  });
 
   const isSupervisor = hasRole(['ADMIN', 'MANAGER', 'SUPERVISOR']);
   const isAssigned = user?.id === job?.assignedTo?.id;
@@ -127,6 +228,7 @@ export default function JobDetailPage() {
       if (response.ok) {
         const data = await response.json();
         setJob(data.job);
+        setSla(data.sla);
       } else {
         toast({ title: 'Error', description: 'Job not found', variant: 'destructive' });
         router.push('/jobs');
@@ -138,6 +240,22 @@ export default function JobDetailPage() {
     }
   }, [jobId, router]);
 
+  const fetchTimeEntries = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/time-entries`, {
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setTimeEntries(data.entries);
+        setTimeSummary(data.summary);
+      }
+    } catch (error) {
+      console.error('Failed to fetch time entries:', error);
+    }
+  }, [jobId]);
+
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
       router.push('/login');
@@ -147,8 +265,20 @@ export default function JobDetailPage() {
   useEffect(() => {
     if (isAuthenticated && jobId) {
       fetchJob();
+      fetchTimeEntries();
     }
-  }, [isAuthenticated, jobId, fetchJob]);
+  }, [isAuthenticated, jobId, fetchJob, fetchTimeEntries]);
+
+  useEffect(() => {
+    if ((!timeDialogOpen && !subJobDialogOpen) || !isSupervisor || technicians.length > 0) return;
+
+    fetch('/api/users', { credentials: 'include' })
+      .then((response) => (response.ok ? response.json() : { users: [] }))
+      .then((data) => setTechnicians(data.users.filter((u: { role: string }) =>
+        ['TECHNICIAN', 'SUPERVISOR'].includes(u.role)
+      )))
+      .catch((error) => console.error('Failed to fetch technicians:', error));
+  }, [timeDialogOpen, subJobDialogOpen, isSupervisor, technicians.length]);
 
   const handleStatusAction = async (action: string) => {
     setActionLoading(true);
@@ -163,6 +293,8 @@ export default function JobDetailPage() {
       if (response.ok) {
         toast({ title: 'Success', description: `Job ${action} successful` });
         fetchJob();
+        fetchTimeEntries();
+        setTimelineKey((key) => key + 1);
       } else {
         const data = await response.json();
         toast({ title: 'Error', description: data.error, variant: 'destructive' });
@@ -188,6 +320,8 @@ export default function JobDetailPage() {
         toast({ title: 'Success', description: 'Job completed successfully' });
         setCompleteDialogOpen(false);
         fetchJob();
+        fetchTimeEntries();
+        setTimelineKey((key) => key + 1);
       } else {
         const data = await response.json();
         toast({ title: 'Error', description: data.error, variant: 'destructive' });
@@ -199,6 +333,126 @@ export default function JobDetailPage() {
     }
   };
 
+  const handleClock = async (action: 'on' | 'off') => {
+    setActionLoading(true);
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/clock`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ action }),
+      });
+
+      if (response.ok) {
+        toast({ title: 'Success', description: action === 'on' ? 'Clocked on' : 'Clocked off' });
+        fetchTimeEntries();
+      } else {
+        const data = await response.json();
+        toast({ title: 'Error', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Clock action failed', variant: 'destructive' });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleAddTime = async () => {
+    if (!timeForm.startedAt || !timeForm.endedAt) {
+      toast({
+        title: 'Validation Error',
+        description: 'Please enter a start and end time',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setActionLoading(true);
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/time-entries`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          userId: timeForm.userId || undefined,
+          startedAt: new Date(timeForm.startedAt).toISOString(),
+          endedAt: new Date(timeForm.endedAt).toISOString(),
+          notes: timeForm.notes,
+        }),
+      });
+
+      if (response.ok) {
+        toast({ title: 'Success', description: 'Time entered for approval' });
+        setTimeDialogOpen(false);
+        fetchTimeEntries();
+      } else {
+        const data = await response.json();
+        toast({ title: 'Error', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to enter time', variant: 'destructive' });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const openSubJobDialog = () => {
+    setSubJobForm({ title: '', description: '', assignedToId: '', estimateHours: '', itemRequestIds: [] });
+    setSubJobDialogOpen(true);
+  };
+
+  const toggleSubJobRequest = (requestId: string) => {
+    setSubJobForm((form) => ({
+      ...form,
+      itemRequestIds: form.itemRequestIds.includes(requestId)
+        ? form.itemRequestIds.filter((id) => id !== requestId)
+        : [...form.itemRequestIds, requestId],
+    }));
+  };
+
+  const handleCreateSubJob = async () => {
+    if (!subJobForm.title.trim()) {
+      toast({
+        title: 'Validation Error',
+        description: 'Please enter a title for the sub-job',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setActionLoading(true);
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/sub-jobs`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          title: subJobForm.title,
+          description: subJobForm.description || undefined,
+          assignedToId: subJobForm.assignedToId || undefined,
+          estimatedMinutes: subJobForm.estimateHours
+            ? Math.round(parseFloat(subJobForm.estimateHours) * 60)
+            : undefined,
+          itemRequestIds: subJobForm.itemRequestIds,
+        }),
+      });
+
+      if (response.ok) {
+        toast({ title: 'Success', description: 'Sub-job created' });
+        setSubJobDialogOpen(false);
+        fetchJob();
+        setTimelineKey((key) => key + 1);
+      } else {
+        const data = await response.json();
+        toast({ title: 'Error', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to create sub-job', variant: 'destructive' });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
   if (authLoading || loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -210,6 +464,11 @@ export default function JobDetailPage() {
   if (!isAuthenticated || !job) return null;
 
   const config = statusConfig[job.status];
+  const isClockedOn = !!timeSummary?.clockedOn.some((u) => u.id === user?.id);
+  const canBookTime = isSupervisor || hasRole(['TECHNICIAN']);
+  const childJobs = job.childJobs || [];
+  const canAddSubJob = isSupervisor && !job.parentJob && !['COMPLETED', 'CLOSED', 'CANCELLED'].includes(job.status);
+  const subJobsDone = childJobs.every((c) => ['COMPLETED', 'CLOSED', 'CANCELLED'].includes(c.status));
 
   return (
     <div className="min-h-screen flex flex-col md:flex-row">
@@ -273,6 +532,23 @@ export default function JobDetailPage() {
                   </div>
                 </div>
 
+                {/* SLA */}
+                {sla?.resolutionDueAt && (
+                  <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+                    {[
+                      { label: 'Respond by', dueAt: sla.responseDueAt, outcome: sla.response },
+                      { label: 'Resolve by', dueAt: sla.resolutionDueAt, outcome: sla.resolution },
+                    ].map((target) => target.dueAt && (
+                      <span key={target.label} className={`flex items-center gap-1 ${slaColors[target.outcome || 'PENDING']}`}>
+                        <Timer className="h-4 w-4" />
+                        {target.label} {new Date(target.dueAt).toLocaleString()}
+                        {target.outcome === 'MET' && ' (met)'}
+                        {target.outcome === 'BREACHED' && ' (breached)'}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
                 {/* Description */}
                 <div>
                   <h3 className="font-semibold mb-2">Description</h3>
@@ -315,6 +591,85 @@ export default function JobDetailPage() {
               </CardContent>
             </Card>
 
+            {/* Sub-jobs */}
+            {(job.parentJob || childJobs.length > 0 || canAddSubJob) && (
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <CardTitle className="flex items-center gap-2">
+                        <GitBranch className="h-5 w-5" />
+                        {job.parentJob ? 'Parent Job' : 'Sub-jobs'}
+                      </CardTitle>
+                      {childJobs.length > 0 && (
+                        <CardDescription>
+                          {childJobs.filter((c) => ['COMPLETED', 'CLOSED', 'CANCELLED'].includes(c.status)).length} of {childJobs.length} done • {subJobsDone ? 'ready to complete' : 'status follows its sub-jobs'}
+                        </CardDescription>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      {childJobs.length > 0 && subJobsDone && job.status === 'IN_PROGRESS' && (isAssigned || isSupervisor) && (
+                        <Button
+                          size="sm"
+                          className="bg-green-600 hover:bg-green-700"
+                          onClick={() => setCompleteDialogOpen(true)}
+                          disabled={actionLoading}
+                        >
+                          <CheckCircle2 className="h-4 w-4 mr-1" />
+                          Complete
+                        </Button>
+                      )}
+                      {childJobs.length > 0 && job.status === 'COMPLETED' && isSupervisor && (
+                        <Button size="sm" onClick={() => handleStatusAction('close')} disabled={actionLoading}>
+                          <CheckCircle2 className="h-4 w-4 mr-1" />
+                          Close Job
+                        </Button>
+                      )}
+                      {canAddSubJob && (
+                        <Button variant="outline" size="sm" onClick={openSubJobDialog}>
+                          <Plus className="h-4 w-4 mr-1" />
+                          Split / Add Sub-job
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {job.parentJob ? (
+                    <button
+                      className="w-full flex items-center justify-between text-sm p-2 border rounded-lg hover:bg-muted/50 text-left"
+                      onClick={() => router.push(`/jobs/${job.parentJob!.id}`)}
+                    >
+                      <span className="font-medium">{job.parentJob.title}</span>
+                      <Badge variant="outline">{statusConfig[job.parentJob.status]?.label || job.parentJob.status}</Badge>
+                    </button>
+                  ) : childJobs.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      Split this job into sub-jobs to give parts of the work to other technicians or vendors.
+                    </p>
+                  ) : (
+                    <div className="space-y-2">
+                      {childJobs.map((child) => (
+                        <button
+                          key={child.id}
+                          className="w-full flex items-center justify-between gap-2 text-sm p-2 border rounded-lg hover:bg-muted/50 text-left"
+                          onClick={() => router.push(`/jobs/${child.id}`)}
+                        >
+                          <div>
+                            <p className="font-medium">{child.title}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {child.assignedTo?.name || 'Unassigned'} • {child.totalCost.toFixed(2)} cost
+                            </p>
+                          </div>
+                          <Badge variant="outline">{statusConfig[child.status]?.label || child.status}</Badge>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Item Requests */}
             {job.itemRequests && job.itemRequests.length > 0 && (
               <Card>
@@ -351,8 +706,152 @@ export default function JobDetailPage() {
               </Card>
             )}
 
+            {/* Checklist */}
+            {job.tasks && job.tasks.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <ListChecks className="h-5 w-5" />
+                    Checklist
+                  </CardTitle>
+                  <CardDescription>
+                    {job.tasks.filter((t) => t.status !== 'OPEN').length} of {job.tasks.length} steps done
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    {job.tasks.map((task) => (
+                      <div key={task.id} className="flex items-center justify-between text-sm p-2 border rounded-lg">
+                        <div>
+                          <p className={task.status === 'OPEN' ? 'font-medium' : ''}>
+                            {task.sequence}. {task.title}
+                            {!task.mandatory && <span className="text-muted-foreground"> (optional)</span>}
+                          </p>
+                          {task.notes && <p className="text-xs text-muted-foreground">{task.notes}</p>}
+                        </div>
+                        {task.status === 'OPEN' ? (
+                          <Badge variant="outline">Open</Badge>
+                        ) : task.status === 'SKIPPED' ? (
+                          <Badge variant="outline">Skipped</Badge>
+                        ) : (
+                          <Badge className={task.passed === false ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}>
+                            {task.readingValue !== null
+                              ? `${task.readingValue} ${task.unit || ''}`
+                              : task.passed === false ? 'Fail' : task.passed ? 'Pass' : 'Done'}
+                          </Badge>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Labour */}
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      <Timer className="h-5 w-5" />
+                      Labour
+                    </CardTitle>
+                    {timeSummary && (
+                      <CardDescription>
+                        {timeSummary.approvedHours.toFixed(2)} h approved • {timeSummary.laborCost.toFixed(2)} cost
+                        {timeSummary.pending > 0 && ` • ${timeSummary.pending} awaiting approval`}
+                      </CardDescription>
+                    )}
+                  </div>
+                  {canBookTime && (
+                    <div className="flex gap-2">
+                      {isClockedOn ? (
+                        <Button variant="outline" size="sm" onClick={() => handleClock('off')} disabled={actionLoading}>
+                          <TimerOff className="h-4 w-4 mr-1" />
+                          Clock Off
+                        </Button>
+                      ) : ['ASSIGNED', 'IN_PROGRESS', 'PAUSED'].includes(job.status) && (
+                        <Button variant="outline" size="sm" onClick={() => handleClock('on')} disabled={actionLoading}>
+                          <Timer className="h-4 w-4 mr-1" />
+                          Clock On
+                        </Button>
+                      )}
+                      {['ASSIGNED', 'IN_PROGRESS', 'PAUSED', 'COMPLETED'].includes(job.status) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setTimeForm({ userId: '', startedAt: '', endedAt: '', notes: '' });
+                            setTimeDialogOpen(true);
+                          }}
+                        >
+                          <Plus className="h-4 w-4 mr-1" />
+                          Add Time
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent>
+                {timeEntries.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No time booked</p>
+                ) : (
+                  <div className="space-y-2">
+                    {timeEntries.map((entry) => (
+                      <div key={entry.id} className="flex items-center justify-between text-sm p-2 border rounded-lg">
+                        <div>
+                          <p className="font-medium">{entry.user.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {new Date(entry.startedAt).toLocaleString()}
+                            {entry.endedAt && ` – ${new Date(entry.endedAt).toLocaleString()}`}
+                            {entry.source === 'MANUAL' && ' • manual'}
+                          </p>
+                          {entry.rejectionReason && (
+                            <p className="text-xs text-red-600">{entry.rejectionReason}</p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-3">
+                          {entry.hours != null && <span>{entry.hours.toFixed(2)} h</span>}
+                          <Badge className={timeEntryStatusColors[entry.status]}>
+                            {entry.status.replace('_', ' ')}
+                          </Badge>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Attachments */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Paperclip className="h-5 w-5" />
+                  Attachments
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <AttachmentList entityType="JOB" entityId={job.id} />
+              </CardContent>
+            </Card>
+
+            {/* Activity */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <MessageSquare className="h-5 w-5" />
+                  Activity
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <JobTimeline jobId={job.id} refreshKey={timelineKey} />
+              </CardContent>
+            </Card>
+
             {/* Action Buttons */}
-            {isAssigned && (
+            {isAssigned && childJobs.length === 0 && (
               <Card>
                 <CardHeader>
                   <CardTitle>Actions</CardTitle>
@@ -423,6 +922,162 @@ export default function JobDetailPage() {
         </main>
       </div>
 
+      {/* Add Time Dialog */}
+      <Dialog open={timeDialogOpen} onOpenChange={setTimeDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Time</DialogTitle>
+            <DialogDescription>
+              Manual entries are costed once a supervisor approves them
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            {isSupervisor && (
+              <div className="space-y-2">
+                <Label>Technician</Label>
+                <Select
+                  value={timeForm.userId || 'self'}
+                  onValueChange={(value) => setTimeForm({ ...timeForm, userId: value === 'self' ? '' : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="self">Myself</SelectItem>
+                    {technicians.filter((t) => t.id !== user?.id).map((tech) => (
+                      <SelectItem key={tech.id} value={tech.id}>{tech.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Start</Label>
+                <Input
+                  type="datetime-local"
+                  value={timeForm.startedAt}
+                  onChange={(e) => setTimeForm({ ...timeForm, startedAt: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>End</Label>
+                <Input
+                  type="datetime-local"
+                  value={timeForm.endedAt}
+                  onChange={(e) => setTimeForm({ ...timeForm, endedAt: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Notes</Label>
+              <Textarea
+                value={timeForm.notes}
+                onChange={(e) => setTimeForm({ ...timeForm, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTimeDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleAddTime} disabled={actionLoading}>
+              {actionLoading && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Submit
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Sub-job Dialog */}
+      <Dialog open={subJobDialogOpen} onOpenChange={setSubJobDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Sub-job</DialogTitle>
+            <DialogDescription>
+              Selected parts requests move to the sub-job along with their costs
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Title</Label>
+              <Input
+                value={subJobForm.title}
+                onChange={(e) => setSubJobForm({ ...subJobForm, title: e.target.value })}
+                placeholder="e.g. Electrical rewiring"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Textarea
+                value={subJobForm.description}
+                onChange={(e) => setSubJobForm({ ...subJobForm, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Technician</Label>
+                <Select
+                  value={subJobForm.assignedToId || 'none'}
+                  onValueChange={(value) => setSubJobForm({ ...subJobForm, assignedToId: value === 'none' ? '' : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Unassigned</SelectItem>
+                    {technicians.map((tech) => (
+                      <SelectItem key={tech.id} value={tech.id}>{tech.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Estimate (h)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={subJobForm.estimateHours}
+                  onChange={(e) => setSubJobForm({ ...subJobForm, estimateHours: e.target.value })}
+                />
+              </div>
+            </div>
+            {job.itemRequests && job.itemRequests.length > 0 && (
+              <div className="space-y-2">
+                <Label>Move parts requests</Label>
+                <div className="space-y-1">
+                  {job.itemRequests.map((request) => (
+                    <label key={request.id} className="flex items-center gap-2 text-sm p-2 border rounded-lg cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={subJobForm.itemRequestIds.includes(request.id)}
+                        onChange={() => toggleSubJobRequest(request.id)}
+                      />
+                      <span className="flex-1">
+                        {request.lines.map((line) => line.item.description).join(', ')}
+                      </span>
+                      <Badge variant="outline">{request.status}</Badge>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSubJobDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreateSubJob} disabled={actionLoading}>
+              {actionLoading && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Create Sub-job
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Complete Dialog */}
       <Dialog open={completeDialogOpen} onOpenChange={setCompleteDialogOpen}>
         <DialogContent>
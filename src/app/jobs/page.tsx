@@ -163,6 +163,7 @@ export default function JobsPage() {
     priority: 'MEDIUM',
     type: 'BREAKDOWN',
     assignedToId: '',
+    estimatedHours: '',
   });
 
   const handleCreateJob = async () => {
@@ -181,7 +182,10 @@ export default function JobsPage() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          ...formData,
+          estimatedMinutes: formData.estimatedHours ? Math.round(parseFloat(formData.estimatedHours) * 60) : null,
+        }),
       });
 
       if (response.ok) {
@@ -195,6 +199,7 @@ export default function JobsPage() {
           priority: 'MEDIUM',
           type: 'BREAKDOWN',
           assignedToId: '',
+          estimatedHours: '',
         });
         fetchData();
       } else {
@@ -505,6 +510,18 @@ export default function JobsPage() {
                 </SelectContent>
               </Select>
             </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label className="text-right">Estimate (h)</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.5"
+                value={formData.estimatedHours}
+                onChange={(e) => setFormData({ ...formData, estimatedHours: e.target.value })}
+                className="col-span-3"
+                placeholder="Planned hours (optional)"
+              />
+            </div>
             <div className="grid grid-cols-4 items-center gap-4">
               <Label className="text-right">Assign To</Label>
               <Select
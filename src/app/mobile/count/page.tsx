@@ -0,0 +1,380 @@
+'use client';
+
+import React, { useEffect, useState, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from '@/components/ui/use-toast';
+import {
+  Wrench,
+  Package,
+  ClipboardCheck,
+  ArrowLeft,
+  CheckCircle2,
+  RotateCcw,
+  Loader2,
+  Send,
+} from 'lucide-react';
+
+interface StockCountSummary {
+  id: string;
+  countNumber: string;
+  type: string;
+  status: string;
+  frozenAt: string;
+  store: {
+    name: string;
+    code: string;
+  };
+  _count: {
+    lines: number;
+  };
+}
+
+interface CountLine {
+  id: string;
+  countedQty: number | null;
+  recountRequired: boolean;
+  recountQty: number | null;
+  item: {
+    code: string;
+    description: string;
+    uom: string;
+    barcode: string | null;
+    trackingType: string;
+  };
+}
+
+interface StockCountDetail {
+  id: string;
+  countNumber: string;
+  status: string;
+  store: {
+    name: string;
+  };
+  lines: CountLine[];
+}
+
+export default function MobileCountPage() {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const router = useRouter();
+  const [counts, setCounts] = useState<StockCountSummary[]>([]);
+  const [activeCount, setActiveCount] = useState<StockCountDetail | null>(null);
+  const [entries, setEntries] = useState<Record<string, string>>({});
+  const [serialEntries, setSerialEntries] = useState<Record<string, string>>({});
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchCounts = useCallback(async () => {
+    try {
+      const [countingRes, reviewRes] = await Promise.all([
+        fetch('/api/stock-counts?status=COUNTING', { credentials: 'include' }),
+        fetch('/api/stock-counts?status=REVIEW', { credentials: 'include' }),
+      ]);
+      const open: StockCountSummary[] = [];
+      if (countingRes.ok) {
+        open.push(...(await countingRes.json()).counts);
+      }
+      if (reviewRes.ok) {
+        open.push(...(await reviewRes.json()).counts);
+      }
+      setCounts(open);
+    } catch (error) {
+      console.error('Failed to fetch stock counts:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const openCount = useCallback(async (countId: string) => {
+    try {
+      const response = await fetch(`/api/stock-counts/${countId}`, {
+        credentials: 'include',
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setActiveCount(data.count);
+        setEntries({});
+        setSerialEntries({});
+      }
+    } catch (error) {
+      console.error('Failed to fetch stock count:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/login');
+    }
+  }, [isAuthenticated, authLoading, router]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchCounts();
+    }
+  }, [isAuthenticated, fetchCounts]);
+
+  const isRecount = activeCount?.status === 'REVIEW';
+
+  // During review only lines flagged for recount are shown
+  const visibleLines = (activeCount?.lines || [])
+    .filter(line => !isRecount || line.recountRequired)
+    .filter(line => {
+      if (!search) return true;
+      const term = search.toLowerCase();
+      return (
+        line.item.code.toLowerCase().includes(term) ||
+        line.item.description.toLowerCase().includes(term) ||
+        line.item.barcode?.toLowerCase() === term
+      );
+    });
+
+  const handleSave = async () => {
+    if (!activeCount) return;
+
+    const countEntries = Object.entries(entries)
+      .filter(([, value]) => value !== '')
+      .map(([lineId, value]) => ({
+        lineId,
+        quantity: parseFloat(value),
+        serialNumbers: serialEntries[lineId] || undefined,
+      }));
+
+    if (countEntries.length === 0) {
+      toast({ title: 'Error', description: 'Enter at least one quantity', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/stock-counts/${activeCount.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ action: 'count', entries: countEntries }),
+      });
+
+      if (response.ok) {
+        toast({ title: 'Success', description: `${countEntries.length} count(s) saved` });
+        openCount(activeCount.id);
+      } else {
+        const data = await response.json();
+        toast({ title: 'Error', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to save counts', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!activeCount) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/stock-counts/${activeCount.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ action: 'submit' }),
+      });
+
+      if (response.ok) {
+        toast({ title: 'Success', description: 'Count submitted for review' });
+        setActiveCount(null);
+        fetchCounts();
+      } else {
+        const data = await response.json();
+        toast({ title: 'Error', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to submit count', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) return null;
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      {/* Header */}
+      <header className="sticky top-0 z-50 bg-primary text-primary-foreground p-4 shadow-lg">
+        <div className="flex items-center gap-3">
+          {activeCount && (
+            <button onClick={() => setActiveCount(null)}>
+              <ArrowLeft className="h-5 w-5" />
+            </button>
+          )}
+          <div>
+            <p className="text-sm opacity-90">
+              {activeCount ? activeCount.store.name : 'Stock Take'}
+            </p>
+            <h1 className="text-lg font-bold">
+              {activeCount ? activeCount.countNumber : 'Open Counts'}
+            </h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="p-4 space-y-4">
+        {!activeCount ? (
+          counts.length === 0 ? (
+            <Card>
+              <CardContent className="p-6 text-center text-muted-foreground">
+                <ClipboardCheck className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                <p>No open stock counts</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-3">
+              {counts.map((count) => (
+                <Card key={count.id} onClick={() => openCount(count.id)} className="cursor-pointer">
+                  <CardHeader className="pb-2">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <CardTitle className="text-base">{count.countNumber}</CardTitle>
+                        <CardDescription className="text-sm">
+                          {count.store.name} • {count._count.lines} items
+                        </CardDescription>
+                      </div>
+                      <Badge variant={count.status === 'REVIEW' ? 'destructive' : 'secondary'}>
+                        {count.status === 'REVIEW' ? 'Recount' : count.type}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                </Card>
+              ))}
+            </div>
+          )
+        ) : (
+          <>
+            <Input
+              placeholder="Search or scan barcode..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+
+            {visibleLines.length === 0 ? (
+              <Card>
+                <CardContent className="p-6 text-center text-muted-foreground">
+                  <CheckCircle2 className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                  <p>{isRecount ? 'No recounts pending' : 'No items found'}</p>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="space-y-3">
+                {visibleLines.map((line) => {
+                  const recorded = isRecount ? line.recountQty : line.countedQty;
+                  return (
+                    <Card key={line.id}>
+                      <CardContent className="p-4 space-y-2">
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1">
+                            <p className="font-medium">{line.item.description}</p>
+                            <p className="text-sm text-muted-foreground">{line.item.code}</p>
+                          </div>
+                          {recorded !== null ? (
+                            <Badge className="bg-green-100 text-green-700 border-green-300">
+                              {recorded} {line.item.uom}
+                            </Badge>
+                          ) : isRecount ? (
+                            <Badge variant="destructive">
+                              <RotateCcw className="h-3 w-3 mr-1" />
+                              Recount
+                            </Badge>
+                          ) : null}
+                        </div>
+                        <Input
+                          type="number"
+                          inputMode="decimal"
+                          min="0"
+                          placeholder={`Counted quantity (${line.item.uom})`}
+                          value={entries[line.id] ?? ''}
+                          onChange={(e) => setEntries({ ...entries, [line.id]: e.target.value })}
+                        />
+                        {line.item.trackingType === 'SERIAL' && (
+                          <Input
+                            placeholder="Serial numbers found (comma separated)"
+                            value={serialEntries[line.id] ?? ''}
+                            onChange={(e) => setSerialEntries({ ...serialEntries, [line.id]: e.target.value })}
+                          />
+                        )}
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={handleSave}
+                disabled={saving}
+              >
+                {saving ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <CheckCircle2 className="h-4 w-4 mr-1" />
+                )}
+                Save Counts
+              </Button>
+              {!isRecount && (
+                <Button
+                  className="flex-1"
+                  onClick={handleSubmit}
+                  disabled={saving}
+                >
+                  <Send className="h-4 w-4 mr-1" />
+                  Submit
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+
+      {/* Bottom Navigation */}
+      <nav className="fixed bottom-0 left-0 right-0 bg-card border-t">
+        <div className="grid grid-cols-3 h-16">
+          <button
+            className="flex flex-col items-center justify-center text-muted-foreground"
+            onClick={() => router.push('/mobile')}
+          >
+            <Wrench className="h-5 w-5" />
+            <span className="text-xs mt-1">Jobs</span>
+          </button>
+          <button
+            className="flex flex-col items-center justify-center text-muted-foreground"
+            onClick={() => router.push('/mobile/request')}
+          >
+            <Package className="h-5 w-5" />
+            <span className="text-xs mt-1">Parts</span>
+          </button>
+          <button
+            className="flex flex-col items-center justify-center text-primary"
+            onClick={() => router.push('/mobile/count')}
+          >
+            <ClipboardCheck className="h-5 w-5" />
+            <span className="text-xs mt-1">Count</span>
+          </button>
+        </div>
+      </nav>
+    </div>
+  );
+}
@@ -0,0 +1,415 @@
+'use client';
+
+import React, { useEffect, useState, useCallback } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { toast } from '@/components/ui/use-toast';
+import { JobTimeline } from '@/components/jobs/JobTimeline';
+import {
+  ArrowLeft,
+  Loader2,
+  CheckCircle2,
+  XCircle,
+  Camera,
+  RotateCcw,
+  SkipForward,
+  ListChecks,
+  MessageSquare,
+} from 'lucide-react';
+
+interface JobTask {
+  id: string;
+  sequence: number;
+  title: string;
+  instructions: string | null;
+  stepType: 'INSTRUCTION' | 'CHECK' | 'READING';
+  mandatory: boolean;
+  photoRequired: boolean;
+  unit: string | null;
+  minValue: number | null;
+  maxValue: number | null;
+  status: 'OPEN' | 'DONE' | 'SKIPPED';
+  passed: boolean | null;
+  readingValue: number | null;
+  photoUrl: string | null;
+  notes: string | null;
+}
+
+interface Job {
+  id: string;
+  title: string;
+  status: string;
+  description: string;
+  asset: {
+    code: string;
+    description: string;
+  };
+  tasks: JobTask[];
+}
+
+interface TaskDraft {
+  readingValue: string;
+  photoUrl: string;
+  notes: string;
+}
+
+// Limits shown against a reading step
+function formatLimits(task: JobTask) {
+  const unit = task.unit ? ` ${task.unit}` : '';
+  if (task.minValue !== null && task.maxValue !== null) return `${task.minValue}–${task.maxValue}${unit}`;
+  if (task.minValue !== null) return `min ${task.minValue}${unit}`;
+  if (task.maxValue !== null) return `max ${task.maxValue}${unit}`;
+  return task.unit || '';
+}
+
+// Upload a step photo to the job's attachments and return its URL
+async function uploadPhoto(jobId: string, file: File): Promise<string> {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('entityType', 'JOB');
+  formData.append('entityId', jobId);
+  formData.append('category', 'CHECKLIST');
+
+  const response = await fetch('/api/attachments', {
+    method: 'POST',
+    credentials: 'include',
+    body: formData,
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error);
+  }
+  return data.attachments[0].url;
+}
+
+export default function MobileJobPage() {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const jobId = searchParams.get('jobId');
+
+  const [job, setJob] = useState<Job | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [savingTaskId, setSavingTaskId] = useState<string | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, TaskDraft>>({});
+  const [uploadingTaskId, setUploadingTaskId] = useState<string | null>(null);
+
+  const fetchJob = useCallback(async () => {
+    if (!jobId) return;
+    try {
+      const response = await fetch(`/api/jobs/${jobId}`, {
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setJob(data.job);
+      } else {
+        toast({ title: 'Error', description: 'Job not found', variant: 'destructive' });
+        router.push('/mobile');
+      }
+    } catch (error) {
+      console.error('Failed to fetch job:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId, router]);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/login');
+    }
+  }, [isAuthenticated, authLoading, router]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchJob();
+    }
+  }, [isAuthenticated, fetchJob]);
+
+  const getDraft = (taskId: string): TaskDraft =>
+    drafts[taskId] || { readingValue: '', photoUrl: '', notes: '' };
+
+  const updateDraft = (taskId: string, changes: Partial<TaskDraft>) => {
+    setDrafts({ ...drafts, [taskId]: { ...getDraft(taskId), ...changes } });
+  };
+
+  const handlePhoto = async (taskId: string, file: File | undefined) => {
+    if (!file || !jobId) return;
+    setUploadingTaskId(taskId);
+    try {
+      updateDraft(taskId, { photoUrl: await uploadPhoto(jobId, file) });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Photo upload failed',
+        variant: 'destructive',
+      });
+    } finally {
+      setUploadingTaskId(null);
+    }
+  };
+
+  const recordTask = async (task: JobTask, action: 'complete' | 'skip' | 'reopen', passed?: boolean) => {
+    const draft = getDraft(task.id);
+    setSavingTaskId(task.id);
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/tasks/${task.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          action,
+          passed,
+          readingValue: draft.readingValue !== '' ? parseFloat(draft.readingValue) : undefined,
+          photoUrl: draft.photoUrl || undefined,
+          notes: draft.notes || undefined,
+        }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        if (data.task.passed === false) {
+          toast({
+            title: 'Recorded',
+            description: task.stepType === 'READING' ? 'Reading is outside limits' : 'Check failed',
+            variant: 'destructive',
+          });
+        }
+        setJob(job ? { ...job, tasks: job.tasks.map((t) => (t.id === task.id ? data.task : t)) } : job);
+      } else {
+        toast({ title: 'Error', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to record step', variant: 'destructive' });
+    } finally {
+      setSavingTaskId(null);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated || !job) return null;
+
+  const tasks = job.tasks || [];
+  const closedCount = tasks.filter((t) => t.status !== 'OPEN').length;
+  const openMandatory = tasks.filter((t) => t.mandatory && t.status === 'OPEN').length;
+  const canRecord = job.status === 'IN_PROGRESS';
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      {/* Header */}
+      <header className="sticky top-0 z-50 bg-primary text-primary-foreground p-4 shadow-lg">
+        <div className="flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-primary-foreground hover:bg-primary-foreground/10"
+            onClick={() => router.push('/mobile')}
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-lg font-bold">{job.title}</h1>
+            <p className="text-sm opacity-90">{job.asset.code} • {job.asset.description}</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="p-4 space-y-4">
+        {tasks.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-center text-muted-foreground">
+              <ListChecks className="h-8 w-8 mx-auto mb-2" />
+              <p>No checklist for this job</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>{closedCount} of {tasks.length} steps done</span>
+                {openMandatory > 0 && (
+                  <span className="text-orange-600">{openMandatory} mandatory open</span>
+                )}
+              </div>
+              <Progress value={(closedCount / tasks.length) * 100} />
+              {!canRecord && (
+                <p className="text-sm text-muted-foreground">
+                  Start or resume the job to record steps
+                </p>
+              )}
+            </div>
+
+            {tasks.map((task) => {
+              const draft = getDraft(task.id);
+              const saving = savingTaskId === task.id || uploadingTaskId === task.id;
+
+              return (
+                <Card key={task.id} className={task.status === 'OPEN' ? '' : 'opacity-80'}>
+                  <CardHeader className="pb-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <CardTitle className="text-base">
+                          {task.sequence}. {task.title}
+                        </CardTitle>
+                        {task.instructions && (
+                          <CardDescription>{task.instructions}</CardDescription>
+                        )}
+                      </div>
+                      <div className="flex flex-col items-end gap-1">
+                        {!task.mandatory && <Badge variant="outline">Optional</Badge>}
+                        {task.photoRequired && <Camera className="h-4 w-4 text-muted-foreground" />}
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {task.status !== 'OPEN' ? (
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="text-sm">
+                          {task.status === 'SKIPPED' ? (
+                            <Badge variant="outline">Skipped</Badge>
+                          ) : (
+                            <Badge className={task.passed === false ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}>
+                              {task.stepType === 'READING'
+                                ? `${task.readingValue} ${task.unit || ''}`
+                                : task.passed === false ? 'Fail' : task.passed ? 'Pass' : 'Done'}
+                            </Badge>
+                          )}
+                          {task.notes && <p className="text-muted-foreground mt-1">{task.notes}</p>}
+                        </div>
+                        {canRecord && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => recordTask(task, 'reopen')}
+                            disabled={saving}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Redo
+                          </Button>
+                        )}
+                      </div>
+                    ) : canRecord && (
+                      <>
+                        {task.stepType === 'READING' && (
+                          <div className="flex items-center gap-2">
+                            <Input
+                              type="number"
+                              inputMode="decimal"
+                              placeholder="Reading"
+                              value={draft.readingValue}
+                              onChange={(e) => updateDraft(task.id, { readingValue: e.target.value })}
+                            />
+                            <span className="text-sm text-muted-foreground whitespace-nowrap">
+                              {formatLimits(task)}
+                            </span>
+                          </div>
+                        )}
+                        {task.photoRequired && (
+                          <div className="flex items-center gap-2 text-sm">
+                            <Input
+                              type="file"
+                              accept="image/*"
+                              capture="environment"
+                              onChange={(e) => handlePhoto(task.id, e.target.files?.[0])}
+                            />
+                            {uploadingTaskId === task.id ? (
+                              <Loader2 className="h-5 w-5 animate-spin" />
+                            ) : draft.photoUrl && (
+                              <CheckCircle2 className="h-5 w-5 text-green-600" />
+                            )}
+                          </div>
+                        )}
+                        <Input
+                          placeholder="Notes (optional)"
+                          value={draft.notes}
+                          onChange={(e) => updateDraft(task.id, { notes: e.target.value })}
+                        />
+                        <div className="flex gap-2">
+                          {task.stepType === 'CHECK' ? (
+                            <>
+                              <Button
+                                size="sm"
+                                className="flex-1 bg-green-600 hover:bg-green-700"
+                                onClick={() => recordTask(task, 'complete', true)}
+                                disabled={saving}
+                              >
+                                <CheckCircle2 className="h-4 w-4 mr-1" />
+                                Pass
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="destructive"
+                                className="flex-1"
+                                onClick={() => recordTask(task, 'complete', false)}
+                                disabled={saving}
+                              >
+                                <XCircle className="h-4 w-4 mr-1" />
+                                Fail
+                              </Button>
+                            </>
+                          ) : (
+                            <Button
+                              size="sm"
+                              className="flex-1"
+                              onClick={() => recordTask(task, 'complete')}
+                              disabled={saving}
+                            >
+                              {saving ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <CheckCircle2 className="h-4 w-4 mr-1" />
+                              )}
+                              Done
+                            </Button>
+                          )}
+                          {!task.mandatory && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => recordTask(task, 'skip')}
+                              disabled={saving}
+                            >
+                              <SkipForward className="h-4 w-4 mr-1" />
+                              Skip
+                            </Button>
+                          )}
+                        </div>
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </>
+        )}
+
+        {/* Activity */}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <MessageSquare className="h-4 w-4" />
+              Activity
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <JobTimeline jobId={job.id} />
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -17,6 +17,9 @@ import {
   Play,
   Loader2,
   Smartphone,
+  Timer,
+  TimerOff,
+  ListChecks,
 } from 'lucide-react';
 
 interface Job {
@@ -36,6 +39,15 @@ interface Job {
   };
 }
 
+interface OpenTimeEntry {
+  id: string;
+  startedAt: string;
+  job: {
+    id: string;
+    title: string;
+  };
+}
+
 const statusConfig: Record<string, { color: string; icon: React.ReactNode; label: string }> = {
   CREATED: { color: 'bg-gray-500', icon: <Clock className="h-4 w-4" />, label: 'Created' },
   ASSIGNED: { color: 'bg-blue-500', icon: <Wrench className="h-4 w-4" />, label: 'Assigned' },
@@ -57,16 +69,22 @@ export default function MobileDashboard() {
   const [jobs, setJobs] = useState<Job[]>([]);
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [clockedOn, setClockedOn] = useState<OpenTimeEntry | null>(null);
 
   const fetchJobs = useCallback(async () => {
     try {
-      const response = await fetch('/api/jobs?mine=true', {
-        credentials: 'include',
-      });
-      if (response.ok) {
-        const data = await response.json();
+      const [jobsResponse, clockResponse] = await Promise.all([
+        fetch('/api/jobs?mine=true', { credentials: 'include' }),
+        fetch('/api/time-entries?mine=true&status=OPEN', { credentials: 'include' }),
+      ]);
+      if (jobsResponse.ok) {
+        const data = await jobsResponse.json();
         setJobs(data.jobs);
       }
+      if (clockResponse.ok) {
+        const data = await clockResponse.json();
+        setClockedOn(data.entries[0] || null);
+      }
     } catch (error) {
       console.error('Failed to fetch jobs:', error);
     } finally {
@@ -102,6 +120,10 @@ export default function MobileDashboard() {
       } else {
         const data = await response.json();
         toast({ title: 'Error', description: data.error, variant: 'destructive' });
+        // Take the technician to the steps still open
+        if (data.code === 'TASKS_INCOMPLETE') {
+          router.push(`/mobile/job?jobId=${jobId}`);
+        }
       }
     } catch (error) {
       toast({ title: 'Error', description: 'Action failed', variant: 'destructive' });
@@ -110,6 +132,35 @@ export default function MobileDashboard() {
     }
   };
 
+  const handleClock = async (jobId: string, action: 'on' | 'off') => {
+    setActionLoading(jobId);
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/clock`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ action }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        toast({
+          title: 'Success',
+          description: action === 'on'
+            ? 'Clocked on'
+            : `Clocked off after ${(data.entry.hours || 0).toFixed(2)} hours`,
+        });
+        fetchJobs();
+      } else {
+        toast({ title: 'Error', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Clock action failed', variant: 'destructive' });
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   const activeJobs = jobs.filter(j => ['ASSIGNED', 'IN_PROGRESS', 'PAUSED'].includes(j.status));
   const completedJobs = jobs.filter(j => j.status === 'COMPLETED');
 
@@ -140,6 +191,32 @@ export default function MobileDashboard() {
       </header>
 
       <main className="p-4 space-y-4">
+        {/* Current clock */}
+        {clockedOn && (
+          <Card className="border-green-500">
+            <CardContent className="p-3 flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 text-sm">
+                <Timer className="h-5 w-5 text-green-600" />
+                <div>
+                  <p className="font-medium">{clockedOn.job.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Clocked on since {new Date(clockedOn.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </p>
+                </div>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleClock(clockedOn.job.id, 'off')}
+                disabled={actionLoading === clockedOn.job.id}
+              >
+                <TimerOff className="h-4 w-4 mr-1" />
+                Clock Off
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Quick Stats */}
         <div className="grid grid-cols-3 gap-3">
           <Card className="text-center">
@@ -263,6 +340,29 @@ export default function MobileDashboard() {
                             Resume
                           </Button>
                         )}
+                        {['ASSIGNED', 'IN_PROGRESS', 'PAUSED'].includes(job.status) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="flex-1"
+                            onClick={() => router.push(`/mobile/job?jobId=${job.id}`)}
+                          >
+                            <ListChecks className="h-4 w-4 mr-1" />
+                            Details
+                          </Button>
+                        )}
+                        {['ASSIGNED', 'IN_PROGRESS'].includes(job.status) && !clockedOn && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="flex-1"
+                            onClick={() => handleClock(job.id, 'on')}
+                            disabled={actionLoading === job.id}
+                          >
+                            <Timer className="h-4 w-4 mr-1" />
+                            Clock On
+                          </Button>
+                        )}
                         {['IN_PROGRESS', 'PAUSED'].includes(job.status) && (
                           <Button
                             size="sm"
@@ -41,12 +41,35 @@ interface Item {
   code: string;
   description: string;
   uom: string;
+  issueUom: string | null;
+  uomConversions: {
+    uom: string;
+    factor: number;
+  }[];
+  alternates?: {
+    id: string;
+    code: string;
+    description: string;
+    relation: 'SUPERSEDED_BY' | 'INTERCHANGEABLE';
+  }[];
 }
 
 interface RequestLine {
   itemId: string;
   item?: Item;
   quantity: number;
+  uom: string;
+}
+
+// Stock units in one of the given unit
+function getFactor(item: Item | undefined, uom: string): number {
+  return item?.uomConversions.find(c => c.uom === uom)?.factor || 1;
+}
+
+// Units the item can be requested in: the stock unit plus any converted units
+function getUnits(item: Item | undefined): string[] {
+  if (!item) return [];
+  return [item.uom, ...item.uomConversions.map(c => c.uom)].filter(Boolean);
 }
 
 export default function RequestPartsPage() {
@@ -145,7 +168,7 @@ export default function RequestPartsPage() {
         l.itemId === item.id ? { ...l, quantity: l.quantity + 1 } : l
       ));
     } else {
-      setLines([...lines, { itemId: item.id, item, quantity: 1 }]);
+      setLines([...lines, { itemId: item.id, item, quantity: 1, uom: item.issueUom || item.uom }]);
     }
     setSearchTerm('');
     setSearchResults([]);
@@ -161,6 +184,12 @@ export default function RequestPartsPage() {
     }
   };
 
+  const updateLineUom = (itemId: string, uom: string) => {
+    setLines(lines.map(l => 
+      l.itemId === itemId ? { ...l, uom } : l
+    ));
+  };
+
   const removeLine = (itemId: string) => {
     setLines(lines.filter(l => l.itemId !== itemId));
   };
@@ -193,6 +222,7 @@ export default function RequestPartsPage() {
           lines: lines.map(l => ({
             itemId: l.itemId,
             quantity: l.quantity,
+            uom: l.uom || undefined,
           })),
         }),
       });
@@ -313,8 +343,20 @@ export default function RequestPartsPage() {
                   <div>
                     <p className="font-medium">{item.description}</p>
                     <p className="text-xs text-muted-foreground">
-                      {item.code} • {item.uom}
+                      {item.code} • {item.issueUom && item.issueUom !== item.uom
+                        ? `Issued in ${item.issueUom} (1 = ${getFactor(item, item.issueUom)} ${item.uom})`
+                        : item.uom}
                     </p>
+                    {item.alternates?.some(a => a.relation === 'SUPERSEDED_BY') && (
+                      <p className="text-xs text-amber-600">
+                        Superseded by {item.alternates.filter(a => a.relation === 'SUPERSEDED_BY').map(a => a.code).join(', ')}
+                      </p>
+                    )}
+                    {item.alternates?.some(a => a.relation === 'INTERCHANGEABLE') && (
+                      <p className="text-xs text-muted-foreground">
+                        Alternates: {item.alternates.filter(a => a.relation === 'INTERCHANGEABLE').map(a => a.code).join(', ')}
+                      </p>
+                    )}
                   </div>
                   <Plus className="h-4 w-4 text-muted-foreground" />
                 </button>
@@ -334,7 +376,10 @@ export default function RequestPartsPage() {
                     <div className="flex-1">
                       <p className="font-medium text-sm">{line.item?.description}</p>
                       <p className="text-xs text-muted-foreground">
-                        {line.item?.code} • {line.item?.uom}
+                        {line.item?.code}
+                        {line.uom !== line.item?.uom
+                          ? ` • ${line.quantity} ${line.uom} = ${+(line.quantity * getFactor(line.item, line.uom)).toFixed(4)} ${line.item?.uom}`
+                          : ` • ${line.item?.uom}`}
                       </p>
                     </div>
                     <div className="flex items-center gap-2">
@@ -348,8 +393,9 @@ export default function RequestPartsPage() {
                       </Button>
                       <Input
                         type="number"
+                        inputMode="decimal"
                         value={line.quantity}
-                        onChange={(e) => updateLineQuantity(line.itemId, parseInt(e.target.value) || 0)}
+                        onChange={(e) => updateLineQuantity(line.itemId, parseFloat(e.target.value) || 0)}
                         className="w-16 h-8 text-center"
                       />
                       <Button
@@ -360,6 +406,22 @@ export default function RequestPartsPage() {
                       >
                         +
                       </Button>
+                      {getUnits(line.item).length > 1 ? (
+                        <Select value={line.uom} onValueChange={(value) => updateLineUom(line.itemId, value)}>
+                          <SelectTrigger className="w-20 h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {getUnits(line.item).map((unit) => (
+                              <SelectItem key={unit} value={unit}>
+                                {unit}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <span className="text-xs text-muted-foreground w-8">{line.uom}</span>
+                      )}
                       <Button
                         variant="ghost"
                         size="icon"
@@ -27,7 +27,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
-import { CalendarDays, Plus, Wrench, AlertTriangle, CheckCircle, Clock, ChevronLeft, ChevronRight } from 'lucide-react';
+import { CalendarDays, Plus, Wrench, AlertTriangle, CheckCircle, Clock, ChevronLeft, ChevronRight, Package, Trash2 } from 'lucide-react';
 
 interface PMSchedule {
   id: string;
@@ -47,6 +47,30 @@ interface PMSchedule {
   jobTitleTemplate: string;
   priority: string;
   isActive: boolean;
+  kitStore: { id: string; name: string } | null;
+  kitLines: {
+    id: string;
+    itemId: string;
+    quantity: number;
+    uom: string | null;
+    uomFactor: number;
+    item: { id: string; code: string; description: string; uom: string | null };
+  }[];
+}
+
+interface KitItem {
+  id: string;
+  code: string;
+  description: string;
+  uom: string | null;
+  issueUom: string | null;
+  uomConversions: { uom: string; factor: number }[];
+}
+
+interface KitLineForm {
+  itemId: string;
+  quantity: string;
+  uom: string;
 }
 
 interface CalendarEvent {
@@ -73,6 +97,12 @@ export default function PMPage() {
   const [loading, setLoading] = useState(true);
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [showAddDialog, setShowAddDialog] = useState(false);
+  const [items, setItems] = useState<KitItem[]>([]);
+  const [stores, setStores] = useState<{ id: string; name: string; isQuarantine: boolean }[]>([]);
+  const [kitSchedule, setKitSchedule] = useState<PMSchedule | null>(null);
+  const [kitStoreId, setKitStoreId] = useState('');
+  const [kitLines, setKitLines] = useState<KitLineForm[]>([]);
+  const [kitError, setKitError] = useState('');
 
   // Form state
   const [formData, setFormData] = useState({
@@ -130,6 +160,24 @@ export default function PMPage() {
       });
       const assetsData = await assetsRes.json();
       setAssets(assetsData.assets || []);
+
+      // Fetch items and stores for parts kits
+      const [itemsRes, storesRes] = await Promise.all([
+        fetch('/api/items?status=ACTIVE', {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`,
+          },
+        }),
+        fetch('/api/stores?status=ACTIVE', {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`,
+          },
+        }),
+      ]);
+      const itemsData = await itemsRes.json();
+      const storesData = await storesRes.json();
+      setItems(itemsData.items || []);
+      setStores((storesData.stores || []).filter((s: { isQuarantine: boolean }) => !s.isQuarantine));
     } catch (error) {
       console.error('Error fetching data:', error);
     } finally {
@@ -167,6 +215,67 @@ export default function PMPage() {
     }
   };
 
+  const openKit = (schedule: PMSchedule) => {
+    setKitSchedule(schedule);
+    setKitStoreId(schedule.kitStore?.id || '');
+    // Kit quantities are held in stock units; show them in the unit they were entered in
+    setKitLines(schedule.kitLines.map((line) => ({
+      itemId: line.itemId,
+      quantity: String(+(line.quantity / (line.uomFactor || 1)).toFixed(4)),
+      uom: line.uom || line.item.uom || '',
+    })));
+    setKitError('');
+  };
+
+  const getItemUnits = (itemId: string) => {
+    const item = items.find((i) => i.id === itemId);
+    if (!item) return [];
+    return [item.uom, ...(item.uomConversions || []).map((c) => c.uom)].filter((u): u is string => !!u);
+  };
+
+  const updateKitLine = (index: number, field: keyof KitLineForm, value: string) => {
+    setKitLines(kitLines.map((line, i) => {
+      if (i !== index) return line;
+      // Default a newly selected item to the unit it is issued in
+      if (field === 'itemId') {
+        const item = items.find((it) => it.id === value);
+        return { ...line, itemId: value, uom: item?.issueUom || item?.uom || '' };
+      }
+      return { ...line, [field]: value };
+    }));
+  };
+
+  const handleSaveKit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!kitSchedule) return;
+
+    try {
+      const res = await fetch(`/api/pm-schedules/${kitSchedule.id}/kit`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+        },
+        body: JSON.stringify({
+          storeId: kitStoreId,
+          lines: kitLines
+            .filter((line) => line.itemId && line.quantity)
+            .map((line) => ({ itemId: line.itemId, quantity: line.quantity, uom: line.uom || undefined })),
+        }),
+      });
+
+      if (res.ok) {
+        setKitSchedule(null);
+        fetchData();
+      } else {
+        const data = await res.json();
+        setKitError(data.error || 'Failed to save parts kit');
+      }
+    } catch (error) {
+      console.error('Error saving parts kit:', error);
+    }
+  };
+
   const getDaysInMonth = (date: Date) => {
     const year = date.getFullYear();
     const month = date.getMonth();
@@ -524,6 +633,12 @@ export default function PMPage() {
                               Every {schedule.intervalValue} {schedule.intervalType.toLowerCase()}
                             </Badge>
                             <Badge variant="secondary">{schedule.priority}</Badge>
+                            {schedule.kitLines.length > 0 && (
+                              <Badge variant="outline">
+                                <Package className="h-3 w-3 mr-1" />
+                                Kit: {schedule.kitLines.length} item(s)
+                              </Badge>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -541,6 +656,12 @@ export default function PMPage() {
                             Last: {new Date(schedule.lastServiceDate).toLocaleDateString()}
                           </div>
                         )}
+                        {canCreate && (
+                          <Button size="sm" variant="outline" className="mt-1" onClick={() => openKit(schedule)}>
+                            <Package className="h-4 w-4 mr-1" />
+                            Parts Kit
+                          </Button>
+                        )}
                       </div>
                     </div>
                   ))
@@ -548,6 +669,104 @@ export default function PMPage() {
               </div>
             </CardContent>
           </Card>
+
+          {/* Parts Kit Dialog */}
+          <Dialog open={kitSchedule !== null} onOpenChange={(open) => !open && setKitSchedule(null)}>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>Parts Kit</DialogTitle>
+                <DialogDescription>
+                  {kitSchedule && `Requested automatically for every PM job generated for ${kitSchedule.asset.code}`}
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSaveKit} className="space-y-4">
+                <div>
+                  <Label>Issue From Store</Label>
+                  <Select value={kitStoreId} onValueChange={setKitStoreId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select store" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {stores.map((store) => (
+                        <SelectItem key={store.id} value={store.id}>
+                          {store.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {kitLines.map((line, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-end">
+                    <div className="col-span-6">
+                      {index === 0 && <Label>Item</Label>}
+                      <Select value={line.itemId} onValueChange={(v) => updateKitLine(index, 'itemId', v)}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select item" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {items.map((item) => (
+                            <SelectItem key={item.id} value={item.id}>
+                              {item.code} - {item.description}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="col-span-2">
+                      {index === 0 && <Label>Qty</Label>}
+                      <Input
+                        type="number"
+                        value={line.quantity}
+                        onChange={(e) => updateKitLine(index, 'quantity', e.target.value)}
+                      />
+                    </div>
+                    <div className="col-span-3">
+                      {index === 0 && <Label>Unit</Label>}
+                      <Select
+                        value={line.uom}
+                        onValueChange={(v) => updateKitLine(index, 'uom', v)}
+                        disabled={getItemUnits(line.itemId).length < 2}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="-" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {getItemUnits(line.itemId).map((unit) => (
+                            <SelectItem key={unit} value={unit}>
+                              {unit}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="col-span-1">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setKitLines(kitLines.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setKitLines([...kitLines, { itemId: '', quantity: '', uom: '' }])}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Item
+                </Button>
+                {kitError && <p className="text-sm text-red-600">{kitError}</p>}
+                <DialogFooter>
+                  <Button type="submit">Save Kit</Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
         </main>
       </div>
     </div>
@@ -0,0 +1,861 @@
+'use client';
+
+import React, { useEffect, useState, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { Sidebar } from '@/components/layout/Sidebar';
+import { Header } from '@/components/layout/Header';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from '@/components/ui/use-toast';
+import {
+  ShoppingCart,
+  FileText,
+  Receipt,
+  CheckCircle2,
+  XCircle,
+  Loader2,
+  Plus,
+  Truck,
+  Building2,
+} from 'lucide-react';
+
+interface ItemRef {
+  id: string;
+  code: string;
+  description: string;
+  uom: string | null;
+  purchaseUom?: string | null;
+}
+
+interface Requisition {
+  id: string;
+  requisitionNumber: string;
+  status: string;
+  notes: string | null;
+  estimatedValue: number;
+  createdAt: string;
+  storeId: string;
+  store: { id: string; name: string };
+  requestedBy: { name: string };
+  lines: {
+    id: string;
+    itemId: string;
+    quantity: number;
+    estimatedUnitCost: number;
+    item: ItemRef;
+  }[];
+}
+
+interface PurchaseOrder {
+  id: string;
+  poNumber: string;
+  status: string;
+  orderDate: string;
+  expectedDeliveryDate: string | null;
+  totalValue: number;
+  supplier: { id: string; code: string; name: string };
+  store: { id: string; name: string };
+  lines: {
+    id: string;
+    quantity: number;
+    unitPrice: number;
+    receivedQty: number;
+    invoicedQty: number;
+    uom: string | null;
+    item: ItemRef;
+  }[];
+}
+
+interface SupplierInvoice {
+  id: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  status: string;
+  totalAmount: number;
+  matchNotes: string | null;
+  supplier: { name: string };
+  purchaseOrder: { poNumber: string };
+}
+
+interface Supplier {
+  id: string;
+  code: string;
+  name: string;
+  contactName: string | null;
+  phone: string | null;
+  email: string | null;
+  status: string;
+}
+
+interface DialogLine {
+  id: string;
+  itemId?: string;
+  label: string;
+  quantity: string;
+  price: string;
+  maxQty?: number;
+  uom?: string;
+  uomOptions?: string[]; // Units the line can be ordered in
+}
+
+type LineDialogMode = 'order' | 'receive' | 'invoice';
+
+const statusColors: Record<string, string> = {
+  SUBMITTED: 'bg-yellow-100 text-yellow-800',
+  DRAFT: 'bg-gray-100 text-gray-800',
+  APPROVED: 'bg-blue-100 text-blue-800',
+  ORDERED: 'bg-purple-100 text-purple-800',
+  PARTIALLY_RECEIVED: 'bg-orange-100 text-orange-800',
+  RECEIVED: 'bg-green-100 text-green-800',
+  CLOSED: 'bg-gray-100 text-gray-800',
+  MATCHED: 'bg-green-100 text-green-800',
+  EXCEPTION: 'bg-red-100 text-red-800',
+  REJECTED: 'bg-red-100 text-red-800',
+  CANCELLED: 'bg-gray-100 text-gray-500',
+};
+
+const emptySupplier = { code: '', name: '', contactName: '', phone: '', email: '' };
+
+export default function PurchasingPage() {
+  const { isAuthenticated, isLoading: authLoading, hasRole } = useAuth();
+  const router = useRouter();
+  const [requisitions, setRequisitions] = useState<Requisition[]>([]);
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [invoices, setInvoices] = useState<SupplierInvoice[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [dialogMode, setDialogMode] = useState<LineDialogMode | null>(null);
+  const [dialogTargetId, setDialogTargetId] = useState('');
+  const [dialogLines, setDialogLines] = useState<DialogLine[]>([]);
+  const [dialogStoreId, setDialogStoreId] = useState('');
+  const [dialogSupplierId, setDialogSupplierId] = useState('');
+  const [dialogReference, setDialogReference] = useState('');
+  const [supplierForm, setSupplierForm] = useState({ ...emptySupplier });
+
+  const canApprove = hasRole(['ADMIN', 'MANAGER']);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [requisitionsRes, ordersRes, invoicesRes, suppliersRes] = await Promise.all([
+        fetch('/api/purchase-requisitions', { credentials: 'include' }),
+        fetch('/api/purchase-orders', { credentials: 'include' }),
+        fetch('/api/supplier-invoices', { credentials: 'include' }),
+        fetch('/api/suppliers', { credentials: 'include' }),
+      ]);
+
+      if (requisitionsRes.ok) {
+        const data = await requisitionsRes.json();
+        setRequisitions(data.requisitions);
+      }
+
+      if (ordersRes.ok) {
+        const data = await ordersRes.json();
+        setOrders(data.orders);
+      }
+
+      if (invoicesRes.ok) {
+        const data = await invoicesRes.json();
+        setInvoices(data.invoices);
+      }
+
+      if (suppliersRes.ok) {
+        const data = await suppliersRes.json();
+        setSuppliers(data.suppliers);
+      }
+    } catch (error) {
+      console.error('Failed to fetch purchasing data:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/login');
+    }
+  }, [isAuthenticated, authLoading, router]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchData();
+    }
+  }, [isAuthenticated, fetchData]);
+
+  const postAction = async (url: string, body: Record<string, unknown>, successMessage: string) => {
+    setActionLoading(true);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(body),
+      });
+
+      if (response.ok) {
+        toast({ title: 'Success', description: successMessage });
+        fetchData();
+        return true;
+      }
+
+      const data = await response.json();
+      toast({ title: 'Error', description: data.error, variant: 'destructive' });
+    } catch (error) {
+      toast({ title: 'Error', description: 'Action failed', variant: 'destructive' });
+    } finally {
+      setActionLoading(false);
+    }
+    return false;
+  };
+
+  const handleRejectRequisition = (requisition: Requisition) => {
+    const reason = window.prompt(`Reason for rejecting ${requisition.requisitionNumber}`);
+    if (!reason) return;
+    postAction(
+      `/api/purchase-requisitions/${requisition.id}`,
+      { action: 'reject', reason },
+      'Requisition rejected'
+    );
+  };
+
+  const openOrderDialog = (requisition: Requisition) => {
+    setDialogMode('order');
+    setDialogTargetId(requisition.id);
+    setDialogStoreId(requisition.storeId);
+    setDialogSupplierId('');
+    setDialogLines(requisition.lines.map(line => ({
+      id: line.id,
+      itemId: line.itemId,
+      label: `${line.item.code} - ${line.item.description}`,
+      quantity: String(line.quantity),
+      price: String(line.estimatedUnitCost),
+      uom: line.item.uom || undefined,
+      uomOptions: [line.item.uom, line.item.purchaseUom]
+        .filter((uom, i, all): uom is string => !!uom && all.indexOf(uom) === i),
+    })));
+  };
+
+  const openReceiveDialog = (order: PurchaseOrder) => {
+    setDialogMode('receive');
+    setDialogTargetId(order.id);
+    setDialogReference('');
+    setDialogLines(order.lines
+      .filter(line => line.receivedQty < line.quantity)
+      .map(line => ({
+        id: line.id,
+        label: `${line.item.code} - ${line.item.description} (${line.uom || line.item.uom || 'units'})`,
+        quantity: String(line.quantity - line.receivedQty),
+        price: String(line.unitPrice),
+        maxQty: line.quantity - line.receivedQty,
+      })));
+  };
+
+  const openInvoiceDialog = (order: PurchaseOrder) => {
+    setDialogMode('invoice');
+    setDialogTargetId(order.id);
+    setDialogReference('');
+    setDialogLines(order.lines
+      .filter(line => line.receivedQty > line.invoicedQty)
+      .map(line => ({
+        id: line.id,
+        label: `${line.item.code} - ${line.item.description} (${line.uom || line.item.uom || 'units'})`,
+        quantity: String(line.receivedQty - line.invoicedQty),
+        price: String(line.unitPrice),
+      })));
+  };
+
+  const updateDialogLine = (index: number, changes: Partial<DialogLine>) => {
+    setDialogLines(dialogLines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const handleDialogSubmit = async () => {
+    const lines = dialogLines.filter(line => parseFloat(line.quantity) > 0);
+    let done = false;
+
+    if (dialogMode === 'order') {
+      if (!dialogSupplierId) {
+        toast({ title: 'Error', description: 'Select a supplier', variant: 'destructive' });
+        return;
+      }
+      done = await postAction('/api/purchase-orders', {
+        supplierId: dialogSupplierId,
+        storeId: dialogStoreId,
+        requisitionId: dialogTargetId,
+        lines: lines.map(line => ({
+          itemId: line.itemId,
+          quantity: parseFloat(line.quantity),
+          unitPrice: parseFloat(line.price) || 0,
+          uom: line.uom,
+        })),
+      }, 'Purchase order created');
+    } else if (dialogMode === 'receive') {
+      done = await postAction(`/api/purchase-orders/${dialogTargetId}`, {
+        action: 'receive',
+        supplierReference: dialogReference || undefined,
+        lines: lines.map(line => ({
+          orderLineId: line.id,
+          quantity: parseFloat(line.quantity),
+        })),
+      }, 'Goods received');
+    } else if (dialogMode === 'invoice') {
+      if (!dialogReference) {
+        toast({ title: 'Error', description: 'Enter the supplier invoice number', variant: 'destructive' });
+        return;
+      }
+      done = await postAction('/api/supplier-invoices', {
+        purchaseOrderId: dialogTargetId,
+        invoiceNumber: dialogReference,
+        lines: lines.map(line => ({
+          orderLineId: line.id,
+          quantity: parseFloat(line.quantity),
+          unitPrice: parseFloat(line.price) || 0,
+        })),
+      }, 'Invoice recorded');
+    }
+
+    if (done) {
+      setDialogMode(null);
+    }
+  };
+
+  const handleCreateSupplier = async () => {
+    if (!supplierForm.code || !supplierForm.name) {
+      toast({ title: 'Error', description: 'Code and name are required', variant: 'destructive' });
+      return;
+    }
+
+    setActionLoading(true);
+    try {
+      const response = await fetch('/api/suppliers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(supplierForm),
+      });
+
+      if (response.ok) {
+        toast({ title: 'Success', description: 'Supplier created' });
+        setSupplierForm({ ...emptySupplier });
+        fetchData();
+      } else {
+        const data = await response.json();
+        toast({ title: 'Error', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to create supplier', variant: 'destructive' });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const dialogTitles: Record<LineDialogMode, { title: string; description: string; action: string }> = {
+    order: { title: 'Create Purchase Order', description: 'Choose a supplier and agree prices', action: 'Create PO' },
+    receive: { title: 'Receive Goods', description: 'Quantities delivered against this order', action: 'Post Receipt' },
+    invoice: { title: 'Enter Supplier Invoice', description: 'Invoice lines are matched to PO price and received quantity', action: 'Record Invoice' },
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) return null;
+
+  return (
+    <div className="min-h-screen flex flex-col md:flex-row">
+      <Sidebar />
+      <div className="flex-1 flex flex-col min-h-screen">
+        <Header title="Purchasing" />
+        <main className="flex-1 overflow-auto p-4 md:p-6">
+          <div className="space-y-6">
+            <div>
+              <h2 className="text-2xl font-bold flex items-center gap-2">
+                <ShoppingCart className="h-6 w-6" />
+                Purchasing
+              </h2>
+              <p className="text-muted-foreground">
+                Requisitions, purchase orders and supplier invoices
+              </p>
+            </div>
+
+            <Tabs defaultValue="requisitions">
+              <TabsList>
+                <TabsTrigger value="requisitions">
+                  Requisitions ({requisitions.filter(r => r.status === 'SUBMITTED').length})
+                </TabsTrigger>
+                <TabsTrigger value="orders">
+                  Purchase Orders
+                </TabsTrigger>
+                <TabsTrigger value="invoices">
+                  Invoices ({invoices.filter(i => i.status === 'EXCEPTION').length})
+                </TabsTrigger>
+                <TabsTrigger value="suppliers">
+                  Suppliers
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="requisitions" className="space-y-4">
+                {requisitions.length === 0 ? (
+                  <Card>
+                    <CardContent className="p-6 text-center text-muted-foreground">
+                      <FileText className="h-8 w-8 mx-auto mb-2" />
+                      <p>No requisitions raised</p>
+                    </CardContent>
+                  </Card>
+                ) : (
+                  requisitions.map((requisition) => (
+                    <Card key={requisition.id}>
+                      <CardHeader>
+                        <div className="flex items-start justify-between">
+                          <div>
+                            <CardTitle className="text-lg">{requisition.requisitionNumber}</CardTitle>
+                            <CardDescription>
+                              {requisition.store.name} • Requested by {requisition.requestedBy.name}
+                              {' '}• {new Date(requisition.createdAt).toLocaleDateString()}
+                            </CardDescription>
+                          </div>
+                          <div className="text-right space-y-1">
+                            <Badge className={statusColors[requisition.status]}>{requisition.status}</Badge>
+                            <p className="font-bold">{requisition.estimatedValue.toFixed(2)}</p>
+                          </div>
+                        </div>
+                      </CardHeader>
+                      <CardContent className="space-y-4">
+                        <div className="space-y-2">
+                          {requisition.lines.map((line) => (
+                            <div
+                              key={line.id}
+                              className="flex items-center justify-between p-2 bg-muted/50 rounded"
+                            >
+                              <div>
+                                <p className="font-medium">{line.item.description}</p>
+                                <p className="text-sm text-muted-foreground">{line.item.code}</p>
+                              </div>
+                              <div className="text-right">
+                                <p className="font-bold">{line.quantity} {line.item.uom}</p>
+                                <p className="text-xs text-muted-foreground">
+                                  est. @ {line.estimatedUnitCost.toFixed(2)}
+                                </p>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                        {canApprove && requisition.status === 'SUBMITTED' && (
+                          <div className="flex gap-2">
+                            <Button
+                              className="flex-1"
+                              onClick={() => postAction(
+                                `/api/purchase-requisitions/${requisition.id}`,
+                                { action: 'approve' },
+                                'Requisition approved'
+                              )}
+                              disabled={actionLoading}
+                            >
+                              <CheckCircle2 className="h-4 w-4 mr-2" />
+                              Approve
+                            </Button>
+                            <Button
+                              variant="outline"
+                              className="flex-1"
+                              onClick={() => handleRejectRequisition(requisition)}
+                              disabled={actionLoading}
+                            >
+                              <XCircle className="h-4 w-4 mr-2" />
+                              Reject
+                            </Button>
+                          </div>
+                        )}
+                        {requisition.status === 'APPROVED' && (
+                          <Button className="w-full" onClick={() => openOrderDialog(requisition)}>
+                            <ShoppingCart className="h-4 w-4 mr-2" />
+                            Create Purchase Order
+                          </Button>
+                        )}
+                      </CardContent>
+                    </Card>
+                  ))
+                )}
+              </TabsContent>
+
+              <TabsContent value="orders" className="space-y-4">
+                {orders.length === 0 ? (
+                  <Card>
+                    <CardContent className="p-6 text-center text-muted-foreground">
+                      <ShoppingCart className="h-8 w-8 mx-auto mb-2" />
+                      <p>No purchase orders</p>
+                    </CardContent>
+                  </Card>
+                ) : (
+                  orders.map((order) => (
+                    <Card key={order.id}>
+                      <CardHeader>
+                        <div className="flex items-start justify-between">
+                          <div>
+                            <CardTitle className="text-lg">{order.poNumber}</CardTitle>
+                            <CardDescription>
+                              {order.supplier.name} • Deliver to {order.store.name}
+                              {order.expectedDeliveryDate &&
+                                ` • Expected ${new Date(order.expectedDeliveryDate).toLocaleDateString()}`}
+                            </CardDescription>
+                          </div>
+                          <div className="text-right space-y-1">
+                            <Badge className={statusColors[order.status]}>{order.status.replace('_', ' ')}</Badge>
+                            <p className="font-bold">{order.totalValue.toFixed(2)}</p>
+                          </div>
+                        </div>
+                      </CardHeader>
+                      <CardContent className="space-y-4">
+                        <div className="space-y-2">
+                          {order.lines.map((line) => (
+                            <div
+                              key={line.id}
+                              className="flex items-center justify-between p-2 bg-muted/50 rounded"
+                            >
+                              <div>
+                                <p className="font-medium">{line.item.description}</p>
+                                <p className="text-sm text-muted-foreground">
+                                  {line.item.code} • @ {line.unitPrice.toFixed(2)}
+                                </p>
+                              </div>
+                              <div className="text-right">
+                                <p className="font-bold">
+                                  {line.receivedQty} / {line.quantity} {line.uom || line.item.uom}
+                                </p>
+                                <p className="text-xs text-muted-foreground">
+                                  Received • {line.invoicedQty} invoiced
+                                </p>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                        <div className="flex gap-2 flex-wrap">
+                          {canApprove && order.status === 'DRAFT' && (
+                            <Button
+                              className="flex-1"
+                              onClick={() => postAction(
+                                `/api/purchase-orders/${order.id}`,
+                                { action: 'approve' },
+                                'Purchase order approved'
+                              )}
+                              disabled={actionLoading}
+                            >
+                              <CheckCircle2 className="h-4 w-4 mr-2" />
+                              Approve
+                            </Button>
+                          )}
+                          {['APPROVED', 'PARTIALLY_RECEIVED'].includes(order.status) && (
+                            <Button className="flex-1" onClick={() => openReceiveDialog(order)}>
+                              <Truck className="h-4 w-4 mr-2" />
+                              Receive
+                            </Button>
+                          )}
+                          {order.lines.some(line => line.receivedQty > line.invoicedQty) && (
+                            <Button variant="outline" className="flex-1" onClick={() => openInvoiceDialog(order)}>
+                              <Receipt className="h-4 w-4 mr-2" />
+                              Enter Invoice
+                            </Button>
+                          )}
+                          {canApprove && ['DRAFT', 'APPROVED'].includes(order.status) && (
+                            <Button
+                              variant="outline"
+                              onClick={() => postAction(
+                                `/api/purchase-orders/${order.id}`,
+                                { action: 'cancel' },
+                                'Purchase order cancelled'
+                              )}
+                              disabled={actionLoading}
+                            >
+                              <XCircle className="h-4 w-4 mr-2" />
+                              Cancel
+                            </Button>
+                          )}
+                          {canApprove && order.status === 'PARTIALLY_RECEIVED' && (
+                            <Button
+                              variant="outline"
+                              onClick={() => postAction(
+                                `/api/purchase-orders/${order.id}`,
+                                { action: 'close' },
+                                'Purchase order closed'
+                              )}
+                              disabled={actionLoading}
+                            >
+                              Short Close
+                            </Button>
+                          )}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))
+                )}
+              </TabsContent>
+
+              <TabsContent value="invoices" className="space-y-4">
+                {invoices.length === 0 ? (
+                  <Card>
+                    <CardContent className="p-6 text-center text-muted-foreground">
+                      <Receipt className="h-8 w-8 mx-auto mb-2" />
+                      <p>No supplier invoices</p>
+                    </CardContent>
+                  </Card>
+                ) : (
+                  invoices.map((invoice) => (
+                    <Card key={invoice.id} className={invoice.status === 'EXCEPTION' ? 'border-red-200' : ''}>
+                      <CardContent className="p-4 space-y-3">
+                        <div className="flex items-start justify-between">
+                          <div>
+                            <p className="font-medium">
+                              {invoice.supplier.name} • {invoice.invoiceNumber}
+                            </p>
+                            <p className="text-sm text-muted-foreground">
+                              {invoice.purchaseOrder.poNumber} • {new Date(invoice.invoiceDate).toLocaleDateString()}
+                            </p>
+                          </div>
+                          <div className="text-right space-y-1">
+                            <Badge className={statusColors[invoice.status]}>{invoice.status}</Badge>
+                            <p className="font-bold">{invoice.totalAmount.toFixed(2)}</p>
+                          </div>
+                        </div>
+                        {invoice.matchNotes && (
+                          <p className="text-sm text-red-600">{invoice.matchNotes}</p>
+                        )}
+                        {canApprove && ['MATCHED', 'EXCEPTION'].includes(invoice.status) && (
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              className="flex-1"
+                              onClick={() => postAction(
+                                `/api/supplier-invoices/${invoice.id}`,
+                                { action: 'approve' },
+                                'Invoice approved'
+                              )}
+                              disabled={actionLoading}
+                            >
+                              <CheckCircle2 className="h-4 w-4 mr-2" />
+                              {invoice.status === 'EXCEPTION' ? 'Approve Exception' : 'Approve'}
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="flex-1"
+                              onClick={() => postAction(
+                                `/api/supplier-invoices/${invoice.id}`,
+                                { action: 'reject' },
+                                'Invoice rejected'
+                              )}
+                              disabled={actionLoading}
+                            >
+                              <XCircle className="h-4 w-4 mr-2" />
+                              Reject
+                            </Button>
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  ))
+                )}
+              </TabsContent>
+
+              <TabsContent value="suppliers" className="space-y-4">
+                {canApprove && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-lg flex items-center gap-2">
+                        <Building2 className="h-5 w-5" />
+                        New Supplier
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                        <div className="space-y-2">
+                          <Label>Code</Label>
+                          <Input
+                            value={supplierForm.code}
+                            onChange={(e) => setSupplierForm({ ...supplierForm, code: e.target.value })}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Name</Label>
+                          <Input
+                            value={supplierForm.name}
+                            onChange={(e) => setSupplierForm({ ...supplierForm, name: e.target.value })}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Contact</Label>
+                          <Input
+                            value={supplierForm.contactName}
+                            onChange={(e) => setSupplierForm({ ...supplierForm, contactName: e.target.value })}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Phone</Label>
+                          <Input
+                            value={supplierForm.phone}
+                            onChange={(e) => setSupplierForm({ ...supplierForm, phone: e.target.value })}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Email</Label>
+                          <Input
+                            value={supplierForm.email}
+                            onChange={(e) => setSupplierForm({ ...supplierForm, email: e.target.value })}
+                          />
+                        </div>
+                      </div>
+                      <div className="flex justify-end">
+                        <Button onClick={handleCreateSupplier} disabled={actionLoading}>
+                          <Plus className="h-4 w-4 mr-2" />
+                          Add Supplier
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
+                <div className="rounded-md border">
+                  <div className="grid grid-cols-4 gap-4 p-4 bg-muted/50 font-medium text-sm">
+                    <div>Supplier</div>
+                    <div>Contact</div>
+                    <div>Phone / Email</div>
+                    <div>Status</div>
+                  </div>
+                  {suppliers.map((supplier) => (
+                    <div
+                      key={supplier.id}
+                      className="grid grid-cols-4 gap-4 p-4 border-t items-center"
+                    >
+                      <div>
+                        <p className="font-medium">{supplier.name}</p>
+                        <p className="text-xs text-muted-foreground">{supplier.code}</p>
+                      </div>
+                      <div className="text-sm">{supplier.contactName || '-'}</div>
+                      <div className="text-sm">
+                        {supplier.phone || '-'} / {supplier.email || '-'}
+                      </div>
+                      <div>
+                        <Badge variant="outline">{supplier.status}</Badge>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </TabsContent>
+            </Tabs>
+          </div>
+        </main>
+      </div>
+
+      {/* Order / Receive / Invoice Dialog */}
+      <Dialog open={dialogMode !== null} onOpenChange={(open) => !open && setDialogMode(null)}>
+        <DialogContent className="sm:max-w-[600px]">
+          {dialogMode && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{dialogTitles[dialogMode].title}</DialogTitle>
+                <DialogDescription>
+                  {dialogTitles[dialogMode].description}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-4">
+                {dialogMode === 'order' && (
+                  <div className="space-y-2">
+                    <Label>Supplier</Label>
+                    <Select value={dialogSupplierId} onValueChange={setDialogSupplierId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select supplier" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {suppliers.filter(s => s.status === 'ACTIVE').map((supplier) => (
+                          <SelectItem key={supplier.id} value={supplier.id}>
+                            {supplier.code} - {supplier.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {dialogMode !== 'order' && (
+                  <div className="space-y-2">
+                    <Label>{dialogMode === 'invoice' ? 'Invoice Number' : 'Delivery Note'}</Label>
+                    <Input
+                      value={dialogReference}
+                      onChange={(e) => setDialogReference(e.target.value)}
+                    />
+                  </div>
+                )}
+                {dialogLines.map((line, index) => (
+                  <div key={line.id} className="space-y-2">
+                    <Label>{line.label}</Label>
+                    <div className="flex items-center gap-4">
+                      <Input
+                        type="number"
+                        value={line.quantity}
+                        onChange={(e) => updateDialogLine(index, { quantity: e.target.value })}
+                        max={line.maxQty}
+                      />
+                      {dialogMode === 'receive' ? (
+                        <span className="text-sm text-muted-foreground whitespace-nowrap">
+                          / {line.maxQty} @ {parseFloat(line.price).toFixed(2)}
+                        </span>
+                      ) : (
+                        <Input
+                          type="number"
+                          step="0.01"
+                          value={line.price}
+                          onChange={(e) => updateDialogLine(index, { price: e.target.value })}
+                        />
+                      )}
+                      {dialogMode === 'order' && (line.uomOptions?.length || 0) > 1 && (
+                        <Select value={line.uom} onValueChange={(uom) => updateDialogLine(index, { uom })}>
+                          <SelectTrigger className="w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {line.uomOptions!.map((uom) => (
+                              <SelectItem key={uom} value={uom}>{uom}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setDialogMode(null)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleDialogSubmit} disabled={actionLoading}>
+                  {actionLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {dialogTitles[dialogMode].action}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,685 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { Sidebar } from '@/components/layout/Sidebar';
+import { Header } from '@/components/layout/Header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from '@/components/ui/use-toast';
+import {
+  RefreshCw,
+  Plus,
+  CheckCircle,
+  Wrench,
+  Truck,
+  AlertTriangle,
+  History,
+} from 'lucide-react';
+
+interface RotableUnit {
+  id: string;
+  serialNumber: string;
+  status: string;
+  purchaseCost: number;
+  capitalisedCost: number;
+  overhaulCount: number;
+  lastOverhaulAt: string | null;
+  hoursSinceNew: number;
+  hoursSinceOverhaul: number;
+  item: { id: string; code: string; description: string };
+  asset: { id: string; code: string; description: string } | null;
+  store: { id: string; code: string | null; name: string } | null;
+}
+
+interface RotableEvent {
+  id: string;
+  eventType: string;
+  meterReading: number | null;
+  cost: number | null;
+  notes: string | null;
+  createdAt: string;
+  asset: { code: string } | null;
+  job: { title: string } | null;
+}
+
+interface RotableHistory extends RotableUnit {
+  events: RotableEvent[];
+}
+
+type ActionMode = 'fit' | 'remove' | 'overhaul' | 'exchange';
+
+const emptyActionForm = {
+  jobId: '',
+  storeId: '',
+  serviceable: 'false',
+  vendorName: '',
+  vendorReference: '',
+  estimatedCost: '',
+  serialNumber: '',
+  exchangeCost: '',
+  notes: '',
+};
+
+export default function RotablesPage() {
+  const { isAuthenticated, isLoading, hasRole } = useAuth();
+  const router = useRouter();
+
+  const [units, setUnits] = useState<RotableUnit[]>([]);
+  const [items, setItems] = useState<{ id: string; code: string; description: string }[]>([]);
+  const [stores, setStores] = useState<{ id: string; name: string }[]>([]);
+  const [jobs, setJobs] = useState<{ id: string; title: string; status: string; asset: { id: string; code: string } }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState('ALL');
+
+  const [showRegisterDialog, setShowRegisterDialog] = useState(false);
+  const [registerForm, setRegisterForm] = useState({
+    itemId: '',
+    serialNumber: '',
+    purchaseCost: '',
+  });
+
+  const [actionMode, setActionMode] = useState<ActionMode | null>(null);
+  const [selectedUnit, setSelectedUnit] = useState<RotableUnit | null>(null);
+  const [actionForm, setActionForm] = useState(emptyActionForm);
+  const [history, setHistory] = useState<RotableHistory | null>(null);
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/login');
+    }
+  }, [isAuthenticated, isLoading, router]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchData();
+    }
+  }, [isAuthenticated]);
+
+  const fetchData = async () => {
+    try {
+      const [unitsRes, itemsRes, storesRes, jobsRes] = await Promise.all([
+        fetch('/api/rotables', { credentials: 'include' }),
+        fetch('/api/items?status=ACTIVE', { credentials: 'include' }),
+        fetch('/api/stores?status=ACTIVE', { credentials: 'include' }),
+        fetch('/api/jobs', { credentials: 'include' }),
+      ]);
+
+      if (unitsRes.ok) {
+        const data = await unitsRes.json();
+        setUnits(data.units);
+      }
+
+      if (itemsRes.ok) {
+        const data = await itemsRes.json();
+        setItems(data.items);
+      }
+
+      if (storesRes.ok) {
+        const data = await storesRes.json();
+        setStores(data.stores);
+      }
+
+      if (jobsRes.ok) {
+        const data = await jobsRes.json();
+        setJobs(data.jobs.filter((j: { status: string }) =>
+          ['CREATED', 'ASSIGNED', 'IN_PROGRESS', 'PAUSED'].includes(j.status)
+        ));
+      }
+    } catch (error) {
+      console.error('Error fetching rotables:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRegister = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await fetch('/api/rotables', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(registerForm),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        toast({ title: 'Success', description: `Unit ${data.unit.serialNumber} added to the pool` });
+        setShowRegisterDialog(false);
+        setRegisterForm({ itemId: '', serialNumber: '', purchaseCost: '' });
+        fetchData();
+      } else {
+        toast({ title: 'Error', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to register unit', variant: 'destructive' });
+    }
+  };
+
+  const openAction = (unit: RotableUnit, mode: ActionMode) => {
+    setSelectedUnit(unit);
+    setActionForm({ ...emptyActionForm, storeId: unit.store?.id || '' });
+    setActionMode(mode);
+  };
+
+  const handleAction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedUnit || !actionMode) return;
+
+    const body = actionMode === 'fit'
+      ? { jobId: actionForm.jobId, notes: actionForm.notes }
+      : actionMode === 'remove'
+        ? {
+            jobId: actionForm.jobId,
+            storeId: actionForm.storeId,
+            serviceable: actionForm.serviceable === 'true',
+            notes: actionForm.notes,
+          }
+        : actionMode === 'exchange'
+          ? {
+              vendorName: actionForm.vendorName,
+              vendorReference: actionForm.vendorReference,
+              serialNumber: actionForm.serialNumber,
+              storeId: actionForm.storeId,
+              exchangeCost: actionForm.exchangeCost,
+              notes: actionForm.notes,
+            }
+          : {
+              vendorName: actionForm.vendorName,
+              vendorReference: actionForm.vendorReference,
+              estimatedCost: actionForm.estimatedCost,
+              notes: actionForm.notes,
+            };
+
+    try {
+      const response = await fetch(`/api/rotables/${selectedUnit.id}/${actionMode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        toast({
+          title: 'Success',
+          description: actionMode === 'overhaul'
+            ? `Gate pass ${data.repair.gatePassNumber} raised for overhaul`
+            : actionMode === 'exchange'
+              ? `Core ${selectedUnit.serialNumber} exchanged for unit ${data.unit.serialNumber}`
+              : `Unit ${selectedUnit.serialNumber} ${actionMode === 'fit' ? 'fitted' : 'removed'}`,
+        });
+        setActionMode(null);
+        setSelectedUnit(null);
+        fetchData();
+      } else {
+        toast({ title: 'Error', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to update unit', variant: 'destructive' });
+    }
+  };
+
+  const openHistory = async (unit: RotableUnit) => {
+    try {
+      const response = await fetch(`/api/rotables/${unit.id}`, { credentials: 'include' });
+      if (response.ok) {
+        const data = await response.json();
+        setHistory(data.unit);
+      }
+    } catch (error) {
+      console.error('Error fetching unit history:', error);
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'SERVICEABLE':
+        return 'bg-green-100 text-green-700 dark:bg-green-900/20';
+      case 'FITTED':
+        return 'bg-blue-100 text-blue-700 dark:bg-blue-900/20';
+      case 'AWAITING_REPAIR':
+        return 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/20';
+      case 'AT_VENDOR':
+        return 'bg-orange-100 text-orange-700 dark:bg-orange-900/20';
+      default:
+        return 'bg-gray-100 text-gray-700 dark:bg-gray-900/20';
+    }
+  };
+
+  const canRegister = hasRole(['ADMIN', 'MANAGER', 'STOREKEEPER']);
+  const canFit = hasRole(['ADMIN', 'MANAGER', 'SUPERVISOR', 'TECHNICIAN']);
+  const canOverhaul = hasRole(['ADMIN', 'MANAGER', 'SUPERVISOR']);
+
+  const filteredUnits = statusFilter === 'ALL' ? units : units.filter((u) => u.status === statusFilter);
+  const countByStatus = (status: string) => units.filter((u) => u.status === status).length;
+
+  // Jobs on the unit's host asset when removing, any open job when fitting
+  const actionJobs = actionMode === 'remove' && selectedUnit?.asset
+    ? jobs.filter((j) => j.asset.id === selectedUnit.asset?.id)
+    : jobs;
+
+  if (isLoading || !isAuthenticated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col md:flex-row">
+      <Sidebar />
+      <div className="flex-1 flex flex-col min-h-screen">
+        <Header title="Rotable Pool" />
+        <main className="flex-1 overflow-auto p-4 md:p-6 space-y-6">
+          {/* Stats */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {[
+              { status: 'SERVICEABLE', label: 'Serviceable', icon: <CheckCircle className="h-5 w-5 text-green-600" />, bg: 'bg-green-100 dark:bg-green-900/20' },
+              { status: 'FITTED', label: 'Fitted', icon: <Wrench className="h-5 w-5 text-blue-600" />, bg: 'bg-blue-100 dark:bg-blue-900/20' },
+              { status: 'AWAITING_REPAIR', label: 'Awaiting Repair', icon: <AlertTriangle className="h-5 w-5 text-yellow-600" />, bg: 'bg-yellow-100 dark:bg-yellow-900/20' },
+              { status: 'AT_VENDOR', label: 'At Vendor', icon: <Truck className="h-5 w-5 text-orange-600" />, bg: 'bg-orange-100 dark:bg-orange-900/20' },
+            ].map((stat) => (
+              <Card key={stat.status}>
+                <CardContent className="p-4">
+                  <div className="flex items-center gap-3">
+                    <div className={`p-2 rounded-lg ${stat.bg}`}>{stat.icon}</div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">{stat.label}</p>
+                      <p className="text-2xl font-bold">{countByStatus(stat.status)}</p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap justify-between gap-2">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">All Units</SelectItem>
+                <SelectItem value="SERVICEABLE">Serviceable</SelectItem>
+                <SelectItem value="FITTED">Fitted</SelectItem>
+                <SelectItem value="AWAITING_REPAIR">Awaiting Repair</SelectItem>
+                <SelectItem value="AT_VENDOR">At Vendor</SelectItem>
+                <SelectItem value="EXCHANGED">Exchanged</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={fetchData}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Refresh
+              </Button>
+              {canRegister && (
+                <Button onClick={() => setShowRegisterDialog(true)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Register Unit
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {/* Pool */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Rotable Units</CardTitle>
+              <CardDescription>
+                Repairable components tracked by serial number, with hours from the host asset&apos;s meter
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="flex justify-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+                </div>
+              ) : filteredUnits.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No rotable units registered</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left">
+                        <th className="py-2 pr-4">Unit</th>
+                        <th className="py-2 pr-4">Status</th>
+                        <th className="py-2 pr-4">Location</th>
+                        <th className="py-2 pr-4 text-right">Hrs Since Overhaul</th>
+                        <th className="py-2 pr-4 text-right">Hrs Since New</th>
+                        <th className="py-2 pr-4 text-right">Book Value</th>
+                        <th className="py-2" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {filteredUnits.map((unit) => (
+                        <tr key={unit.id} className="border-b">
+                          <td className="py-2 pr-4">
+                            <p className="font-medium">{unit.item.code} S/N {unit.serialNumber}</p>
+                            <p className="text-xs text-muted-foreground">{unit.item.description}</p>
+                          </td>
+                          <td className="py-2 pr-4">
+                            <Badge className={getStatusColor(unit.status)}>{unit.status.replace('_', ' ')}</Badge>
+                          </td>
+                          <td className="py-2 pr-4">
+                            {unit.asset ? `On ${unit.asset.code}` : unit.store?.name || '-'}
+                          </td>
+                          <td className="py-2 pr-4 text-right">{unit.hoursSinceOverhaul.toLocaleString()}</td>
+                          <td className="py-2 pr-4 text-right">{unit.hoursSinceNew.toLocaleString()}</td>
+                          <td className="py-2 pr-4 text-right">${unit.capitalisedCost.toLocaleString()}</td>
+                          <td className="py-2">
+                            <div className="flex justify-end gap-2">
+                              {unit.status === 'SERVICEABLE' && canFit && (
+                                <Button size="sm" variant="outline" onClick={() => openAction(unit, 'fit')}>
+                                  Fit
+                                </Button>
+                              )}
+                              {unit.status === 'FITTED' && canFit && (
+                                <Button size="sm" variant="outline" onClick={() => openAction(unit, 'remove')}>
+                                  Remove
+                                </Button>
+                              )}
+                              {['SERVICEABLE', 'AWAITING_REPAIR'].includes(unit.status) && canOverhaul && (
+                                <Button size="sm" variant="outline" onClick={() => openAction(unit, 'overhaul')}>
+                                  Overhaul
+                                </Button>
+                              )}
+                              {unit.status === 'AWAITING_REPAIR' && canRegister && (
+                                <Button size="sm" variant="outline" onClick={() => openAction(unit, 'exchange')}>
+                                  Exchange
+                                </Button>
+                              )}
+                              <Button size="sm" variant="ghost" onClick={() => openHistory(unit)}>
+                                <History className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Register Dialog */}
+          <Dialog open={showRegisterDialog} onOpenChange={setShowRegisterDialog}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Register Rotable Unit</DialogTitle>
+                <DialogDescription>Add a unit already in stock or fitted to an asset to the pool</DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleRegister} className="space-y-4">
+                <div>
+                  <Label>Item *</Label>
+                  <Select
+                    value={registerForm.itemId}
+                    onValueChange={(v) => setRegisterForm({ ...registerForm, itemId: v })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select item" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {items.map((item) => (
+                        <SelectItem key={item.id} value={item.id}>
+                          {item.code} - {item.description}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label>Serial Number *</Label>
+                    <Input
+                      value={registerForm.serialNumber}
+                      onChange={(e) => setRegisterForm({ ...registerForm, serialNumber: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label>Purchase Cost</Label>
+                    <Input
+                      type="number"
+                      value={registerForm.purchaseCost}
+                      onChange={(e) => setRegisterForm({ ...registerForm, purchaseCost: e.target.value })}
+                      placeholder="0.00"
+                    />
+                  </div>
+                </div>
+                <DialogFooter>
+                  <Button type="submit">Register Unit</Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+
+          {/* Fit / Remove / Overhaul / Exchange Dialog */}
+          <Dialog open={actionMode !== null} onOpenChange={(open) => !open && setActionMode(null)}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>
+                  {actionMode === 'fit' ? 'Fit Unit' : actionMode === 'remove' ? 'Remove Unit' : actionMode === 'exchange' ? 'Exchange Core' : 'Send for Overhaul'}
+                </DialogTitle>
+                <DialogDescription>
+                  {selectedUnit && `${selectedUnit.item.code} S/N ${selectedUnit.serialNumber}`}
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleAction} className="space-y-4">
+                {(actionMode === 'fit' || actionMode === 'remove') && (
+                  <div>
+                    <Label>Job *</Label>
+                    <Select
+                      value={actionForm.jobId}
+                      onValueChange={(v) => setActionForm({ ...actionForm, jobId: v })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select job" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {actionJobs.map((job) => (
+                          <SelectItem key={job.id} value={job.id}>
+                            {job.asset.code} - {job.title}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {actionMode === 'remove' && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label>Store *</Label>
+                      <Select
+                        value={actionForm.storeId}
+                        onValueChange={(v) => setActionForm({ ...actionForm, storeId: v })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select store" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {stores.map((store) => (
+                            <SelectItem key={store.id} value={store.id}>{store.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label>Condition</Label>
+                      <Select
+                        value={actionForm.serviceable}
+                        onValueChange={(v) => setActionForm({ ...actionForm, serviceable: v })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="false">Awaiting Repair</SelectItem>
+                          <SelectItem value="true">Serviceable</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
+                {actionMode === 'exchange' && (
+                  <>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label>Vendor Name *</Label>
+                        <Input
+                          value={actionForm.vendorName}
+                          onChange={(e) => setActionForm({ ...actionForm, vendorName: e.target.value })}
+                          required
+                        />
+                      </div>
+                      <div>
+                        <Label>Vendor Reference</Label>
+                        <Input
+                          value={actionForm.vendorReference}
+                          onChange={(e) => setActionForm({ ...actionForm, vendorReference: e.target.value })}
+                        />
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label>Exchange Unit S/N *</Label>
+                        <Input
+                          value={actionForm.serialNumber}
+                          onChange={(e) => setActionForm({ ...actionForm, serialNumber: e.target.value })}
+                          required
+                        />
+                      </div>
+                      <div>
+                        <Label>Exchange Cost</Label>
+                        <Input
+                          type="number"
+                          value={actionForm.exchangeCost}
+                          onChange={(e) => setActionForm({ ...actionForm, exchangeCost: e.target.value })}
+                          placeholder="0.00"
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <Label>Receive Into Store *</Label>
+                      <Select
+                        value={actionForm.storeId}
+                        onValueChange={(v) => setActionForm({ ...actionForm, storeId: v })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select store" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {stores.map((store) => (
+                            <SelectItem key={store.id} value={store.id}>{store.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </>
+                )}
+                {actionMode === 'overhaul' && (
+                  <>
+                    <div>
+                      <Label>Vendor Name *</Label>
+                      <Input
+                        value={actionForm.vendorName}
+                        onChange={(e) => setActionForm({ ...actionForm, vendorName: e.target.value })}
+                        required
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label>Vendor Reference</Label>
+                        <Input
+                          value={actionForm.vendorReference}
+                          onChange={(e) => setActionForm({ ...actionForm, vendorReference: e.target.value })}
+                        />
+                      </div>
+                      <div>
+                        <Label>Estimated Cost</Label>
+                        <Input
+                          type="number"
+                          value={actionForm.estimatedCost}
+                          onChange={(e) => setActionForm({ ...actionForm, estimatedCost: e.target.value })}
+                          placeholder="0.00"
+                        />
+                      </div>
+                    </div>
+                  </>
+                )}
+                <div>
+                  <Label>Notes</Label>
+                  <Textarea
+                    value={actionForm.notes}
+                    onChange={(e) => setActionForm({ ...actionForm, notes: e.target.value })}
+                  />
+                </div>
+                <DialogFooter>
+                  <Button type="submit">
+                    {actionMode === 'fit' ? 'Fit Unit' : actionMode === 'remove' ? 'Remove Unit' : actionMode === 'exchange' ? 'Receive Exchange Unit' : 'Raise Gate Pass'}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+
+          {/* Life History Dialog */}
+          <Dialog open={history !== null} onOpenChange={(open) => !open && setHistory(null)}>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>
+                  {history && `${history.item.code} S/N ${history.serialNumber}`}
+                </DialogTitle>
+                <DialogDescription>
+                  {history && `${history.hoursSinceOverhaul.toLocaleString()} hrs since overhaul, ${history.hoursSinceNew.toLocaleString()} hrs since new, ${history.overhaulCount} overhaul(s), book value $${history.capitalisedCost.toLocaleString()}`}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {history?.events.map((event) => (
+                  <div key={event.id} className="flex justify-between gap-4 p-3 rounded-lg bg-muted/50 text-sm">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">{event.eventType.replace(/_/g, ' ')}</Badge>
+                        {event.asset && <span>{event.asset.code}</span>}
+                      </div>
+                      {event.job && <p className="text-muted-foreground mt-1">Job: {event.job.title}</p>}
+                      {event.notes && <p className="text-muted-foreground mt-1">{event.notes}</p>}
+                    </div>
+                    <div className="text-right text-muted-foreground">
+                      <p>{new Date(event.createdAt).toLocaleDateString()}</p>
+                      {event.meterReading !== null && <p>Meter {event.meterReading.toLocaleString()}</p>}
+                      {event.cost !== null && <p>${event.cost.toLocaleString()}</p>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </DialogContent>
+          </Dialog>
+        </main>
+      </div>
+    </div>
+  );
+}
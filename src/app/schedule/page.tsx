@@ -0,0 +1,384 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { Sidebar } from '@/components/layout/Sidebar';
+import { Header } from '@/components/layout/Header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/components/ui/use-toast';
+import {
+  DndContext,
+  DragEndEvent,
+  DragOverlay,
+  DragStartEvent,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core';
+import { CalendarRange, ChevronLeft, ChevronRight, AlertTriangle, Inbox, Loader2 } from 'lucide-react';
+
+interface BoardJob {
+  id: string;
+  title: string;
+  status: string;
+  priority: string;
+  scheduledStart: string | null;
+  estimateMinutes: number;
+  asset: { code: string; description: string };
+}
+
+interface ScheduleDay {
+  date: string;
+  jobs: BoardJob[];
+  plannedMinutes: number;
+  capacityMinutes: number;
+  overloaded: boolean;
+}
+
+interface ScheduleLane {
+  technician: { id: string; name: string };
+  unscheduled: BoardJob[];
+  days: ScheduleDay[];
+}
+
+const DAYS_SHOWN = 7;
+
+// Start of the working day for jobs dropped without a planned time
+const DEFAULT_START_TIME = '08:00';
+
+const priorityColors: Record<string, string> = {
+  CRITICAL: 'border-l-red-500',
+  HIGH: 'border-l-orange-500',
+  MEDIUM: 'border-l-blue-500',
+  LOW: 'border-l-gray-400',
+};
+
+const priorityRank: Record<string, number> = { CRITICAL: 0, HIGH: 1, MEDIUM: 2, LOW: 3 };
+
+// Local calendar date as YYYY-MM-DD
+function toDateKey(date: Date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+// Monday of the week containing a date
+function startOfWeek(date: Date) {
+  const day = (date.getDay() + 6) % 7;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - day);
+}
+
+function formatHours(minutes: number) {
+  return `${(minutes / 60).toFixed(minutes % 60 === 0 ? 0 : 1)}h`;
+}
+
+function JobCard({ job, dragging }: { job: BoardJob; dragging?: boolean }) {
+  return (
+    <div
+      className={`rounded border border-l-4 ${priorityColors[job.priority] || ''} bg-background p-2 text-xs shadow-sm ${
+        dragging ? 'shadow-lg ring-2 ring-primary' : ''
+      }`}
+    >
+      <p className="font-medium truncate" title={job.title}>{job.title}</p>
+      <div className="flex items-center justify-between text-muted-foreground">
+        <span className="truncate">{job.asset.code}</span>
+        <span>{formatHours(job.estimateMinutes)}</span>
+      </div>
+      {job.status !== 'ASSIGNED' && job.status !== 'CREATED' && (
+        <Badge variant="outline" className="mt-1 text-[10px]">{job.status.replace('_', ' ')}</Badge>
+      )}
+    </div>
+  );
+}
+
+// Only jobs not yet started can be assigned or rescheduled
+function DraggableJob({ job }: { job: BoardJob }) {
+  const disabled = job.status !== 'CREATED' && job.status !== 'ASSIGNED';
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({ id: job.id, disabled });
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...listeners}
+      {...attributes}
+      className={`${disabled ? 'cursor-default' : 'cursor-grab'} ${isDragging ? 'opacity-40' : ''}`}
+    >
+      <JobCard job={job} />
+    </div>
+  );
+}
+
+function DayCell({ technicianId, day }: { technicianId: string; day: ScheduleDay }) {
+  const { setNodeRef, isOver } = useDroppable({ id: `${technicianId}|${day.date}` });
+  const load = Math.min((day.plannedMinutes / day.capacityMinutes) * 100, 100);
+
+  return (
+    <td
+      ref={setNodeRef}
+      className={`align-top border p-1 min-w-[150px] ${isOver ? 'bg-primary/10' : ''} ${
+        day.overloaded ? 'bg-red-50 dark:bg-red-900/10' : ''
+      }`}
+    >
+      <div className="flex items-center gap-1 mb-1">
+        <div className="h-1.5 flex-1 bg-muted rounded-full overflow-hidden">
+          <div
+            className={`h-full ${day.overloaded ? 'bg-red-500' : load >= 80 ? 'bg-orange-500' : 'bg-green-500'}`}
+            style={{ width: `${load}%` }}
+          />
+        </div>
+        <span className={`text-[10px] ${day.overloaded ? 'text-red-600 font-medium' : 'text-muted-foreground'}`}>
+          {formatHours(day.plannedMinutes)}/{formatHours(day.capacityMinutes)}
+        </span>
+        {day.overloaded && <AlertTriangle className="h-3 w-3 text-red-600" />}
+      </div>
+      <div className="space-y-1 min-h-[48px]">
+        {day.jobs.map((job) => (
+          <DraggableJob key={job.id} job={job} />
+        ))}
+      </div>
+    </td>
+  );
+}
+
+export default function SchedulePage() {
+  const { isAuthenticated, isLoading } = useAuth();
+  const router = useRouter();
+
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [lanes, setLanes] = useState<ScheduleLane[]>([]);
+  const [backlog, setBacklog] = useState<BoardJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [activeJob, setActiveJob] = useState<BoardJob | null>(null);
+
+  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 5 } }));
+
+  const dates = Array.from({ length: DAYS_SHOWN }, (_, i) =>
+    new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + i)
+  );
+
+  const fetchBoard = useCallback(async () => {
+    try {
+      const [scheduleRes, backlogRes] = await Promise.all([
+        fetch(`/api/schedule?from=${toDateKey(weekStart)}&days=${DAYS_SHOWN}`, { credentials: 'include' }),
+        fetch('/api/jobs?status=CREATED', { credentials: 'include' }),
+      ]);
+
+      if (scheduleRes.ok) {
+        const data = await scheduleRes.json();
+        setLanes(data.lanes);
+      }
+
+      if (backlogRes.ok) {
+        const data = await backlogRes.json();
+        setBacklog(
+          (data.jobs as BoardJob[]).sort(
+            (a, b) => (priorityRank[a.priority] ?? 9) - (priorityRank[b.priority] ?? 9)
+          )
+        );
+      }
+    } catch (error) {
+      console.error('Failed to fetch schedule:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [weekStart]);
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/login');
+    }
+  }, [isAuthenticated, isLoading, router]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchBoard();
+    }
+  }, [isAuthenticated, fetchBoard]);
+
+  const findJob = (id: string) =>
+    backlog.find((j) => j.id === id) ||
+    lanes.flatMap((lane) => [...lane.unscheduled, ...lane.days.flatMap((d) => d.jobs)]).find((j) => j.id === id);
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveJob(findJob(String(event.active.id)) || null);
+  };
+
+  const handleDragEnd = async (event: DragEndEvent) => {
+    setActiveJob(null);
+    if (!event.over) return;
+
+    const job = findJob(String(event.active.id));
+    const [technicianId, date] = String(event.over.id).split('|');
+    const lane = lanes.find((l) => l.technician.id === technicianId);
+    const day = lane?.days.find((d) => d.date === date);
+    if (!job || !lane || !day || day.jobs.some((j) => j.id === job.id)) return;
+
+    // Keep the planned time of day when moving a job between days
+    const time = job.scheduledStart
+      ? new Date(job.scheduledStart).toTimeString().slice(0, 5)
+      : DEFAULT_START_TIME;
+
+    if (day.plannedMinutes + job.estimateMinutes > day.capacityMinutes) {
+      toast({
+        title: 'Capacity exceeded',
+        description: `${lane.technician.name} will have ${formatHours(day.plannedMinutes + job.estimateMinutes)} planned on ${new Date(`${date}T00:00:00`).toLocaleDateString()}`,
+        variant: 'destructive',
+      });
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/jobs/${job.id}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          action: 'assign',
+          assignedToId: technicianId,
+          scheduledStart: new Date(`${date}T${time}:00`).toISOString(),
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        toast({ title: 'Error', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to assign job', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+      fetchBoard();
+    }
+  };
+
+  const shiftWeek = (weeks: number) => {
+    setWeekStart(new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + weeks * 7));
+  };
+
+  if (isLoading || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+      </div>
+    );
+  }
+
+  const today = toDateKey(new Date());
+
+  return (
+    <div className="min-h-screen flex flex-col md:flex-row">
+      <Sidebar />
+      <div className="flex-1 flex flex-col min-h-screen">
+        <Header title="Scheduling" />
+        <main className="flex-1 overflow-auto p-4 md:p-6 space-y-6">
+          <div className="flex flex-wrap justify-between gap-2">
+            <div>
+              <h2 className="text-2xl font-bold flex items-center gap-2">
+                <CalendarRange className="h-6 w-6" />
+                Scheduling Board
+              </h2>
+              <p className="text-muted-foreground">
+                Drag jobs onto a technician and day to assign or reschedule them
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+              <Button variant="outline" size="icon" onClick={() => shiftWeek(-1)}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" onClick={() => setWeekStart(startOfWeek(new Date()))}>
+                This Week
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => shiftWeek(1)}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
+            <div className="grid grid-cols-1 xl:grid-cols-[260px_1fr] gap-4">
+              {/* Backlog */}
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <Inbox className="h-4 w-4" />
+                    Backlog ({backlog.length})
+                  </CardTitle>
+                  <CardDescription>Unassigned jobs, highest priority first</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-1 max-h-[70vh] overflow-y-auto">
+                  {backlog.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">No unassigned jobs</p>
+                  ) : (
+                    backlog.map((job) => <DraggableJob key={job.id} job={job} />)
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Technician lanes */}
+              <Card className="overflow-hidden">
+                <CardContent className="p-0 overflow-x-auto">
+                  {lanes.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-12">No active technicians</p>
+                  ) : (
+                    <table className="w-full text-sm border-collapse">
+                      <thead>
+                        <tr>
+                          <th className="border p-2 text-left min-w-[160px]">Technician</th>
+                          {dates.map((date) => (
+                            <th
+                              key={toDateKey(date)}
+                              className={`border p-2 text-left font-medium ${
+                                toDateKey(date) === today ? 'bg-primary/5' : ''
+                              }`}
+                            >
+                              {date.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' })}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {lanes.map((lane) => (
+                          <tr key={lane.technician.id}>
+                            <td className="border p-2 align-top">
+                              <p className="font-medium">{lane.technician.name}</p>
+                              {lane.days.some((d) => d.overloaded) && (
+                                <p className="text-xs text-red-600 flex items-center gap-1">
+                                  <AlertTriangle className="h-3 w-3" />
+                                  Over capacity
+                                </p>
+                              )}
+                              {lane.unscheduled.length > 0 && (
+                                <div className="mt-2 space-y-1">
+                                  <p className="text-xs text-muted-foreground">Not scheduled this week</p>
+                                  {lane.unscheduled.map((job) => (
+                                    <DraggableJob key={job.id} job={job} />
+                                  ))}
+                                </div>
+                              )}
+                            </td>
+                            {lane.days.map((day) => (
+                              <DayCell key={day.date} technicianId={lane.technician.id} day={day} />
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <DragOverlay>
+              {activeJob && <JobCard job={activeJob} dragging />}
+            </DragOverlay>
+          </DndContext>
+        </main>
+      </div>
+    </div>
+  );
+}
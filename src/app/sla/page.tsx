@@ -0,0 +1,395 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { Sidebar } from '@/components/layout/Sidebar';
+import { Header } from '@/components/layout/Header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from '@/components/ui/use-toast';
+import { Timer, Plus, Pencil, Trash2, Loader2, BellRing } from 'lucide-react';
+
+type Priority = 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+type JobType = 'BREAKDOWN' | 'PREVENTIVE' | 'CORRECTIVE' | 'INSPECTION';
+
+interface SlaTarget {
+  id: string;
+  priority: Priority;
+  jobType: JobType | null;
+  responseMinutes: number;
+  resolutionMinutes: number;
+}
+
+interface EffectiveTarget {
+  priority: Priority;
+  jobType: JobType;
+  responseMinutes: number;
+  resolutionMinutes: number;
+  source: 'DEFAULT' | 'PRIORITY' | 'JOB_TYPE';
+}
+
+const priorities: Priority[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+const jobTypes: JobType[] = ['BREAKDOWN', 'PREVENTIVE', 'CORRECTIVE', 'INSPECTION'];
+
+// Select cannot hold an empty value, so "every type" has its own key
+const ALL_TYPES = 'ALL';
+
+const priorityColors: Record<Priority, string> = {
+  CRITICAL: 'bg-red-500',
+  HIGH: 'bg-orange-500',
+  MEDIUM: 'bg-yellow-500',
+  LOW: 'bg-gray-500',
+};
+
+// 90 -> "1h 30m"
+function formatMinutes(minutes: number) {
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const mins = minutes % 60;
+  return [days && `${days}d`, hours && `${hours}h`, mins && `${mins}m`].filter(Boolean).join(' ') || '0m';
+}
+
+export default function SlaTargetsPage() {
+  const { isAuthenticated, isLoading, hasRole } = useAuth();
+  const router = useRouter();
+
+  const [targets, setTargets] = useState<SlaTarget[]>([]);
+  const [effective, setEffective] = useState<EffectiveTarget[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [escalating, setEscalating] = useState(false);
+
+  const [priority, setPriority] = useState<Priority>('HIGH');
+  const [jobType, setJobType] = useState<string>(ALL_TYPES);
+  const [responseHours, setResponseHours] = useState('');
+  const [resolutionHours, setResolutionHours] = useState('');
+
+  const canEdit = hasRole(['ADMIN', 'MANAGER']);
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/login');
+    }
+  }, [isAuthenticated, isLoading, router]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchTargets();
+    }
+  }, [isAuthenticated]);
+
+  const fetchTargets = async () => {
+    try {
+      const response = await fetch('/api/sla-targets', { credentials: 'include' });
+      if (response.ok) {
+        const data = await response.json();
+        setTargets(data.targets);
+        setEffective(data.effective);
+      }
+    } catch (error) {
+      console.error('Failed to fetch SLA targets:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDialog = (target: SlaTarget | null) => {
+    setPriority(target?.priority || 'HIGH');
+    setJobType(target?.jobType || ALL_TYPES);
+    setResponseHours(target ? String(target.responseMinutes / 60) : '');
+    setResolutionHours(target ? String(target.resolutionMinutes / 60) : '');
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch('/api/sla-targets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          priority,
+          jobType: jobType === ALL_TYPES ? null : jobType,
+          responseMinutes: Math.round(parseFloat(responseHours) * 60),
+          resolutionMinutes: Math.round(parseFloat(resolutionHours) * 60),
+        }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        toast({ title: 'Success', description: 'SLA target saved' });
+        setDialogOpen(false);
+        fetchTargets();
+      } else {
+        toast({ title: 'Error', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to save SLA target', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (target: SlaTarget) => {
+    try {
+      const response = await fetch(`/api/sla-targets/${target.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        fetchTargets();
+      } else {
+        const data = await response.json();
+        toast({ title: 'Error', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to delete SLA target', variant: 'destructive' });
+    }
+  };
+
+  const handleEscalate = async () => {
+    setEscalating(true);
+    try {
+      const response = await fetch('/api/jobs/sla', {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        toast({
+          title: 'SLA check complete',
+          description: `${data.responseBreaches} response and ${data.resolutionBreaches} resolution breaches escalated`,
+        });
+      } else {
+        toast({ title: 'Error', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to run SLA check', variant: 'destructive' });
+    } finally {
+      setEscalating(false);
+    }
+  };
+
+  if (isLoading || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col md:flex-row">
+      <Sidebar />
+      <div className="flex-1 flex flex-col min-h-screen">
+        <Header title="SLA Targets" />
+        <main className="flex-1 overflow-auto p-4 md:p-6 space-y-6">
+          <div className="flex flex-wrap justify-between gap-2">
+            <div>
+              <h2 className="text-2xl font-bold flex items-center gap-2">
+                <Timer className="h-6 w-6" />
+                SLA Targets
+              </h2>
+              <p className="text-muted-foreground">
+                Time to start (response) and to complete (resolution) new jobs, by priority and job type
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleEscalate} disabled={escalating}>
+                {escalating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <BellRing className="h-4 w-4 mr-2" />}
+                Check Breaches
+              </Button>
+              {canEdit && (
+                <Button onClick={() => openDialog(null)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Target
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Effective Targets</CardTitle>
+              <CardDescription>
+                Response / resolution applied to jobs created now; paused time does not count towards resolution
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left">
+                      <th className="py-2 pr-4">Priority</th>
+                      {jobTypes.map((type) => (
+                        <th key={type} className="py-2 pr-4">{type}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {priorities.map((p) => (
+                      <tr key={p} className="border-b last:border-0">
+                        <td className="py-2 pr-4">
+                          <Badge className={priorityColors[p]}>{p}</Badge>
+                        </td>
+                        {jobTypes.map((type) => {
+                          const target = effective.find((t) => t.priority === p && t.jobType === type);
+                          return (
+                            <td key={type} className="py-2 pr-4">
+                              {target && (
+                                <span className={target.source === 'DEFAULT' ? 'text-muted-foreground' : ''}>
+                                  {formatMinutes(target.responseMinutes)} / {formatMinutes(target.resolutionMinutes)}
+                                </span>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">Greyed targets are system defaults</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Configured Targets</CardTitle>
+              <CardDescription>
+                A job type target overrides the target for all types of the same priority
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {targets.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No targets configured; defaults apply</p>
+              ) : (
+                <div className="space-y-2">
+                  {targets.map((target) => (
+                    <div key={target.id} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div className="flex items-center gap-3">
+                        <Badge className={priorityColors[target.priority]}>{target.priority}</Badge>
+                        <span className="text-sm">{target.jobType || 'All job types'}</span>
+                      </div>
+                      <div className="flex items-center gap-4">
+                        <span className="text-sm">
+                          Respond {formatMinutes(target.responseMinutes)} • Resolve {formatMinutes(target.resolutionMinutes)}
+                        </span>
+                        {canEdit && (
+                          <div className="flex gap-1">
+                            <Button variant="ghost" size="icon" onClick={() => openDialog(target)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" onClick={() => handleDelete(target)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>SLA Target</DialogTitle>
+            <DialogDescription>
+              Saving replaces any existing target for the same priority and job type
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Priority</Label>
+                <Select value={priority} onValueChange={(v) => setPriority(v as Priority)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {priorities.map((p) => (
+                      <SelectItem key={p} value={p}>{p}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Job Type</Label>
+                <Select value={jobType} onValueChange={setJobType}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_TYPES}>All job types</SelectItem>
+                    {jobTypes.map((type) => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Response (hours)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.25"
+                  value={responseHours}
+                  onChange={(e) => setResponseHours(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Resolution (hours)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.25"
+                  value={resolutionHours}
+                  onChange={(e) => setResolutionHours(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !responseHours || !resolutionHours}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -37,6 +37,11 @@ import {
   Loader2,
   ArrowDownToLine,
   ArrowUpFromLine,
+  Plus,
+  Trash2,
+  Truck,
+  ShoppingCart,
+  ShieldAlert,
 } from 'lucide-react';
 
 interface ItemRequest {
@@ -67,13 +72,34 @@ interface ItemRequest {
     requestedQty: number;
     approvedQty: number | null;
     issuedQty: number | null;
+    issuedItemId?: string | null;
+    issuedItem?: {
+      id: string;
+      code: string;
+      trackingType?: string;
+    } | null;
+    uom: string | null;
+    uomFactor: number;
     item: {
       id: string;
       code: string;
       description: string;
       uom: string;
+      trackingType?: string;
     };
   }[];
+  pickList?: {
+    status: string;
+    lines: {
+      id: string;
+      requestLineId: string;
+      quantity: number;
+      bin: {
+        id: string;
+        code: string;
+      } | null;
+    }[];
+  } | null;
 }
 
 interface StockItem {
@@ -91,9 +117,138 @@ interface StockItem {
   store: {
     id: string;
     name: string;
+    isQuarantine?: boolean;
+  };
+}
+
+interface QuarantinedReturn {
+  id: string;
+  quantity: number;
+  condition: string;
+  serialNumber: string | null;
+  notes: string | null;
+  unitCost: number | null;
+  createdAt: string;
+  item: {
+    id: string;
+    code: string;
+    description: string;
+    uom: string | null;
   };
 }
 
+interface DispositionForm {
+  action: string;
+  targetId: string;
+}
+
+interface Receipt {
+  id: string;
+  receiptNumber: string;
+  supplierName: string | null;
+  supplierReference: string | null;
+  receivedAt: string;
+  totalValue: number;
+  store: {
+    id: string;
+    name: string;
+  };
+  receivedBy: {
+    id: string;
+    name: string;
+  };
+  lines: {
+    id: string;
+    quantity: number;
+    unitCost: number;
+    item: {
+      id: string;
+      code: string;
+      description: string;
+      uom: string;
+    };
+  }[];
+}
+
+interface ReorderProposal {
+  itemId: string;
+  itemCode: string;
+  itemDescription: string;
+  uom: string | null;
+  storeId: string;
+  storeName: string;
+  onHandQty: number;
+  inTransitQty: number;
+  onOrderQty: number;
+  requisitionedQty: number;
+  openDemandQty: number;
+  projectedQty: number;
+  minStock: number;
+  maxStock: number | null;
+  suggestedQty: number;
+  estimatedValue: number;
+}
+
+interface ReceiptLineForm {
+  itemId: string;
+  quantity: string;
+  uom: string;
+  unitCost: string;
+  serialNumbers: string;
+  batchNumber: string;
+  expiryDate: string;
+}
+
+interface IssueTrackingForm {
+  serialNumbers: string;
+  batchNumber: string;
+  substituteItemId?: string;
+}
+
+interface SubstituteItem {
+  id: string;
+  code: string;
+  description: string;
+  uom: string | null;
+  trackingType: string;
+}
+
+interface Option {
+  id: string;
+  code: string | null;
+  name?: string;
+  description?: string;
+  trackingType?: string;
+  uom?: string | null;
+  purchaseUom?: string | null;
+  uomConversions?: { uom: string; factor: number }[];
+  isQuarantine?: boolean;
+}
+
+const emptyReceiptLine: ReceiptLineForm = {
+  itemId: '',
+  quantity: '',
+  uom: '',
+  unitCost: '',
+  serialNumbers: '',
+  batchNumber: '',
+  expiryDate: '',
+};
+
+// Approved quantity not yet issued (backordered after a partial issue)
+function outstandingQty(line: ItemRequest['lines'][number]): number {
+  return Math.max((line.approvedQty ?? line.requestedQty) - (line.issuedQty || 0), 0);
+}
+
+// Bins to pick a request line from, in pick list (walk) order
+function formatPickBins(request: ItemRequest, lineId: string): string {
+  const picks = (request.pickList?.lines || []).filter(p => p.requestLineId === lineId);
+  if (picks.length === 0) return 'Bin: -';
+  return 'Bin: ' + picks
+    .map(p => `${p.bin ? p.bin.code : 'Unbinned'} (${p.quantity})`)
+    .join(', ');
+}
+
 export default function StorekeeperDashboard() {
   const { isAuthenticated, isLoading: authLoading } = useAuth();
   const router = useRouter();
@@ -104,20 +259,48 @@ export default function StorekeeperDashboard() {
   const [issueDialogOpen, setIssueDialogOpen] = useState(false);
   const [selectedRequest, setSelectedRequest] = useState<ItemRequest | null>(null);
   const [issuedLines, setIssuedLines] = useState<Record<string, number>>({});
+  const [issueTracking, setIssueTracking] = useState<Record<string, IssueTrackingForm>>({});
+  const [issueSubstitutes, setIssueSubstitutes] = useState<Record<string, SubstituteItem[]>>({});
   const [actionLoading, setActionLoading] = useState(false);
   const [qrDialogOpen, setQrDialogOpen] = useState(false);
   const [currentQrCode, setCurrentQrCode] = useState('');
+  const [receipts, setReceipts] = useState<Receipt[]>([]);
+  const [proposals, setProposals] = useState<ReorderProposal[]>([]);
+  const [stores, setStores] = useState<Option[]>([]);
+  const [items, setItems] = useState<Option[]>([]);
+  const [receiptStoreId, setReceiptStoreId] = useState('');
+  const [supplierName, setSupplierName] = useState('');
+  const [supplierReference, setSupplierReference] = useState('');
+  const [receiptLines, setReceiptLines] = useState<ReceiptLineForm[]>([{ ...emptyReceiptLine }]);
+  const [quarantined, setQuarantined] = useState<QuarantinedReturn[]>([]);
+  const [suppliers, setSuppliers] = useState<Option[]>([]);
+  const [dispositions, setDispositions] = useState<Record<string, DispositionForm>>({});
 
   const fetchData = useCallback(async () => {
     try {
-      const [requestsRes, stockRes] = await Promise.all([
+      const [
+        requestsRes,
+        stockRes,
+        receiptsRes,
+        proposalsRes,
+        storesRes,
+        itemsRes,
+        quarantineRes,
+        suppliersRes,
+      ] = await Promise.all([
         fetch('/api/requests', { credentials: 'include' }),
         fetch('/api/stock', { credentials: 'include' }),
+        fetch('/api/receipts', { credentials: 'include' }),
+        fetch('/api/replenishment', { credentials: 'include' }),
+        fetch('/api/stores?status=ACTIVE', { credentials: 'include' }),
+        fetch('/api/items?status=ACTIVE', { credentials: 'include' }),
+        fetch('/api/returns?disposition=QUARANTINED', { credentials: 'include' }),
+        fetch('/api/suppliers', { credentials: 'include' }),
       ]);
 
       if (requestsRes.ok) {
         const data = await requestsRes.json();
-        setPendingRequests(data.requests.filter((r: ItemRequest) => r.status === 'APPROVED'));
+        setPendingRequests(data.requests.filter((r: ItemRequest) => ['APPROVED', 'PARTIAL'].includes(r.status)));
         setApprovedRequests(data.requests.filter((r: ItemRequest) => r.status === 'ISSUED'));
       }
 
@@ -125,6 +308,36 @@ export default function StorekeeperDashboard() {
         const data = await stockRes.json();
         setStock(data.stock);
       }
+
+      if (receiptsRes.ok) {
+        const data = await receiptsRes.json();
+        setReceipts(data.receipts);
+      }
+
+      if (proposalsRes.ok) {
+        const data = await proposalsRes.json();
+        setProposals(data.proposals);
+      }
+
+      if (storesRes.ok) {
+        const data = await storesRes.json();
+        setStores(data.stores);
+      }
+
+      if (itemsRes.ok) {
+        const data = await itemsRes.json();
+        setItems(data.items);
+      }
+
+      if (quarantineRes.ok) {
+        const data = await quarantineRes.json();
+        setQuarantined(data.returns);
+      }
+
+      if (suppliersRes.ok) {
+        const data = await suppliersRes.json();
+        setSuppliers(data.suppliers);
+      }
     } catch (error) {
       console.error('Failed to fetch data:', error);
     } finally {
@@ -147,11 +360,43 @@ export default function StorekeeperDashboard() {
   const handlePrepareIssue = async (request: ItemRequest) => {
     setSelectedRequest(request);
     const initialLines: Record<string, number> = {};
-    request.lines.forEach(line => {
-      initialLines[line.id] = line.approvedQty || line.requestedQty;
+    request.lines.filter(line => outstandingQty(line) > 0).forEach(line => {
+      initialLines[line.id] = outstandingQty(line);
     });
     setIssuedLines(initialLines);
+    setIssueTracking({});
+    setIssueSubstitutes({});
     setIssueDialogOpen(true);
+
+    // Alternates the storekeeper may issue instead, for lines not yet issued as something else
+    const substitutes: Record<string, SubstituteItem[]> = {};
+    await Promise.all(
+      request.lines
+        .filter(line => outstandingQty(line) > 0 && !line.issuedItemId)
+        .map(async (line) => {
+          try {
+            const response = await fetch(`/api/items/${line.itemId}/alternates?substitutes=true`, {
+              credentials: 'include',
+            });
+            if (response.ok) {
+              const data = await response.json();
+              if (data.substitutes.length > 0) substitutes[line.id] = data.substitutes;
+            }
+          } catch (error) {
+            console.error('Failed to fetch alternates:', error);
+          }
+        })
+    );
+    setIssueSubstitutes(substitutes);
+  };
+
+  // Tracking type of what a line will actually be issued as
+  const getIssueTrackingType = (line: ItemRequest['lines'][number]) => {
+    const substituteId = issueTracking[line.id]?.substituteItemId;
+    const substitute = substituteId
+      ? issueSubstitutes[line.id]?.find(s => s.id === substituteId)
+      : undefined;
+    return substitute ? substitute.trackingType : (line.issuedItem || line.item).trackingType;
   };
 
   const handleIssueItems = async () => {
@@ -173,12 +418,21 @@ export default function StorekeeperDashboard() {
           issuedLines: lines.map(l => ({
             lineId: l.id,
             issuedQty: l.issuedQty,
+            serialNumbers: issueTracking[l.id]?.serialNumbers || undefined,
+            batchNumber: issueTracking[l.id]?.batchNumber || undefined,
+            substituteItemId: issueTracking[l.id]?.substituteItemId || undefined,
           })),
         }),
       });
 
       if (response.ok) {
-        toast({ title: 'Success', description: 'Items issued successfully' });
+        const data = await response.json();
+        toast({
+          title: 'Success',
+          description: data.outstanding
+            ? `Items partially issued. On backorder: ${data.outstanding}`
+            : 'Items issued successfully',
+        });
         setIssueDialogOpen(false);
         fetchData();
       } else {
@@ -192,8 +446,144 @@ export default function StorekeeperDashboard() {
     }
   };
 
+  const updateIssueTracking = (lineId: string, field: keyof IssueTrackingForm, value: string) => {
+    setIssueTracking({
+      ...issueTracking,
+      [lineId]: {
+        ...(issueTracking[lineId] || { serialNumbers: '', batchNumber: '' }),
+        [field]: value,
+      },
+    });
+  };
+
+  const getTrackingType = (itemId: string) =>
+    items.find(item => item.id === itemId)?.trackingType || 'NONE';
+
+  // Stock unit plus any units the item converts from
+  const getItemUnits = (itemId: string) => {
+    const item = items.find(i => i.id === itemId);
+    if (!item) return [];
+    return [item.uom, ...(item.uomConversions || []).map(c => c.uom)].filter((u): u is string => !!u);
+  };
+
+  const updateReceiptLine = (index: number, field: keyof ReceiptLineForm, value: string) => {
+    setReceiptLines(receiptLines.map((line, i) => {
+      if (i !== index) return line;
+      // Default a newly selected item to the unit it is bought in
+      if (field === 'itemId') {
+        const item = items.find(it => it.id === value);
+        return { ...line, itemId: value, uom: item?.purchaseUom || item?.uom || '' };
+      }
+      return { ...line, [field]: value };
+    }));
+  };
+
+  const handlePostReceipt = async () => {
+    const lines = receiptLines.filter(l => l.itemId && parseFloat(l.quantity) > 0);
+
+    if (!receiptStoreId || lines.length === 0) {
+      toast({ title: 'Error', description: 'Select a store and at least one item', variant: 'destructive' });
+      return;
+    }
+
+    setActionLoading(true);
+    try {
+      const response = await fetch('/api/receipts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          storeId: receiptStoreId,
+          supplierName: supplierName || undefined,
+          supplierReference: supplierReference || undefined,
+          lines: lines.map(l => ({
+            itemId: l.itemId,
+            quantity: parseFloat(l.quantity),
+            uom: l.uom || undefined,
+            unitCost: parseFloat(l.unitCost) || 0,
+            serialNumbers: l.serialNumbers || undefined,
+            batchNumber: l.batchNumber || undefined,
+            expiryDate: l.expiryDate || undefined,
+          })),
+        }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        toast({ title: 'Success', description: `Receipt ${data.receipt.receiptNumber} posted` });
+        setSupplierName('');
+        setSupplierReference('');
+        setReceiptLines([{ ...emptyReceiptLine }]);
+        fetchData();
+      } else {
+        const data = await response.json();
+        toast({ title: 'Error', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to post receipt', variant: 'destructive' });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleRaiseRequisitions = async () => {
+    setActionLoading(true);
+    try {
+      const response = await fetch('/api/purchase-requisitions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ fromReorder: true }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        toast({ title: 'Success', description: `${data.requisitions.length} requisition(s) raised for approval` });
+        fetchData();
+      } else {
+        const data = await response.json();
+        toast({ title: 'Error', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to raise requisitions', variant: 'destructive' });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleDisposition = async (itemReturn: QuarantinedReturn) => {
+    const form = dispositions[itemReturn.id];
+    if (!form?.action) return;
+
+    setActionLoading(true);
+    try {
+      const response = await fetch(`/api/returns/${itemReturn.id}/disposition`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          action: form.action,
+          storeId: form.action === 'REPAIR' ? form.targetId : undefined,
+          supplierId: form.action === 'SUPPLIER_RETURN' ? form.targetId : undefined,
+        }),
+      });
+
+      if (response.ok) {
+        toast({ title: 'Success', description: `${itemReturn.item.code} disposition recorded` });
+        fetchData();
+      } else {
+        const data = await response.json();
+        toast({ title: 'Error', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to record disposition', variant: 'destructive' });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
   const lowStockItems = stock.filter(s => 
-    s.item.minStock && s.quantity < s.item.minStock
+    !s.store.isQuarantine && s.item.minStock && s.quantity < s.item.minStock
   );
 
   if (authLoading || loading) {
@@ -271,6 +661,15 @@ export default function StorekeeperDashboard() {
                 <TabsTrigger value="low">
                   Low Stock ({lowStockItems.length})
                 </TabsTrigger>
+                <TabsTrigger value="reorder">
+                  Reorder ({proposals.length})
+                </TabsTrigger>
+                <TabsTrigger value="receiving">
+                  Receiving
+                </TabsTrigger>
+                <TabsTrigger value="quarantine">
+                  Quarantine ({quarantined.length})
+                </TabsTrigger>
               </TabsList>
 
               <TabsContent value="pending" className="space-y-4">
@@ -294,14 +693,20 @@ export default function StorekeeperDashboard() {
                               Requested by {request.requestedBy.name} • {request.job.asset.code}
                             </CardDescription>
                           </div>
-                          <Badge className="bg-blue-100 text-blue-800">
-                            Approved
-                          </Badge>
+                          {request.status === 'PARTIAL' ? (
+                            <Badge className="bg-orange-100 text-orange-800">
+                              Backorder
+                            </Badge>
+                          ) : (
+                            <Badge className="bg-blue-100 text-blue-800">
+                              Approved
+                            </Badge>
+                          )}
                         </div>
                       </CardHeader>
                       <CardContent className="space-y-4">
                         <div className="space-y-2">
-                          {request.lines.map((line) => (
+                          {request.lines.filter((line) => outstandingQty(line) > 0).map((line) => (
                             <div 
                               key={line.id}
                               className="flex items-center justify-between p-2 bg-muted/50 rounded"
@@ -310,11 +715,19 @@ export default function StorekeeperDashboard() {
                                 <p className="font-medium">{line.item.description}</p>
                                 <p className="text-sm text-muted-foreground">
                                   {line.item.code} • {line.item.uom}
+                                  {line.uom && line.uom !== line.item.uom && (
+                                    <> • requested as {+((line.approvedQty || line.requestedQty) / line.uomFactor).toFixed(4)} {line.uom}</>
+                                  )}
+                                </p>
+                                <p className="text-xs text-muted-foreground">
+                                  {formatPickBins(request, line.id)}
                                 </p>
                               </div>
                               <div className="text-right">
-                                <p className="font-bold">{line.approvedQty || line.requestedQty}</p>
-                                <p className="text-xs text-muted-foreground">Qty</p>
+                                <p className="font-bold">{outstandingQty(line)}</p>
+                                <p className="text-xs text-muted-foreground">
+                                  {line.issuedQty ? `Outstanding (${line.issuedQty} issued)` : 'Qty'}
+                                </p>
                               </div>
                             </div>
                           ))}
@@ -399,6 +812,373 @@ export default function StorekeeperDashboard() {
                   ))
                 )}
               </TabsContent>
+
+              <TabsContent value="reorder" className="space-y-4">
+                {proposals.length === 0 ? (
+                  <Card>
+                    <CardContent className="p-6 text-center text-muted-foreground">
+                      <CheckCircle2 className="h-8 w-8 mx-auto mb-2" />
+                      <p>No items need reordering</p>
+                    </CardContent>
+                  </Card>
+                ) : (
+                  <>
+                    <div className="flex justify-end">
+                      <Button onClick={handleRaiseRequisitions} disabled={actionLoading}>
+                        {actionLoading ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <ShoppingCart className="h-4 w-4 mr-2" />
+                        )}
+                        Raise Requisitions
+                      </Button>
+                    </div>
+                    <div className="rounded-md border">
+                      <div className="grid grid-cols-5 gap-4 p-4 bg-muted/50 font-medium text-sm">
+                        <div>Item</div>
+                        <div>Store</div>
+                        <div>On Hand / Transit / On Order</div>
+                        <div>Open Demand</div>
+                        <div>Suggested</div>
+                      </div>
+                      {proposals.map((proposal) => (
+                        <div
+                          key={`${proposal.itemId}-${proposal.storeId}`}
+                          className="grid grid-cols-5 gap-4 p-4 border-t items-center"
+                        >
+                          <div>
+                            <p className="font-medium">{proposal.itemDescription}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {proposal.itemCode} • Min {proposal.minStock} / Max {proposal.maxStock ?? '-'}
+                            </p>
+                          </div>
+                          <div className="text-sm">{proposal.storeName}</div>
+                          <div className="text-sm">
+                            {proposal.onHandQty} / {proposal.inTransitQty} / {proposal.onOrderQty}
+                            {proposal.requisitionedQty > 0 && (
+                              <span className="text-muted-foreground"> (+{proposal.requisitionedQty} req.)</span>
+                            )}
+                          </div>
+                          <div className="text-sm">{proposal.openDemandQty}</div>
+                          <div>
+                            <p className="font-bold flex items-center gap-1">
+                              <ShoppingCart className="h-4 w-4" />
+                              {proposal.suggestedQty} {proposal.uom}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              ~{proposal.estimatedValue.toFixed(2)}
+                            </p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </TabsContent>
+
+              <TabsContent value="receiving" className="space-y-4">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      <Truck className="h-5 w-5" />
+                      Goods Receipt
+                    </CardTitle>
+                    <CardDescription>
+                      Receive purchased parts into a store
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div className="space-y-2">
+                        <Label>Store *</Label>
+                        <Select value={receiptStoreId} onValueChange={setReceiptStoreId}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select store" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {stores.map((store) => (
+                              <SelectItem key={store.id} value={store.id}>
+                                {store.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Supplier</Label>
+                        <Input
+                          value={supplierName}
+                          onChange={(e) => setSupplierName(e.target.value)}
+                          placeholder="Supplier name"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Supplier Reference</Label>
+                        <Input
+                          value={supplierReference}
+                          onChange={(e) => setSupplierReference(e.target.value)}
+                          placeholder="Delivery note / invoice no."
+                        />
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      {receiptLines.map((line, index) => (
+                        <div key={index} className="grid grid-cols-12 gap-2 items-end">
+                          <div className="col-span-4 space-y-1">
+                            {index === 0 && <Label>Item</Label>}
+                            <Select
+                              value={line.itemId}
+                              onValueChange={(value) => updateReceiptLine(index, 'itemId', value)}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select item" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {items.map((item) => (
+                                  <SelectItem key={item.id} value={item.id}>
+                                    {item.code} - {item.description}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="col-span-2 space-y-1">
+                            {index === 0 && <Label>Qty</Label>}
+                            <Input
+                              type="number"
+                              min="0"
+                              value={line.quantity}
+                              onChange={(e) => updateReceiptLine(index, 'quantity', e.target.value)}
+                            />
+                          </div>
+                          <div className="col-span-2 space-y-1">
+                            {index === 0 && <Label>Unit</Label>}
+                            <Select
+                              value={line.uom}
+                              onValueChange={(value) => updateReceiptLine(index, 'uom', value)}
+                              disabled={getItemUnits(line.itemId).length < 2}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="-" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {getItemUnits(line.itemId).map((unit) => (
+                                  <SelectItem key={unit} value={unit}>
+                                    {unit}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="col-span-3 space-y-1">
+                            {index === 0 && <Label>Cost / Unit</Label>}
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={line.unitCost}
+                              onChange={(e) => updateReceiptLine(index, 'unitCost', e.target.value)}
+                            />
+                          </div>
+                          <div className="col-span-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              disabled={receiptLines.length === 1}
+                              onClick={() => setReceiptLines(receiptLines.filter((_, i) => i !== index))}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                          {getTrackingType(line.itemId) === 'SERIAL' && (
+                            <div className="col-span-11">
+                              <Input
+                                placeholder="Serial numbers, comma separated (one per unit)"
+                                value={line.serialNumbers}
+                                onChange={(e) => updateReceiptLine(index, 'serialNumbers', e.target.value)}
+                              />
+                            </div>
+                          )}
+                          {getTrackingType(line.itemId) === 'BATCH' && (
+                            <>
+                              <div className="col-span-6">
+                                <Input
+                                  placeholder="Batch number"
+                                  value={line.batchNumber}
+                                  onChange={(e) => updateReceiptLine(index, 'batchNumber', e.target.value)}
+                                />
+                              </div>
+                              <div className="col-span-5">
+                                <Input
+                                  type="date"
+                                  title="Expiry date"
+                                  value={line.expiryDate}
+                                  onChange={(e) => updateReceiptLine(index, 'expiryDate', e.target.value)}
+                                />
+                              </div>
+                            </>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <Button
+                        variant="outline"
+                        onClick={() => setReceiptLines([...receiptLines, { ...emptyReceiptLine }])}
+                      >
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add Line
+                      </Button>
+                      <Button onClick={handlePostReceipt} disabled={actionLoading}>
+                        {actionLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        <ArrowUpFromLine className="h-4 w-4 mr-2" />
+                        Post Receipt
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {receipts.length === 0 ? (
+                  <Card>
+                    <CardContent className="p-6 text-center text-muted-foreground">
+                      <Truck className="h-8 w-8 mx-auto mb-2" />
+                      <p>No receipts posted yet</p>
+                    </CardContent>
+                  </Card>
+                ) : (
+                  receipts.map((receipt) => (
+                    <Card key={receipt.id}>
+                      <CardHeader>
+                        <div className="flex items-start justify-between">
+                          <div>
+                            <CardTitle className="text-lg">{receipt.receiptNumber}</CardTitle>
+                            <CardDescription>
+                              {receipt.store.name} • {receipt.supplierName || 'No supplier'}
+                              {receipt.supplierReference && ` (${receipt.supplierReference})`}
+                              {' '}• Received by {receipt.receivedBy.name}
+                            </CardDescription>
+                          </div>
+                          <div className="text-right">
+                            <p className="font-bold">{receipt.totalValue.toFixed(2)}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {new Date(receipt.receivedAt).toLocaleDateString()}
+                            </p>
+                          </div>
+                        </div>
+                      </CardHeader>
+                      <CardContent className="space-y-2">
+                        {receipt.lines.map((line) => (
+                          <div
+                            key={line.id}
+                            className="flex items-center justify-between p-2 bg-muted/50 rounded"
+                          >
+                            <div>
+                              <p className="font-medium">{line.item.description}</p>
+                              <p className="text-sm text-muted-foreground">{line.item.code}</p>
+                            </div>
+                            <div className="text-right">
+                              <p className="font-bold">{line.quantity} {line.item.uom}</p>
+                              <p className="text-xs text-muted-foreground">@ {line.unitCost.toFixed(2)}</p>
+                            </div>
+                          </div>
+                        ))}
+                      </CardContent>
+                    </Card>
+                  ))
+                )}
+              </TabsContent>
+
+              <TabsContent value="quarantine" className="space-y-4">
+                {quarantined.length === 0 ? (
+                  <Card>
+                    <CardContent className="p-6 text-center text-muted-foreground">
+                      <CheckCircle2 className="h-8 w-8 mx-auto mb-2" />
+                      <p>No damaged or defective returns awaiting disposition</p>
+                    </CardContent>
+                  </Card>
+                ) : (
+                  quarantined.map((itemReturn) => (
+                    <Card key={itemReturn.id} className="border-orange-200">
+                      <CardContent className="p-4 space-y-3">
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <p className="font-medium">{itemReturn.item.description}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {itemReturn.item.code}
+                              {itemReturn.serialNumber && ` • S/N ${itemReturn.serialNumber}`}
+                              {itemReturn.notes && ` • ${itemReturn.notes}`}
+                            </p>
+                          </div>
+                          <div className="text-right">
+                            <p className="font-bold flex items-center gap-1 justify-end">
+                              <ShieldAlert className="h-4 w-4 text-orange-600" />
+                              {itemReturn.quantity} {itemReturn.item.uom}
+                            </p>
+                            <Badge className="bg-orange-100 text-orange-800">
+                              {itemReturn.condition}
+                            </Badge>
+                          </div>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                          <Select
+                            value={dispositions[itemReturn.id]?.action || ''}
+                            onValueChange={(value) => setDispositions({
+                              ...dispositions,
+                              [itemReturn.id]: { action: value, targetId: '' },
+                            })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="Disposition" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="REPAIR">Repaired - back to stock</SelectItem>
+                              <SelectItem value="SUPPLIER_RETURN">Return to supplier (warranty)</SelectItem>
+                              <SelectItem value="SCRAP">Scrap / write off</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          {['REPAIR', 'SUPPLIER_RETURN'].includes(dispositions[itemReturn.id]?.action) && (
+                            <Select
+                              value={dispositions[itemReturn.id]?.targetId || ''}
+                              onValueChange={(value) => setDispositions({
+                                ...dispositions,
+                                [itemReturn.id]: { ...dispositions[itemReturn.id], targetId: value },
+                              })}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder={
+                                  dispositions[itemReturn.id]?.action === 'REPAIR' ? 'Return to store' : 'Supplier'
+                                } />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {(dispositions[itemReturn.id]?.action === 'REPAIR'
+                                  ? stores.filter(s => !s.isQuarantine)
+                                  : suppliers
+                                ).map((option) => (
+                                  <SelectItem key={option.id} value={option.id}>
+                                    {option.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                          <Button
+                            onClick={() => handleDisposition(itemReturn)}
+                            disabled={
+                              actionLoading ||
+                              !dispositions[itemReturn.id]?.action ||
+                              (dispositions[itemReturn.id]?.action !== 'SCRAP' && !dispositions[itemReturn.id]?.targetId)
+                            }
+                          >
+                            Apply
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))
+                )}
+              </TabsContent>
             </Tabs>
           </div>
         </main>
@@ -410,13 +1190,41 @@ export default function StorekeeperDashboard() {
           <DialogHeader>
             <DialogTitle>Issue Items</DialogTitle>
             <DialogDescription>
-              Confirm the quantities to issue
+              Confirm the quantities to issue; anything short stays on backorder
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
-            {selectedRequest?.lines.map((line) => (
+            {selectedRequest?.lines.filter((line) => outstandingQty(line) > 0).map((line) => (
               <div key={line.id} className="space-y-2">
                 <Label>{line.item.description}</Label>
+                <p className="text-xs text-muted-foreground">
+                  {formatPickBins(selectedRequest, line.id)}
+                </p>
+                {line.issuedItem && (
+                  <p className="text-xs text-amber-600">Issuing as alternate {line.issuedItem.code}</p>
+                )}
+                {issueSubstitutes[line.id] && (
+                  <Select
+                    value={issueTracking[line.id]?.substituteItemId || line.itemId}
+                    onValueChange={(value) => updateIssueTracking(
+                      line.id,
+                      'substituteItemId',
+                      value === line.itemId ? '' : value
+                    )}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Issue as" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={line.itemId}>{line.item.code} (as requested)</SelectItem>
+                      {issueSubstitutes[line.id].map((substitute) => (
+                        <SelectItem key={substitute.id} value={substitute.id}>
+                          {substitute.code} - {substitute.description}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
                 <div className="flex items-center gap-4">
                   <Input
                     type="number"
@@ -425,12 +1233,26 @@ export default function StorekeeperDashboard() {
                       ...issuedLines,
                       [line.id]: parseFloat(e.target.value) || 0,
                     })}
-                    max={line.approvedQty || line.requestedQty}
+                    max={outstandingQty(line)}
                   />
                   <span className="text-sm text-muted-foreground">
-                    / {line.approvedQty || line.requestedQty} {line.item.uom}
+                    / {outstandingQty(line)} {line.item.uom}
                   </span>
                 </div>
+                {getIssueTrackingType(line) === 'SERIAL' && (
+                  <Input
+                    placeholder="Serial numbers fitted, comma separated"
+                    value={issueTracking[line.id]?.serialNumbers || ''}
+                    onChange={(e) => updateIssueTracking(line.id, 'serialNumbers', e.target.value)}
+                  />
+                )}
+                {getIssueTrackingType(line) === 'BATCH' && (
+                  <Input
+                    placeholder="Batch number (blank = earliest expiry first)"
+                    value={issueTracking[line.id]?.batchNumber || ''}
+                    onChange={(e) => updateIssueTracking(line.id, 'batchNumber', e.target.value)}
+                  />
+                )}
               </div>
             ))}
           </div>
@@ -37,7 +37,8 @@ import {
 } from '@/components/ui/select';
 import { toast } from '@/components/ui/use-toast';
 import { ColumnDef } from '@tanstack/react-table';
-import { Plus, Pencil, Trash2, Warehouse, Loader2 } from 'lucide-react';
+import { PrintLabelsDialog } from '@/components/labels/PrintLabelsDialog';
+import { Plus, Pencil, Trash2, Warehouse, Loader2, Printer } from 'lucide-react';
 
 interface Store {
   id: string;
@@ -45,6 +46,7 @@ interface Store {
   code: string | null;
   location: string | null;
   status: string;
+  isQuarantine: boolean;
   createdAt: string;
 }
 
@@ -66,8 +68,10 @@ export default function StoresPage() {
     code: '',
     location: '',
     status: 'ACTIVE',
+    isQuarantine: false,
   });
   const [saving, setSaving] = useState(false);
+  const [labelStore, setLabelStore] = useState<Store | null>(null);
 
   const canEdit = hasRole(['ADMIN', 'MANAGER']);
 
@@ -107,6 +111,7 @@ export default function StoresPage() {
         code: store.code || '',
         location: store.location || '',
         status: store.status,
+        isQuarantine: store.isQuarantine,
       });
     } else {
       setSelectedStore(null);
@@ -115,6 +120,7 @@ export default function StoresPage() {
         code: '',
         location: '',
         status: 'ACTIVE',
+        isQuarantine: false,
       });
     }
     setDialogOpen(true);
@@ -218,6 +224,13 @@ export default function StoresPage() {
       header: 'Location',
       cell: ({ row }) => row.getValue('location') || '-',
     },
+    {
+      accessorKey: 'isQuarantine',
+      header: 'Type',
+      cell: ({ row }) => row.original.isQuarantine
+        ? <Badge className="bg-orange-100 text-orange-800">Quarantine</Badge>
+        : 'Stock',
+    },
     {
       accessorKey: 'status',
       header: 'Status',
@@ -234,26 +247,37 @@ export default function StoresPage() {
       id: 'actions',
       header: 'Actions',
       cell: ({ row }) => {
-        if (!canEdit) return null;
         return (
           <div className="flex items-center gap-2">
             <Button
               variant="ghost"
               size="icon"
-              onClick={() => handleOpenDialog(row.original)}
+              title="Print bin labels"
+              onClick={() => setLabelStore(row.original)}
             >
-              <Pencil className="h-4 w-4" />
-            </Button>
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={() => {
-                setSelectedStore(row.original);
-                setDeleteDialogOpen(true);
-              }}
-            >
-              <Trash2 className="h-4 w-4 text-red-500" />
+              <Printer className="h-4 w-4" />
             </Button>
+            {canEdit && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleOpenDialog(row.original)}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => {
+                    setSelectedStore(row.original);
+                    setDeleteDialogOpen(true);
+                  }}
+                >
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              </>
+            )}
           </div>
         );
       },
@@ -307,6 +331,14 @@ export default function StoresPage() {
         </main>
       </div>
 
+      <PrintLabelsDialog
+        open={labelStore !== null}
+        onOpenChange={(open) => !open && setLabelStore(null)}
+        entity="BIN"
+        storeId={labelStore?.id}
+        title={`Print Bin Labels - ${labelStore?.name || ''}`}
+      />
+
       {/* Add/Edit Dialog */}
       <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
         <DialogContent className="sm:max-w-[500px]">
@@ -381,6 +413,25 @@ export default function StoresPage() {
                 </SelectContent>
               </Select>
             </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="storeType" className="text-right">
+                Type
+              </Label>
+              <Select
+                value={formData.isQuarantine ? 'QUARANTINE' : 'STOCK'}
+                onValueChange={(value) =>
+                  setFormData({ ...formData, isQuarantine: value === 'QUARANTINE' })
+                }
+              >
+                <SelectTrigger className="col-span-3">
+                  <SelectValue placeholder="Select type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="STOCK">Stock (saleable)</SelectItem>
+                  <SelectItem value="QUARANTINE">Quarantine (damaged / defective returns)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setDialogOpen(false)}>
@@ -0,0 +1,498 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { Sidebar } from '@/components/layout/Sidebar';
+import { Header } from '@/components/layout/Header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from '@/components/ui/use-toast';
+import { ListChecks, Plus, Pencil, Trash2, ArrowUp, ArrowDown, Camera, Loader2 } from 'lucide-react';
+
+type StepType = 'INSTRUCTION' | 'CHECK' | 'READING';
+
+interface TemplateStep {
+  id: string;
+  sequence: number;
+  title: string;
+  instructions: string | null;
+  stepType: StepType;
+  mandatory: boolean;
+  photoRequired: boolean;
+  unit: string | null;
+  minValue: number | null;
+  maxValue: number | null;
+}
+
+interface TaskTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  isActive: boolean;
+  steps: TemplateStep[];
+  failureTypes: { id: string; code: string; name: string }[];
+  pmSchedules: { id: string; jobTitleTemplate: string; asset: { code: string } }[];
+}
+
+interface StepForm {
+  title: string;
+  instructions: string;
+  stepType: StepType;
+  mandatory: boolean;
+  photoRequired: boolean;
+  unit: string;
+  minValue: string;
+  maxValue: string;
+}
+
+const stepTypeLabels: Record<StepType, string> = {
+  INSTRUCTION: 'Instruction',
+  CHECK: 'Pass / Fail',
+  READING: 'Reading',
+};
+
+const emptyStep = (): StepForm => ({
+  title: '',
+  instructions: '',
+  stepType: 'INSTRUCTION',
+  mandatory: true,
+  photoRequired: false,
+  unit: '',
+  minValue: '',
+  maxValue: '',
+});
+
+// Limits shown next to a reading step
+function formatLimits(step: { unit: string | null; minValue: number | null; maxValue: number | null }) {
+  const unit = step.unit ? ` ${step.unit}` : '';
+  if (step.minValue !== null && step.maxValue !== null) return `${step.minValue}–${step.maxValue}${unit}`;
+  if (step.minValue !== null) return `≥ ${step.minValue}${unit}`;
+  if (step.maxValue !== null) return `≤ ${step.maxValue}${unit}`;
+  return step.unit || 'any value';
+}
+
+export default function TaskTemplatesPage() {
+  const { isAuthenticated, isLoading, hasRole } = useAuth();
+  const router = useRouter();
+
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [failureTypes, setFailureTypes] = useState<{ id: string; code: string; name: string }[]>([]);
+  const [schedules, setSchedules] = useState<{ id: string; jobTitleTemplate: string; asset: { code: string } }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<TaskTemplate | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [isActive, setIsActive] = useState(true);
+  const [steps, setSteps] = useState<StepForm[]>([]);
+  const [failureTypeIds, setFailureTypeIds] = useState<string[]>([]);
+  const [pmScheduleIds, setPmScheduleIds] = useState<string[]>([]);
+
+  const canEdit = hasRole(['ADMIN', 'MANAGER', 'SUPERVISOR']);
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/login');
+    }
+  }, [isAuthenticated, isLoading, router]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchData();
+    }
+  }, [isAuthenticated]);
+
+  const fetchData = async () => {
+    try {
+      const [templatesRes, failureRes, schedulesRes] = await Promise.all([
+        fetch('/api/task-templates', { credentials: 'include' }),
+        fetch('/api/failure-types', { credentials: 'include' }),
+        fetch('/api/pm-schedules', { credentials: 'include' }),
+      ]);
+
+      if (templatesRes.ok) {
+        const data = await templatesRes.json();
+        setTemplates(data.templates);
+      }
+
+      if (failureRes.ok) {
+        const data = await failureRes.json();
+        setFailureTypes(data.failureTypes || []);
+      }
+
+      if (schedulesRes.ok) {
+        const data = await schedulesRes.json();
+        setSchedules(data.schedules || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch task templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDialog = (template: TaskTemplate | null) => {
+    setEditing(template);
+    setName(template?.name || '');
+    setDescription(template?.description || '');
+    setIsActive(template?.isActive ?? true);
+    setSteps(template
+      ? template.steps.map((step) => ({
+          title: step.title,
+          instructions: step.instructions || '',
+          stepType: step.stepType,
+          mandatory: step.mandatory,
+          photoRequired: step.photoRequired,
+          unit: step.unit || '',
+          minValue: step.minValue !== null ? String(step.minValue) : '',
+          maxValue: step.maxValue !== null ? String(step.maxValue) : '',
+        }))
+      : [emptyStep()]);
+    setFailureTypeIds(template?.failureTypes.map((f) => f.id) || []);
+    setPmScheduleIds(template?.pmSchedules.map((s) => s.id) || []);
+    setDialogOpen(true);
+  };
+
+  const updateStep = (index: number, changes: Partial<StepForm>) => {
+    setSteps(steps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= steps.length) return;
+    const reordered = [...steps];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setSteps(reordered);
+  };
+
+  const toggleId = (ids: string[], id: string) =>
+    ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id];
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch(editing ? `/api/task-templates/${editing.id}` : '/api/task-templates', {
+        method: editing ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          name,
+          description,
+          isActive,
+          failureTypeIds,
+          pmScheduleIds,
+          steps: steps.map((step) => ({
+            title: step.title,
+            instructions: step.instructions || undefined,
+            stepType: step.stepType,
+            mandatory: step.mandatory,
+            photoRequired: step.photoRequired,
+            unit: step.unit || undefined,
+            minValue: step.minValue !== '' ? parseFloat(step.minValue) : null,
+            maxValue: step.maxValue !== '' ? parseFloat(step.maxValue) : null,
+          })),
+        }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        toast({ title: 'Success', description: `Template "${data.template.name}" saved` });
+        setDialogOpen(false);
+        fetchData();
+      } else {
+        toast({ title: 'Error', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to save template', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (isLoading || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col md:flex-row">
+      <Sidebar />
+      <div className="flex-1 flex flex-col min-h-screen">
+        <Header title="Task Checklists" />
+        <main className="flex-1 overflow-auto p-4 md:p-6 space-y-6">
+          <div className="flex flex-wrap justify-between gap-2">
+            <div>
+              <h2 className="text-2xl font-bold flex items-center gap-2">
+                <ListChecks className="h-6 w-6" />
+                Task Checklists
+              </h2>
+              <p className="text-muted-foreground">
+                Step templates copied into jobs of the linked failure types and PM schedules
+              </p>
+            </div>
+            {canEdit && (
+              <Button onClick={() => openDialog(null)}>
+                <Plus className="mr-2 h-4 w-4" />
+                New Template
+              </Button>
+            )}
+          </div>
+
+          {templates.length === 0 ? (
+            <Card>
+              <CardContent className="p-6 text-center text-muted-foreground">
+                <ListChecks className="h-8 w-8 mx-auto mb-2" />
+                <p>No task templates yet</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2">
+              {templates.map((template) => (
+                <Card key={template.id} className={template.isActive ? '' : 'opacity-60'}>
+                  <CardHeader>
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <CardTitle className="flex items-center gap-2">
+                          {template.name}
+                          {!template.isActive && <Badge variant="outline">Inactive</Badge>}
+                        </CardTitle>
+                        {template.description && (
+                          <CardDescription>{template.description}</CardDescription>
+                        )}
+                      </div>
+                      {canEdit && (
+                        <Button variant="ghost" size="icon" onClick={() => openDialog(template)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <ol className="space-y-1 text-sm">
+                      {template.steps.map((step) => (
+                        <li key={step.id} className="flex items-center justify-between gap-2">
+                          <span>
+                            {step.sequence}. {step.title}
+                            {!step.mandatory && <span className="text-muted-foreground"> (optional)</span>}
+                          </span>
+                          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                            {step.photoRequired && <Camera className="h-3 w-3" />}
+                            {step.stepType === 'READING' ? formatLimits(step) : stepTypeLabels[step.stepType]}
+                          </span>
+                        </li>
+                      ))}
+                    </ol>
+                    <div className="flex flex-wrap gap-1">
+                      {template.failureTypes.map((f) => (
+                        <Badge key={f.id} variant="secondary">{f.code} - {f.name}</Badge>
+                      ))}
+                      {template.pmSchedules.map((s) => (
+                        <Badge key={s.id} variant="outline">PM {s.asset.code}</Badge>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </main>
+      </div>
+
+      {/* Template Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Template' : 'New Template'}</DialogTitle>
+            <DialogDescription>
+              Changes apply to jobs created from now on; existing jobs keep their checklist
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Name *</Label>
+                <Input value={name} onChange={(e) => setName(e.target.value)} />
+              </div>
+              <div className="flex items-end gap-2 pb-2">
+                <Checkbox
+                  id="template-active"
+                  checked={isActive}
+                  onCheckedChange={(checked) => setIsActive(checked === true)}
+                />
+                <Label htmlFor="template-active">Active</Label>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={2} />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Steps</Label>
+              {steps.map((step, index) => (
+                <div key={index} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium w-6">{index + 1}.</span>
+                    <Input
+                      placeholder="Step title"
+                      value={step.title}
+                      onChange={(e) => updateStep(index, { title: e.target.value })}
+                    />
+                    <Select
+                      value={step.stepType}
+                      onValueChange={(value) => updateStep(index, { stepType: value as StepType })}
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(stepTypeLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="ghost" size="icon" onClick={() => moveStep(index, -1)} disabled={index === 0}>
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => moveStep(index, 1)}
+                      disabled={index === steps.length - 1}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setSteps(steps.filter((_, i) => i !== index))}
+                      disabled={steps.length === 1}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <Input
+                    placeholder="Instructions (optional)"
+                    value={step.instructions}
+                    onChange={(e) => updateStep(index, { instructions: e.target.value })}
+                  />
+                  {step.stepType === 'READING' && (
+                    <div className="grid grid-cols-3 gap-2">
+                      <Input
+                        placeholder="Unit (e.g. Nm)"
+                        value={step.unit}
+                        onChange={(e) => updateStep(index, { unit: e.target.value })}
+                      />
+                      <Input
+                        type="number"
+                        placeholder="Min"
+                        value={step.minValue}
+                        onChange={(e) => updateStep(index, { minValue: e.target.value })}
+                      />
+                      <Input
+                        type="number"
+                        placeholder="Max"
+                        value={step.maxValue}
+                        onChange={(e) => updateStep(index, { maxValue: e.target.value })}
+                      />
+                    </div>
+                  )}
+                  <div className="flex gap-6 text-sm">
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id={`step-mandatory-${index}`}
+                        checked={step.mandatory}
+                        onCheckedChange={(checked) => updateStep(index, { mandatory: checked === true })}
+                      />
+                      <Label htmlFor={`step-mandatory-${index}`}>Mandatory</Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id={`step-photo-${index}`}
+                        checked={step.photoRequired}
+                        onCheckedChange={(checked) => updateStep(index, { photoRequired: checked === true })}
+                      />
+                      <Label htmlFor={`step-photo-${index}`}>Photo required</Label>
+                    </div>
+                  </div>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={() => setSteps([...steps, emptyStep()])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Step
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Failure Types</Label>
+                <div className="max-h-40 overflow-y-auto space-y-1 border rounded-lg p-2">
+                  {failureTypes.map((f) => (
+                    <div key={f.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        id={`ft-${f.id}`}
+                        checked={failureTypeIds.includes(f.id)}
+                        onCheckedChange={() => setFailureTypeIds(toggleId(failureTypeIds, f.id))}
+                      />
+                      <Label htmlFor={`ft-${f.id}`}>{f.code} - {f.name}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>PM Schedules</Label>
+                <div className="max-h-40 overflow-y-auto space-y-1 border rounded-lg p-2">
+                  {schedules.map((s) => (
+                    <div key={s.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        id={`pm-${s.id}`}
+                        checked={pmScheduleIds.includes(s.id)}
+                        onCheckedChange={() => setPmScheduleIds(toggleId(pmScheduleIds, s.id))}
+                      />
+                      <Label htmlFor={`pm-${s.id}`}>{s.asset.code} - {s.jobTitleTemplate}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !name}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from '@/components/ui/use-toast';
+import { FileText, Loader2, Paperclip, Trash2, Upload } from 'lucide-react';
+
+type AttachmentEntity = 'JOB' | 'ASSET' | 'EXTERNAL_REPAIR' | 'FUEL_ISSUE' | 'METER_READING';
+
+interface Attachment {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  category: string | null;
+  sha256: string;
+  capturedAt: string | null;
+  createdAt: string;
+  url: string;
+  previewUrl: string | null;
+  thumbnailUrl: string | null;
+}
+
+interface AttachmentListProps {
+  entityType: AttachmentEntity;
+  entityId: string;
+  category?: string;   // Category given to new uploads
+  canUpload?: boolean;
+}
+
+interface AttachmentsDialogProps extends AttachmentListProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title?: string;
+}
+
+// Human-readable file size
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export function AttachmentList({ entityType, entityId, category, canUpload = true }: AttachmentListProps) {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const fetchAttachments = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ entityType, entityId });
+      const response = await fetch(`/api/attachments?${params}`, {
+        credentials: 'include',
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setAttachments(data.attachments);
+      }
+    } catch (error) {
+      console.error('Failed to fetch attachments:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [entityType, entityId]);
+
+  useEffect(() => {
+    fetchAttachments();
+  }, [fetchAttachments]);
+
+  const handleUpload = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    const formData = new FormData();
+    Array.from(files).forEach((file) => formData.append('file', file));
+    formData.append('entityType', entityType);
+    formData.append('entityId', entityId);
+    if (category) formData.append('category', category);
+
+    setUploading(true);
+    try {
+      const response = await fetch('/api/attachments', {
+        method: 'POST',
+        credentials: 'include',
+        body: formData,
+      });
+
+      if (response.ok) {
+        fetchAttachments();
+      } else {
+        const data = await response.json();
+        toast({ title: 'Error', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Upload failed', variant: 'destructive' });
+    } finally {
+      setUploading(false);
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  const handleRemove = async (attachment: Attachment) => {
+    try {
+      const response = await fetch(`/api/attachments/${attachment.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        setAttachments(attachments.filter((a) => a.id !== attachment.id));
+      } else {
+        const data = await response.json();
+        toast({ title: 'Error', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to remove attachment', variant: 'destructive' });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center p-4">
+        <Loader2 className="h-5 w-5 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {attachments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No attachments</p>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {attachments.map((attachment) => (
+            <div key={attachment.id} className="border rounded-lg overflow-hidden group relative">
+              <a href={attachment.previewUrl || attachment.url} target="_blank" rel="noreferrer">
+                {attachment.thumbnailUrl ? (
+                  <img
+                    src={attachment.thumbnailUrl}
+                    alt={attachment.fileName}
+                    className="h-28 w-full object-cover"
+                  />
+                ) : (
+                  <div className="h-28 flex items-center justify-center bg-muted">
+                    <FileText className="h-8 w-8 text-muted-foreground" />
+                  </div>
+                )}
+              </a>
+              <div className="p-2 text-xs space-y-0.5">
+                <p className="font-medium truncate" title={attachment.fileName}>{attachment.fileName}</p>
+                <p className="text-muted-foreground">
+                  {attachment.category ? `${attachment.category} • ` : ''}{formatSize(attachment.size)}
+                </p>
+                <p className="text-muted-foreground">
+                  {attachment.capturedAt
+                    ? `Taken ${new Date(attachment.capturedAt).toLocaleString()}`
+                    : `Uploaded ${new Date(attachment.createdAt).toLocaleString()}`}
+                </p>
+                <p className="text-muted-foreground font-mono truncate" title={`SHA-256 ${attachment.sha256}`}>
+                  {attachment.sha256.slice(0, 12)}
+                </p>
+              </div>
+              {canUpload && (
+                <Button
+                  variant="secondary"
+                  size="icon"
+                  className="absolute top-1 right-1 h-7 w-7 opacity-0 group-hover:opacity-100"
+                  onClick={() => handleRemove(attachment)}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canUpload && (
+        <>
+          <input
+            ref={fileInput}
+            type="file"
+            multiple
+            className="hidden"
+            accept="image/*,application/pdf,.doc,.docx,.xls,.xlsx,.csv,.txt"
+            onChange={(e) => handleUpload(e.target.files)}
+          />
+          <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()} disabled={uploading}>
+            {uploading ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Upload className="h-4 w-4 mr-1" />}
+            Upload
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
+
+export function AttachmentsDialog({ open, onOpenChange, title, ...listProps }: AttachmentsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Paperclip className="h-5 w-5" />
+            {title || 'Attachments'}
+          </DialogTitle>
+          <DialogDescription>
+            Photos and documents; originals are kept with their SHA-256 hash
+          </DialogDescription>
+        </DialogHeader>
+        {open && <AttachmentList {...listProps} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/components/ui/use-toast';
+import {
+  Plus,
+  RefreshCw,
+  MessageSquare,
+  Package,
+  RotateCcw,
+  Fuel,
+  AlertTriangle,
+  Truck,
+  Loader2,
+  Send,
+} from 'lucide-react';
+
+interface TimelineEntry {
+  id: string;
+  type: string;
+  at: string;
+  actor: { id: string; name: string } | null;
+  title: string;
+  detail?: string | null;
+}
+
+interface JobTimelineProps {
+  jobId: string;
+  refreshKey?: number; // Bump to reload after a status change
+}
+
+const typeIcons: Record<string, React.ReactNode> = {
+  CREATED: <Plus className="h-4 w-4" />,
+  STATUS: <RefreshCw className="h-4 w-4" />,
+  COMMENT: <MessageSquare className="h-4 w-4" />,
+  ITEM_REQUEST: <Package className="h-4 w-4" />,
+  ITEM_RETURN: <RotateCcw className="h-4 w-4" />,
+  FUEL_ISSUE: <Fuel className="h-4 w-4" />,
+  DOWNTIME: <AlertTriangle className="h-4 w-4" />,
+  EXTERNAL_REPAIR: <Truck className="h-4 w-4" />,
+};
+
+export function JobTimeline({ jobId, refreshKey }: JobTimelineProps) {
+  const [entries, setEntries] = useState<TimelineEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [comment, setComment] = useState('');
+  const [posting, setPosting] = useState(false);
+
+  const fetchTimeline = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/timeline`, {
+        credentials: 'include',
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setEntries(data.timeline);
+      }
+    } catch (error) {
+      console.error('Failed to fetch timeline:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId]);
+
+  useEffect(() => {
+    fetchTimeline();
+  }, [fetchTimeline, refreshKey]);
+
+  const handleComment = async () => {
+    setPosting(true);
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ body: comment }),
+      });
+
+      if (response.ok) {
+        setComment('');
+        fetchTimeline();
+      } else {
+        const data = await response.json();
+        toast({ title: 'Error', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to add comment', variant: 'destructive' });
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center p-4">
+        <Loader2 className="h-5 w-5 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <ol className="relative border-l ml-2 space-y-4">
+        {entries.map((entry) => (
+          <li key={entry.id} className="ml-6">
+            <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-muted">
+              {typeIcons[entry.type]}
+            </span>
+            <div className="flex flex-wrap items-baseline justify-between gap-x-2">
+              <p className="text-sm font-medium">{entry.title}</p>
+              <time className="text-xs text-muted-foreground">
+                {new Date(entry.at).toLocaleString()}
+              </time>
+            </div>
+            {entry.actor && (
+              <p className="text-xs text-muted-foreground">{entry.actor.name}</p>
+            )}
+            {entry.detail && (
+              <p className={`text-sm mt-1 whitespace-pre-wrap ${
+                entry.type === 'COMMENT' ? 'bg-muted/50 p-2 rounded-lg' : 'text-muted-foreground'
+              }`}>
+                {entry.detail}
+              </p>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <div className="space-y-2">
+        <Textarea
+          placeholder="Add a comment… use @Name to notify someone"
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          rows={2}
+        />
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleComment} disabled={posting || !comment.trim()}>
+            {posting ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Send className="h-4 w-4 mr-1" />}
+            Comment
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
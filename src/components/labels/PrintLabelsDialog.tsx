@@ -0,0 +1,165 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from '@/components/ui/use-toast';
+import { Loader2, Printer } from 'lucide-react';
+
+interface LabelStockOption {
+  id: string;
+  name: string;
+  kind: 'SHEET' | 'ROLL';
+}
+
+interface PrintLabelsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entity: 'ITEM' | 'ASSET' | 'BIN';
+  ids?: string[];
+  storeId?: string;
+  title?: string;
+}
+
+export function PrintLabelsDialog({ open, onOpenChange, entity, ids, storeId, title }: PrintLabelsDialogProps) {
+  const [stocks, setStocks] = useState<LabelStockOption[]>([]);
+  const [stock, setStock] = useState('');
+  const [format, setFormat] = useState<'pdf' | 'zpl'>('pdf');
+  const [copies, setCopies] = useState('1');
+  const [printing, setPrinting] = useState(false);
+
+  useEffect(() => {
+    if (!open || stocks.length > 0) return;
+
+    fetch('/api/labels', { credentials: 'include' })
+      .then((response) => (response.ok ? response.json() : { stocks: [] }))
+      .then((data) => {
+        setStocks(data.stocks);
+        if (data.stocks.length > 0) setStock(data.stocks[0].id);
+      })
+      .catch((error) => console.error('Failed to fetch label stocks:', error));
+  }, [open, stocks.length]);
+
+  // ZPL is only for thermal rolls
+  const availableStocks = stocks.filter((s) => format === 'pdf' || s.kind === 'ROLL');
+
+  const handleFormatChange = (value: 'pdf' | 'zpl') => {
+    setFormat(value);
+    if (value === 'zpl' && stocks.find((s) => s.id === stock)?.kind !== 'ROLL') {
+      setStock(stocks.find((s) => s.kind === 'ROLL')?.id || '');
+    }
+  };
+
+  const labelCount = entity === 'BIN' && storeId ? null : ids?.length || 0;
+
+  const handlePrint = async () => {
+    setPrinting(true);
+    try {
+      const response = await fetch('/api/labels', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ entity, ids, storeId, format, stock, copies: parseInt(copies) || 1 }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        toast({ title: 'Error', description: data.error, variant: 'destructive' });
+        return;
+      }
+
+      // Download the rendered file
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1]
+        || `labels.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      onOpenChange(false);
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to print labels', variant: 'destructive' });
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>{title || 'Print Labels'}</DialogTitle>
+          <DialogDescription>
+            {labelCount === null
+              ? 'A label for every active bin in the store'
+              : `${labelCount} label${labelCount === 1 ? '' : 's'}`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label>Output</Label>
+            <Select value={format} onValueChange={(value) => handleFormatChange(value as 'pdf' | 'zpl')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pdf">PDF (label sheets)</SelectItem>
+                <SelectItem value="zpl">ZPL (thermal printer)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Label Stock</Label>
+            <Select value={stock} onValueChange={setStock}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select label stock" />
+              </SelectTrigger>
+              <SelectContent>
+                {availableStocks.map((s) => (
+                  <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Copies of each label</Label>
+            <Input
+              type="number"
+              min={1}
+              max={100}
+              value={copies}
+              onChange={(e) => setCopies(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handlePrint} disabled={printing || !stock || labelCount === 0}>
+            {printing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Printer className="mr-2 h-4 w-4" />}
+            Print
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -38,6 +38,12 @@ import {
   Truck,
   Lock,
   Server,
+  ShoppingCart,
+  RotateCcw,
+  PieChart,
+  ListChecks,
+  Timer,
+  CalendarRange,
 } from 'lucide-react';
 
 interface SidebarNavItem {
@@ -66,12 +72,30 @@ const sidebarNavItems: SidebarNavItem[] = [
     icon: <Wrench className="h-5 w-5" />,
     roles: ['ADMIN', 'MANAGER', 'SUPERVISOR'],
   },
+  {
+    title: 'Schedule',
+    href: '/schedule',
+    icon: <CalendarRange className="h-5 w-5" />,
+    roles: ['ADMIN', 'MANAGER', 'SUPERVISOR'],
+  },
   {
     title: 'PM Calendar',
     href: '/pm',
     icon: <CalendarDays className="h-5 w-5" />,
     roles: ['ADMIN', 'MANAGER', 'SUPERVISOR'],
   },
+  {
+    title: 'Checklists',
+    href: '/task-templates',
+    icon: <ListChecks className="h-5 w-5" />,
+    roles: ['ADMIN', 'MANAGER', 'SUPERVISOR'],
+  },
+  {
+    title: 'SLA Targets',
+    href: '/sla',
+    icon: <Timer className="h-5 w-5" />,
+    roles: ['ADMIN', 'MANAGER', 'SUPERVISOR'],
+  },
   {
     title: 'Availability',
     href: '/availability',
@@ -105,12 +129,30 @@ const sidebarNavItems: SidebarNavItem[] = [
     icon: <ClipboardList className="h-5 w-5" />,
     roles: ['ADMIN', 'MANAGER', 'STOREKEEPER'],
   },
+  {
+    title: 'Purchasing',
+    href: '/purchasing',
+    icon: <ShoppingCart className="h-5 w-5" />,
+    roles: ['ADMIN', 'MANAGER', 'STOREKEEPER'],
+  },
+  {
+    title: 'Stock Analytics',
+    href: '/inventory-analytics',
+    icon: <PieChart className="h-5 w-5" />,
+    roles: ['ADMIN', 'MANAGER', 'SUPERVISOR', 'STOREKEEPER'],
+  },
   {
     title: 'Fuel',
     href: '/fuel',
     icon: <Fuel className="h-5 w-5" />,
     roles: ['ADMIN', 'MANAGER', 'STOREKEEPER', 'OPERATOR'],
   },
+  {
+    title: 'Rotables',
+    href: '/rotables',
+    icon: <RotateCcw className="h-5 w-5" />,
+    roles: ['ADMIN', 'MANAGER', 'SUPERVISOR', 'STOREKEEPER', 'TECHNICIAN'],
+  },
   {
     title: 'External Repairs',
     href: '/external-repairs',
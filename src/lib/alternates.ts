@@ -0,0 +1,215 @@
+/**
+ * Item Alternates
+ * Supersession (old part number replaced by a new one, one-way) and interchangeable
+ * part numbers (either may be issued for the other). Alternates must share the stock UOM
+ * so request quantities carry over unchanged when one is issued in place of another.
+ */
+
+import { db } from '@/lib/db';
+import { ItemAlternateType } from '@prisma/client';
+
+// Types
+export type AlternateRelation = 'SUPERSEDED_BY' | 'SUPERSEDES' | 'INTERCHANGEABLE';
+
+export interface AlternateLinkInput {
+  companyId: string;
+  itemId: string;
+  alternateItemId: string;
+  type: ItemAlternateType;
+  notes?: string;
+  userId: string;
+}
+
+export interface ItemAlternateView {
+  id: string;
+  relation: AlternateRelation;
+  item: { id: string; code: string; description: string; uom: string | null; status: string };
+}
+
+const alternateItemSelect = { id: true, code: true, description: true, uom: true, status: true } as const;
+
+/**
+ * Every alternate of an item, seen from that item's side
+ */
+export async function getAlternates(itemId: string): Promise<ItemAlternateView[]> {
+  const [outgoing, incoming] = await Promise.all([
+    db.itemAlternate.findMany({
+      where: { itemId },
+      include: { alternateItem: { select: alternateItemSelect } },
+    }),
+    db.itemAlternate.findMany({
+      where: { alternateItemId: itemId },
+      include: { item: { select: alternateItemSelect } },
+    }),
+  ]);
+
+  return [
+    ...outgoing.map((link) => ({
+      id: link.id,
+      relation: (link.type === 'SUPERSESSION' ? 'SUPERSEDED_BY' : 'INTERCHANGEABLE') as AlternateRelation,
+      item: link.alternateItem,
+    })),
+    ...incoming.map((link) => ({
+      id: link.id,
+      relation: (link.type === 'SUPERSESSION' ? 'SUPERSEDES' : 'INTERCHANGEABLE') as AlternateRelation,
+      item: link.item,
+    })),
+  ];
+}
+
+/**
+ * Items that may be issued in place of an item: its supersession chain (A -> B -> C)
+ * and the interchangeables of the item or any part superseding it.
+ * A newer part is never substituted by the part it superseded.
+ */
+export async function getSubstituteIds(itemId: string): Promise<string[]> {
+  const chain = [itemId];
+  for (let i = 0; i < chain.length; i++) {
+    const newer = await db.itemAlternate.findMany({
+      where: { itemId: chain[i], type: 'SUPERSESSION' },
+      select: { alternateItemId: true },
+    });
+
+    for (const link of newer) {
+      if (!chain.includes(link.alternateItemId)) chain.push(link.alternateItemId);
+    }
+  }
+
+  const interchangeable = await db.itemAlternate.findMany({
+    where: {
+      type: 'INTERCHANGEABLE',
+      OR: [{ itemId: { in: chain } }, { alternateItemId: { in: chain } }],
+    },
+  });
+
+  const substitutes = new Set<string>(chain);
+  for (const link of interchangeable) {
+    substitutes.add(link.itemId);
+    substitutes.add(link.alternateItemId);
+  }
+  substitutes.delete(itemId);
+
+  return [...substitutes];
+}
+
+/**
+ * Link two items as a supersession or as interchangeable
+ */
+export async function linkAlternate(input: AlternateLinkInput) {
+  const { companyId, itemId, alternateItemId, type, notes, userId } = input;
+
+  if (itemId === alternateItemId) {
+    throw new Error('An item cannot be its own alternate');
+  }
+
+  if (!['SUPERSESSION', 'INTERCHANGEABLE'].includes(type)) {
+    throw new Error('Invalid alternate type');
+  }
+
+  const items = await db.item.findMany({
+    where: { companyId, id: { in: [itemId, alternateItemId] } },
+    select: { id: true, code: true, uom: true },
+  });
+
+  const item = items.find((i) => i.id === itemId);
+  const alternate = items.find((i) => i.id === alternateItemId);
+
+  if (!item || !alternate) {
+    throw new Error('Item not found');
+  }
+
+  if ((item.uom || null) !== (alternate.uom || null)) {
+    throw new Error(`${alternate.code} is stocked in ${alternate.uom || 'no unit'}, not ${item.uom || 'no unit'} like ${item.code}`);
+  }
+
+  const existing = await db.itemAlternate.findFirst({
+    where: {
+      OR: [
+        { itemId, alternateItemId },
+        { itemId: alternateItemId, alternateItemId: itemId },
+      ],
+    },
+  });
+
+  if (existing) {
+    throw new Error(`${item.code} and ${alternate.code} are already linked`);
+  }
+
+  const link = await db.itemAlternate.create({
+    data: {
+      companyId,
+      itemId,
+      alternateItemId,
+      type,
+      notes,
+      createdBy: userId,
+    },
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'CREATE',
+      entity: 'ItemAlternate',
+      entityId: link.id,
+      newValue: JSON.stringify(link),
+    },
+  });
+
+  return link;
+}
+
+/**
+ * Remove an alternate link touching an item
+ */
+export async function unlinkAlternate(companyId: string, itemId: string, linkId: string, userId: string) {
+  const link = await db.itemAlternate.findFirst({
+    where: {
+      id: linkId,
+      companyId,
+      OR: [{ itemId }, { alternateItemId: itemId }],
+    },
+  });
+
+  if (!link) {
+    throw new Error('Alternate link not found');
+  }
+
+  await db.itemAlternate.delete({ where: { id: link.id } });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'DELETE',
+      entity: 'ItemAlternate',
+      entityId: link.id,
+      oldValue: JSON.stringify(link),
+    },
+  });
+}
+
+/**
+ * Check that an item may be issued in place of the requested one
+ */
+export async function assertSubstitutable(companyId: string, requestedItemId: string, substituteItemId: string) {
+  const substituteIds = await getSubstituteIds(requestedItemId);
+
+  const [requested, substitute] = await Promise.all([
+    db.item.findUnique({ where: { id: requestedItemId }, select: { code: true } }),
+    db.item.findFirst({ where: { id: substituteItemId, companyId } }),
+  ]);
+
+  if (!substitute) {
+    throw new Error('Substitute item not found');
+  }
+
+  if (!substituteIds.includes(substituteItemId)) {
+    throw new Error(`${substitute.code} is not an approved alternate for ${requested?.code || 'the requested item'}`);
+  }
+
+  if (substitute.status !== 'ACTIVE') {
+    throw new Error(`${substitute.code} is ${substitute.status} and cannot be issued`);
+  }
+
+  return substitute;
+}
@@ -0,0 +1,337 @@
+/**
+ * Attachments
+ * Photos and documents uploaded against jobs, assets, external repairs, fuel issues and meter
+ * readings. The original is kept byte for byte with a SHA-256 hash for evidence integrity;
+ * images also get a downscaled preview and a thumbnail, and their EXIF capture time.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import path from 'path';
+import sharp from 'sharp';
+import exifr from 'exifr';
+import { db } from '@/lib/db';
+import { getStorage } from '@/lib/storage';
+import { logger } from '@/lib/logger';
+import { AttachmentEntity } from '@prisma/client';
+
+// Types
+export interface AttachmentUpload {
+  companyId: string;
+  entityType?: AttachmentEntity | null;
+  entityId?: string | null;
+  category?: string | null;
+  fileName: string;
+  mimeType: string;
+  data: Buffer;
+  userId: string;
+}
+
+export type AttachmentVariant = 'original' | 'preview' | 'thumbnail';
+
+export const ATTACHMENT_ENTITIES: AttachmentEntity[] = [
+  'JOB',
+  'ASSET',
+  'EXTERNAL_REPAIR',
+  'FUEL_ISSUE',
+  'METER_READING',
+];
+
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif', 'image/tiff'];
+
+const DOCUMENT_TYPES = [
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+// Longest edge of the display copy and of the thumbnail
+const PREVIEW_SIZE = 1600;
+const THUMBNAIL_SIZE = 320;
+
+// Attachments are referenced from photo fields by their download URL
+const URL_PREFIX = '/api/attachments/';
+
+/**
+ * Download URL of an attachment
+ */
+export function getAttachmentUrl(id: string, variant: AttachmentVariant = 'original'): string {
+  return variant === 'original' ? `${URL_PREFIX}${id}` : `${URL_PREFIX}${id}?variant=${variant}`;
+}
+
+/**
+ * Add download URLs to an attachment row
+ */
+function withUrls<T extends { id: string; previewKey: string | null; thumbnailKey: string | null }>(attachment: T) {
+  return {
+    ...attachment,
+    url: getAttachmentUrl(attachment.id),
+    previewUrl: attachment.previewKey ? getAttachmentUrl(attachment.id, 'preview') : null,
+    thumbnailUrl: attachment.thumbnailKey ? getAttachmentUrl(attachment.id, 'thumbnail') : null,
+  };
+}
+
+/**
+ * Throw unless the record the attachment belongs to exists in the company
+ */
+async function assertEntity(companyId: string, entityType: AttachmentEntity, entityId: string) {
+  const where = { id: entityId, companyId };
+  const found =
+    entityType === 'JOB' ? await db.job.findFirst({ where, select: { id: true } }) :
+    entityType === 'ASSET' ? await db.asset.findFirst({ where, select: { id: true } }) :
+    entityType === 'EXTERNAL_REPAIR' ? await db.externalRepair.findFirst({ where, select: { id: true } }) :
+    entityType === 'FUEL_ISSUE' ? await db.fuelIssue.findFirst({ where, select: { id: true } }) :
+    entityType === 'METER_READING' ? await db.meterReading.findFirst({ where, select: { id: true } }) :
+    null;
+
+  if (!found) {
+    throw new Error(`${entityType.replace('_', ' ').toLowerCase()} not found`);
+  }
+}
+
+/**
+ * EXIF capture time of a photo, if it has one
+ */
+async function readCaptureTime(data: Buffer): Promise<Date | null> {
+  try {
+    const tags = await exifr.parse(data, { pick: ['DateTimeOriginal', 'CreateDate'] });
+    const value = tags?.DateTimeOriginal || tags?.CreateDate;
+    return value instanceof Date && !isNaN(value.getTime()) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store an uploaded file, with a preview and thumbnail for images
+ */
+export async function saveAttachment(input: AttachmentUpload) {
+  const { companyId, entityType, entityId, category, fileName, data, userId } = input;
+  const mimeType = input.mimeType || 'application/octet-stream';
+  const isImage = IMAGE_TYPES.includes(mimeType);
+
+  if (data.length === 0) {
+    throw new Error('File is empty');
+  }
+
+  if (data.length > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`File exceeds the ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB limit`);
+  }
+
+  if (!isImage && !DOCUMENT_TYPES.includes(mimeType)) {
+    throw new Error(`Files of type ${mimeType} cannot be attached`);
+  }
+
+  if (entityType || entityId) {
+    if (!entityType || !entityId || !ATTACHMENT_ENTITIES.includes(entityType)) {
+      throw new Error('Invalid attachment target');
+    }
+    await assertEntity(companyId, entityType, entityId);
+  }
+
+  const storage = getStorage();
+  const sha256 = createHash('sha256').update(data).digest('hex');
+  const now = new Date();
+  const baseKey = `${companyId}/${now.getFullYear()}/${String(now.getMonth() + 1).padStart(2, '0')}/${randomUUID()}`;
+  const storageKey = `${baseKey}${path.extname(fileName).toLowerCase().replace(/[^.a-z0-9]/g, '')}`;
+
+  await storage.put(storageKey, data, mimeType);
+
+  let previewKey: string | null = null;
+  let thumbnailKey: string | null = null;
+  let width: number | null = null;
+  let height: number | null = null;
+  let capturedAt: Date | null = null;
+
+  if (isImage) {
+    capturedAt = await readCaptureTime(data);
+
+    // Formats sharp cannot decode are kept as the original only
+    try {
+      const metadata = await sharp(data).metadata();
+      const rotated = (metadata.orientation || 1) >= 5;
+      width = (rotated ? metadata.height : metadata.width) || null;
+      height = (rotated ? metadata.width : metadata.height) || null;
+
+      if (Math.max(width || 0, height || 0) > PREVIEW_SIZE) {
+        const preview = await sharp(data)
+          .rotate()
+          .resize({ width: PREVIEW_SIZE, height: PREVIEW_SIZE, fit: 'inside', withoutEnlargement: true })
+          .jpeg({ quality: 80 })
+          .toBuffer();
+        await storage.put(`${baseKey}-preview.jpg`, preview, 'image/jpeg');
+        previewKey = `${baseKey}-preview.jpg`;
+      }
+
+      const thumbnail = await sharp(data)
+        .rotate()
+        .resize({ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, fit: 'inside', withoutEnlargement: true })
+        .jpeg({ quality: 70 })
+        .toBuffer();
+      await storage.put(`${baseKey}-thumb.jpg`, thumbnail, 'image/jpeg');
+      thumbnailKey = `${baseKey}-thumb.jpg`;
+    } catch (error) {
+      // Keys are only set once their file is stored, so the attachment is saved without the copies that failed
+      logger.error('SYSTEM', 'Image processing failed', error as Error, { fileName, mimeType });
+    }
+  }
+
+  const attachment = await db.attachment.create({
+    data: {
+      companyId,
+      entityType: entityType || null,
+      entityId: entityId || null,
+      category: category || null,
+      fileName,
+      mimeType,
+      size: data.length,
+      sha256,
+      storageKey,
+      previewKey,
+      thumbnailKey,
+      width,
+      height,
+      capturedAt,
+      uploadedById: userId,
+    },
+  });
+
+  await db.documentHash.create({
+    data: {
+      documentType: 'ATTACHMENT',
+      documentId: attachment.id,
+      dataHash: sha256,
+    },
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'CREATE',
+      entity: 'Attachment',
+      entityId: attachment.id,
+      newValue: JSON.stringify(attachment),
+    },
+  });
+
+  return withUrls(attachment);
+}
+
+/**
+ * Attachments of a record, newest first
+ */
+export async function listAttachments(companyId: string, entityType: AttachmentEntity, entityId: string) {
+  const attachments = await db.attachment.findMany({
+    where: { companyId, entityType, entityId, isVoid: false },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return attachments.map(withUrls);
+}
+
+/**
+ * Load an attachment's bytes; the original is checked against its recorded hash
+ */
+export async function readAttachment(companyId: string, id: string, variant: AttachmentVariant = 'original') {
+  const attachment = await db.attachment.findFirst({
+    where: { id, companyId },
+  });
+
+  if (!attachment) {
+    throw new Error('Attachment not found');
+  }
+
+  const key =
+    variant === 'thumbnail' ? attachment.thumbnailKey || attachment.previewKey || attachment.storageKey :
+    variant === 'preview' ? attachment.previewKey || attachment.storageKey :
+    attachment.storageKey;
+
+  const data = await getStorage().get(key);
+  if (!data) {
+    throw new Error('Attachment file is missing from storage');
+  }
+
+  if (key === attachment.storageKey) {
+    const hash = createHash('sha256').update(data).digest('hex');
+    if (hash !== attachment.sha256) {
+      await db.documentHash.updateMany({
+        where: { documentType: 'ATTACHMENT', documentId: attachment.id },
+        data: {
+          isValid: false,
+          validatedAt: new Date(),
+          validationNote: `Stored file hash ${hash} does not match`,
+        },
+      });
+      throw new Error('Attachment failed its integrity check');
+    }
+  }
+
+  return {
+    attachment,
+    data,
+    mimeType: key === attachment.storageKey ? attachment.mimeType : 'image/jpeg',
+  };
+}
+
+/**
+ * Link attachments referenced by photo URL fields to the record they were uploaded for
+ */
+export async function linkAttachments(
+  companyId: string,
+  urls: (string | null | undefined)[],
+  entityType: AttachmentEntity,
+  entityId: string,
+  category?: string
+): Promise<number> {
+  const ids = urls
+    .filter((url): url is string => !!url && url.startsWith(URL_PREFIX))
+    .map((url) => url.slice(URL_PREFIX.length).split('?')[0]);
+
+  if (ids.length === 0) return 0;
+
+  const result = await db.attachment.updateMany({
+    where: { id: { in: ids }, companyId, entityId: null },
+    data: { entityType, entityId, ...(category ? { category } : {}) },
+  });
+
+  return result.count;
+}
+
+/**
+ * Hide an attachment from its record; the file stays in storage as evidence
+ */
+export async function voidAttachment(companyId: string, id: string, userId: string, canVoidOthers: boolean) {
+  const attachment = await db.attachment.findFirst({
+    where: { id, companyId, isVoid: false },
+  });
+
+  if (!attachment) {
+    throw new Error('Attachment not found');
+  }
+
+  if (attachment.uploadedById !== userId && !canVoidOthers) {
+    throw new Error('Only the uploader or a supervisor can remove this attachment');
+  }
+
+  const voided = await db.attachment.update({
+    where: { id },
+    data: { isVoid: true, voidedAt: new Date(), voidedById: userId },
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'DELETE',
+      entity: 'Attachment',
+      entityId: id,
+      oldValue: JSON.stringify(attachment),
+    },
+  });
+
+  return voided;
+}
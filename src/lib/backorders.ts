@@ -0,0 +1,136 @@
+/**
+ * Backorder Engine
+ * Approved request quantities that could not be reserved or issued stay on backorder;
+ * stock arriving in the store is offered to backorders oldest request first
+ */
+
+import { db } from '@/lib/db';
+import { formatDualQuantity } from '@/lib/uom';
+import { getStockAvailability, reserveLine } from '@/lib/reservations';
+
+// Types
+export interface OutstandingLineInput {
+  requestedQty: number;
+  approvedQty: number | null;
+  issuedQty: number | null;
+}
+
+export interface BackorderOffer {
+  requestId: string;
+  requestLineId: string;
+  quantity: number;
+}
+
+/**
+ * Approved quantity still to be issued on a request line
+ */
+export function getOutstandingQty(line: OutstandingLineInput): number {
+  return Math.max((line.approvedQty ?? line.requestedQty) - (line.issuedQty || 0), 0);
+}
+
+/**
+ * Describe outstanding lines for a notification, e.g. "2 DRUM (416 L) OIL-15W40, 1 EA FLT-001"
+ */
+export function describeOutstanding(
+  lines: (OutstandingLineInput & {
+    uom: string | null;
+    uomFactor: number;
+    item: { code: string; uom: string | null };
+  })[]
+): string {
+  return lines
+    .filter((line) => getOutstandingQty(line) > 0)
+    .map((line) => `${formatDualQuantity(getOutstandingQty(line), line.item.uom, line.uom, line.uomFactor)} ${line.item.code}`)
+    .join(', ');
+}
+
+/**
+ * Offer newly available stock of an item in a store to backordered request lines
+ * Reserves what is available for each line in turn and tells the storekeepers and requester it can be issued.
+ */
+export async function allocateBackorders(
+  itemId: string,
+  storeId: string,
+  userId?: string
+): Promise<BackorderOffer[]> {
+  const lines = await db.itemRequestLine.findMany({
+    where: {
+      itemId,
+      backorderQty: { gt: 0 },
+      request: {
+        storeId,
+        status: { in: ['APPROVED', 'PARTIAL'] },
+        isVoid: false,
+      },
+    },
+    include: {
+      item: { select: { code: true, uom: true } },
+      request: {
+        select: {
+          id: true,
+          companyId: true,
+          requestedById: true,
+          approvedAt: true,
+          job: { select: { title: true } },
+        },
+      },
+      reservations: {
+        where: { status: 'ACTIVE' },
+      },
+    },
+  });
+
+  if (lines.length === 0) return [];
+
+  lines.sort((a, b) => (a.request.approvedAt?.getTime() || 0) - (b.request.approvedAt?.getTime() || 0));
+
+  const [availability] = await getStockAvailability(storeId, [itemId]);
+  let available = availability.availableQty;
+
+  const offers: BackorderOffer[] = [];
+
+  for (const line of lines) {
+    if (available <= 0) break;
+
+    const held = line.reservations.reduce((sum, r) => sum + r.quantity, 0);
+    const quantity = Math.min(available, line.backorderQty - held);
+    if (quantity <= 0) continue;
+
+    await reserveLine({
+      requestId: line.request.id,
+      requestLineId: line.id,
+      itemId,
+      storeId,
+      quantity,
+      userId,
+    });
+
+    available -= quantity;
+    offers.push({ requestId: line.request.id, requestLineId: line.id, quantity });
+
+    const storekeepers = await db.user.findMany({
+      where: {
+        companyId: line.request.companyId,
+        role: 'STOREKEEPER',
+        status: 'ACTIVE',
+      },
+      select: { id: true },
+    });
+
+    const description = `${formatDualQuantity(quantity, line.item.uom, line.uom, line.uomFactor)} ${line.item.code}`;
+
+    for (const recipientId of [...storekeepers.map((s) => s.id), line.request.requestedById]) {
+      await db.notification.create({
+        data: {
+          userId: recipientId,
+          title: 'Backorder Available',
+          message: `${description} for job "${line.request.job.title}" is now in stock and reserved for issue`,
+          type: 'BACKORDER_AVAILABLE',
+          referenceId: line.request.id,
+        },
+      });
+    }
+  }
+
+  return offers;
+}
@@ -0,0 +1,338 @@
+/**
+ * Bin Location Engine
+ * Tracks stock by bin inside a store: putaway, bin picking in walk sequence, bin-to-bin moves and pick lists
+ */
+
+import { db } from '@/lib/db';
+
+// Types
+export interface BinMoveInput {
+  itemId: string;
+  fromBinId: string;
+  toBinId: string;
+  quantity: number;
+  userId: string;
+}
+
+export interface BinRelease {
+  binId: string;
+  quantity: number;
+}
+
+/**
+ * Suggest where to put away an item: the active bin already holding most of it in the store
+ */
+export async function suggestPutawayBin(itemId: string, storeId: string): Promise<string | null> {
+  const existing = await db.binStock.findFirst({
+    where: {
+      itemId,
+      quantity: { gt: 0 },
+      bin: { storeId, isActive: true },
+    },
+    orderBy: { quantity: 'desc' },
+  });
+
+  return existing?.binId || null;
+}
+
+/**
+ * Put stock away into a bin (or the suggested bin when none is given)
+ * Returns the bin used, or null when the store has no bin for the item yet
+ */
+export async function putawayToBin(
+  itemId: string,
+  storeId: string,
+  quantity: number,
+  binId?: string | null
+): Promise<string | null> {
+  if (quantity <= 0) return null;
+
+  let targetBinId = binId || null;
+
+  if (targetBinId) {
+    const bin = await db.storeBin.findFirst({
+      where: { id: targetBinId, storeId, isActive: true },
+    });
+    if (!bin) {
+      throw new Error('Bin not found in this store');
+    }
+  } else {
+    targetBinId = await suggestPutawayBin(itemId, storeId);
+  }
+
+  if (!targetBinId) return null;
+
+  await db.binStock.upsert({
+    where: {
+      binId_itemId: { binId: targetBinId, itemId },
+    },
+    update: {
+      quantity: { increment: quantity },
+    },
+    create: {
+      binId: targetBinId,
+      itemId,
+      quantity,
+    },
+  });
+
+  return targetBinId;
+}
+
+/**
+ * Release stock from bins for an outgoing movement
+ * Preferred bins (e.g. from the pick list) are emptied first, then the rest in walk sequence.
+ * Quantity not held in any bin is treated as unbinned stock and ignored here.
+ */
+export async function releaseFromBins(
+  itemId: string,
+  storeId: string,
+  quantity: number,
+  preferredBinIds: string[] = []
+): Promise<BinRelease[]> {
+  const binStock = await db.binStock.findMany({
+    where: {
+      itemId,
+      quantity: { gt: 0 },
+      bin: { storeId },
+    },
+    include: {
+      bin: { select: { walkSequence: true, code: true } },
+    },
+  });
+
+  binStock.sort((a, b) => {
+    const aPreferred = preferredBinIds.indexOf(a.binId);
+    const bPreferred = preferredBinIds.indexOf(b.binId);
+    if (aPreferred !== bPreferred) {
+      if (aPreferred === -1) return 1;
+      if (bPreferred === -1) return -1;
+      return aPreferred - bPreferred;
+    }
+    return a.bin.walkSequence - b.bin.walkSequence || a.bin.code.localeCompare(b.bin.code);
+  });
+
+  const released: BinRelease[] = [];
+  let remaining = quantity;
+
+  for (const stock of binStock) {
+    if (remaining <= 0) break;
+
+    const take = Math.min(stock.quantity, remaining);
+
+    await db.binStock.update({
+      where: { id: stock.id },
+      data: { quantity: stock.quantity - take },
+    });
+
+    released.push({ binId: stock.binId, quantity: take });
+    remaining -= take;
+  }
+
+  return released;
+}
+
+/**
+ * Move stock between two bins of the same store
+ * Writes a pair of TRANSFER ledger rows (out of / into bin); the store balance is unchanged
+ */
+export async function moveBetweenBins(input: BinMoveInput) {
+  const { itemId, fromBinId, toBinId, quantity, userId } = input;
+
+  if (!(quantity > 0)) {
+    throw new Error('Quantity must be greater than 0');
+  }
+
+  if (fromBinId === toBinId) {
+    throw new Error('Source and destination bins must be different');
+  }
+
+  const bins = await db.storeBin.findMany({
+    where: { id: { in: [fromBinId, toBinId] } },
+  });
+  const fromBin = bins.find((b) => b.id === fromBinId);
+  const toBin = bins.find((b) => b.id === toBinId);
+
+  if (!fromBin || !toBin) {
+    throw new Error('Bin not found');
+  }
+
+  if (fromBin.storeId !== toBin.storeId) {
+    throw new Error('Bins must be in the same store; use a stock transfer between stores');
+  }
+
+  if (!toBin.isActive) {
+    throw new Error(`Bin ${toBin.code} is inactive`);
+  }
+
+  const source = await db.binStock.findUnique({
+    where: {
+      binId_itemId: { binId: fromBinId, itemId },
+    },
+  });
+
+  if (!source || source.quantity < quantity) {
+    throw new Error(`Insufficient stock in bin ${fromBin.code}. Available: ${source?.quantity || 0}`);
+  }
+
+  const stockLevel = await db.itemStock.findUnique({
+    where: {
+      itemId_storeId: { itemId, storeId: fromBin.storeId },
+    },
+  });
+
+  await db.binStock.update({
+    where: { id: source.id },
+    data: { quantity: { decrement: quantity } },
+  });
+
+  await db.binStock.upsert({
+    where: {
+      binId_itemId: { binId: toBinId, itemId },
+    },
+    update: {
+      quantity: { increment: quantity },
+    },
+    create: {
+      binId: toBinId,
+      itemId,
+      quantity,
+    },
+  });
+
+  const balanceAfter = stockLevel?.quantity || 0;
+
+  for (const [binId, signedQty] of [[fromBinId, -quantity], [toBinId, quantity]] as const) {
+    await db.stockLedger.create({
+      data: {
+        itemId,
+        storeId: fromBin.storeId,
+        movementType: 'TRANSFER',
+        quantity: signedQty,
+        balanceAfter,
+        unitCost: 0,
+        totalValue: 0,
+        referenceType: 'BIN_MOVE',
+        binId,
+        userId,
+      },
+    });
+  }
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'MOVE',
+      entity: 'BinStock',
+      entityId: source.id,
+      newValue: JSON.stringify({ itemId, from: fromBin.code, to: toBin.code, quantity }),
+    },
+  });
+
+  return { fromBin: fromBin.code, toBin: toBin.code, quantity };
+}
+
+/**
+ * Generate (or regenerate) the pick list for an approved item request
+ * Each line is allocated across bins holding the item; lines are ordered by bin walk sequence
+ */
+export async function generatePickList(requestId: string, userId?: string) {
+  const itemRequest = await db.itemRequest.findUnique({
+    where: { id: requestId },
+    include: { lines: true },
+  });
+
+  if (!itemRequest) {
+    throw new Error('Request not found');
+  }
+
+  const binStock = await db.binStock.findMany({
+    where: {
+      itemId: { in: itemRequest.lines.map((l) => l.issuedItemId ?? l.itemId) },
+      quantity: { gt: 0 },
+      bin: { storeId: itemRequest.storeId, isActive: true },
+    },
+    include: {
+      bin: { select: { walkSequence: true, code: true } },
+    },
+  });
+
+  const allocations: {
+    requestLineId: string;
+    itemId: string;
+    binId: string | null;
+    quantity: number;
+    walkSequence: number;
+    binCode: string;
+  }[] = [];
+
+  for (const line of itemRequest.lines) {
+    let remaining = (line.approvedQty ?? line.requestedQty) - (line.issuedQty || 0);
+    if (remaining <= 0) continue;
+
+    // Lines already issued as an alternate are picked as that alternate
+    const pickItemId = line.issuedItemId ?? line.itemId;
+
+    const itemBins = binStock
+      .filter((s) => s.itemId === pickItemId)
+      .sort((a, b) => a.bin.walkSequence - b.bin.walkSequence || a.bin.code.localeCompare(b.bin.code));
+
+    for (const stock of itemBins) {
+      if (remaining <= 0) break;
+      const take = Math.min(stock.quantity, remaining);
+      allocations.push({
+        requestLineId: line.id,
+        itemId: pickItemId,
+        binId: stock.binId,
+        quantity: take,
+        walkSequence: stock.bin.walkSequence,
+        binCode: stock.bin.code,
+      });
+      remaining -= take;
+    }
+
+    if (remaining > 0) {
+      allocations.push({
+        requestLineId: line.id,
+        itemId: pickItemId,
+        binId: null,
+        quantity: remaining,
+        walkSequence: Number.MAX_SAFE_INTEGER,
+        binCode: '',
+      });
+    }
+  }
+
+  allocations.sort((a, b) => a.walkSequence - b.walkSequence || a.binCode.localeCompare(b.binCode));
+
+  await db.pickList.deleteMany({
+    where: { requestId },
+  });
+
+  return db.pickList.create({
+    data: {
+      requestId,
+      storeId: itemRequest.storeId,
+      status: 'OPEN',
+      createdBy: userId,
+      lines: {
+        create: allocations.map((a, index) => ({
+          requestLineId: a.requestLineId,
+          itemId: a.itemId,
+          binId: a.binId,
+          quantity: a.quantity,
+          sequence: index + 1,
+        })),
+      },
+    },
+    include: {
+      lines: {
+        include: {
+          bin: { select: { id: true, code: true, zone: true } },
+          item: { select: { id: true, code: true, description: true, uom: true } },
+        },
+        orderBy: { sequence: 'asc' },
+      },
+    },
+  });
+}
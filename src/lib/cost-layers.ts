@@ -0,0 +1,177 @@
+/**
+ * Cost Layer Engine
+ * Maintains receipt lots per item/store and costs issues by the item's valuation method
+ */
+
+import { db } from '@/lib/db';
+import { ValuationMethod } from '@prisma/client';
+
+// Types
+export interface CostLayerInput {
+  itemId: string;
+  storeId: string;
+  quantity: number;
+  unitCost: number;
+  sourceType: string;
+  sourceId?: string;
+  receivedAt?: Date;
+}
+
+export interface LayerConsumption {
+  layerId: string | null; // null when stock had no layer (costed at fallback)
+  quantity: number;
+  unitCost: number;
+}
+
+export interface IssueCostResult {
+  valuationMethod: ValuationMethod;
+  unitCost: number;
+  totalCost: number;
+  consumed: LayerConsumption[];
+}
+
+/**
+ * Add a cost layer (receipt lot) for an item in a store
+ */
+export async function addCostLayer(input: CostLayerInput) {
+  const { itemId, storeId, quantity, unitCost, sourceType, sourceId, receivedAt } = input;
+
+  if (quantity <= 0) return null;
+
+  return db.costLayer.create({
+    data: {
+      itemId,
+      storeId,
+      sourceType,
+      sourceId,
+      receivedAt: receivedAt || new Date(),
+      originalQty: quantity,
+      remainingQty: quantity,
+      unitCost,
+    },
+  });
+}
+
+/**
+ * Consume cost layers for an outgoing quantity
+ * Layers are depleted oldest-first, or newest-first for LIFO items.
+ * Any quantity not covered by layers is costed at the fallback cost.
+ */
+export async function consumeCostLayers(
+  itemId: string,
+  storeId: string,
+  quantity: number,
+  method: ValuationMethod,
+  fallbackCost: number
+): Promise<LayerConsumption[]> {
+  const layers = await db.costLayer.findMany({
+    where: {
+      itemId,
+      storeId,
+      remainingQty: { gt: 0 },
+    },
+    orderBy: [
+      { receivedAt: method === 'LIFO' ? 'desc' : 'asc' },
+      { createdAt: method === 'LIFO' ? 'desc' : 'asc' },
+    ],
+  });
+
+  const consumed: LayerConsumption[] = [];
+  let remaining = quantity;
+
+  for (const layer of layers) {
+    if (remaining <= 0) break;
+
+    const take = Math.min(layer.remainingQty, remaining);
+
+    await db.costLayer.update({
+      where: { id: layer.id },
+      data: { remainingQty: layer.remainingQty - take },
+    });
+
+    consumed.push({ layerId: layer.id, quantity: take, unitCost: layer.unitCost });
+    remaining -= take;
+  }
+
+  if (remaining > 0) {
+    consumed.push({ layerId: null, quantity: remaining, unitCost: fallbackCost });
+  }
+
+  return consumed;
+}
+
+/**
+ * Cost an outgoing movement (issue or transfer dispatch) for an item in a store
+ * FIFO / LIFO items take the blended cost of the consumed layers;
+ * STANDARD_COST items use unitPrice and WEIGHTED_AVERAGE items use weightedAvgCost.
+ */
+export async function costOutgoingStock(
+  itemId: string,
+  storeId: string,
+  quantity: number
+): Promise<IssueCostResult> {
+  const item = await db.item.findUnique({
+    where: { id: itemId },
+    select: {
+      valuationMethod: true,
+      unitPrice: true,
+      weightedAvgCost: true,
+    },
+  });
+
+  if (!item) {
+    throw new Error('Item not found');
+  }
+
+  const averageCost = item.weightedAvgCost || item.unitPrice || 0;
+  const fallbackCost =
+    item.valuationMethod === 'STANDARD_COST' ? item.unitPrice || 0 : averageCost;
+
+  // Layers are always depleted so remaining quantities stay in step with stock
+  const consumed = await consumeCostLayers(
+    itemId,
+    storeId,
+    quantity,
+    item.valuationMethod,
+    fallbackCost
+  );
+
+  let unitCost: number;
+  if (item.valuationMethod === 'FIFO' || item.valuationMethod === 'LIFO') {
+    const layerTotal = consumed.reduce((sum, c) => sum + c.quantity * c.unitCost, 0);
+    unitCost = quantity > 0 ? layerTotal / quantity : 0;
+  } else if (item.valuationMethod === 'STANDARD_COST') {
+    unitCost = item.unitPrice || 0;
+  } else {
+    unitCost = averageCost;
+  }
+
+  return {
+    valuationMethod: item.valuationMethod,
+    unitCost,
+    totalCost: quantity * unitCost,
+    consumed,
+  };
+}
+
+/**
+ * Get remaining cost layers for an item, optionally limited to one store
+ */
+export async function getCostLayers(itemId: string, storeId?: string) {
+  const where: Record<string, unknown> = {
+    itemId,
+    remainingQty: { gt: 0 },
+  };
+
+  if (storeId) {
+    where.storeId = storeId;
+  }
+
+  return db.costLayer.findMany({
+    where,
+    include: {
+      store: { select: { id: true, name: true, code: true } },
+    },
+    orderBy: { receivedAt: 'asc' },
+  });
+}
@@ -2,6 +2,7 @@
 // Handles automatic cost calculation for jobs
 
 import { db } from '@/lib/db';
+import { formatDualQuantity } from '@/lib/uom';
 import crypto from 'crypto';
 
 export interface CostBreakdown {
@@ -11,6 +12,12 @@ export interface CostBreakdown {
   serviceCost: number;
   otherCost: number;
   totalCost: number;
+  subJobs?: {       // Sub-jobs whose costs are included above
+    id: string;
+    title: string;
+    status: string;
+    totalCost: number;
+  }[];
 }
 
 // Add material cost when items are issued
@@ -21,8 +28,11 @@ export async function addMaterialCost(
   unitCost: number,
   referenceType: string,
   referenceId: string,
-  userId: string
+  userId: string,
+  uom: string | null = null,
+  uomFactor: number = 1
 ): Promise<void> {
+  // Quantity and unit cost are in stock UOM; uom/uomFactor only describe how it was issued
   const amount = quantity * unitCost;
   
   // Get current running total
@@ -36,8 +46,9 @@ export async function addMaterialCost(
   // Get item for description
   const item = await db.item.findUnique({
     where: { id: itemId },
-    select: { description: true },
+    select: { description: true, uom: true },
   });
+  const issuedQty = formatDualQuantity(quantity, item?.uom || null, uom, uomFactor);
   
   // Create cost log entry
   await db.jobCostLog.create({
@@ -45,7 +56,7 @@ export async function addMaterialCost(
       jobId,
       companyId: (await db.job.findUnique({ where: { id: jobId } }))!.companyId,
       costType: 'MATERIAL',
-      description: `Material: ${item?.description || 'Unknown'} (${quantity} @ ${unitCost})`,
+      description: `Material: ${item?.description || 'Unknown'} (${issuedQty} @ ${unitCost}${item?.uom ? `/${item.uom}` : ''})`,
       amount,
       referenceType,
       referenceId,
@@ -84,7 +95,7 @@ export async function creditMaterialCost(
   // Get item for description
   const item = await db.item.findUnique({
     where: { id: itemId },
-    select: { description: true },
+    select: { description: true, uom: true },
   });
   
   // Create cost log entry
@@ -93,7 +104,7 @@ export async function creditMaterialCost(
       jobId,
       companyId: (await db.job.findUnique({ where: { id: jobId } }))!.companyId,
       costType: 'MATERIAL',
-      description: `Return: ${item?.description || 'Unknown'} (${quantity} @ ${unitCost})`,
+      description: `Return: ${item?.description || 'Unknown'} (${quantity}${item?.uom ? ` ${item.uom}` : ''} @ ${unitCost}${item?.uom ? `/${item.uom}` : ''})`,
       amount,
       referenceType,
       referenceId,
@@ -109,8 +120,60 @@ export async function creditMaterialCost(
   await updateJobRunningTotals(jobId);
 }
 
+// Add labor cost for a technician's time entry
+export async function addLaborCost(
+  jobId: string,
+  hours: number,
+  hourlyRate: number,
+  technicianName: string,
+  referenceId: string,
+  userId: string
+): Promise<string> {
+  const amount = hours * hourlyRate;
+  
+  const lastLog = await db.jobCostLog.findFirst({
+    where: { jobId },
+    orderBy: { createdAt: 'desc' },
+  });
+  
+  const runningTotal = (lastLog?.runningTotal || 0) + amount;
+  
+  const log = await db.jobCostLog.create({
+    data: {
+      jobId,
+      companyId: (await db.job.findUnique({ where: { id: jobId } }))!.companyId,
+      costType: 'LABOR',
+      description: `Labor: ${technicianName} ${hours.toFixed(2)} hours @ $${hourlyRate}/hr`,
+      amount,
+      referenceType: 'TIME_ENTRY',
+      referenceId,
+      quantity: hours,
+      unitCost: hourlyRate,
+      runningTotal,
+      createdBy: userId,
+    },
+  });
+  
+  await updateJobRunningTotals(jobId);
+  
+  return log.id;
+}
+
 // Calculate and add labor cost on job completion
+// Jobs with time entries are costed per entry as each is approved; only jobs nobody
+// clocked on fall back to the assignee's start-to-complete time
 export async function calculateLaborCost(jobId: string, userId: string): Promise<number> {
+  const entries = await db.jobTimeEntry.findMany({
+    where: { jobId, status: { not: 'REJECTED' } },
+    select: { status: true, laborCost: true },
+  });
+  
+  if (entries.length > 0) {
+    return entries
+      .filter((entry) => entry.status === 'APPROVED')
+      .reduce((sum, entry) => sum + (entry.laborCost || 0), 0);
+  }
+  
   const job = await db.job.findUnique({
     where: { id: jobId },
     include: {
@@ -200,7 +263,7 @@ export async function addFuelCost(
 }
 
 // Update job running totals for fast loading
-async function updateJobRunningTotals(jobId: string): Promise<void> {
+export async function updateJobRunningTotals(jobId: string): Promise<void> {
   const logs = await db.jobCostLog.findMany({
     where: { jobId },
   });
@@ -245,7 +308,7 @@ async function updateJobRunningTotals(jobId: string): Promise<void> {
   });
 }
 
-// Get cost breakdown for a job
+// Get cost breakdown for a job, including the costs of its sub-jobs
 export async function getJobCostBreakdown(jobId: string): Promise<CostBreakdown> {
   const job = await db.job.findUnique({
     where: { id: jobId },
@@ -254,16 +317,39 @@ export async function getJobCostBreakdown(jobId: string): Promise<CostBreakdown>
       laborCost: true,
       fuelCost: true,
       totalCost: true,
+      childJobs: {
+        where: { isVoid: false },
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          materialCost: true,
+          laborCost: true,
+          fuelCost: true,
+          totalCost: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      },
     },
   });
   
+  const jobs = job ? [job, ...job.childJobs] : [];
+  const sum = (field: 'materialCost' | 'laborCost' | 'fuelCost' | 'totalCost') =>
+    jobs.reduce((total, j) => total + (j[field] || 0), 0);
+  
   return {
-    materialCost: job?.materialCost || 0,
-    laborCost: job?.laborCost || 0,
-    fuelCost: job?.fuelCost || 0,
+    materialCost: sum('materialCost'),
+    laborCost: sum('laborCost'),
+    fuelCost: sum('fuelCost'),
     serviceCost: 0,
     otherCost: 0,
-    totalCost: job?.totalCost || 0,
+    totalCost: sum('totalCost'),
+    subJobs: job?.childJobs.map((child) => ({
+      id: child.id,
+      title: child.title,
+      status: child.status,
+      totalCost: child.totalCost,
+    })),
   };
 }
 
@@ -276,6 +362,10 @@ export async function createCostSnapshot(jobId: string, userId: string): Promise
         select: { hourlyRate: true },
       },
       costLogs: true,
+      timeEntries: {
+        where: { status: 'APPROVED' },
+        select: { hours: true },
+      },
     },
   });
   
@@ -283,7 +373,12 @@ export async function createCostSnapshot(jobId: string, userId: string): Promise
   
   // Calculate labor hours
   let laborHours = 0;
-  if (job.startedAt) {
+  let hourlyRate = job.assignedTo?.hourlyRate || 0;
+  if (job.timeEntries.length > 0) {
+    // Several technicians at their own rates: record the blended rate
+    laborHours = job.timeEntries.reduce((sum, entry) => sum + (entry.hours || 0), 0);
+    hourlyRate = laborHours > 0 ? job.laborCost / laborHours : 0;
+  } else if (job.startedAt) {
     const startTime = new Date(job.startedAt).getTime();
     const endTime = job.completedAt ? new Date(job.completedAt).getTime() : Date.now();
     const totalSeconds = (endTime - startTime) / 1000;
@@ -298,7 +393,7 @@ export async function createCostSnapshot(jobId: string, userId: string): Promise
     otherCost: 0,
     totalCost: job.totalCost,
     laborHours,
-    hourlyRate: job.assignedTo?.hourlyRate || 0,
+    hourlyRate,
   };
   
   // Generate SHA-256 hash for immutability
@@ -369,6 +464,14 @@ export async function canCloseJob(jobId: string): Promise<{ canClose: boolean; r
           lines: true,
         },
       },
+      timeEntries: {
+        where: { status: { in: ['OPEN', 'PENDING_APPROVAL'] } },
+        select: { id: true },
+      },
+      childJobs: {
+        where: { isVoid: false, status: { notIn: ['CLOSED', 'CANCELLED'] } },
+        select: { id: true },
+      },
     },
   });
   
@@ -376,6 +479,11 @@ export async function canCloseJob(jobId: string): Promise<{ canClose: boolean; r
     return { canClose: false, reasons: ['Job not found'] };
   }
   
+  // A parent is closed last
+  if (job.childJobs.length > 0) {
+    reasons.push(`${job.childJobs.length} sub-job(s) must be closed first.`);
+  }
+  
   // Check for pending returns
   const pendingReturns = job.itemRequests.some(req =>
     req.lines.some(line => (line.issuedQty || 0) > (line.returnedQty || 0))
@@ -390,6 +498,11 @@ export async function canCloseJob(jobId: string): Promise<{ canClose: boolean; r
     reasons.push('Safety photo is required for this job before closure.');
   }
   
+  // Labour must be settled before the cost snapshot is taken
+  if (job.timeEntries.length > 0) {
+    reasons.push('Time entries are still open or awaiting approval.');
+  }
+  
   // Check if job is in correct status
   if (!['COMPLETED'].includes(job.status)) {
     reasons.push('Job must be completed before closing.');
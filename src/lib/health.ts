@@ -5,6 +5,7 @@
 
 import { db } from '@/lib/db';
 import { logger } from '@/lib/logger';
+import { getStorage } from '@/lib/storage';
 
 export interface HealthCheckResult {
   status: 'healthy' | 'degraded' | 'unhealthy';
@@ -91,13 +92,16 @@ async function checkDatabase(): Promise<ComponentHealth> {
  */
 async function checkStorage(): Promise<ComponentHealth> {
   try {
-    // Check if we can write to the uploads directory
-    // For now, just return healthy
+    // Check the attachment store can be written to
+    const storage = getStorage();
+    const details = await storage.check();
+
     return {
       status: 'healthy',
       message: 'Storage accessible',
       details: {
-        path: '/uploads',
+        driver: storage.name,
+        ...details,
       },
     };
   } catch (error) {
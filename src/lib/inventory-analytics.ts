@@ -0,0 +1,475 @@
+/**
+ * Inventory Analytics
+ * ABC (consumption value) and XYZ (demand variability) classification from stock ledger history,
+ * turnover and days of cover per store, and dead stock with the value it ties up
+ */
+
+import { db } from '@/lib/db';
+
+// Types
+export interface ItemClassification {
+  itemId: string;
+  itemCode: string;
+  itemDescription: string;
+  consumedQty: number;
+  consumedValue: number;
+  valueSharePercent: number;
+  variationCoefficient: number | null; // Std dev / mean of monthly consumption; null with no demand
+  abcClass: string;
+  xyzClass: string;
+}
+
+export interface ClassificationResult {
+  months: number;
+  classifiedAt: Date;
+  summary: Record<string, number>; // AX, AY ... CZ
+  items: ItemClassification[];
+}
+
+export interface TurnoverLine {
+  itemId: string;
+  itemCode: string;
+  itemDescription: string;
+  uom: string | null;
+  abcClass: string | null;
+  xyzClass: string | null;
+  storeId: string;
+  storeName: string;
+  onHandQty: number;
+  onHandValue: number;
+  consumedQty: number;
+  consumedValue: number;
+  averageInventoryValue: number;
+  turnover: number | null; // Consumption value / average inventory value over the period
+  daysOfCover: number | null; // On hand / average daily consumption; null with no consumption
+}
+
+export interface StoreTurnover {
+  storeId: string;
+  storeName: string;
+  onHandValue: number;
+  consumedValue: number;
+  averageInventoryValue: number;
+  turnover: number | null;
+  daysOfCover: number | null;
+}
+
+export interface DeadStockLine {
+  itemId: string;
+  itemCode: string;
+  itemDescription: string;
+  uom: string | null;
+  abcClass: string | null;
+  storeId: string;
+  storeName: string;
+  quantity: number;
+  unitCost: number;
+  value: number;
+  lastMovementAt: Date | null;
+  daysSinceMovement: number | null;
+}
+
+interface ConsumptionEntry {
+  qty: number;
+  value: number;
+  monthly: number[];
+}
+
+export const DEFAULT_ANALYSIS_MONTHS = 12;
+export const DEFAULT_DEAD_STOCK_MONTHS = 6;
+
+// Cumulative share of consumption value that closes each ABC class
+const ABC_THRESHOLDS = { A: 0.8, B: 0.95 };
+
+// Coefficient of variation of monthly demand that closes each XYZ class
+const XYZ_THRESHOLDS = { X: 0.5, Y: 1.0 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Start of the analysis window, whole months back from now
+ */
+function monthsAgo(months: number, from = new Date()): Date {
+  const date = new Date(from);
+  date.setMonth(date.getMonth() - months);
+  return date;
+}
+
+/**
+ * Whole calendar months from one date to another
+ */
+function monthsBetween(from: Date, to: Date): number {
+  const months = (to.getFullYear() - from.getFullYear()) * 12 + to.getMonth() - from.getMonth();
+  return to.getDate() < from.getDate() ? months - 1 : months;
+}
+
+/**
+ * Net consumption per item/store from the ledger: request issues less returns to store.
+ * Monthly quantities are bucketed from the start of the window for the variability measure.
+ */
+async function getConsumption(
+  companyId: string,
+  since: Date,
+  months: number,
+  storeId?: string
+): Promise<Map<string, ConsumptionEntry>> {
+  const movements = await db.stockLedger.findMany({
+    where: {
+      item: { companyId },
+      createdAt: { gte: since },
+      ...(storeId ? { storeId } : {}),
+      OR: [
+        { movementType: 'OUT', referenceType: 'REQUEST' },
+        { movementType: 'RETURN', referenceType: 'RETURN' },
+      ],
+    },
+    select: {
+      itemId: true,
+      storeId: true,
+      movementType: true,
+      quantity: true,
+      unitCost: true,
+      totalValue: true,
+      createdAt: true,
+    },
+  });
+
+  const consumption = new Map<string, ConsumptionEntry>();
+
+  for (const movement of movements) {
+    const key = `${movement.itemId}:${movement.storeId}`;
+    const entry = consumption.get(key) || { qty: 0, value: 0, monthly: new Array(months).fill(0) };
+    const sign = movement.movementType === 'OUT' ? 1 : -1;
+    const qty = Math.abs(movement.quantity);
+    const value = movement.totalValue ?? qty * (movement.unitCost || 0);
+
+    const bucket = Math.min(Math.max(monthsBetween(since, movement.createdAt), 0), months - 1);
+
+    entry.qty += sign * qty;
+    entry.value += sign * Math.abs(value);
+    entry.monthly[bucket] += sign * qty;
+    consumption.set(key, entry);
+  }
+
+  return consumption;
+}
+
+/**
+ * Classify active items by consumption value (ABC) and demand variability (XYZ) over the
+ * last `months` months and persist both on the item for cycle counts and reorder rules
+ */
+export async function classifyItemsByConsumption(
+  companyId: string,
+  months = DEFAULT_ANALYSIS_MONTHS,
+  userId?: string
+): Promise<ClassificationResult> {
+  if (!Number.isInteger(months) || months < 3 || months > 36) {
+    throw new Error('Classification window must be between 3 and 36 months');
+  }
+
+  const items = await db.item.findMany({
+    where: { companyId, status: 'ACTIVE' },
+    select: { id: true, code: true, description: true },
+  });
+
+  const consumption = await getConsumption(companyId, monthsAgo(months), months);
+
+  // Roll the per-store figures up to the item
+  const byItem = new Map<string, ConsumptionEntry>();
+  for (const [key, entry] of consumption) {
+    const itemId = key.split(':')[0];
+    const total = byItem.get(itemId) || { qty: 0, value: 0, monthly: new Array(months).fill(0) };
+    total.qty += entry.qty;
+    total.value += entry.value;
+    entry.monthly.forEach((qty, i) => (total.monthly[i] += qty));
+    byItem.set(itemId, total);
+  }
+
+  const ranked = items
+    .map((item) => {
+      const entry = byItem.get(item.id);
+      return {
+        item,
+        qty: Math.max(entry?.qty || 0, 0),
+        value: Math.max(entry?.value || 0, 0),
+        monthly: entry?.monthly.map((qty) => Math.max(qty, 0)) || [],
+      };
+    })
+    .sort((a, b) => b.value - a.value);
+
+  const totalValue = ranked.reduce((sum, r) => sum + r.value, 0);
+  const summary: Record<string, number> = {};
+  for (const abc of ['A', 'B', 'C']) {
+    for (const xyz of ['X', 'Y', 'Z']) summary[`${abc}${xyz}`] = 0;
+  }
+
+  const results: ItemClassification[] = [];
+  const updates = new Map<string, string[]>();
+  let cumulative = 0;
+
+  for (const entry of ranked) {
+    cumulative += entry.value;
+    const share = totalValue > 0 ? cumulative / totalValue : 1;
+    const abcClass = entry.value <= 0
+      ? 'C'
+      : share <= ABC_THRESHOLDS.A || entry === ranked[0]
+        ? 'A'
+        : share <= ABC_THRESHOLDS.B ? 'B' : 'C';
+
+    let variationCoefficient: number | null = null;
+    const mean = entry.qty / months;
+    if (mean > 0) {
+      const variance = entry.monthly.reduce((sum, qty) => sum + (qty - mean) ** 2, 0) / months;
+      variationCoefficient = Math.sqrt(variance) / mean;
+    }
+
+    const xyzClass = variationCoefficient === null
+      ? 'Z'
+      : variationCoefficient <= XYZ_THRESHOLDS.X
+        ? 'X'
+        : variationCoefficient <= XYZ_THRESHOLDS.Y ? 'Y' : 'Z';
+
+    const key = `${abcClass}${xyzClass}`;
+    summary[key]++;
+    updates.set(key, [...(updates.get(key) || []), entry.item.id]);
+
+    results.push({
+      itemId: entry.item.id,
+      itemCode: entry.item.code,
+      itemDescription: entry.item.description,
+      consumedQty: entry.qty,
+      consumedValue: entry.value,
+      valueSharePercent: totalValue > 0 ? (entry.value / totalValue) * 100 : 0,
+      variationCoefficient,
+      abcClass,
+      xyzClass,
+    });
+  }
+
+  const classifiedAt = new Date();
+  for (const [key, ids] of updates) {
+    await db.item.updateMany({
+      where: { id: { in: ids } },
+      data: { abcClass: key[0], xyzClass: key[1], classifiedAt, updatedBy: userId },
+    });
+  }
+
+  if (userId) {
+    await db.auditLog.create({
+      data: {
+        userId,
+        action: 'UPDATE',
+        entity: 'ItemClassification',
+        entityId: companyId,
+        newValue: JSON.stringify({ months, summary }),
+      },
+    });
+  }
+
+  return { months, classifiedAt, summary, items: results };
+}
+
+/**
+ * Turnover and days of cover per item and store over the last `months` months.
+ * Average inventory is the mean of opening and closing quantity, valued at current cost.
+ */
+export async function getInventoryTurnover(
+  companyId: string,
+  months = DEFAULT_ANALYSIS_MONTHS,
+  storeId?: string
+): Promise<{ lines: TurnoverLine[]; stores: StoreTurnover[] }> {
+  const since = monthsAgo(months);
+  const days = Math.max((Date.now() - since.getTime()) / DAY_MS, 1);
+
+  const stockLevels = await db.itemStock.findMany({
+    where: {
+      item: { companyId },
+      store: { isQuarantine: false },
+      ...(storeId ? { storeId } : {}),
+    },
+    include: {
+      item: {
+        select: {
+          id: true,
+          code: true,
+          description: true,
+          uom: true,
+          abcClass: true,
+          xyzClass: true,
+          weightedAvgCost: true,
+          unitPrice: true,
+        },
+      },
+      store: { select: { id: true, name: true } },
+    },
+  });
+
+  const consumption = await getConsumption(companyId, since, months, storeId);
+
+  // Opening balance = balance before the first movement in the window
+  const firstMovements = await db.stockLedger.findMany({
+    where: {
+      item: { companyId },
+      createdAt: { gte: since },
+      ...(storeId ? { storeId } : {}),
+    },
+    orderBy: { createdAt: 'asc' },
+    distinct: ['itemId', 'storeId'],
+    select: { itemId: true, storeId: true, movementType: true, quantity: true, balanceAfter: true },
+  });
+
+  const opening = new Map<string, number>();
+  for (const movement of firstMovements) {
+    const change = movement.movementType === 'IN' || movement.movementType === 'RETURN'
+      ? Math.abs(movement.quantity)
+      : movement.movementType === 'OUT'
+        ? -Math.abs(movement.quantity)
+        : movement.quantity;
+    opening.set(`${movement.itemId}:${movement.storeId}`, Math.max(movement.balanceAfter - change, 0));
+  }
+
+  const lines: TurnoverLine[] = stockLevels.map((stock) => {
+    const key = `${stock.itemId}:${stock.storeId}`;
+    const unitCost = stock.item.weightedAvgCost || stock.item.unitPrice || 0;
+    const used = consumption.get(key);
+    const consumedQty = Math.max(used?.qty || 0, 0);
+    const consumedValue = Math.max(used?.value || 0, 0);
+    const openingQty = opening.get(key) ?? stock.quantity;
+    const averageInventoryValue = ((openingQty + stock.quantity) / 2) * unitCost;
+
+    return {
+      itemId: stock.item.id,
+      itemCode: stock.item.code,
+      itemDescription: stock.item.description,
+      uom: stock.item.uom,
+      abcClass: stock.item.abcClass,
+      xyzClass: stock.item.xyzClass,
+      storeId: stock.store.id,
+      storeName: stock.store.name,
+      onHandQty: stock.quantity,
+      onHandValue: stock.quantity * unitCost,
+      consumedQty,
+      consumedValue,
+      averageInventoryValue,
+      turnover: averageInventoryValue > 0 ? consumedValue / averageInventoryValue : null,
+      daysOfCover: consumedQty > 0 ? stock.quantity / (consumedQty / days) : null,
+    };
+  });
+
+  const storeTotals = new Map<string, StoreTurnover>();
+  for (const line of lines) {
+    const total = storeTotals.get(line.storeId) || {
+      storeId: line.storeId,
+      storeName: line.storeName,
+      onHandValue: 0,
+      consumedValue: 0,
+      averageInventoryValue: 0,
+      turnover: null,
+      daysOfCover: null,
+    };
+    total.onHandValue += line.onHandValue;
+    total.consumedValue += line.consumedValue;
+    total.averageInventoryValue += line.averageInventoryValue;
+    storeTotals.set(line.storeId, total);
+  }
+
+  const stores = [...storeTotals.values()].map((total) => ({
+    ...total,
+    turnover: total.averageInventoryValue > 0 ? total.consumedValue / total.averageInventoryValue : null,
+    daysOfCover: total.consumedValue > 0 ? total.onHandValue / (total.consumedValue / days) : null,
+  }));
+
+  return {
+    lines: lines.sort((a, b) => (a.turnover ?? -1) - (b.turnover ?? -1)),
+    stores: stores.sort((a, b) => a.storeName.localeCompare(b.storeName)),
+  };
+}
+
+/**
+ * Stock on hand with no movement in the last `months` months, largest tied-up value first
+ */
+export async function getDeadStock(
+  companyId: string,
+  months = DEFAULT_DEAD_STOCK_MONTHS,
+  storeId?: string
+): Promise<{ lines: DeadStockLine[]; totalValue: number }> {
+  const cutoff = monthsAgo(months);
+
+  const stockLevels = await db.itemStock.findMany({
+    where: {
+      quantity: { gt: 0 },
+      item: { companyId },
+      store: { isQuarantine: false },
+      ...(storeId ? { storeId } : {}),
+    },
+    include: {
+      item: {
+        select: {
+          id: true,
+          code: true,
+          description: true,
+          uom: true,
+          abcClass: true,
+          weightedAvgCost: true,
+          unitPrice: true,
+        },
+      },
+      store: { select: { id: true, name: true } },
+    },
+  });
+
+  const recent = await db.stockLedger.findMany({
+    where: {
+      item: { companyId },
+      createdAt: { gte: cutoff },
+      ...(storeId ? { storeId } : {}),
+    },
+    distinct: ['itemId', 'storeId'],
+    select: { itemId: true, storeId: true },
+  });
+  const moved = new Set(recent.map((m) => `${m.itemId}:${m.storeId}`));
+
+  // Stock first put in the store after the cutoff is not dead yet
+  const dead = stockLevels.filter(
+    (stock) => !moved.has(`${stock.itemId}:${stock.storeId}`) && stock.createdAt < cutoff
+  );
+
+  const lastMovements = await db.stockLedger.findMany({
+    where: {
+      itemId: { in: dead.map((stock) => stock.itemId) },
+      createdAt: { lt: cutoff },
+      ...(storeId ? { storeId } : {}),
+    },
+    orderBy: { createdAt: 'desc' },
+    distinct: ['itemId', 'storeId'],
+    select: { itemId: true, storeId: true, createdAt: true },
+  });
+  const lastMovedAt = new Map(lastMovements.map((m) => [`${m.itemId}:${m.storeId}`, m.createdAt]));
+
+  const lines = dead.map((stock) => {
+    const unitCost = stock.item.weightedAvgCost || stock.item.unitPrice || 0;
+    const lastMovementAt = lastMovedAt.get(`${stock.itemId}:${stock.storeId}`) || null;
+
+    return {
+      itemId: stock.item.id,
+      itemCode: stock.item.code,
+      itemDescription: stock.item.description,
+      uom: stock.item.uom,
+      abcClass: stock.item.abcClass,
+      storeId: stock.store.id,
+      storeName: stock.store.name,
+      quantity: stock.quantity,
+      unitCost,
+      value: stock.quantity * unitCost,
+      lastMovementAt,
+      daysSinceMovement: lastMovementAt
+        ? Math.floor((Date.now() - lastMovementAt.getTime()) / DAY_MS)
+        : null,
+    };
+  });
+
+  return {
+    lines: lines.sort((a, b) => b.value - a.value),
+    totalValue: lines.reduce((sum, line) => sum + line.value, 0),
+  };
+}
@@ -0,0 +1,471 @@
+/**
+ * Inventory Posting Engine
+ * Handles goods receipts, stock adjustments and weighted average costing
+ */
+
+import { db } from '@/lib/db';
+import { addCostLayer, costOutgoingStock } from '@/lib/cost-layers';
+import { evaluateStockLevel } from '@/lib/replenishment';
+import { putawayToBin, releaseFromBins, suggestPutawayBin } from '@/lib/bins';
+import {
+  assertSerialsIssuable,
+  assertSerialsNotInService,
+  moveSerials,
+  receiveBatch,
+  registerSerials,
+  validateTrackedLine,
+  writeOffBatches,
+} from '@/lib/tracking';
+import { toStockQuantity, toStockUnitCost } from '@/lib/uom';
+import { allocateBackorders } from '@/lib/backorders';
+
+// Types
+export interface ReceiptLineInput {
+  itemId: string;
+  quantity: number;
+  unitCost: number;
+  uom?: string | null; // Unit quantity and cost are entered in; defaults to stock UOM
+  orderLineId?: string;
+  binId?: string;
+  serialNumbers?: string[];
+  batchNumber?: string;
+  expiryDate?: Date | null;
+}
+
+export interface GoodsReceiptInput {
+  companyId: string;
+  storeId: string;
+  receivedById: string;
+  purchaseOrderId?: string;
+  supplierName?: string;
+  supplierReference?: string;
+  receivedAt?: Date;
+  notes?: string;
+  lines: ReceiptLineInput[];
+}
+
+export interface StockReceiptInput {
+  itemId: string;
+  storeId: string;
+  quantity: number;
+  unitCost: number;
+  referenceType: string;
+  referenceId?: string;
+  binId?: string | null;
+  uom?: string | null;
+  uomQty?: number | null;
+  userId: string;
+}
+
+export interface StockAdjustmentInput {
+  itemId: string;
+  storeId: string;
+  quantity: number; // Signed: positive adds stock, negative removes it
+  referenceType: string;
+  referenceId?: string;
+  serialNumbers?: string[]; // Serial-tracked items: the serials lost or found
+  userId: string;
+}
+
+/**
+ * Calculate the new weighted average cost after a receipt
+ */
+export function calculateWeightedAverageCost(
+  onHandQty: number,
+  currentCost: number,
+  receivedQty: number,
+  receivedCost: number
+): number {
+  // Negative or empty stock carries no value forward
+  if (onHandQty <= 0) {
+    return receivedCost;
+  }
+
+  const totalQty = onHandQty + receivedQty;
+  if (totalQty <= 0) {
+    return receivedCost;
+  }
+
+  return (onHandQty * currentCost + receivedQty * receivedCost) / totalQty;
+}
+
+/**
+ * Receive stock into a store
+ * Increments ItemStock, puts the quantity away to a bin, writes an IN ledger row,
+ * adds a cost layer and recomputes the item's weighted average cost
+ */
+export async function receiveStock(input: StockReceiptInput) {
+  const { itemId, storeId, quantity, unitCost, referenceType, referenceId, binId, uom, uomQty, userId } = input;
+
+  const item = await db.item.findUnique({
+    where: { id: itemId },
+    select: {
+      weightedAvgCost: true,
+      unitPrice: true,
+      stockLevels: { select: { quantity: true, inTransitQty: true } },
+    },
+  });
+
+  if (!item) {
+    throw new Error('Item not found');
+  }
+
+  // Weighted average is per item, across all stores (including stock in transit)
+  const onHandQty = item.stockLevels.reduce((sum, s) => sum + s.quantity + s.inTransitQty, 0);
+  const currentCost = item.weightedAvgCost || item.unitPrice || 0;
+  const weightedAvgCost = calculateWeightedAverageCost(onHandQty, currentCost, quantity, unitCost);
+
+  const stockLevel = await db.itemStock.upsert({
+    where: {
+      itemId_storeId: { itemId, storeId },
+    },
+    update: {
+      quantity: { increment: quantity },
+    },
+    create: {
+      itemId,
+      storeId,
+      quantity,
+    },
+  });
+
+  const putawayBinId = await putawayToBin(itemId, storeId, quantity, binId);
+
+  const ledger = await db.stockLedger.create({
+    data: {
+      itemId,
+      storeId,
+      movementType: 'IN',
+      quantity,
+      balanceAfter: stockLevel.quantity,
+      unitCost,
+      totalValue: quantity * unitCost,
+      referenceType,
+      referenceId,
+      binId: putawayBinId,
+      uom,
+      uomQty,
+      userId,
+    },
+  });
+
+  await addCostLayer({
+    itemId,
+    storeId,
+    quantity,
+    unitCost,
+    sourceType: referenceType,
+    sourceId: referenceId,
+  });
+
+  await db.item.update({
+    where: { id: itemId },
+    data: {
+      weightedAvgCost,
+      updatedBy: userId,
+    },
+  });
+
+  await evaluateStockLevel(itemId, storeId);
+  await allocateBackorders(itemId, storeId, userId);
+
+  return { stockLevel, ledger, weightedAvgCost };
+}
+
+/**
+ * Adjust stock in a store
+ * Writes a signed ADJUSTMENT ledger row; losses consume cost layers, gains add a layer at current cost.
+ * Batch lots are written down with losses (gains are unbatched, the lot being unknown) and any serials
+ * given leave or rejoin the store.
+ */
+export async function adjustStock(input: StockAdjustmentInput) {
+  const { itemId, storeId, quantity, referenceType, referenceId, serialNumbers = [], userId } = input;
+
+  if (quantity === 0) {
+    throw new Error('Adjustment quantity cannot be 0');
+  }
+
+  const item = await db.item.findUnique({
+    where: { id: itemId },
+    select: { companyId: true, code: true, trackingType: true, valuationMethod: true, weightedAvgCost: true, unitPrice: true },
+  });
+
+  if (!item) {
+    throw new Error('Item not found');
+  }
+
+  if (serialNumbers.length > 0) {
+    validateTrackedLine(item.trackingType, item.code, { quantity: Math.abs(quantity), serialNumbers });
+
+    if (quantity < 0) {
+      await assertSerialsIssuable(item.companyId, itemId, serialNumbers, storeId);
+    } else {
+      const found = await db.itemSerial.count({
+        where: { companyId: item.companyId, itemId, serialNumber: { in: serialNumbers } },
+      });
+      if (found !== serialNumbers.length) {
+        throw new Error('Found serial numbers must already be registered');
+      }
+    }
+  }
+
+  let unitCost: number;
+  let binId: string | null = null;
+  if (quantity < 0) {
+    ({ unitCost } = await costOutgoingStock(itemId, storeId, -quantity));
+    await releaseFromBins(itemId, storeId, -quantity);
+
+    if (item.trackingType === 'BATCH') {
+      await writeOffBatches(itemId, storeId, -quantity);
+    }
+  } else {
+    unitCost = item.valuationMethod === 'STANDARD_COST'
+      ? item.unitPrice || 0
+      : item.weightedAvgCost || item.unitPrice || 0;
+
+    await addCostLayer({
+      itemId,
+      storeId,
+      quantity,
+      unitCost,
+      sourceType: referenceType,
+      sourceId: referenceId,
+    });
+
+    binId = await putawayToBin(itemId, storeId, quantity);
+  }
+
+  const stockLevel = await db.itemStock.upsert({
+    where: {
+      itemId_storeId: { itemId, storeId },
+    },
+    update: {
+      quantity: { increment: quantity },
+    },
+    create: {
+      itemId,
+      storeId,
+      quantity,
+    },
+  });
+
+  const totalValue = quantity * unitCost;
+
+  const ledger = await db.stockLedger.create({
+    data: {
+      itemId,
+      storeId,
+      movementType: 'ADJUSTMENT',
+      quantity,
+      balanceAfter: stockLevel.quantity,
+      unitCost,
+      totalValue,
+      referenceType,
+      referenceId,
+      binId,
+      userId,
+    },
+  });
+
+  if (serialNumbers.length > 0) {
+    await moveSerials({
+      companyId: item.companyId,
+      itemId,
+      serialNumbers,
+      storeId: quantity < 0 ? null : storeId,
+      eventType: 'ADJUSTED',
+      referenceType,
+      referenceId: referenceId || ledger.id,
+      userId,
+    });
+  }
+
+  await evaluateStockLevel(itemId, storeId);
+  if (quantity > 0) {
+    await allocateBackorders(itemId, storeId, userId);
+  }
+
+  return { stockLevel, ledger, unitCost, totalValue };
+}
+
+/**
+ * Generate a goods receipt number
+ */
+export function generateReceiptNumber(): string {
+  return `GRN-${Date.now().toString(36).toUpperCase()}`;
+}
+
+/**
+ * Post a goods receipt (GRN)
+ * Creates the receipt header and lines, then receives each line into stock
+ */
+export async function postGoodsReceipt(input: GoodsReceiptInput) {
+  const {
+    companyId,
+    storeId,
+    receivedById,
+    purchaseOrderId,
+    supplierName,
+    supplierReference,
+    receivedAt,
+    notes,
+    lines,
+  } = input;
+
+  if (!lines || lines.length === 0) {
+    throw new Error('At least one receipt line is required');
+  }
+
+  for (const line of lines) {
+    if (!line.itemId || !(line.quantity > 0)) {
+      throw new Error('Each receipt line requires an item and a quantity greater than 0');
+    }
+    if (!(line.unitCost >= 0)) {
+      throw new Error('Unit cost must be 0 or greater');
+    }
+  }
+
+  const store = await db.store.findFirst({
+    where: { id: storeId, companyId },
+  });
+
+  if (!store) {
+    throw new Error('Store not found');
+  }
+
+  const itemIds = [...new Set(lines.map((l) => l.itemId))];
+  const items = await db.item.findMany({
+    where: { id: { in: itemIds }, companyId },
+    select: { id: true, code: true, trackingType: true },
+  });
+
+  if (items.length !== itemIds.length) {
+    throw new Error('One or more items not found');
+  }
+
+  // Quantities and costs entered in purchase units are posted in stock units
+  const stockLines: (ReceiptLineInput & { uomQty: number })[] = [];
+  for (const line of lines) {
+    const converted = await toStockQuantity(line.itemId, line.quantity, line.uom);
+    stockLines.push({
+      ...line,
+      quantity: converted.quantity,
+      unitCost: toStockUnitCost(line.unitCost, converted.factor),
+      uom: converted.uom,
+      uomQty: converted.uomQty,
+    });
+  }
+
+  // Serial / batch tracked items must carry their identifiers
+  const itemsById = new Map(items.map((i) => [i.id, i]));
+  for (const line of stockLines) {
+    const item = itemsById.get(line.itemId)!;
+    validateTrackedLine(item.trackingType, item.code, line);
+    if (item.trackingType === 'SERIAL') {
+      await assertSerialsNotInService(line.itemId, line.serialNumbers!);
+    }
+    if (item.trackingType === 'BATCH' && !line.batchNumber) {
+      throw new Error(`${item.code} is batch tracked; a batch number is required`);
+    }
+  }
+
+  const totalValue = stockLines.reduce((sum, l) => sum + l.quantity * l.unitCost, 0);
+
+  // Resolve putaway bins up front so the receipt records where each line went
+  const putawayBins: (string | null)[] = [];
+  for (const line of stockLines) {
+    putawayBins.push(line.binId || await suggestPutawayBin(line.itemId, storeId));
+  }
+
+  const receipt = await db.goodsReceipt.create({
+    data: {
+      companyId,
+      storeId,
+      receivedById,
+      receiptNumber: generateReceiptNumber(),
+      purchaseOrderId,
+      supplierName,
+      supplierReference,
+      receivedAt: receivedAt || new Date(),
+      notes,
+      status: 'POSTED',
+      totalValue,
+      createdBy: receivedById,
+      lines: {
+        create: stockLines.map((l, index) => ({
+          itemId: l.itemId,
+          orderLineId: l.orderLineId,
+          binId: putawayBins[index],
+          quantity: l.quantity,
+          unitCost: l.unitCost,
+          totalCost: l.quantity * l.unitCost,
+          uom: l.uom,
+          uomQty: l.uomQty,
+          batchNumber: l.batchNumber,
+          expiryDate: l.expiryDate,
+          serialNumbers: l.serialNumbers?.length ? JSON.stringify(l.serialNumbers) : null,
+        })),
+      },
+    },
+  });
+
+  for (const [index, line] of stockLines.entries()) {
+    await receiveStock({
+      itemId: line.itemId,
+      storeId,
+      quantity: line.quantity,
+      unitCost: line.unitCost,
+      referenceType: 'RECEIPT',
+      referenceId: receipt.id,
+      binId: putawayBins[index],
+      uom: line.uom,
+      uomQty: line.uomQty,
+      userId: receivedById,
+    });
+
+    const { trackingType } = itemsById.get(line.itemId)!;
+
+    if (trackingType === 'SERIAL') {
+      await registerSerials({
+        companyId,
+        itemId: line.itemId,
+        storeId,
+        serialNumbers: line.serialNumbers!,
+        batchNumber: line.batchNumber,
+        receiptId: receipt.id,
+        userId: receivedById,
+      });
+    } else if (trackingType === 'BATCH') {
+      await receiveBatch({
+        itemId: line.itemId,
+        storeId,
+        batchNumber: line.batchNumber!,
+        expiryDate: line.expiryDate,
+        quantity: line.quantity,
+      });
+    }
+  }
+
+  await db.auditLog.create({
+    data: {
+      userId: receivedById,
+      action: 'CREATE',
+      entity: 'GoodsReceipt',
+      entityId: receipt.id,
+      newValue: JSON.stringify(receipt),
+    },
+  });
+
+  return db.goodsReceipt.findUnique({
+    where: { id: receipt.id },
+    include: {
+      store: { select: { id: true, name: true, code: true } },
+      receivedBy: { select: { id: true, name: true } },
+      lines: {
+        include: {
+          item: { select: { id: true, code: true, description: true, uom: true } },
+        },
+      },
+    },
+  });
+}
@@ -0,0 +1,377 @@
+/**
+ * Job Task Checklists
+ * Reusable step templates attached to failure types and PM schedules, copied into each job
+ * when it is created and worked through step by step. A job cannot be completed while
+ * mandatory steps are still open.
+ */
+
+import { db } from '@/lib/db';
+import { TaskStepType } from '@prisma/client';
+
+// Types
+export interface TaskStepInput {
+  title: string;
+  instructions?: string;
+  stepType?: TaskStepType;
+  mandatory?: boolean;
+  photoRequired?: boolean;
+  unit?: string;
+  minValue?: number | null;
+  maxValue?: number | null;
+}
+
+export interface TaskTemplateInput {
+  name: string;
+  description?: string;
+  isActive?: boolean;
+  steps: TaskStepInput[];
+  failureTypeIds?: string[]; // Failure types whose jobs get this checklist
+  pmScheduleIds?: string[];  // PM schedules whose generated jobs get this checklist
+}
+
+export interface JobTaskResultInput {
+  action: 'complete' | 'skip' | 'reopen';
+  passed?: boolean;
+  readingValue?: number;
+  photoUrl?: string;
+  notes?: string;
+}
+
+const STEP_TYPES: TaskStepType[] = ['INSTRUCTION', 'CHECK', 'READING'];
+
+/**
+ * Validate template steps and number them in the order given
+ */
+function normalizeSteps(steps: TaskStepInput[]) {
+  if (!steps || steps.length === 0) {
+    throw new Error('A task template needs at least one step');
+  }
+
+  return steps.map((step, index) => {
+    const stepType = step.stepType || 'INSTRUCTION';
+
+    if (!step.title?.trim()) {
+      throw new Error(`Step ${index + 1} needs a title`);
+    }
+
+    if (!STEP_TYPES.includes(stepType)) {
+      throw new Error(`Step ${index + 1} has an invalid type`);
+    }
+
+    const minValue = stepType === 'READING' && step.minValue != null ? Number(step.minValue) : null;
+    const maxValue = stepType === 'READING' && step.maxValue != null ? Number(step.maxValue) : null;
+
+    if (minValue !== null && maxValue !== null && minValue > maxValue) {
+      throw new Error(`Step ${index + 1}: minimum cannot be above maximum`);
+    }
+
+    return {
+      sequence: index + 1,
+      title: step.title.trim(),
+      instructions: step.instructions || null,
+      stepType,
+      mandatory: step.mandatory ?? true,
+      photoRequired: step.photoRequired ?? false,
+      unit: stepType === 'READING' ? step.unit || null : null,
+      minValue,
+      maxValue,
+    };
+  });
+}
+
+/**
+ * Create a task template, or replace an existing template's steps and links
+ */
+export async function saveTaskTemplate(
+  companyId: string,
+  input: TaskTemplateInput,
+  userId: string,
+  templateId?: string
+) {
+  if (!input.name?.trim()) {
+    throw new Error('Template name is required');
+  }
+
+  const steps = normalizeSteps(input.steps);
+
+  const existing = templateId
+    ? await db.taskTemplate.findFirst({ where: { id: templateId, companyId }, include: { steps: true } })
+    : null;
+
+  if (templateId && !existing) {
+    throw new Error('Task template not found');
+  }
+
+  const duplicate = await db.taskTemplate.findFirst({
+    where: {
+      companyId,
+      name: input.name.trim(),
+      ...(templateId ? { id: { not: templateId } } : {}),
+    },
+  });
+
+  if (duplicate) {
+    throw new Error(`A task template named "${input.name.trim()}" already exists`);
+  }
+
+  // Only link failure types and schedules of this company
+  const failureTypeIds = input.failureTypeIds
+    ? (await db.failureType.findMany({
+        where: { id: { in: input.failureTypeIds }, companyId },
+        select: { id: true },
+      })).map((f) => f.id)
+    : undefined;
+
+  const pmScheduleIds = input.pmScheduleIds
+    ? (await db.pMSchedule.findMany({
+        where: { id: { in: input.pmScheduleIds }, companyId },
+        select: { id: true },
+      })).map((s) => s.id)
+    : undefined;
+
+  const template = await db.$transaction(async (tx) => {
+    const saved = existing
+      ? await tx.taskTemplate.update({
+          where: { id: existing.id },
+          data: {
+            name: input.name.trim(),
+            description: input.description,
+            isActive: input.isActive ?? existing.isActive,
+            updatedBy: userId,
+          },
+        })
+      : await tx.taskTemplate.create({
+          data: {
+            companyId,
+            name: input.name.trim(),
+            description: input.description,
+            isActive: input.isActive ?? true,
+            createdBy: userId,
+          },
+        });
+
+    // Jobs keep their own copy, so steps can simply be replaced
+    await tx.taskTemplateStep.deleteMany({ where: { templateId: saved.id } });
+    await tx.taskTemplateStep.createMany({
+      data: steps.map((step) => ({ ...step, templateId: saved.id })),
+    });
+
+    if (failureTypeIds) {
+      await tx.failureType.updateMany({
+        where: { taskTemplateId: saved.id, id: { notIn: failureTypeIds } },
+        data: { taskTemplateId: null, updatedBy: userId },
+      });
+      await tx.failureType.updateMany({
+        where: { id: { in: failureTypeIds } },
+        data: { taskTemplateId: saved.id, updatedBy: userId },
+      });
+    }
+
+    if (pmScheduleIds) {
+      await tx.pMSchedule.updateMany({
+        where: { taskTemplateId: saved.id, id: { notIn: pmScheduleIds } },
+        data: { taskTemplateId: null, updatedBy: userId },
+      });
+      await tx.pMSchedule.updateMany({
+        where: { id: { in: pmScheduleIds } },
+        data: { taskTemplateId: saved.id, updatedBy: userId },
+      });
+    }
+
+    return tx.taskTemplate.findUniqueOrThrow({
+      where: { id: saved.id },
+      include: { steps: { orderBy: { sequence: 'asc' } } },
+    });
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: existing ? 'UPDATE' : 'CREATE',
+      entity: 'TaskTemplate',
+      entityId: template.id,
+      oldValue: existing ? JSON.stringify(existing) : undefined,
+      newValue: JSON.stringify(template),
+    },
+  });
+
+  return template;
+}
+
+/**
+ * Copy a template's steps into a job; a job that already has a checklist keeps it
+ */
+export async function copyTaskTemplateToJob(jobId: string, templateId: string, userId?: string): Promise<number> {
+  const template = await db.taskTemplate.findUnique({
+    where: { id: templateId },
+    include: { steps: { orderBy: { sequence: 'asc' } } },
+  });
+
+  if (!template || !template.isActive || template.steps.length === 0) {
+    return 0;
+  }
+
+  const existing = await db.jobTask.count({ where: { jobId } });
+  if (existing > 0) {
+    return 0;
+  }
+
+  const result = await db.jobTask.createMany({
+    data: template.steps.map((step) => ({
+      jobId,
+      templateId: template.id,
+      sequence: step.sequence,
+      title: step.title,
+      instructions: step.instructions,
+      stepType: step.stepType,
+      mandatory: step.mandatory,
+      photoRequired: step.photoRequired,
+      unit: step.unit,
+      minValue: step.minValue,
+      maxValue: step.maxValue,
+      createdBy: userId,
+    })),
+  });
+
+  return result.count;
+}
+
+/**
+ * Give a new job the checklist of its PM schedule, or else of its failure type
+ */
+export async function applyJobTaskTemplate(
+  job: { id: string; failureTypeId?: string | null; pmScheduleId?: string | null },
+  userId?: string
+): Promise<number> {
+  let templateId: string | null = null;
+
+  if (job.pmScheduleId) {
+    const schedule = await db.pMSchedule.findUnique({
+      where: { id: job.pmScheduleId },
+      select: { taskTemplateId: true },
+    });
+    templateId = schedule?.taskTemplateId || null;
+  }
+
+  if (!templateId && job.failureTypeId) {
+    const failureType = await db.failureType.findUnique({
+      where: { id: job.failureTypeId },
+      select: { taskTemplateId: true },
+    });
+    templateId = failureType?.taskTemplateId || null;
+  }
+
+  return templateId ? copyTaskTemplateToJob(job.id, templateId, userId) : 0;
+}
+
+/**
+ * Record the result of a checklist step (complete, skip an optional step, or reopen)
+ */
+export async function recordJobTask(
+  companyId: string,
+  jobId: string,
+  taskId: string,
+  input: JobTaskResultInput,
+  userId: string
+) {
+  const task = await db.jobTask.findFirst({
+    where: { id: taskId, jobId, job: { companyId } },
+    include: { job: { select: { status: true } } },
+  });
+
+  if (!task) {
+    throw new Error('Task not found');
+  }
+
+  if (task.job.status !== 'IN_PROGRESS') {
+    throw new Error('Checklist steps can only be recorded while the job is in progress');
+  }
+
+  let data: Record<string, unknown>;
+
+  if (input.action === 'reopen') {
+    data = {
+      status: 'OPEN',
+      passed: null,
+      readingValue: null,
+      photoUrl: null,
+      completedById: null,
+      completedAt: null,
+    };
+  } else if (input.action === 'skip') {
+    if (task.mandatory) {
+      throw new Error(`"${task.title}" is mandatory and cannot be skipped`);
+    }
+
+    data = {
+      status: 'SKIPPED',
+      notes: input.notes,
+      completedById: userId,
+      completedAt: new Date(),
+    };
+  } else if (input.action === 'complete') {
+    let passed: boolean | null = null;
+    let readingValue: number | null = null;
+
+    if (task.stepType === 'CHECK') {
+      if (typeof input.passed !== 'boolean') {
+        throw new Error(`"${task.title}" needs a pass or fail result`);
+      }
+      passed = input.passed;
+    }
+
+    if (task.stepType === 'READING') {
+      readingValue = Number(input.readingValue);
+      if (input.readingValue == null || isNaN(readingValue)) {
+        throw new Error(`"${task.title}" needs a reading`);
+      }
+      passed = (task.minValue === null || readingValue >= task.minValue)
+        && (task.maxValue === null || readingValue <= task.maxValue);
+    }
+
+    if (task.photoRequired && !input.photoUrl && !task.photoUrl) {
+      throw new Error(`"${task.title}" needs a photo`);
+    }
+
+    data = {
+      status: 'DONE',
+      passed,
+      readingValue,
+      photoUrl: input.photoUrl || task.photoUrl,
+      notes: input.notes,
+      completedById: userId,
+      completedAt: new Date(),
+    };
+  } else {
+    throw new Error('Invalid action');
+  }
+
+  const updated = await db.jobTask.update({
+    where: { id: task.id },
+    data: { ...data, updatedBy: userId },
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'UPDATE',
+      entity: 'JobTask',
+      entityId: task.id,
+      oldValue: JSON.stringify(task),
+      newValue: JSON.stringify(updated),
+    },
+  });
+
+  return updated;
+}
+
+/**
+ * Mandatory checklist steps still open on a job
+ */
+export async function getOpenMandatoryTasks(jobId: string) {
+  return db.jobTask.findMany({
+    where: { jobId, mandatory: true, status: 'OPEN' },
+    orderBy: { sequence: 'asc' },
+    select: { id: true, sequence: true, title: true },
+  });
+}
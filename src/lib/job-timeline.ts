@@ -0,0 +1,341 @@
+/**
+ * Job Activity Timeline
+ * Status history, comments with @mentions, and the stores, fuel, downtime and repair
+ * events linked to a job, merged into one chronological feed.
+ */
+
+import { db } from '@/lib/db';
+import { JobStatus } from '@prisma/client';
+
+// Types
+export type TimelineEntryType =
+  | 'CREATED'
+  | 'STATUS'
+  | 'COMMENT'
+  | 'ITEM_REQUEST'
+  | 'ITEM_RETURN'
+  | 'FUEL_ISSUE'
+  | 'DOWNTIME'
+  | 'EXTERNAL_REPAIR';
+
+export interface TimelineEntry {
+  id: string;
+  type: TimelineEntryType;
+  at: Date;
+  actor: { id: string; name: string } | null;
+  title: string;
+  detail?: string | null;
+  referenceId?: string;
+}
+
+export interface JobStatusEventInput {
+  jobId: string;
+  fromStatus: JobStatus | null;
+  toStatus: JobStatus;
+  action: string;
+  reason?: string | null;
+  userId: string;
+}
+
+const MAX_COMMENT_LENGTH = 2000;
+
+/**
+ * Record a status change (or reassignment) of a job
+ */
+export async function recordJobStatusEvent(input: JobStatusEventInput) {
+  return db.jobStatusEvent.create({
+    data: {
+      jobId: input.jobId,
+      fromStatus: input.fromStatus,
+      toStatus: input.toStatus,
+      action: input.action,
+      reason: input.reason || null,
+      userId: input.userId,
+    },
+  });
+}
+
+/**
+ * Whether text mentions a name as a whole: @name not inside an email address, and not running on
+ * into a longer name (@ann does not match @anna or @ann.lee, but does match "@ann.")
+ */
+function hasMention(text: string, name: string) {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^\\w.])@${escaped}(?![\\w-]|\\.\\w)`).test(text);
+}
+
+/**
+ * Active users of the company mentioned in a comment as @Full Name or @email-name
+ */
+async function findMentionedUsers(companyId: string, body: string) {
+  if (!body.includes('@')) return [];
+
+  const text = body.toLowerCase();
+  const users = await db.user.findMany({
+    where: { companyId, status: 'ACTIVE' },
+    select: { id: true, name: true, email: true },
+  });
+
+  return users.filter((user) => {
+    const handle = user.email.split('@')[0].toLowerCase();
+    return hasMention(text, user.name.toLowerCase()) || hasMention(text, handle);
+  });
+}
+
+/**
+ * Comment on a job; everyone @mentioned is notified
+ */
+export async function addJobComment(companyId: string, jobId: string, userId: string, body: string) {
+  const text = body?.trim();
+  if (!text) {
+    throw new Error('Comment cannot be empty');
+  }
+
+  if (text.length > MAX_COMMENT_LENGTH) {
+    throw new Error(`Comment cannot exceed ${MAX_COMMENT_LENGTH} characters`);
+  }
+
+  const job = await db.job.findFirst({
+    where: { id: jobId, companyId },
+    select: { id: true, title: true },
+  });
+
+  if (!job) {
+    throw new Error('Job not found');
+  }
+
+  const mentioned = (await findMentionedUsers(companyId, text)).filter((u) => u.id !== userId);
+
+  const comment = await db.jobComment.create({
+    data: {
+      jobId,
+      userId,
+      body: text,
+      mentionedUserIds: mentioned.length > 0 ? JSON.stringify(mentioned.map((u) => u.id)) : null,
+    },
+    include: { user: { select: { id: true, name: true } } },
+  });
+
+  for (const user of mentioned) {
+    await db.notification.create({
+      data: {
+        userId: user.id,
+        title: 'Mentioned on Job',
+        message: `${comment.user.name} mentioned you on "${job.title}": ${text.slice(0, 120)}`,
+        type: 'JOB_MENTION',
+        referenceId: jobId,
+      },
+    });
+  }
+
+  return comment;
+}
+
+/**
+ * Everything that happened on a job, oldest first
+ */
+export async function getJobTimeline(companyId: string, jobId: string): Promise<TimelineEntry[]> {
+  const job = await db.job.findFirst({
+    where: { id: jobId, companyId },
+    include: {
+      createdByUser: { select: { id: true, name: true } },
+      statusEvents: { include: { user: { select: { id: true, name: true } } } },
+      comments: { include: { user: { select: { id: true, name: true } } } },
+      itemRequests: {
+        include: {
+          store: { select: { name: true } },
+          lines: { select: { id: true } },
+        },
+      },
+      fuelIssues: true,
+    },
+  });
+
+  if (!job) {
+    throw new Error('Job not found');
+  }
+
+  const [returns, downtime, repairs] = await Promise.all([
+    db.itemReturn.findMany({
+      where: { jobId, companyId },
+      include: { item: { select: { code: true, description: true } } },
+    }),
+    db.downtimeLog.findMany({ where: { jobId, companyId } }),
+    db.externalRepair.findMany({ where: { jobId, companyId } }),
+  ]);
+
+  // Resolve the people behind linked records in one query
+  const actorIds = new Set<string>();
+  job.itemRequests.forEach((r) => {
+    actorIds.add(r.requestedById);
+    if (r.approvedById) actorIds.add(r.approvedById);
+    if (r.issuedById) actorIds.add(r.issuedById);
+  });
+  returns.forEach((r) => {
+    actorIds.add(r.returnedById);
+    if (r.acceptedById) actorIds.add(r.acceptedById);
+  });
+  job.fuelIssues.forEach((f) => actorIds.add(f.issuedById));
+  repairs.forEach((r) => {
+    if (r.sentOutById) actorIds.add(r.sentOutById);
+    if (r.receivedById) actorIds.add(r.receivedById);
+  });
+
+  const users = await db.user.findMany({
+    where: { id: { in: [...actorIds] } },
+    select: { id: true, name: true },
+  });
+  const actor = (id: string | null | undefined) => users.find((u) => u.id === id) || null;
+
+  const entries: TimelineEntry[] = [
+    {
+      id: `created-${job.id}`,
+      type: 'CREATED',
+      at: job.createdAt,
+      actor: job.createdByUser,
+      title: job.pmScheduleId ? 'PM job generated' : 'Job created',
+      detail: job.description,
+    },
+  ];
+
+  for (const event of job.statusEvents) {
+    entries.push({
+      id: event.id,
+      type: 'STATUS',
+      at: event.createdAt,
+      actor: event.user,
+      title: event.fromStatus && event.fromStatus !== event.toStatus
+        ? `${event.fromStatus.replace('_', ' ')} → ${event.toStatus.replace('_', ' ')}`
+        : `${event.action.charAt(0).toUpperCase()}${event.action.slice(1)}`,
+      detail: event.reason,
+    });
+  }
+
+  for (const comment of job.comments) {
+    entries.push({
+      id: comment.id,
+      type: 'COMMENT',
+      at: comment.createdAt,
+      actor: comment.user,
+      title: 'Comment',
+      detail: comment.body,
+    });
+  }
+
+  for (const request of job.itemRequests) {
+    const lines = `${request.lines.length} line${request.lines.length === 1 ? '' : 's'} from ${request.store.name}`;
+    entries.push({
+      id: `request-${request.id}`,
+      type: 'ITEM_REQUEST',
+      at: request.createdAt,
+      actor: actor(request.requestedById),
+      title: 'Parts requested',
+      detail: lines,
+      referenceId: request.id,
+    });
+    if (request.approvedAt) {
+      entries.push({
+        id: `request-approved-${request.id}`,
+        type: 'ITEM_REQUEST',
+        at: request.approvedAt,
+        actor: actor(request.approvedById),
+        title: request.status === 'REJECTED' ? 'Parts request rejected' : 'Parts request approved',
+        detail: request.rejectionReason,
+        referenceId: request.id,
+      });
+    }
+    if (request.issuedAt) {
+      entries.push({
+        id: `request-issued-${request.id}`,
+        type: 'ITEM_REQUEST',
+        at: request.issuedAt,
+        actor: actor(request.issuedById),
+        title: 'Parts issued',
+        detail: lines,
+        referenceId: request.id,
+      });
+    }
+  }
+
+  for (const itemReturn of returns) {
+    entries.push({
+      id: `return-${itemReturn.id}`,
+      type: 'ITEM_RETURN',
+      at: itemReturn.createdAt,
+      actor: actor(itemReturn.returnedById),
+      title: `Returned ${itemReturn.quantity} × ${itemReturn.item.code}`,
+      detail: `${itemReturn.item.description} (${itemReturn.condition.toLowerCase()})`,
+      referenceId: itemReturn.id,
+    });
+    if (itemReturn.acceptedAt) {
+      entries.push({
+        id: `return-accepted-${itemReturn.id}`,
+        type: 'ITEM_RETURN',
+        at: itemReturn.acceptedAt,
+        actor: actor(itemReturn.acceptedById),
+        title: `Return of ${itemReturn.item.code} ${itemReturn.status.toLowerCase()}`,
+        referenceId: itemReturn.id,
+      });
+    }
+  }
+
+  for (const fuel of job.fuelIssues) {
+    entries.push({
+      id: `fuel-${fuel.id}`,
+      type: 'FUEL_ISSUE',
+      at: fuel.createdAt,
+      actor: actor(fuel.issuedById),
+      title: `Fuel issued: ${fuel.quantityLiters} L ${fuel.fuelType}`,
+      detail: fuel.isAbnormal ? 'Abnormal consumption' : null,
+      referenceId: fuel.id,
+    });
+  }
+
+  for (const log of downtime) {
+    entries.push({
+      id: `downtime-${log.id}`,
+      type: 'DOWNTIME',
+      at: log.startedAt,
+      actor: null,
+      title: `Downtime started (${log.category.toLowerCase()})`,
+      detail: log.subCategory || log.notes,
+      referenceId: log.id,
+    });
+    if (log.endedAt) {
+      entries.push({
+        id: `downtime-ended-${log.id}`,
+        type: 'DOWNTIME',
+        at: log.endedAt,
+        actor: null,
+        title: 'Downtime ended',
+        detail: log.durationMinutes != null ? `${(log.durationMinutes / 60).toFixed(1)} hours down` : null,
+        referenceId: log.id,
+      });
+    }
+  }
+
+  for (const repair of repairs) {
+    entries.push({
+      id: `repair-${repair.id}`,
+      type: 'EXTERNAL_REPAIR',
+      at: repair.sentOutAt || repair.createdAt,
+      actor: actor(repair.sentOutById),
+      title: `Sent for external repair to ${repair.vendorName}`,
+      detail: repair.gatePassNumber ? `Gate pass ${repair.gatePassNumber}` : null,
+      referenceId: repair.id,
+    });
+    if (repair.receivedAt) {
+      entries.push({
+        id: `repair-received-${repair.id}`,
+        type: 'EXTERNAL_REPAIR',
+        at: repair.receivedAt,
+        actor: actor(repair.receivedById),
+        title: `Received back from ${repair.vendorName}`,
+        detail: repair.conditionNotes,
+        referenceId: repair.id,
+      });
+    }
+  }
+
+  return entries.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
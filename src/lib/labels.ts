@@ -0,0 +1,377 @@
+/**
+ * Label Printing
+ * Batches of item (Code128), asset and bin (QR) labels rendered as PDF sheets for common
+ * label stock or as ZPL for thermal printers. Every template shows the code, description
+ * and company name next to the symbol.
+ */
+
+import { db } from '@/lib/db';
+import bwipjs from 'bwip-js/node';
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+
+// Types
+export type LabelEntity = 'ITEM' | 'ASSET' | 'BIN';
+export type LabelFormat = 'pdf' | 'zpl';
+export type LabelSymbology = 'code128' | 'qrcode';
+
+export interface LabelStock {
+  id: string;
+  name: string;
+  kind: 'SHEET' | 'ROLL'; // Sheets are printed on office printers, rolls on thermal printers
+  pageWidth: number; // Points (1/72 in); a roll prints one label per page
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginLeft: number;
+  marginTop: number;
+  gapX: number;
+  gapY: number;
+}
+
+export interface LabelData {
+  value: string; // Encoded in the barcode / QR code
+  symbology: LabelSymbology;
+  code: string;
+  description: string;
+  detail?: string; // Store, location or category line
+  company: string;
+}
+
+export interface LabelBatchInput {
+  companyId: string;
+  entity: LabelEntity;
+  ids?: string[];
+  storeId?: string; // Bins: every active bin in the store
+}
+
+const MAX_LABELS = 1000;
+const ZPL_DPI = 203;
+
+const mm = (value: number) => (value * 72) / 25.4;
+const inch = (value: number) => value * 72;
+
+const A4 = { pageWidth: mm(210), pageHeight: mm(297) };
+const LETTER = { pageWidth: inch(8.5), pageHeight: inch(11) };
+
+export const LABEL_STOCKS: LabelStock[] = [
+  {
+    id: 'L7160', name: 'A4 - 21 per sheet (63.5 x 38.1 mm)', kind: 'SHEET', ...A4,
+    columns: 3, rows: 7, labelWidth: mm(63.5), labelHeight: mm(38.1),
+    marginLeft: mm(7.2), marginTop: mm(15.15), gapX: mm(2.5), gapY: 0,
+  },
+  {
+    id: 'L7163', name: 'A4 - 14 per sheet (99.1 x 38.1 mm)', kind: 'SHEET', ...A4,
+    columns: 2, rows: 7, labelWidth: mm(99.1), labelHeight: mm(38.1),
+    marginLeft: mm(4.65), marginTop: mm(15.15), gapX: mm(2.5), gapY: 0,
+  },
+  {
+    id: '5160', name: 'Letter - 30 per sheet (2.625 x 1 in)', kind: 'SHEET', ...LETTER,
+    columns: 3, rows: 10, labelWidth: inch(2.625), labelHeight: inch(1),
+    marginLeft: inch(0.1875), marginTop: inch(0.5), gapX: inch(0.125), gapY: 0,
+  },
+  {
+    id: '5163', name: 'Letter - 10 per sheet (4 x 2 in)', kind: 'SHEET', ...LETTER,
+    columns: 2, rows: 5, labelWidth: inch(4), labelHeight: inch(2),
+    marginLeft: inch(0.15625), marginTop: inch(0.5), gapX: inch(0.1875), gapY: 0,
+  },
+  {
+    id: 'ROLL_2X1', name: 'Thermal roll - 2 x 1 in', kind: 'ROLL',
+    pageWidth: inch(2), pageHeight: inch(1),
+    columns: 1, rows: 1, labelWidth: inch(2), labelHeight: inch(1),
+    marginLeft: 0, marginTop: 0, gapX: 0, gapY: 0,
+  },
+  {
+    id: 'ROLL_4X2', name: 'Thermal roll - 4 x 2 in', kind: 'ROLL',
+    pageWidth: inch(4), pageHeight: inch(2),
+    columns: 1, rows: 1, labelWidth: inch(4), labelHeight: inch(2),
+    marginLeft: 0, marginTop: 0, gapX: 0, gapY: 0,
+  },
+];
+
+/**
+ * Look up a label stock by id
+ */
+export function getLabelStock(stockId: string): LabelStock {
+  const stock = LABEL_STOCKS.find((s) => s.id === stockId);
+  if (!stock) {
+    throw new Error(`Unknown label stock: ${stockId}`);
+  }
+  return stock;
+}
+
+/**
+ * Load the records to label. Items carry a Code128 barcode (barcode, else item code);
+ * assets (QR code, else asset code) and bins (store code / bin code) carry a QR code.
+ */
+export async function getLabelData(input: LabelBatchInput): Promise<LabelData[]> {
+  const { companyId, entity, ids, storeId } = input;
+
+  if (entity !== 'BIN' && (!ids || ids.length === 0)) {
+    throw new Error('Select at least one record to label');
+  }
+
+  if ((ids?.length || 0) > MAX_LABELS) {
+    throw new Error(`At most ${MAX_LABELS} labels can be printed at once`);
+  }
+
+  const company = await db.company.findUnique({
+    where: { id: companyId },
+    select: { name: true },
+  });
+  const companyName = company?.name || '';
+
+  if (entity === 'ITEM') {
+    const items = await db.item.findMany({
+      where: { companyId, id: { in: ids } },
+      orderBy: { code: 'asc' },
+    });
+
+    return items.map((item) => ({
+      value: item.barcode || item.code,
+      symbology: 'code128' as LabelSymbology,
+      code: item.code,
+      description: item.description,
+      detail: item.uom ? `UOM: ${item.uom}` : undefined,
+      company: companyName,
+    }));
+  }
+
+  if (entity === 'ASSET') {
+    const assets = await db.asset.findMany({
+      where: { companyId, id: { in: ids } },
+      orderBy: { code: 'asc' },
+    });
+
+    return assets.map((asset) => ({
+      value: asset.qrCode || asset.code,
+      symbology: 'qrcode' as LabelSymbology,
+      code: asset.code,
+      description: asset.description,
+      detail: asset.location || asset.category || undefined,
+      company: companyName,
+    }));
+  }
+
+  if (entity === 'BIN') {
+    if (!storeId && (!ids || ids.length === 0)) {
+      throw new Error('Select a store or bins to label');
+    }
+
+    const bins = await db.storeBin.findMany({
+      where: {
+        store: { companyId },
+        ...(storeId ? { storeId, isActive: true } : {}),
+        ...(ids && ids.length > 0 ? { id: { in: ids } } : {}),
+      },
+      include: { store: { select: { code: true, name: true } } },
+      orderBy: [{ walkSequence: 'asc' }, { code: 'asc' }],
+      take: MAX_LABELS + 1,
+    });
+
+    if (bins.length > MAX_LABELS) {
+      throw new Error(`At most ${MAX_LABELS} labels can be printed at once`);
+    }
+
+    return bins.map((bin) => ({
+      value: `${bin.store.code || bin.storeId}/${bin.code}`,
+      symbology: 'qrcode' as LabelSymbology,
+      code: bin.code,
+      description: bin.description || (bin.zone ? `Zone ${bin.zone}` : 'Bin location'),
+      detail: bin.store.name,
+      company: companyName,
+    }));
+  }
+
+  throw new Error('Invalid label type');
+}
+
+/**
+ * Standard PDF fonts only encode WinAnsi, so anything else prints as '?'
+ */
+function toWinAnsi(text: string): string {
+  return text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+}
+
+/**
+ * Shorten text with an ellipsis until it fits the width
+ */
+function fitText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  let fitted = toWinAnsi(text);
+  if (font.widthOfTextAtSize(fitted, size) <= maxWidth) return fitted;
+
+  while (fitted.length > 0 && font.widthOfTextAtSize(`${fitted}...`, size) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}...`;
+}
+
+/**
+ * Render the barcode or QR symbol as a PNG
+ */
+async function renderSymbol(label: LabelData): Promise<Buffer> {
+  if (label.symbology === 'qrcode') {
+    return bwipjs.toBuffer({ bcid: 'qrcode', text: label.value, scale: 4 });
+  }
+
+  return bwipjs.toBuffer({ bcid: 'code128', text: label.value, scale: 3, height: 10 });
+}
+
+/**
+ * Draw one label with its bottom-left corner at (x, y)
+ */
+function drawLabel(
+  page: PDFPage,
+  label: LabelData,
+  symbol: PDFImage,
+  fonts: { regular: PDFFont; bold: PDFFont },
+  stock: LabelStock,
+  x: number,
+  y: number
+) {
+  const padding = Math.min(stock.labelHeight * 0.08, 6);
+  const width = stock.labelWidth - padding * 2;
+  const height = stock.labelHeight - padding * 2;
+  const codeSize = Math.max(Math.min(height * 0.14, 12), 6);
+  const textSize = Math.max(codeSize * 0.75, 5);
+  const grey = rgb(0.35, 0.35, 0.35);
+
+  let textX = x + padding;
+  let textWidth = width;
+  let textTop = y + padding + height;
+
+  if (label.symbology === 'qrcode') {
+    // Square QR on the left, text to its right
+    const size = height;
+    page.drawImage(symbol, { x: x + padding, y: y + padding, width: size, height: size });
+    textX += size + padding;
+    textWidth -= size + padding;
+  } else {
+    // Barcode across the top half, text below
+    const barHeight = height * 0.5;
+    page.drawImage(symbol, { x: x + padding, y: y + padding + height - barHeight, width, height: barHeight });
+    textTop -= barHeight + 2;
+  }
+
+  const lines: { text: string; font: PDFFont; size: number; color?: ReturnType<typeof rgb> }[] = [
+    { text: label.code, font: fonts.bold, size: codeSize },
+    { text: label.description, font: fonts.regular, size: textSize },
+  ];
+  if (label.detail) {
+    lines.push({ text: label.detail, font: fonts.regular, size: textSize, color: grey });
+  }
+  lines.push({ text: label.company, font: fonts.regular, size: textSize, color: grey });
+
+  let cursor = textTop;
+  for (const line of lines) {
+    cursor -= line.size;
+    if (cursor < y + padding) break;
+    page.drawText(fitText(line.text, line.font, line.size, textWidth), {
+      x: textX,
+      y: cursor,
+      size: line.size,
+      font: line.font,
+      color: line.color,
+    });
+    cursor -= line.size * 0.25;
+  }
+}
+
+/**
+ * Render labels onto PDF pages laid out for the label stock, each label repeated `copies` times
+ */
+export async function renderLabelsPdf(labels: LabelData[], stockId: string, copies = 1): Promise<Uint8Array> {
+  const stock = getLabelStock(stockId);
+  const pdf = await PDFDocument.create();
+  const fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+  };
+
+  const perPage = stock.columns * stock.rows;
+  let page: PDFPage | null = null;
+  let slot = 0;
+
+  for (const label of labels) {
+    const symbol = await pdf.embedPng(await renderSymbol(label));
+
+    for (let copy = 0; copy < copies; copy++) {
+      if (!page || slot === perPage) {
+        page = pdf.addPage([stock.pageWidth, stock.pageHeight]);
+        slot = 0;
+      }
+
+      const column = slot % stock.columns;
+      const row = Math.floor(slot / stock.columns);
+      const x = stock.marginLeft + column * (stock.labelWidth + stock.gapX);
+      const y = stock.pageHeight - stock.marginTop - (row + 1) * stock.labelHeight - row * stock.gapY;
+
+      drawLabel(page, label, symbol, fonts, stock, x, y);
+      slot++;
+    }
+  }
+
+  return pdf.save();
+}
+
+/**
+ * Field data with ZPL control characters hex-escaped (used with ^FH_)
+ */
+function zplField(text: string): string {
+  return text.replace(/_/g, '_5F').replace(/\^/g, '_5E').replace(/~/g, '_7E');
+}
+
+/**
+ * Render labels as ZPL II for a thermal roll; the printer draws the barcodes itself
+ */
+export function renderLabelsZpl(labels: LabelData[], stockId: string, copies = 1): string {
+  const stock = getLabelStock(stockId);
+
+  if (stock.kind !== 'ROLL') {
+    throw new Error(`${stock.name} is a sheet stock; choose a thermal roll for ZPL`);
+  }
+
+  const dots = (points: number) => Math.round((points / 72) * ZPL_DPI);
+  const width = dots(stock.labelWidth);
+  const height = dots(stock.labelHeight);
+  const padding = Math.round(height * 0.06);
+  const codeSize = Math.min(Math.max(Math.round(height * 0.09), 16), 40);
+  const textSize = Math.max(Math.round(codeSize * 0.7), 14);
+
+  return labels.map((label) => {
+    const commands = ['^XA', '^CI28', `^PW${width}`, `^LL${height}`];
+    let textX = padding;
+    let textY = padding;
+
+    if (label.symbology === 'qrcode') {
+      // QR modules are `magnification` dots; a short value fits in roughly 25-30 modules
+      const magnification = Math.min(Math.max(Math.floor((height - padding * 2) / 30), 1), 10);
+      commands.push(`^FO${padding},${padding}^BQN,2,${magnification}^FH_^FDMA,${zplField(label.value)}^FS`);
+      textX = padding * 2 + magnification * 30;
+    } else {
+      const barHeight = Math.round(height * 0.4);
+      commands.push(`^FO${padding},${padding}^BY2^BCN,${barHeight},N,N,N^FH_^FD${zplField(label.value)}^FS`);
+      textY += barHeight + padding;
+    }
+
+    const textWidth = width - textX - padding;
+    const lines = [
+      { text: label.code, size: codeSize },
+      { text: label.description, size: textSize },
+      ...(label.detail ? [{ text: label.detail, size: textSize }] : []),
+      { text: label.company, size: textSize },
+    ];
+
+    for (const line of lines) {
+      if (textY + line.size > height - padding) break;
+      commands.push(
+        `^FO${textX},${textY}^A0N,${line.size},${line.size}^FB${textWidth},1,0,L^FH_^FD${zplField(line.text)}^FS`
+      );
+      textY += Math.round(line.size * 1.2);
+    }
+
+    commands.push(`^PQ${copies}`, '^XZ');
+    return commands.join('\n');
+  }).join('\n');
+}
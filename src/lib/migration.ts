@@ -6,6 +6,7 @@
 import { db } from '@/lib/db';
 import { hashPassword, generateSalt } from '@/lib/auth';
 import { logger } from '@/lib/logger';
+import { addCostLayer } from '@/lib/cost-layers';
 
 // Types for import data
 export interface AssetImportData {
@@ -369,6 +370,15 @@ export async function importOpeningStock(
         },
       });
 
+      // Seed the opening cost layer for FIFO / LIFO costing
+      await addCostLayer({
+        itemId: item.id,
+        storeId: store.id,
+        quantity: stock.quantity,
+        unitCost: stock.unitCost ?? item.unitPrice ?? 0,
+        sourceType: 'OPENING_BALANCE',
+      });
+
       result.success++;
     } catch (error) {
       result.errors.push({
@@ -1,9 +1,12 @@
 /**
  * Preventive Maintenance Engine
- * Handles PM schedule calculations, job generation, and meter tracking
+ * Handles PM schedule calculations, job generation, parts kits and meter tracking
  */
 
 import { db } from '@/lib/db';
+import { toStockQuantity } from '@/lib/uom';
+import { applyJobTaskTemplate } from '@/lib/job-tasks';
+import { getSlaDueDates } from '@/lib/sla';
 import { JobType, JobPriority, JobStatus } from '@prisma/client';
 
 // Types
@@ -28,6 +31,12 @@ export interface MeterReadingInput {
   userId?: string;
 }
 
+export interface PMKitLineInput {
+  itemId: string;
+  quantity: number;
+  uom?: string | null;
+}
+
 export interface PMCheckResult {
   assetId: string;
   assetCode: string;
@@ -103,6 +112,154 @@ export async function configurePMSchedule(
   });
 }
 
+/**
+ * Replace a PM schedule's parts kit (store + items); an empty kit switches kit requests off
+ */
+export async function setPMKit(
+  companyId: string,
+  scheduleId: string,
+  storeId: string | null,
+  lines: PMKitLineInput[],
+  userId?: string
+) {
+  const schedule = await db.pMSchedule.findFirst({
+    where: { id: scheduleId, companyId },
+    include: { kitLines: true },
+  });
+
+  if (!schedule) {
+    throw new Error('PM schedule not found');
+  }
+
+  if (lines.length > 0) {
+    if (!storeId) {
+      throw new Error('A store is required to issue the parts kit from');
+    }
+
+    // Quarantined stock cannot be requested
+    const store = await db.store.findFirst({
+      where: { id: storeId, companyId, status: 'ACTIVE', isQuarantine: false },
+    });
+
+    if (!store) {
+      throw new Error('Store not found');
+    }
+  }
+
+  const items = await db.item.findMany({
+    where: { companyId, id: { in: lines.map((l) => l.itemId) } },
+    select: { id: true },
+  });
+
+  const kitLines: { itemId: string; quantity: number; uom: string | null; uomFactor: number }[] = [];
+  for (const line of lines) {
+    if (!items.some((i) => i.id === line.itemId)) {
+      throw new Error('Item not found');
+    }
+    if (!(line.quantity > 0)) {
+      throw new Error('Kit quantities must be greater than zero');
+    }
+    if (kitLines.some((l) => l.itemId === line.itemId)) {
+      throw new Error('Each item can appear only once in a kit');
+    }
+
+    const converted = await toStockQuantity(line.itemId, line.quantity, line.uom);
+    kitLines.push({
+      itemId: line.itemId,
+      quantity: converted.quantity,
+      uom: converted.uom,
+      uomFactor: converted.factor,
+    });
+  }
+
+  await db.pMKitLine.deleteMany({ where: { scheduleId } });
+
+  const updated = await db.pMSchedule.update({
+    where: { id: scheduleId },
+    data: {
+      kitStoreId: kitLines.length > 0 ? storeId : null,
+      updatedBy: userId,
+      kitLines: {
+        create: kitLines.map((line) => ({ ...line, createdBy: userId })),
+      },
+    },
+    include: {
+      kitStore: { select: { id: true, name: true } },
+      kitLines: {
+        include: {
+          item: { select: { id: true, code: true, description: true, uom: true } },
+        },
+      },
+    },
+  });
+
+  if (userId) {
+    await db.auditLog.create({
+      data: {
+        userId,
+        action: 'UPDATE',
+        entity: 'PMSchedule',
+        entityId: scheduleId,
+        oldValue: JSON.stringify({ kitStoreId: schedule.kitStoreId, kitLines: schedule.kitLines }),
+        newValue: JSON.stringify({ kitStoreId: updated.kitStoreId, kitLines }),
+      },
+    });
+  }
+
+  return updated;
+}
+
+/**
+ * Raise a pending item request for a generated PM job's parts kit so the store can prepare it
+ */
+async function raisePMKitRequest(
+  companyId: string,
+  job: { id: string; title: string; createdById: string },
+  storeId: string,
+  kitLines: { itemId: string; quantity: number; uom: string | null; uomFactor: number }[]
+) {
+  const itemRequest = await db.itemRequest.create({
+    data: {
+      companyId,
+      jobId: job.id,
+      storeId,
+      requestedById: job.createdById,
+      syncStatus: 'SYNCED',
+      createdBy: job.createdById,
+      lines: {
+        create: kitLines.map((line) => ({
+          itemId: line.itemId,
+          requestedQty: line.quantity,
+          uom: line.uom,
+          uomFactor: line.uomFactor,
+        })),
+      },
+    },
+  });
+
+  const supervisors = await db.user.findMany({
+    where: {
+      companyId,
+      role: { in: ['SUPERVISOR', 'ADMIN', 'MANAGER'] },
+      status: 'ACTIVE',
+    },
+  });
+
+  for (const supervisor of supervisors) {
+    await db.notification.create({
+      data: {
+        userId: supervisor.id,
+        title: 'PM Kit Request',
+        message: `Parts kit for PM job "${job.title}" pending approval`,
+        type: 'REQUEST_PENDING',
+        referenceId: itemRequest.id,
+      },
+    });
+  }
+
+  return itemRequest;
+}
+
 /**
  * Record a meter reading with validation
  */
@@ -217,6 +374,7 @@ export async function checkAndGeneratePMJobs(
           currentMeter: true,
         },
       },
+      kitLines: true,
     },
   });
 
@@ -258,11 +416,19 @@ export async function checkAndGeneratePMJobs(
         status: JobStatus.CREATED,
         createdById: userId || 'system',
         createdBy: userId,
+        estimatedMinutes: schedule.estimatedDuration ? Math.round(schedule.estimatedDuration * 60) : null,
+        ...(await getSlaDueDates(companyId, schedule.priority, JobType.PREVENTIVE)),
       },
     });
 
     generatedJobIds.push(job.id);
 
+    await applyJobTaskTemplate(job, userId);
+
+    if (schedule.kitStoreId && schedule.kitLines.length > 0) {
+      await raisePMKitRequest(companyId, job, schedule.kitStoreId, schedule.kitLines);
+    }
+
     // Update schedule's last service meter
     await db.pMSchedule.update({
       where: { id: schedule.id },
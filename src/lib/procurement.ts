@@ -0,0 +1,906 @@
+/**
+ * Procurement Engine
+ * Purchase requisitions, purchase orders, receipts against PO lines and supplier invoice three-way matching.
+ * Receipts against a PO post to the stock ledger at the agreed PO price; invoices are matched
+ * against that price and the received quantity before they can be approved for payment, and an
+ * approved price difference revalues the received stock still on hand.
+ */
+
+import { db } from '@/lib/db';
+import { postGoodsReceipt } from '@/lib/inventory';
+import { getReorderProposals } from '@/lib/replenishment';
+import { toStockQuantity, toStockUnitCost } from '@/lib/uom';
+
+// Maximum document value each role may approve
+export const APPROVAL_LIMITS: Record<string, number> = {
+  MANAGER: 10000,
+  ADMIN: Infinity,
+};
+
+// Invoice unit price may differ from the PO price by this much and still match
+export const INVOICE_PRICE_TOLERANCE_PERCENT = 2;
+
+// Types
+export interface RequisitionLineInput {
+  itemId: string;
+  quantity: number;
+  estimatedUnitCost?: number;
+}
+
+export interface CreateRequisitionInput {
+  companyId: string;
+  storeId: string;
+  notes?: string;
+  lines: RequisitionLineInput[];
+  userId: string;
+}
+
+export interface PurchaseOrderLineInput {
+  itemId: string;
+  quantity: number;
+  unitPrice: number;
+  uom?: string | null; // Unit ordered and priced in, e.g. the purchase UOM; defaults to stock UOM
+}
+
+export interface CreatePurchaseOrderInput {
+  companyId: string;
+  supplierId: string;
+  storeId: string;
+  requisitionId?: string;
+  expectedDeliveryDate?: Date;
+  notes?: string;
+  lines: PurchaseOrderLineInput[];
+  userId: string;
+}
+
+export interface OrderReceiptLineInput {
+  orderLineId: string;
+  quantity: number;
+  serialNumbers?: string[];
+  batchNumber?: string;
+  expiryDate?: Date | null;
+}
+
+export interface InvoiceLineInput {
+  orderLineId: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface SupplierInvoiceInput {
+  companyId: string;
+  purchaseOrderId: string;
+  invoiceNumber: string;
+  invoiceDate?: Date;
+  lines: InvoiceLineInput[];
+  userId: string;
+}
+
+const orderInclude = {
+  supplier: { select: { id: true, code: true, name: true } },
+  store: { select: { id: true, name: true, code: true } },
+  requisition: { select: { id: true, requisitionNumber: true } },
+  lines: {
+    include: {
+      item: { select: { id: true, code: true, description: true, uom: true } },
+    },
+  },
+};
+
+/**
+ * Generate a purchase requisition number
+ */
+export function generateRequisitionNumber(): string {
+  return `PR-${Date.now().toString(36).toUpperCase()}`;
+}
+
+/**
+ * Generate a purchase order number
+ */
+export function generatePurchaseOrderNumber(): string {
+  return `PO-${Date.now().toString(36).toUpperCase()}`;
+}
+
+/**
+ * Get the approval limit for a role (0 when the role cannot approve)
+ */
+export function getApprovalLimit(role: string): number {
+  return APPROVAL_LIMITS[role] ?? 0;
+}
+
+function assertCanApprove(role: string, value: number) {
+  const limit = getApprovalLimit(role);
+  if (limit <= 0) {
+    throw new Error('Your role cannot approve purchasing documents');
+  }
+  if (value > limit) {
+    throw new Error(`Value ${value.toFixed(2)} exceeds your approval limit of ${limit.toFixed(2)}`);
+  }
+}
+
+/**
+ * Create a purchase requisition in SUBMITTED status
+ */
+export async function createRequisition(input: CreateRequisitionInput) {
+  const { companyId, storeId, notes, lines, userId } = input;
+
+  if (!lines || lines.length === 0) {
+    throw new Error('At least one requisition line is required');
+  }
+
+  for (const line of lines) {
+    if (!line.itemId || !(line.quantity > 0)) {
+      throw new Error('Each requisition line requires an item and a quantity greater than 0');
+    }
+  }
+
+  const store = await db.store.findFirst({
+    where: { id: storeId, companyId },
+  });
+
+  if (!store) {
+    throw new Error('Store not found');
+  }
+
+  const items = await db.item.findMany({
+    where: { id: { in: lines.map((l) => l.itemId) }, companyId },
+    select: { id: true, unitPrice: true, weightedAvgCost: true },
+  });
+  const itemsById = new Map(items.map((i) => [i.id, i]));
+
+  if (itemsById.size !== new Set(lines.map((l) => l.itemId)).size) {
+    throw new Error('One or more items not found');
+  }
+
+  const costedLines = lines.map((l) => {
+    const item = itemsById.get(l.itemId)!;
+    return {
+      itemId: l.itemId,
+      quantity: l.quantity,
+      estimatedUnitCost: l.estimatedUnitCost ?? (item.weightedAvgCost || item.unitPrice || 0),
+    };
+  });
+
+  const requisition = await db.purchaseRequisition.create({
+    data: {
+      companyId,
+      storeId,
+      requestedById: userId,
+      requisitionNumber: generateRequisitionNumber(),
+      status: 'SUBMITTED',
+      notes,
+      estimatedValue: costedLines.reduce((sum, l) => sum + l.quantity * l.estimatedUnitCost, 0),
+      createdBy: userId,
+      lines: {
+        create: costedLines,
+      },
+    },
+    include: { lines: true },
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'CREATE',
+      entity: 'PurchaseRequisition',
+      entityId: requisition.id,
+      newValue: JSON.stringify(requisition),
+    },
+  });
+
+  return requisition;
+}
+
+/**
+ * Raise one requisition per store from the current reorder proposals
+ */
+export async function createRequisitionsFromReorder(
+  companyId: string,
+  userId: string,
+  storeId?: string
+) {
+  const proposals = await getReorderProposals(companyId, storeId);
+
+  if (proposals.length === 0) {
+    throw new Error('No items need reordering');
+  }
+
+  const byStore = new Map<string, typeof proposals>();
+  for (const proposal of proposals) {
+    byStore.set(proposal.storeId, [...(byStore.get(proposal.storeId) || []), proposal]);
+  }
+
+  const requisitions: Awaited<ReturnType<typeof createRequisition>>[] = [];
+  for (const [proposalStoreId, storeProposals] of byStore) {
+    requisitions.push(
+      await createRequisition({
+        companyId,
+        storeId: proposalStoreId,
+        notes: 'Raised from reorder proposals',
+        lines: storeProposals.map((p) => ({
+          itemId: p.itemId,
+          quantity: p.suggestedQty,
+          estimatedUnitCost: p.unitCost,
+        })),
+        userId,
+      })
+    );
+  }
+
+  return requisitions;
+}
+
+/**
+ * Approve or reject a submitted requisition
+ */
+export async function decideRequisition(
+  requisitionId: string,
+  companyId: string,
+  userId: string,
+  role: string,
+  approve: boolean,
+  rejectionReason?: string
+) {
+  const requisition = await db.purchaseRequisition.findFirst({
+    where: { id: requisitionId, companyId },
+  });
+
+  if (!requisition) {
+    throw new Error('Requisition not found');
+  }
+
+  if (requisition.status !== 'SUBMITTED') {
+    throw new Error(`Cannot ${approve ? 'approve' : 'reject'} requisition in ${requisition.status} status`);
+  }
+
+  assertCanApprove(role, approve ? requisition.estimatedValue : 0);
+
+  if (!approve && !rejectionReason) {
+    throw new Error('Rejection reason is required');
+  }
+
+  const updated = await db.purchaseRequisition.update({
+    where: { id: requisitionId },
+    data: approve
+      ? { status: 'APPROVED', approvedById: userId, approvedAt: new Date(), updatedBy: userId }
+      : { status: 'REJECTED', rejectionReason, updatedBy: userId },
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: approve ? 'APPROVE' : 'REJECT',
+      entity: 'PurchaseRequisition',
+      entityId: requisitionId,
+      newValue: JSON.stringify(updated),
+    },
+  });
+
+  return updated;
+}
+
+/**
+ * Create a purchase order in DRAFT status, optionally from an approved requisition
+ */
+export async function createPurchaseOrder(input: CreatePurchaseOrderInput) {
+  const { companyId, supplierId, storeId, requisitionId, expectedDeliveryDate, notes, lines, userId } = input;
+
+  if (!lines || lines.length === 0) {
+    throw new Error('At least one order line is required');
+  }
+
+  for (const line of lines) {
+    if (!line.itemId || !(line.quantity > 0)) {
+      throw new Error('Each order line requires an item and a quantity greater than 0');
+    }
+    if (!(line.unitPrice >= 0)) {
+      throw new Error('Unit price must be 0 or greater');
+    }
+  }
+
+  const supplier = await db.supplier.findFirst({
+    where: { id: supplierId, companyId, status: 'ACTIVE' },
+  });
+
+  if (!supplier) {
+    throw new Error('Supplier not found');
+  }
+
+  const store = await db.store.findFirst({
+    where: { id: storeId, companyId },
+  });
+
+  if (!store) {
+    throw new Error('Store not found');
+  }
+
+  const itemIds = [...new Set(lines.map((l) => l.itemId))];
+  const itemCount = await db.item.count({
+    where: { id: { in: itemIds }, companyId },
+  });
+
+  if (itemCount !== itemIds.length) {
+    throw new Error('Item not found');
+  }
+
+  // The factor is fixed on the line so receipts convert at the rate the order was placed at
+  const orderLines: (PurchaseOrderLineInput & { totalPrice: number; uomFactor: number })[] = [];
+  for (const line of lines) {
+    const converted = await toStockQuantity(line.itemId, line.quantity, line.uom);
+    orderLines.push({
+      itemId: line.itemId,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      totalPrice: line.quantity * line.unitPrice,
+      uom: converted.uom,
+      uomFactor: converted.factor,
+    });
+  }
+
+  if (requisitionId) {
+    const requisition = await db.purchaseRequisition.findFirst({
+      where: { id: requisitionId, companyId },
+    });
+
+    if (!requisition) {
+      throw new Error('Requisition not found');
+    }
+
+    if (requisition.status !== 'APPROVED') {
+      throw new Error('Requisition must be approved before ordering');
+    }
+  }
+
+  const order = await db.purchaseOrder.create({
+    data: {
+      companyId,
+      supplierId,
+      storeId,
+      requisitionId,
+      poNumber: generatePurchaseOrderNumber(),
+      status: 'DRAFT',
+      expectedDeliveryDate,
+      notes,
+      totalValue: lines.reduce((sum, l) => sum + l.quantity * l.unitPrice, 0),
+      createdBy: userId,
+      lines: {
+        create: orderLines,
+      },
+    },
+    include: orderInclude,
+  });
+
+  if (requisitionId) {
+    await db.purchaseRequisition.update({
+      where: { id: requisitionId },
+      data: { status: 'ORDERED', updatedBy: userId },
+    });
+  }
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'CREATE',
+      entity: 'PurchaseOrder',
+      entityId: order.id,
+      newValue: JSON.stringify(order),
+    },
+  });
+
+  return order;
+}
+
+/**
+ * Approve a draft purchase order within the approver's limit
+ */
+export async function approvePurchaseOrder(orderId: string, companyId: string, userId: string, role: string) {
+  const order = await db.purchaseOrder.findFirst({
+    where: { id: orderId, companyId },
+  });
+
+  if (!order) {
+    throw new Error('Purchase order not found');
+  }
+
+  if (order.status !== 'DRAFT') {
+    throw new Error(`Cannot approve purchase order in ${order.status} status`);
+  }
+
+  assertCanApprove(role, order.totalValue);
+
+  const updated = await db.purchaseOrder.update({
+    where: { id: orderId },
+    data: {
+      status: 'APPROVED',
+      approvedById: userId,
+      approvedAt: new Date(),
+      updatedBy: userId,
+    },
+    include: orderInclude,
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'APPROVE',
+      entity: 'PurchaseOrder',
+      entityId: orderId,
+      newValue: JSON.stringify(updated),
+    },
+  });
+
+  return updated;
+}
+
+/**
+ * Cancel a purchase order that has not received anything yet
+ */
+export async function cancelPurchaseOrder(orderId: string, companyId: string, userId: string) {
+  const order = await db.purchaseOrder.findFirst({
+    where: { id: orderId, companyId },
+  });
+
+  if (!order) {
+    throw new Error('Purchase order not found');
+  }
+
+  if (order.status !== 'DRAFT' && order.status !== 'APPROVED') {
+    throw new Error(`Cannot cancel purchase order in ${order.status} status`);
+  }
+
+  const updated = await db.purchaseOrder.update({
+    where: { id: orderId },
+    data: { status: 'CANCELLED', updatedBy: userId },
+    include: orderInclude,
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'CANCEL',
+      entity: 'PurchaseOrder',
+      entityId: orderId,
+    },
+  });
+
+  return updated;
+}
+
+/**
+ * Short-close a partially received purchase order (no further receipts expected)
+ */
+export async function closePurchaseOrder(orderId: string, companyId: string, userId: string) {
+  const order = await db.purchaseOrder.findFirst({
+    where: { id: orderId, companyId },
+  });
+
+  if (!order) {
+    throw new Error('Purchase order not found');
+  }
+
+  if (order.status !== 'PARTIALLY_RECEIVED' && order.status !== 'RECEIVED') {
+    throw new Error(`Cannot close purchase order in ${order.status} status`);
+  }
+
+  return db.purchaseOrder.update({
+    where: { id: orderId },
+    data: { status: 'CLOSED', updatedBy: userId },
+    include: orderInclude,
+  });
+}
+
+/**
+ * Receive goods against PO lines (partial receipts allowed)
+ * Quantities are entered in the unit ordered; stock is posted in stock units at the agreed PO price
+ */
+export async function receivePurchaseOrder(
+  orderId: string,
+  companyId: string,
+  userId: string,
+  receivedLines: OrderReceiptLineInput[],
+  supplierReference?: string,
+  notes?: string
+) {
+  const order = await db.purchaseOrder.findFirst({
+    where: { id: orderId, companyId },
+    include: {
+      supplier: { select: { name: true } },
+      lines: { include: { item: { select: { description: true } } } },
+    },
+  });
+
+  if (!order) {
+    throw new Error('Purchase order not found');
+  }
+
+  if (order.status !== 'APPROVED' && order.status !== 'PARTIALLY_RECEIVED') {
+    throw new Error(`Cannot receive against purchase order in ${order.status} status`);
+  }
+
+  if (!receivedLines || receivedLines.length === 0) {
+    throw new Error('At least one received line is required');
+  }
+
+  const linesById = new Map(order.lines.map((l) => [l.id, l]));
+
+  // Several receipt lines (e.g. one per batch) may draw on the same PO line
+  const receivedByLine = new Map<string, number>();
+
+  for (const received of receivedLines) {
+    if (!linesById.has(received.orderLineId)) {
+      throw new Error('Order line not found');
+    }
+    if (!(received.quantity > 0)) {
+      throw new Error('Received quantity must be greater than 0');
+    }
+    receivedByLine.set(
+      received.orderLineId,
+      (receivedByLine.get(received.orderLineId) || 0) + received.quantity
+    );
+  }
+
+  for (const [orderLineId, quantity] of receivedByLine) {
+    const line = linesById.get(orderLineId)!;
+    const outstanding = line.quantity - line.receivedQty;
+    if (quantity > outstanding) {
+      throw new Error(`Cannot receive more than ordered for ${line.item.description}. Outstanding: ${outstanding}`);
+    }
+  }
+
+  const receipt = await postGoodsReceipt({
+    companyId,
+    storeId: order.storeId,
+    receivedById: userId,
+    purchaseOrderId: order.id,
+    supplierName: order.supplier.name,
+    supplierReference,
+    notes,
+    lines: receivedLines.map((received) => {
+      const line = linesById.get(received.orderLineId)!;
+      return {
+        itemId: line.itemId,
+        orderLineId: line.id,
+        quantity: received.quantity * line.uomFactor,
+        unitCost: toStockUnitCost(line.unitPrice, line.uomFactor),
+        serialNumbers: received.serialNumbers,
+        batchNumber: received.batchNumber,
+        expiryDate: received.expiryDate,
+      };
+    }),
+  });
+
+  for (const received of receivedLines) {
+    await db.purchaseOrderLine.update({
+      where: { id: received.orderLineId },
+      data: { receivedQty: { increment: received.quantity } },
+    });
+  }
+
+  const updatedLines = await db.purchaseOrderLine.findMany({
+    where: { orderId },
+  });
+  const fullyReceived = updatedLines.every((l) => l.receivedQty >= l.quantity);
+
+  await db.purchaseOrder.update({
+    where: { id: orderId },
+    data: {
+      status: fullyReceived ? 'RECEIVED' : 'PARTIALLY_RECEIVED',
+      updatedBy: userId,
+    },
+  });
+
+  return receipt;
+}
+
+/**
+ * Record a supplier invoice and three-way match it
+ * Each line must be within price tolerance of the PO price and not exceed the received, uninvoiced quantity
+ */
+export async function recordSupplierInvoice(input: SupplierInvoiceInput) {
+  const { companyId, purchaseOrderId, invoiceNumber, invoiceDate, lines, userId } = input;
+
+  if (!invoiceNumber) {
+    throw new Error('Invoice number is required');
+  }
+
+  if (!lines || lines.length === 0) {
+    throw new Error('At least one invoice line is required');
+  }
+
+  const order = await db.purchaseOrder.findFirst({
+    where: { id: purchaseOrderId, companyId },
+    include: {
+      lines: { include: { item: { select: { code: true } } } },
+    },
+  });
+
+  if (!order) {
+    throw new Error('Purchase order not found');
+  }
+
+  if (order.status === 'DRAFT' || order.status === 'CANCELLED') {
+    throw new Error(`Cannot invoice purchase order in ${order.status} status`);
+  }
+
+  // A rejected invoice may be re-entered under the same number once corrected
+  const duplicate = await db.supplierInvoice.findFirst({
+    where: { supplierId: order.supplierId, invoiceNumber, status: { not: 'REJECTED' } },
+  });
+
+  if (duplicate) {
+    throw new Error('Invoice number already recorded for this supplier');
+  }
+
+  const linesById = new Map(order.lines.map((l) => [l.id, l]));
+  const exceptions: string[] = [];
+
+  const matchedLines = lines.map((invoiceLine) => {
+    const orderLine = linesById.get(invoiceLine.orderLineId);
+    if (!orderLine) {
+      throw new Error('Order line not found');
+    }
+    if (!(invoiceLine.quantity > 0) || !(invoiceLine.unitPrice >= 0)) {
+      throw new Error('Invoice lines require a quantity greater than 0 and a unit price of 0 or greater');
+    }
+
+    const invoiceable = orderLine.receivedQty - orderLine.invoicedQty;
+    const qtyVariance = invoiceLine.quantity - invoiceable;
+    const priceDifference = invoiceLine.unitPrice - orderLine.unitPrice;
+    const priceVariance = priceDifference * invoiceLine.quantity;
+    const pricePercent = orderLine.unitPrice > 0
+      ? (Math.abs(priceDifference) / orderLine.unitPrice) * 100
+      : priceDifference === 0 ? 0 : Infinity;
+
+    const priceOk = pricePercent <= INVOICE_PRICE_TOLERANCE_PERCENT;
+    const qtyOk = qtyVariance <= 0;
+
+    if (!priceOk) {
+      exceptions.push(`${orderLine.item.code}: invoiced at ${invoiceLine.unitPrice}, PO price ${orderLine.unitPrice}`);
+    }
+    if (!qtyOk) {
+      exceptions.push(`${orderLine.item.code}: invoiced ${invoiceLine.quantity}, received but uninvoiced ${invoiceable}`);
+    }
+
+    return {
+      orderLineId: orderLine.id,
+      itemId: orderLine.itemId,
+      quantity: invoiceLine.quantity,
+      unitPrice: invoiceLine.unitPrice,
+      totalPrice: invoiceLine.quantity * invoiceLine.unitPrice,
+      priceVariance,
+      qtyVariance: Math.max(qtyVariance, 0),
+      isMatched: priceOk && qtyOk,
+    };
+  });
+
+  const invoice = await db.supplierInvoice.create({
+    data: {
+      companyId,
+      supplierId: order.supplierId,
+      purchaseOrderId,
+      invoiceNumber,
+      invoiceDate: invoiceDate || new Date(),
+      status: exceptions.length > 0 ? 'EXCEPTION' : 'MATCHED',
+      totalAmount: matchedLines.reduce((sum, l) => sum + l.totalPrice, 0),
+      matchNotes: exceptions.length > 0 ? exceptions.join('; ') : null,
+      createdBy: userId,
+      lines: {
+        create: matchedLines,
+      },
+    },
+    include: { lines: true },
+  });
+
+  for (const line of matchedLines) {
+    await db.purchaseOrderLine.update({
+      where: { id: line.orderLineId },
+      data: { invoicedQty: { increment: line.quantity } },
+    });
+  }
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'CREATE',
+      entity: 'SupplierInvoice',
+      entityId: invoice.id,
+      newValue: JSON.stringify(invoice),
+    },
+  });
+
+  return invoice;
+}
+
+/**
+ * Post the price difference of approved invoice lines to the stock they were received as
+ * The receipt's cost layers still on hand take the invoice price, the item's weighted average cost
+ * moves with them and a zero-quantity ADJUSTMENT ledger row carries the value. Quantity already
+ * issued stays at the PO price; its share of the difference remains on the invoice line.
+ */
+async function postInvoicePriceVariance(
+  invoice: {
+    id: string;
+    purchaseOrder: { storeId: string };
+    lines: {
+      orderLineId: string;
+      itemId: string;
+      quantity: number;
+      unitPrice: number;
+      orderLine: { unitPrice: number; uomFactor: number };
+    }[];
+  },
+  userId: string
+) {
+  const storeId = invoice.purchaseOrder.storeId;
+
+  for (const line of invoice.lines) {
+    // Invoices are in the unit ordered; layers and the ledger are per stock unit
+    const { uomFactor } = line.orderLine;
+    const difference = toStockUnitCost(line.unitPrice - line.orderLine.unitPrice, uomFactor);
+    if (difference === 0) continue;
+
+    const receiptLines = await db.goodsReceiptLine.findMany({
+      where: { orderLineId: line.orderLineId },
+      select: { receiptId: true },
+    });
+
+    const layers = await db.costLayer.findMany({
+      where: {
+        itemId: line.itemId,
+        storeId,
+        sourceType: 'RECEIPT',
+        sourceId: { in: receiptLines.map((r) => r.receiptId) },
+        remainingQty: { gt: 0 },
+      },
+      orderBy: [{ receivedAt: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    let remaining = line.quantity * uomFactor;
+    let revaluedQty = 0;
+
+    for (const layer of layers) {
+      if (remaining <= 0) break;
+
+      const take = Math.min(layer.remainingQty, remaining);
+
+      await db.costLayer.update({
+        where: { id: layer.id },
+        data: { unitCost: layer.unitCost + (take * difference) / layer.remainingQty },
+      });
+
+      revaluedQty += take;
+      remaining -= take;
+    }
+
+    if (revaluedQty === 0) continue;
+
+    const value = revaluedQty * difference;
+
+    const item = await db.item.findUnique({
+      where: { id: line.itemId },
+      select: {
+        weightedAvgCost: true,
+        unitPrice: true,
+        stockLevels: { select: { storeId: true, quantity: true, inTransitQty: true } },
+      },
+    });
+
+    if (!item) continue;
+
+    // Weighted average is per item across all stores, as on receipt
+    const onHandQty = item.stockLevels.reduce((sum, s) => sum + s.quantity + s.inTransitQty, 0);
+    if (onHandQty > 0) {
+      await db.item.update({
+        where: { id: line.itemId },
+        data: {
+          weightedAvgCost: (item.weightedAvgCost || item.unitPrice || 0) + value / onHandQty,
+          updatedBy: userId,
+        },
+      });
+    }
+
+    await db.stockLedger.create({
+      data: {
+        itemId: line.itemId,
+        storeId,
+        movementType: 'ADJUSTMENT',
+        quantity: 0,
+        balanceAfter: item.stockLevels.find((s) => s.storeId === storeId)?.quantity || 0,
+        unitCost: difference,
+        totalValue: value,
+        referenceType: 'INVOICE_VARIANCE',
+        referenceId: invoice.id,
+        userId,
+      },
+    });
+  }
+}
+
+/**
+ * Approve a supplier invoice for payment (exceptions need an approver within limit)
+ * Any price difference from the PO is posted to the stock still on hand.
+ */
+export async function approveSupplierInvoice(invoiceId: string, companyId: string, userId: string, role: string) {
+  const invoice = await db.supplierInvoice.findFirst({
+    where: { id: invoiceId, companyId },
+    include: {
+      purchaseOrder: { select: { storeId: true } },
+      lines: { include: { orderLine: { select: { unitPrice: true, uomFactor: true } } } },
+    },
+  });
+
+  if (!invoice) {
+    throw new Error('Invoice not found');
+  }
+
+  if (invoice.status !== 'MATCHED' && invoice.status !== 'EXCEPTION') {
+    throw new Error(`Cannot approve invoice in ${invoice.status} status`);
+  }
+
+  assertCanApprove(role, invoice.totalAmount);
+
+  await postInvoicePriceVariance(invoice, userId);
+
+  const updated = await db.supplierInvoice.update({
+    where: { id: invoiceId },
+    data: {
+      status: 'APPROVED',
+      approvedById: userId,
+      approvedAt: new Date(),
+      updatedBy: userId,
+    },
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'APPROVE',
+      entity: 'SupplierInvoice',
+      entityId: invoiceId,
+      oldValue: JSON.stringify({ status: invoice.status, matchNotes: invoice.matchNotes }),
+    },
+  });
+
+  return updated;
+}
+
+/**
+ * Reject a supplier invoice and release its quantities for re-invoicing
+ */
+export async function rejectSupplierInvoice(invoiceId: string, companyId: string, userId: string) {
+  const invoice = await db.supplierInvoice.findFirst({
+    where: { id: invoiceId, companyId },
+    include: { lines: true },
+  });
+
+  if (!invoice) {
+    throw new Error('Invoice not found');
+  }
+
+  if (invoice.status !== 'MATCHED' && invoice.status !== 'EXCEPTION') {
+    throw new Error(`Cannot reject invoice in ${invoice.status} status`);
+  }
+
+  for (const line of invoice.lines) {
+    await db.purchaseOrderLine.update({
+      where: { id: line.orderLineId },
+      data: { invoicedQty: { decrement: line.quantity } },
+    });
+  }
+
+  const updated = await db.supplierInvoice.update({
+    where: { id: invoiceId },
+    data: { status: 'REJECTED', updatedBy: userId },
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'REJECT',
+      entity: 'SupplierInvoice',
+      entityId: invoiceId,
+    },
+  });
+
+  return updated;
+}
@@ -0,0 +1,339 @@
+/**
+ * Quarantine & Disposition
+ * Damaged and defective returns are held in a quarantine store until a disposition decides their fate:
+ * - REPAIR: moved back to a saleable store (TRANSFER pair), job credited at the return cost
+ * - SUPPLIER_RETURN: shipped back under warranty (OUT), job credited at the return cost
+ * - SCRAP: written off (negative ADJUSTMENT), no job credit; the loss is recorded in the scrap register
+ */
+
+import { db } from '@/lib/db';
+import { addCostLayer, costOutgoingStock } from '@/lib/cost-layers';
+import { creditMaterialCost } from '@/lib/costing';
+import { adjustStock } from '@/lib/inventory';
+import { evaluateStockLevel } from '@/lib/replenishment';
+import { putawayToBin, releaseFromBins } from '@/lib/bins';
+import { allocateBackorders } from '@/lib/backorders';
+import { returnSerialToStore } from '@/lib/tracking';
+
+// Types
+export type DispositionAction = 'REPAIR' | 'SUPPLIER_RETURN' | 'SCRAP';
+
+export interface DispositionInput {
+  companyId: string;
+  returnId: string;
+  action: DispositionAction;
+  storeId?: string;      // REPAIR: saleable store to put the repaired item back into
+  supplierId?: string;   // SUPPLIER_RETURN: supplier taking the item back under warranty
+  notes?: string;
+  userId: string;
+}
+
+export interface ScrapRegisterLine {
+  returnId: string;
+  scrappedAt: Date | null;
+  itemCode: string;
+  itemDescription: string;
+  uom: string | null;
+  quantity: number;
+  condition: string;
+  serialNumber: string | null;
+  jobId: string;
+  jobTitle: string | null;
+  unitCost: number;
+  writeOffValue: number;
+  notes: string | null;
+  scrappedBy: string | null;
+}
+
+/**
+ * Quarantine store for a company: the one given (when it is flagged as quarantine) or the first active one
+ */
+export async function getQuarantineStore(companyId: string, storeId?: string) {
+  const store = await db.store.findFirst({
+    where: {
+      companyId,
+      isQuarantine: true,
+      status: 'ACTIVE',
+      ...(storeId ? { id: storeId } : {}),
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  if (!store) {
+    throw new Error(storeId
+      ? 'Selected store is not a quarantine store'
+      : 'No quarantine store configured for damaged or defective returns');
+  }
+
+  return store;
+}
+
+/**
+ * Apply a disposition to a quarantined return
+ */
+export async function disposeQuarantinedReturn(input: DispositionInput) {
+  const { companyId, returnId, action, storeId, supplierId, notes, userId } = input;
+
+  const itemReturn = await db.itemReturn.findFirst({
+    where: { id: returnId, companyId },
+    include: {
+      item: { select: { code: true } },
+    },
+  });
+
+  if (!itemReturn) {
+    throw new Error('Return not found');
+  }
+
+  if (itemReturn.disposition !== 'QUARANTINED' || !itemReturn.quarantineStoreId) {
+    throw new Error('Return is not held in quarantine');
+  }
+
+  const quarantineStoreId = itemReturn.quarantineStoreId;
+  const { itemId, quantity } = itemReturn;
+  const returnCost = itemReturn.unitCost || 0;
+
+  const quarantineStock = await db.itemStock.findUnique({
+    where: { itemId_storeId: { itemId, storeId: quarantineStoreId } },
+  });
+
+  if (!quarantineStock || quarantineStock.quantity < quantity) {
+    throw new Error(`Quarantine stock for ${itemReturn.item.code} is ${quarantineStock?.quantity || 0}, expected ${quantity}`);
+  }
+
+  let totalCredit: number | null = null;
+  let writeOffValue: number | null = null;
+  let dispositionStoreId: string | null = null;
+
+  if (action === 'REPAIR') {
+    const target = await db.store.findFirst({
+      where: { id: storeId, companyId, status: 'ACTIVE', isQuarantine: false },
+    });
+
+    if (!target) {
+      throw new Error('A saleable store is required to return a repaired item to stock');
+    }
+
+    const { unitCost } = await costOutgoingStock(itemId, quarantineStoreId, quantity);
+
+    const source = await db.itemStock.update({
+      where: { id: quarantineStock.id },
+      data: { quantity: { decrement: quantity } },
+    });
+    await releaseFromBins(itemId, quarantineStoreId, quantity);
+
+    await db.stockLedger.create({
+      data: {
+        itemId,
+        storeId: quarantineStoreId,
+        movementType: 'TRANSFER',
+        quantity: -quantity,
+        balanceAfter: source.quantity,
+        unitCost,
+        totalValue: -quantity * unitCost,
+        referenceType: 'REPAIR',
+        referenceId: returnId,
+        userId,
+      },
+    });
+
+    const destination = await db.itemStock.upsert({
+      where: { itemId_storeId: { itemId, storeId: target.id } },
+      update: { quantity: { increment: quantity } },
+      create: { itemId, storeId: target.id, quantity },
+    });
+
+    await addCostLayer({
+      itemId,
+      storeId: target.id,
+      quantity,
+      unitCost,
+      sourceType: 'REPAIR',
+      sourceId: returnId,
+    });
+
+    const binId = await putawayToBin(itemId, target.id, quantity);
+
+    await db.stockLedger.create({
+      data: {
+        itemId,
+        storeId: target.id,
+        movementType: 'TRANSFER',
+        quantity,
+        balanceAfter: destination.quantity,
+        unitCost,
+        totalValue: quantity * unitCost,
+        referenceType: 'REPAIR',
+        referenceId: returnId,
+        binId,
+        userId,
+      },
+    });
+
+    if (itemReturn.serialNumber) {
+      await returnSerialToStore({
+        itemId,
+        serialNumber: itemReturn.serialNumber,
+        storeId: target.id,
+        condition: 'GOOD',
+        returnId,
+        userId,
+      });
+    }
+
+    await evaluateStockLevel(itemId, target.id);
+    await allocateBackorders(itemId, target.id, userId);
+
+    dispositionStoreId = target.id;
+    totalCredit = quantity * returnCost;
+  } else if (action === 'SUPPLIER_RETURN') {
+    const supplier = await db.supplier.findFirst({
+      where: { id: supplierId, companyId },
+    });
+
+    if (!supplier) {
+      throw new Error('Supplier is required for a warranty return');
+    }
+
+    const { unitCost, totalCost } = await costOutgoingStock(itemId, quarantineStoreId, quantity);
+
+    const source = await db.itemStock.update({
+      where: { id: quarantineStock.id },
+      data: { quantity: { decrement: quantity } },
+    });
+    await releaseFromBins(itemId, quarantineStoreId, quantity);
+
+    await db.stockLedger.create({
+      data: {
+        itemId,
+        storeId: quarantineStoreId,
+        movementType: 'OUT',
+        quantity,
+        balanceAfter: source.quantity,
+        unitCost,
+        totalValue: totalCost,
+        referenceType: 'SUPPLIER_RETURN',
+        referenceId: returnId,
+        userId,
+      },
+    });
+
+    totalCredit = quantity * returnCost;
+  } else if (action === 'SCRAP') {
+    const adjustment = await adjustStock({
+      itemId,
+      storeId: quarantineStoreId,
+      quantity: -quantity,
+      referenceType: 'SCRAP',
+      referenceId: returnId,
+      userId,
+    });
+
+    writeOffValue = Math.abs(adjustment.totalValue);
+  } else {
+    throw new Error('Invalid disposition');
+  }
+
+  // Serials leaving the business are no longer held in any store
+  if (itemReturn.serialNumber && action !== 'REPAIR') {
+    await db.itemSerial.updateMany({
+      where: { itemId, serialNumber: itemReturn.serialNumber },
+      data: { storeId: null, updatedBy: userId },
+    });
+  }
+
+  // Repaired and warranty-returned parts are credited back to the job; scrap stays a job cost
+  if (totalCredit && returnCost > 0) {
+    await creditMaterialCost(
+      itemReturn.jobId,
+      itemId,
+      quantity,
+      returnCost,
+      action,
+      returnId,
+      userId
+    );
+  }
+
+  const dispositionMap: Record<DispositionAction, 'REPAIRED' | 'SUPPLIER_RETURN' | 'SCRAPPED'> = {
+    REPAIR: 'REPAIRED',
+    SUPPLIER_RETURN: 'SUPPLIER_RETURN',
+    SCRAP: 'SCRAPPED',
+  };
+
+  const updated = await db.itemReturn.update({
+    where: { id: returnId },
+    data: {
+      disposition: dispositionMap[action],
+      dispositionStoreId,
+      supplierId: action === 'SUPPLIER_RETURN' ? supplierId : null,
+      totalCredit: totalCredit ?? 0,
+      writeOffValue,
+      dispositionNotes: notes || null,
+      dispositionById: userId,
+      dispositionAt: new Date(),
+    },
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'DISPOSE',
+      entity: 'ItemReturn',
+      entityId: returnId,
+      oldValue: JSON.stringify({ disposition: 'QUARANTINED' }),
+      newValue: JSON.stringify({ disposition: updated.disposition, totalCredit, writeOffValue }),
+    },
+  });
+
+  return updated;
+}
+
+/**
+ * Scrap register: quarantined returns written off in a date range
+ */
+export async function getScrapRegister(
+  companyId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<ScrapRegisterLine[]> {
+  const scrapped = await db.itemReturn.findMany({
+    where: {
+      companyId,
+      disposition: 'SCRAPPED',
+      dispositionAt: { gte: startDate, lte: endDate },
+    },
+    include: {
+      item: { select: { code: true, description: true, uom: true } },
+    },
+    orderBy: { dispositionAt: 'asc' },
+  });
+
+  const [jobs, users] = await Promise.all([
+    db.job.findMany({
+      where: { id: { in: [...new Set(scrapped.map((r) => r.jobId))] } },
+      select: { id: true, title: true },
+    }),
+    db.user.findMany({
+      where: { id: { in: scrapped.map((r) => r.dispositionById).filter((id): id is string => !!id) } },
+      select: { id: true, name: true },
+    }),
+  ]);
+
+  return scrapped.map((r) => ({
+    returnId: r.id,
+    scrappedAt: r.dispositionAt,
+    itemCode: r.item.code,
+    itemDescription: r.item.description,
+    uom: r.item.uom,
+    quantity: r.quantity,
+    condition: r.condition,
+    serialNumber: r.serialNumber,
+    jobId: r.jobId,
+    jobTitle: jobs.find((j) => j.id === r.jobId)?.title || null,
+    unitCost: r.unitCost || 0,
+    writeOffValue: r.writeOffValue || 0,
+    notes: r.dispositionNotes,
+    scrappedBy: users.find((u) => u.id === r.dispositionById)?.name || null,
+  }));
+}
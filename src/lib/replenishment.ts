@@ -0,0 +1,267 @@
+/**
+ * Replenishment Engine
+ * Evaluates store stock against item min/max levels, maintains LOW_STOCK alerts and builds reorder proposals
+ */
+
+import { db } from '@/lib/db';
+
+// Types
+export interface ReorderProposal {
+  itemId: string;
+  itemCode: string;
+  itemDescription: string;
+  uom: string | null;
+  abcClass: string | null;
+  xyzClass: string | null;
+  storeId: string;
+  storeName: string;
+  onHandQty: number;
+  inTransitQty: number;
+  onOrderQty: number;
+  requisitionedQty: number; // On submitted or approved requisitions not yet ordered
+  openDemandQty: number;
+  projectedQty: number;
+  minStock: number;
+  maxStock: number | null;
+  suggestedQty: number;
+  unitCost: number;
+  estimatedValue: number;
+}
+
+/**
+ * Evaluate one item in one store after a stock movement
+ * Raises a LOW_STOCK alert when on-hand falls below minimum, resolves it once replenished
+ */
+export async function evaluateStockLevel(itemId: string, storeId: string) {
+  const stockLevel = await db.itemStock.findUnique({
+    where: {
+      itemId_storeId: { itemId, storeId },
+    },
+    include: {
+      item: {
+        select: { companyId: true, code: true, description: true, minStock: true },
+      },
+      store: { select: { name: true, isQuarantine: true } },
+    },
+  });
+
+  // Quarantined stock is not saleable and never triggers replenishment
+  if (!stockLevel || stockLevel.store.isQuarantine) return;
+
+  const { item, store } = stockLevel;
+
+  const openAlert = await db.alert.findFirst({
+    where: {
+      companyId: item.companyId,
+      type: 'LOW_STOCK',
+      referenceType: 'ITEM_STOCK',
+      referenceId: stockLevel.id,
+      isResolved: false,
+    },
+  });
+
+  const isLow = !!item.minStock && stockLevel.quantity < item.minStock;
+
+  if (isLow && !openAlert) {
+    await db.alert.create({
+      data: {
+        companyId: item.companyId,
+        type: 'LOW_STOCK',
+        severity: stockLevel.quantity <= 0 ? 'HIGH' : 'MEDIUM',
+        title: `Low Stock - ${item.code}`,
+        message: `${item.description} at ${store.name} is at ${stockLevel.quantity} (minimum ${item.minStock})`,
+        referenceType: 'ITEM_STOCK',
+        referenceId: stockLevel.id,
+      },
+    });
+  } else if (!isLow && openAlert) {
+    await db.alert.update({
+      where: { id: openAlert.id },
+      data: {
+        isResolved: true,
+        resolvedAt: new Date(),
+        resolutionNotes: `Stock replenished to ${stockLevel.quantity}`,
+      },
+    });
+  }
+}
+
+/**
+ * Evaluate every stocked item for a company (e.g. after min/max changes)
+ */
+export async function evaluateAllStockLevels(companyId: string): Promise<number> {
+  const stockLevels = await db.itemStock.findMany({
+    where: {
+      item: { companyId, status: 'ACTIVE' },
+    },
+    select: { itemId: true, storeId: true },
+  });
+
+  for (const level of stockLevels) {
+    await evaluateStockLevel(level.itemId, level.storeId);
+  }
+
+  return stockLevels.length;
+}
+
+/**
+ * Build reorder proposals for items whose projected stock is below minimum
+ * Projected = on hand + pending receipts (in transit, on order and requisitioned) - open request demand; order up to max
+ */
+export async function getReorderProposals(
+  companyId: string,
+  storeId?: string
+): Promise<ReorderProposal[]> {
+  const where: Record<string, unknown> = {
+    item: {
+      companyId,
+      status: 'ACTIVE',
+      minStock: { not: null },
+    },
+    store: { isQuarantine: false },
+  };
+
+  if (storeId) {
+    where.storeId = storeId;
+  }
+
+  const stockLevels = await db.itemStock.findMany({
+    where,
+    include: {
+      item: {
+        select: {
+          id: true,
+          code: true,
+          description: true,
+          uom: true,
+          minStock: true,
+          maxStock: true,
+          unitPrice: true,
+          weightedAvgCost: true,
+          abcClass: true,
+          xyzClass: true,
+        },
+      },
+      store: { select: { id: true, name: true } },
+    },
+  });
+
+  // Requested but not yet issued quantities per item/store
+  const openLines = await db.itemRequestLine.findMany({
+    where: {
+      itemId: { in: stockLevels.map((s) => s.itemId) },
+      request: {
+        companyId,
+        isVoid: false,
+        status: { in: ['PENDING', 'APPROVED', 'PARTIAL'] },
+        ...(storeId ? { storeId } : {}),
+      },
+    },
+    select: {
+      itemId: true,
+      requestedQty: true,
+      approvedQty: true,
+      issuedQty: true,
+      request: { select: { storeId: true } },
+    },
+  });
+
+  // Approved purchase order quantities not yet received
+  const openOrderLines = await db.purchaseOrderLine.findMany({
+    where: {
+      itemId: { in: stockLevels.map((s) => s.itemId) },
+      order: {
+        companyId,
+        status: { in: ['APPROVED', 'PARTIALLY_RECEIVED'] },
+        ...(storeId ? { storeId } : {}),
+      },
+    },
+    select: {
+      itemId: true,
+      quantity: true,
+      receivedQty: true,
+      uomFactor: true,
+      order: { select: { storeId: true } },
+    },
+  });
+
+  // Requisitioned but not yet ordered, so repeated runs do not raise the same shortage again
+  const openRequisitionLines = await db.purchaseRequisitionLine.findMany({
+    where: {
+      itemId: { in: stockLevels.map((s) => s.itemId) },
+      requisition: {
+        companyId,
+        status: { in: ['SUBMITTED', 'APPROVED'] },
+        ...(storeId ? { storeId } : {}),
+      },
+    },
+    select: {
+      itemId: true,
+      quantity: true,
+      requisition: { select: { storeId: true } },
+    },
+  });
+
+  const requisitioned = new Map<string, number>();
+  for (const line of openRequisitionLines) {
+    const key = `${line.itemId}:${line.requisition.storeId}`;
+    requisitioned.set(key, (requisitioned.get(key) || 0) + line.quantity);
+  }
+
+  const onOrder = new Map<string, number>();
+  for (const line of openOrderLines) {
+    const key = `${line.itemId}:${line.order.storeId}`;
+    onOrder.set(key, (onOrder.get(key) || 0) + Math.max(line.quantity - line.receivedQty, 0) * line.uomFactor);
+  }
+
+  const demand = new Map<string, number>();
+  for (const line of openLines) {
+    const key = `${line.itemId}:${line.request.storeId}`;
+    const outstanding = Math.max((line.approvedQty ?? line.requestedQty) - (line.issuedQty || 0), 0);
+    demand.set(key, (demand.get(key) || 0) + outstanding);
+  }
+
+  const proposals: ReorderProposal[] = [];
+
+  for (const stock of stockLevels) {
+    const { item } = stock;
+    const minStock = item.minStock!;
+    const key = `${stock.itemId}:${stock.storeId}`;
+    const onOrderQty = onOrder.get(key) || 0;
+    const requisitionedQty = requisitioned.get(key) || 0;
+    const openDemandQty = demand.get(key) || 0;
+    const projectedQty = stock.quantity + stock.inTransitQty + onOrderQty + requisitionedQty - openDemandQty;
+
+    if (projectedQty >= minStock) continue;
+
+    const targetQty = item.maxStock ?? minStock;
+    const suggestedQty = Math.max(targetQty - projectedQty, 0);
+    if (suggestedQty <= 0) continue;
+
+    const unitCost = item.weightedAvgCost || item.unitPrice || 0;
+
+    proposals.push({
+      itemId: item.id,
+      itemCode: item.code,
+      itemDescription: item.description,
+      uom: item.uom,
+      abcClass: item.abcClass,
+      xyzClass: item.xyzClass,
+      storeId: stock.store.id,
+      storeName: stock.store.name,
+      onHandQty: stock.quantity,
+      inTransitQty: stock.inTransitQty,
+      onOrderQty,
+      requisitionedQty,
+      openDemandQty,
+      projectedQty,
+      minStock,
+      maxStock: item.maxStock,
+      suggestedQty,
+      unitCost,
+      estimatedValue: suggestedQty * unitCost,
+    });
+  }
+
+  return proposals.sort((a, b) => a.projectedQty - a.minStock - (b.projectedQty - b.minStock));
+}
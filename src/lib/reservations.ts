@@ -0,0 +1,312 @@
+/**
+ * Stock Reservation Engine
+ * Holds approved request quantities against store stock so the same units cannot be promised twice.
+ * On hand = ItemStock.quantity, reserved = ItemStock.reservedQty, available to promise = on hand - reserved
+ */
+
+import { db } from '@/lib/db';
+
+// Reservations not issued within this many days are released automatically
+const RESERVATION_EXPIRY_DAYS = 7;
+
+// Types
+export interface StockAvailability {
+  itemId: string;
+  storeId: string;
+  onHandQty: number;
+  reservedQty: number;
+  availableQty: number;
+}
+
+export interface LineReservationInput {
+  requestId: string;
+  requestLineId: string;
+  itemId: string;
+  storeId: string;
+  quantity: number;
+  userId?: string;
+}
+
+/**
+ * Move an item/store's reserved quantity by delta, never below zero
+ */
+async function adjustReservedQty(itemId: string, storeId: string, delta: number) {
+  const stockLevel = await db.itemStock.findUnique({
+    where: { itemId_storeId: { itemId, storeId } },
+  });
+
+  if (!stockLevel) return;
+
+  await db.itemStock.update({
+    where: { id: stockLevel.id },
+    data: { reservedQty: Math.max(stockLevel.reservedQty + delta, 0) },
+  });
+}
+
+/**
+ * Close out active reservations and hand their quantity back to available stock
+ */
+async function closeReservations(
+  reservations: { id: string; itemId: string; storeId: string; quantity: number }[],
+  status: 'RELEASED' | 'EXPIRED' | 'CONSUMED',
+  reason: string
+) {
+  for (const reservation of reservations) {
+    await adjustReservedQty(reservation.itemId, reservation.storeId, -reservation.quantity);
+
+    await db.stockReservation.update({
+      where: { id: reservation.id },
+      data: {
+        status,
+        releasedAt: new Date(),
+        releaseReason: reason,
+      },
+    });
+  }
+}
+
+/**
+ * Release reservations that have passed their expiry date
+ */
+export async function expireReservations(companyId?: string) {
+  const expired = await db.stockReservation.findMany({
+    where: {
+      status: 'ACTIVE',
+      expiresAt: { lt: new Date() },
+      ...(companyId ? { request: { companyId } } : {}),
+    },
+  });
+
+  await closeReservations(expired, 'EXPIRED', `Not issued within ${RESERVATION_EXPIRY_DAYS} days`);
+
+  return expired.length;
+}
+
+/**
+ * On hand, reserved and available-to-promise quantities for items in a store
+ */
+export async function getStockAvailability(
+  storeId: string,
+  itemIds: string[]
+): Promise<StockAvailability[]> {
+  // Only the store's own company: other tenants' reservations are left to their own reads
+  const store = await db.store.findUnique({
+    where: { id: storeId },
+    select: { companyId: true },
+  });
+
+  if (store) {
+    await expireReservations(store.companyId);
+  }
+
+  const stockLevels = await db.itemStock.findMany({
+    where: { storeId, itemId: { in: itemIds } },
+  });
+
+  return itemIds.map((itemId) => {
+    const stock = stockLevels.find((s) => s.itemId === itemId);
+    const onHandQty = stock?.quantity || 0;
+    const reservedQty = stock?.reservedQty || 0;
+
+    return {
+      itemId,
+      storeId,
+      onHandQty,
+      reservedQty,
+      availableQty: Math.max(onHandQty - reservedQty, 0),
+    };
+  });
+}
+
+/**
+ * Hold a quantity of a store's stock for one request line
+ */
+export async function reserveLine(input: LineReservationInput) {
+  const { requestId, requestLineId, itemId, storeId, quantity, userId } = input;
+
+  const reservation = await db.stockReservation.create({
+    data: {
+      requestId,
+      requestLineId,
+      itemId,
+      storeId,
+      quantity,
+      expiresAt: new Date(Date.now() + RESERVATION_EXPIRY_DAYS * 24 * 60 * 60 * 1000),
+      createdBy: userId,
+    },
+  });
+
+  await adjustReservedQty(itemId, storeId, quantity);
+
+  return reservation;
+}
+
+/**
+ * Reserve the approved, not yet issued quantity of every line on a request
+ * Lines short of available-to-promise reserve what there is and put the full outstanding quantity
+ * on backorder, to be reserved by allocateBackorders as stock arrives. Returns the backordered lines.
+ */
+export async function reserveRequest(requestId: string, userId: string) {
+  const itemRequest = await db.itemRequest.findUnique({
+    where: { id: requestId },
+    include: {
+      lines: {
+        include: {
+          item: { select: { code: true, uom: true } },
+        },
+      },
+    },
+  });
+
+  if (!itemRequest) {
+    throw new Error('Request not found');
+  }
+
+  const toReserve = itemRequest.lines
+    .map((line) => ({
+      line,
+      quantity: (line.approvedQty ?? line.requestedQty) - (line.issuedQty || 0),
+    }))
+    .filter((r) => r.quantity > 0);
+
+  const availability = await getStockAvailability(
+    itemRequest.storeId,
+    toReserve.map((r) => r.line.itemId)
+  );
+
+  const reserved: { itemId: string; quantity: number; backorderQty: number }[] = [];
+  const backordered: typeof itemRequest.lines = [];
+
+  for (const { line, quantity } of toReserve) {
+    const available = availability.find((a) => a.itemId === line.itemId)?.availableQty || 0;
+    const reserveQty = Math.min(quantity, available);
+
+    if (reserveQty > 0) {
+      await reserveLine({
+        requestId,
+        requestLineId: line.id,
+        itemId: line.itemId,
+        storeId: itemRequest.storeId,
+        quantity: reserveQty,
+        userId,
+      });
+    }
+
+    // Backorder quantity is everything outstanding; what is already held counts towards it
+    const backorderQty = reserveQty < quantity ? quantity : 0;
+    if (backorderQty !== line.backorderQty) {
+      await db.itemRequestLine.update({
+        where: { id: line.id },
+        data: { backorderQty },
+      });
+    }
+
+    reserved.push({ itemId: line.itemId, quantity: reserveQty, backorderQty });
+    if (backorderQty > 0) backordered.push(line);
+  }
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'RESERVE',
+      entity: 'ItemRequest',
+      entityId: requestId,
+      newValue: JSON.stringify(reserved),
+    },
+  });
+
+  return backordered;
+}
+
+/**
+ * Quantity a request line may issue: unreserved stock plus whatever the line itself holds
+ */
+export async function getIssuableQty(requestLineId: string, itemId: string, storeId: string) {
+  const [stockLevel, held] = await Promise.all([
+    db.itemStock.findUnique({
+      where: { itemId_storeId: { itemId, storeId } },
+    }),
+    db.stockReservation.aggregate({
+      where: { requestLineId, status: 'ACTIVE' },
+      _sum: { quantity: true },
+    }),
+  ]);
+
+  if (!stockLevel) return 0;
+
+  const ownReserved = held._sum.quantity || 0;
+  return Math.min(stockLevel.quantity, stockLevel.quantity - stockLevel.reservedQty + ownReserved);
+}
+
+/**
+ * Draw down a line's reservation as its stock is issued
+ */
+export async function consumeReservation(requestLineId: string, quantity: number) {
+  const reservations = await db.stockReservation.findMany({
+    where: { requestLineId, status: 'ACTIVE' },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  let remaining = quantity;
+
+  for (const reservation of reservations) {
+    if (remaining <= 0) break;
+
+    const take = Math.min(reservation.quantity, remaining);
+    await adjustReservedQty(reservation.itemId, reservation.storeId, -take);
+
+    await db.stockReservation.update({
+      where: { id: reservation.id },
+      data: take < reservation.quantity
+        ? { quantity: reservation.quantity - take }
+        : { quantity: 0, status: 'CONSUMED', releasedAt: new Date(), releaseReason: 'Issued' },
+    });
+
+    remaining -= take;
+  }
+}
+
+/**
+ * Release everything still held for a request (rejected, cancelled, voided or closed out)
+ */
+export async function releaseRequestReservations(requestId: string, reason: string, userId: string) {
+  const reservations = await db.stockReservation.findMany({
+    where: { requestId, status: 'ACTIVE' },
+  });
+
+  if (reservations.length === 0) return 0;
+
+  await closeReservations(reservations, 'RELEASED', reason);
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'RELEASE',
+      entity: 'ItemRequest',
+      entityId: requestId,
+      newValue: JSON.stringify({ reason, reservations: reservations.length }),
+    },
+  });
+
+  return reservations.length;
+}
+
+/**
+ * Release reservations on all of a job's requests when the job is cancelled or deleted
+ */
+export async function releaseJobReservations(jobId: string, reason: string, userId: string) {
+  const requests = await db.itemRequest.findMany({
+    where: {
+      jobId,
+      reservations: { some: { status: 'ACTIVE' } },
+    },
+    select: { id: true },
+  });
+
+  let released = 0;
+  for (const request of requests) {
+    released += await releaseRequestReservations(request.id, reason, userId);
+  }
+
+  return released;
+}
@@ -0,0 +1,825 @@
+/**
+ * Rotable Pool
+ * Repairable components tracked unit by unit: fitted to and removed from assets against jobs,
+ * sent out for overhaul as an external repair, and returned serviceable to the pool, or given up
+ * as a core in exchange for a vendor's unit. Each unit is a serial in the serial register, and a
+ * serviceable unit is one unit of its store's stock: fitting or sending it out takes it out of
+ * stock and a serviceable removal or completed overhaul puts it back.
+ * Overhaul cost is capitalised to the unit's book value rather than charged to a job.
+ * Hours are derived from the host asset's meter readings at fitting and removal.
+ */
+
+import { db } from '@/lib/db';
+import { addCostLayer, costOutgoingStock } from '@/lib/cost-layers';
+import { putawayToBin, releaseFromBins } from '@/lib/bins';
+import { evaluateStockLevel } from '@/lib/replenishment';
+import { allocateBackorders } from '@/lib/backorders';
+import { postGoodsReceipt } from '@/lib/inventory';
+import { setSerialState } from '@/lib/tracking';
+
+// Types
+export interface RotableRegisterInput {
+  companyId: string;
+  itemId: string;
+  serialNumber: string; // Already in a store's stock or fitted to an asset
+  purchaseCost?: number;
+  userId: string;
+}
+
+export interface RotableFitInput {
+  companyId: string;
+  unitId: string;
+  jobId: string;
+  notes?: string;
+  userId: string;
+}
+
+export interface RotableRemovalInput {
+  companyId: string;
+  unitId: string;
+  jobId: string;
+  storeId: string;
+  serviceable: boolean;
+  notes?: string;
+  userId: string;
+}
+
+export interface RotableOverhaulInput {
+  companyId: string;
+  unitId: string;
+  vendorName: string;
+  vendorReference?: string;
+  vendorContact?: string;
+  estimatedCost?: number | null;
+  jobId?: string;
+  notes?: string;
+  userId: string;
+}
+
+export interface RotableExchangeInput {
+  companyId: string;
+  unitId: string;         // Core given up to the vendor
+  vendorName: string;
+  vendorReference?: string;
+  serialNumber: string;   // Exchange unit received in its place
+  storeId: string;        // Store the exchange unit is received into
+  exchangeCost: number;   // Vendor's exchange charge
+  notes?: string;
+  userId: string;
+}
+
+export interface RotableHours {
+  hoursSinceNew: number;
+  hoursSinceOverhaul: number;
+}
+
+// Fitting and removal are only recorded against jobs that are still open
+const OPEN_JOB_STATUSES = ['CREATED', 'ASSIGNED', 'IN_PROGRESS', 'PAUSED'];
+
+/**
+ * Host asset meter at a point in time: the latest reading effective on or before it
+ * Assets without readings fall back to their current meter.
+ */
+async function getMeterAt(assetId: string, at: Date): Promise<number> {
+  const reading = await db.meterReading.findFirst({
+    where: { assetId, effectiveDate: { lte: at } },
+    orderBy: { effectiveDate: 'desc' },
+  });
+
+  if (reading) return reading.reading;
+
+  const asset = await db.asset.findUnique({
+    where: { id: assetId },
+    select: { currentMeter: true },
+  });
+
+  return asset?.currentMeter || 0;
+}
+
+/**
+ * Load an open job of the company that a unit is being fitted or removed on
+ */
+async function getOpenJob(companyId: string, jobId: string) {
+  const job = await db.job.findFirst({
+    where: { id: jobId, companyId, isVoid: false },
+    select: { id: true, assetId: true, status: true },
+  });
+
+  if (!job) {
+    throw new Error('Job not found');
+  }
+
+  if (!OPEN_JOB_STATUSES.includes(job.status)) {
+    throw new Error(`Job is ${job.status} and cannot record rotable fitting or removal`);
+  }
+
+  return job;
+}
+
+/**
+ * Load a unit of the company's rotable pool
+ */
+async function getUnit(companyId: string, unitId: string) {
+  const unit = await db.rotableUnit.findFirst({
+    where: { id: unitId, companyId },
+    include: { item: { select: { code: true } } },
+  });
+
+  if (!unit) {
+    throw new Error('Rotable unit not found');
+  }
+
+  if (!unit.serialId) {
+    throw new Error(`Unit ${unit.serialNumber} is not linked to the serial register`);
+  }
+
+  return { ...unit, serialId: unit.serialId };
+}
+
+/**
+ * Take a serviceable unit out of its store's stock at the store's outgoing cost
+ */
+async function takeUnitFromStock(
+  unit: { id: string; itemId: string; serialNumber: string; storeId: string | null; item: { code: string } },
+  userId: string
+): Promise<number> {
+  if (!unit.storeId) {
+    throw new Error(`Unit ${unit.serialNumber} is not held in a store`);
+  }
+
+  const stockLevel = await db.itemStock.findUnique({
+    where: { itemId_storeId: { itemId: unit.itemId, storeId: unit.storeId } },
+  });
+
+  // Stock reserved for approved requests cannot be fitted or sent out
+  if (!stockLevel || stockLevel.quantity - stockLevel.reservedQty < 1) {
+    throw new Error(`No unreserved ${unit.item.code} stock in the store holding unit ${unit.serialNumber}`);
+  }
+
+  const { unitCost } = await costOutgoingStock(unit.itemId, unit.storeId, 1);
+
+  const updated = await db.itemStock.update({
+    where: { id: stockLevel.id },
+    data: { quantity: { decrement: 1 } },
+  });
+
+  await releaseFromBins(unit.itemId, unit.storeId, 1);
+
+  await db.stockLedger.create({
+    data: {
+      itemId: unit.itemId,
+      storeId: unit.storeId,
+      movementType: 'OUT',
+      quantity: 1,
+      balanceAfter: updated.quantity,
+      unitCost,
+      totalValue: unitCost,
+      referenceType: 'ROTABLE',
+      referenceId: unit.id,
+      userId,
+    },
+  });
+
+  await evaluateStockLevel(unit.itemId, unit.storeId);
+
+  return unitCost;
+}
+
+/**
+ * Put a serviceable unit back into a store's stock at the cost it left stock at
+ */
+async function putUnitIntoStock(
+  unit: { id: string; itemId: string; stockCost: number },
+  storeId: string,
+  userId: string
+) {
+  const stockLevel = await db.itemStock.upsert({
+    where: {
+      itemId_storeId: { itemId: unit.itemId, storeId },
+    },
+    update: {
+      quantity: { increment: 1 },
+    },
+    create: {
+      itemId: unit.itemId,
+      storeId,
+      quantity: 1,
+    },
+  });
+
+  await addCostLayer({
+    itemId: unit.itemId,
+    storeId,
+    quantity: 1,
+    unitCost: unit.stockCost,
+    sourceType: 'ROTABLE',
+    sourceId: unit.id,
+  });
+
+  const binId = await putawayToBin(unit.itemId, storeId, 1);
+
+  await db.stockLedger.create({
+    data: {
+      itemId: unit.itemId,
+      storeId,
+      movementType: 'RETURN',
+      quantity: 1,
+      balanceAfter: stockLevel.quantity,
+      unitCost: unit.stockCost,
+      totalValue: unit.stockCost,
+      referenceType: 'ROTABLE',
+      referenceId: unit.id,
+      binId,
+      userId,
+    },
+  });
+
+  await evaluateStockLevel(unit.itemId, storeId);
+  await allocateBackorders(unit.itemId, storeId, userId);
+}
+
+/**
+ * Add a unit to the pool where the serial register has it: serviceable in a store's stock,
+ * or fitted to an asset (hours run from the asset's meter at registration)
+ */
+export async function registerRotableUnit(input: RotableRegisterInput) {
+  const { companyId, itemId, serialNumber, purchaseCost, userId } = input;
+
+  const item = await db.item.findFirst({ where: { id: itemId, companyId } });
+
+  if (!item) {
+    throw new Error('Item not found');
+  }
+
+  if (item.trackingType !== 'SERIAL') {
+    throw new Error(`${item.code} must be serial tracked to join the rotable pool`);
+  }
+
+  const existing = await db.rotableUnit.findUnique({
+    where: { itemId_serialNumber: { itemId, serialNumber } },
+  });
+
+  if (existing) {
+    throw new Error(`Serial number ${serialNumber} is already in the ${item.code} pool`);
+  }
+
+  const serial = await db.itemSerial.findFirst({
+    where: { companyId, itemId, serialNumber },
+  });
+
+  const inStock = serial?.status === 'IN_STOCK' && !!serial.storeId;
+  const fitted = serial?.status === 'FITTED' && !!serial.assetId;
+
+  if (!serial || (!inStock && !fitted)) {
+    throw new Error(`Serial number ${serialNumber} must be in a store's stock or fitted to an asset to join the pool`);
+  }
+
+  const cost = purchaseCost || item.weightedAvgCost || item.unitPrice || 0;
+  const storeId = fitted ? null : serial.storeId;
+  const assetId = fitted ? serial.assetId : null;
+
+  const unit = await db.rotableUnit.create({
+    data: {
+      companyId,
+      itemId,
+      serialNumber,
+      serialId: serial.id,
+      status: fitted ? 'FITTED' : 'SERVICEABLE',
+      assetId,
+      storeId,
+      purchaseCost: cost,
+      capitalisedCost: cost,
+      stockCost: cost,
+      createdBy: userId,
+    },
+  });
+
+  await db.rotableEvent.create({
+    data: {
+      unitId: unit.id,
+      eventType: 'REGISTERED',
+      assetId,
+      storeId,
+      meterReading: assetId ? await getMeterAt(assetId, new Date()) : null,
+      cost,
+      userId,
+    },
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'CREATE',
+      entity: 'RotableUnit',
+      entityId: unit.id,
+      newValue: JSON.stringify(unit),
+    },
+  });
+
+  return unit;
+}
+
+/**
+ * Fit a serviceable unit to the job's asset, recording the asset meter at fitting
+ */
+export async function fitRotableUnit(input: RotableFitInput) {
+  const { companyId, unitId, jobId, notes, userId } = input;
+
+  const unit = await getUnit(companyId, unitId);
+
+  if (unit.status !== 'SERVICEABLE') {
+    throw new Error(`Unit ${unit.serialNumber} is ${unit.status} and cannot be fitted`);
+  }
+
+  const job = await getOpenJob(companyId, jobId);
+  const meterReading = await getMeterAt(job.assetId, new Date());
+
+  // The unit leaves stock into the asset; it is capital, so the job is not charged
+  const stockCost = await takeUnitFromStock(unit, userId);
+
+  await setSerialState({
+    serialId: unit.serialId,
+    status: 'FITTED',
+    storeId: null,
+    assetId: job.assetId,
+    jobId,
+    eventType: 'FITTED',
+    referenceType: 'ROTABLE',
+    referenceId: unit.id,
+    userId,
+  });
+
+  const updated = await db.rotableUnit.update({
+    where: { id: unit.id },
+    data: {
+      status: 'FITTED',
+      assetId: job.assetId,
+      storeId: null,
+      stockCost,
+      updatedBy: userId,
+    },
+  });
+
+  await db.rotableEvent.create({
+    data: {
+      unitId: unit.id,
+      eventType: 'FITTED',
+      assetId: job.assetId,
+      jobId,
+      storeId: unit.storeId,
+      meterReading,
+      notes,
+      userId,
+    },
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'FIT',
+      entity: 'RotableUnit',
+      entityId: unit.id,
+      oldValue: JSON.stringify({ status: unit.status, storeId: unit.storeId }),
+      newValue: JSON.stringify({ status: updated.status, assetId: job.assetId, jobId, meterReading }),
+    },
+  });
+
+  return updated;
+}
+
+/**
+ * Remove a fitted unit from its host asset into a store, serviceable or awaiting repair
+ */
+export async function removeRotableUnit(input: RotableRemovalInput) {
+  const { companyId, unitId, jobId, storeId, serviceable, notes, userId } = input;
+
+  const unit = await getUnit(companyId, unitId);
+
+  if (unit.status !== 'FITTED' || !unit.assetId) {
+    throw new Error(`Unit ${unit.serialNumber} is not fitted to an asset`);
+  }
+
+  const job = await getOpenJob(companyId, jobId);
+
+  if (job.assetId !== unit.assetId) {
+    throw new Error(`Unit ${unit.serialNumber} is not fitted to the job's asset`);
+  }
+
+  const store = await db.store.findFirst({
+    where: { id: storeId, companyId, status: 'ACTIVE' },
+  });
+
+  if (!store) {
+    throw new Error('Store not found');
+  }
+
+  const meterReading = await getMeterAt(unit.assetId, new Date());
+
+  // A serviceable unit goes back into stock; one awaiting repair is held outside it
+  if (serviceable) {
+    await putUnitIntoStock(unit, storeId, userId);
+  }
+
+  await setSerialState({
+    serialId: unit.serialId,
+    status: serviceable ? 'IN_STOCK' : 'REMOVED',
+    storeId,
+    assetId: null,
+    jobId,
+    eventType: 'REMOVED',
+    referenceType: 'ROTABLE',
+    referenceId: unit.id,
+    userId,
+  });
+
+  const updated = await db.rotableUnit.update({
+    where: { id: unit.id },
+    data: {
+      status: serviceable ? 'SERVICEABLE' : 'AWAITING_REPAIR',
+      assetId: null,
+      storeId,
+      updatedBy: userId,
+    },
+  });
+
+  await db.rotableEvent.create({
+    data: {
+      unitId: unit.id,
+      eventType: 'REMOVED',
+      assetId: unit.assetId,
+      jobId,
+      storeId,
+      meterReading,
+      notes,
+      userId,
+    },
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'REMOVE',
+      entity: 'RotableUnit',
+      entityId: unit.id,
+      oldValue: JSON.stringify({ status: unit.status, assetId: unit.assetId }),
+      newValue: JSON.stringify({ status: updated.status, storeId, jobId, meterReading }),
+    },
+  });
+
+  return updated;
+}
+
+/**
+ * Send a unit out for overhaul under an external repair gate pass
+ * The unit keeps its store, which is where it returns to once overhauled; a serviceable unit
+ * leaves that store's stock until then.
+ */
+export async function sendRotableForOverhaul(input: RotableOverhaulInput) {
+  const { companyId, unitId, vendorName, vendorReference, vendorContact, estimatedCost, jobId, notes, userId } = input;
+
+  const unit = await getUnit(companyId, unitId);
+
+  if (unit.status !== 'AWAITING_REPAIR' && unit.status !== 'SERVICEABLE') {
+    throw new Error(`Unit ${unit.serialNumber} is ${unit.status} and cannot be sent for overhaul`);
+  }
+
+  const stockCost = unit.status === 'SERVICEABLE'
+    ? await takeUnitFromStock(unit, userId)
+    : unit.stockCost;
+
+  const repair = await db.externalRepair.create({
+    data: {
+      companyId,
+      rotableUnitId: unit.id,
+      jobId,
+      vendorName,
+      vendorReference,
+      vendorContact,
+      gatePassType: 'OUT',
+      gatePassNumber: `GP-${Date.now().toString(36).toUpperCase()}`,
+      sentOutAt: new Date(),
+      sentOutById: userId,
+      estimatedCost: estimatedCost ?? null,
+      status: 'PENDING',
+      completionNotes: notes,
+      createdBy: userId,
+    },
+  });
+
+  await setSerialState({
+    serialId: unit.serialId,
+    status: 'REMOVED',
+    storeId: null,
+    assetId: null,
+    eventType: 'SENT_FOR_REPAIR',
+    referenceType: 'EXTERNAL_REPAIR',
+    referenceId: repair.id,
+    userId,
+  });
+
+  await db.rotableUnit.update({
+    where: { id: unit.id },
+    data: { status: 'AT_VENDOR', stockCost, updatedBy: userId },
+  });
+
+  await db.rotableEvent.create({
+    data: {
+      unitId: unit.id,
+      eventType: 'SENT_FOR_OVERHAUL',
+      storeId: unit.storeId,
+      externalRepairId: repair.id,
+      notes,
+      userId,
+    },
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'CREATE',
+      entity: 'ExternalRepair',
+      entityId: repair.id,
+      newValue: JSON.stringify(repair),
+    },
+  });
+
+  return repair;
+}
+
+/**
+ * Return an overhauled unit to its store's stock as serviceable and capitalise the overhaul cost
+ * The overhaul adds to the unit's book value; it goes back into stock at the cost it left at.
+ */
+export async function completeRotableOverhaul(
+  repair: { id: string; rotableUnitId: string | null; vendorName: string },
+  cost: number,
+  userId: string
+) {
+  if (!repair.rotableUnitId) {
+    throw new Error('Repair is not a rotable overhaul');
+  }
+
+  const unit = await db.rotableUnit.findUnique({ where: { id: repair.rotableUnitId } });
+
+  if (!unit || unit.status !== 'AT_VENDOR') {
+    throw new Error('Rotable unit is not out for overhaul');
+  }
+
+  if (!unit.storeId || !unit.serialId) {
+    throw new Error(`Unit ${unit.serialNumber} has no store to return to`);
+  }
+
+  await putUnitIntoStock(unit, unit.storeId, userId);
+
+  await setSerialState({
+    serialId: unit.serialId,
+    status: 'IN_STOCK',
+    storeId: unit.storeId,
+    assetId: null,
+    eventType: 'RETURNED',
+    referenceType: 'EXTERNAL_REPAIR',
+    referenceId: repair.id,
+    userId,
+  });
+
+  const updated = await db.rotableUnit.update({
+    where: { id: unit.id },
+    data: {
+      status: 'SERVICEABLE',
+      capitalisedCost: { increment: cost },
+      overhaulCount: { increment: 1 },
+      lastOverhaulAt: new Date(),
+      updatedBy: userId,
+    },
+  });
+
+  await db.rotableEvent.create({
+    data: {
+      unitId: unit.id,
+      eventType: 'OVERHAULED',
+      storeId: unit.storeId,
+      externalRepairId: repair.id,
+      cost,
+      notes: `Overhauled by ${repair.vendorName}`,
+      userId,
+    },
+  });
+
+  return updated;
+}
+
+/**
+ * Capitalise an overhaul invoice that arrived after the unit came back
+ * Only the difference from what was already capitalised for the repair is added.
+ */
+export async function capitaliseOverhaulInvoice(
+  repair: { id: string; rotableUnitId: string | null; invoiceAmount: number | null },
+  invoiceAmount: number,
+  userId: string
+) {
+  if (!repair.rotableUnitId) return;
+
+  const delta = invoiceAmount - (repair.invoiceAmount || 0);
+  if (delta === 0) return;
+
+  const event = await db.rotableEvent.findFirst({
+    where: { unitId: repair.rotableUnitId, externalRepairId: repair.id, eventType: 'OVERHAULED' },
+  });
+
+  if (!event) return;
+
+  await db.rotableEvent.update({
+    where: { id: event.id },
+    data: { cost: (event.cost || 0) + delta },
+  });
+
+  await db.rotableUnit.update({
+    where: { id: repair.rotableUnitId },
+    data: { capitalisedCost: { increment: delta }, updatedBy: userId },
+  });
+}
+
+/**
+ * Give up a unit awaiting repair as a core and take a vendor's serviceable unit in exchange
+ * The exchange unit is received into stock at the exchange charge and joins the pool; the core
+ * leaves the pool and the serial register's stores for good.
+ */
+export async function exchangeRotableCore(input: RotableExchangeInput) {
+  const { companyId, unitId, vendorName, vendorReference, serialNumber, storeId, exchangeCost, notes, userId } = input;
+
+  const core = await getUnit(companyId, unitId);
+
+  if (core.status !== 'AWAITING_REPAIR') {
+    throw new Error(`Unit ${core.serialNumber} is ${core.status}; only a unit awaiting repair can be exchanged as a core`);
+  }
+
+  if (!(exchangeCost >= 0)) {
+    throw new Error('Exchange cost must be 0 or greater');
+  }
+
+  const store = await db.store.findFirst({
+    where: { id: storeId, companyId, status: 'ACTIVE' },
+  });
+
+  if (!store) {
+    throw new Error('Store not found');
+  }
+
+  const existing = await db.rotableUnit.findUnique({
+    where: { itemId_serialNumber: { itemId: core.itemId, serialNumber } },
+  });
+
+  if (existing) {
+    throw new Error(`Serial number ${serialNumber} is already in the ${core.item.code} pool`);
+  }
+
+  const receipt = await postGoodsReceipt({
+    companyId,
+    storeId,
+    receivedById: userId,
+    supplierName: vendorName,
+    supplierReference: vendorReference,
+    notes: `Exchange unit for core ${core.serialNumber}`,
+    lines: [{ itemId: core.itemId, quantity: 1, unitCost: exchangeCost, serialNumbers: [serialNumber] }],
+  });
+
+  const serial = await db.itemSerial.findUnique({
+    where: { itemId_serialNumber: { itemId: core.itemId, serialNumber } },
+  });
+
+  const unit = await db.rotableUnit.create({
+    data: {
+      companyId,
+      itemId: core.itemId,
+      serialNumber,
+      serialId: serial?.id,
+      status: 'SERVICEABLE',
+      storeId,
+      purchaseCost: exchangeCost,
+      capitalisedCost: exchangeCost,
+      stockCost: exchangeCost,
+      createdBy: userId,
+    },
+  });
+
+  await setSerialState({
+    serialId: core.serialId,
+    status: 'REMOVED',
+    storeId: null,
+    assetId: null,
+    eventType: 'EXCHANGED',
+    referenceType: 'GOODS_RECEIPT',
+    referenceId: receipt?.id || unit.id,
+    userId,
+  });
+
+  await db.rotableUnit.update({
+    where: { id: core.id },
+    data: { status: 'EXCHANGED', storeId: null, updatedBy: userId },
+  });
+
+  await db.rotableEvent.create({
+    data: {
+      unitId: core.id,
+      eventType: 'EXCHANGED',
+      storeId: core.storeId,
+      exchangeUnitId: unit.id,
+      notes: notes || `Exchanged with ${vendorName} for ${serialNumber}`,
+      userId,
+    },
+  });
+
+  await db.rotableEvent.create({
+    data: {
+      unitId: unit.id,
+      eventType: 'REGISTERED',
+      storeId,
+      exchangeUnitId: core.id,
+      cost: exchangeCost,
+      notes: `Exchange unit from ${vendorName} for core ${core.serialNumber}`,
+      userId,
+    },
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'EXCHANGE',
+      entity: 'RotableUnit',
+      entityId: core.id,
+      oldValue: JSON.stringify({ status: core.status, storeId: core.storeId }),
+      newValue: JSON.stringify({ exchangeUnitId: unit.id, serialNumber, vendorName, exchangeCost }),
+    },
+  });
+
+  return unit;
+}
+
+/**
+ * Hours run since new and since the last overhaul
+ * Each fitted period contributes the host asset's meter movement between fitting and removal;
+ * a unit still fitted runs up to the host's latest reading.
+ */
+export async function getRotableHours(unit: {
+  status: string;
+  assetId: string | null;
+  events: { eventType: string; meterReading: number | null; createdAt: Date }[];
+}): Promise<RotableHours> {
+  const events = [...unit.events].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  let hoursSinceNew = 0;
+  let hoursSinceOverhaul = 0;
+  let meterAtFit: number | null = null;
+
+  for (const event of events) {
+    // A unit registered while fitted runs from the host's meter at registration
+    if (event.eventType === 'FITTED' || (event.eventType === 'REGISTERED' && event.meterReading !== null)) {
+      meterAtFit = event.meterReading;
+    } else if (event.eventType === 'REMOVED') {
+      if (meterAtFit !== null && event.meterReading !== null) {
+        const run = Math.max(event.meterReading - meterAtFit, 0);
+        hoursSinceNew += run;
+        hoursSinceOverhaul += run;
+      }
+      meterAtFit = null;
+    } else if (event.eventType === 'OVERHAULED') {
+      hoursSinceOverhaul = 0;
+    }
+  }
+
+  if (unit.status === 'FITTED' && unit.assetId && meterAtFit !== null) {
+    const run = Math.max(await getMeterAt(unit.assetId, new Date()) - meterAtFit, 0);
+    hoursSinceNew += run;
+    hoursSinceOverhaul += run;
+  }
+
+  return { hoursSinceNew, hoursSinceOverhaul };
+}
+
+/**
+ * Life history of a unit: every fitting, removal and overhaul, with hours and book value
+ */
+export async function getRotableHistory(companyId: string, unitId: string) {
+  const unit = await db.rotableUnit.findFirst({
+    where: { id: unitId, companyId },
+    include: {
+      item: { select: { id: true, code: true, description: true } },
+      asset: { select: { id: true, code: true, description: true } },
+      store: { select: { id: true, code: true, name: true } },
+      events: {
+        include: {
+          asset: { select: { id: true, code: true, description: true } },
+          job: { select: { id: true, title: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+      externalRepairs: {
+        orderBy: { createdAt: 'desc' },
+      },
+    },
+  });
+
+  if (!unit) return null;
+
+  return { ...unit, ...(await getRotableHours(unit)) };
+}
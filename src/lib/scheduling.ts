@@ -0,0 +1,158 @@
+/**
+ * Technician Scheduling
+ * Planning board of technicians by day: the jobs assigned to each, their estimated durations
+ * against a daily capacity, and checks for assigning or rescheduling a job.
+ */
+
+import { db } from '@/lib/db';
+import { JobStatus } from '@prisma/client';
+
+// Types
+export interface ScheduledJob {
+  id: string;
+  title: string;
+  status: JobStatus;
+  priority: string;
+  type: string;
+  scheduledStart: Date | null;
+  estimateMinutes: number;
+  asset: { code: string; description: string; location: string | null };
+}
+
+export interface ScheduleDay {
+  date: string; // YYYY-MM-DD
+  jobs: ScheduledJob[];
+  plannedMinutes: number;
+  capacityMinutes: number;
+  overloaded: boolean;
+}
+
+export interface ScheduleLane {
+  technician: { id: string; name: string };
+  unscheduled: ScheduledJob[]; // Assigned without a date, or planned before the board's first day
+  days: ScheduleDay[];
+}
+
+// Used when neither the job nor its PM schedule carries an estimate
+export const DEFAULT_JOB_MINUTES = 120;
+
+// One shift of work per technician per day
+export const DAILY_CAPACITY_MINUTES = 8 * 60;
+
+// Roles that appear as lanes and can be given jobs
+export const TECHNICIAN_ROLES = ['TECHNICIAN' as const, 'USER' as const];
+
+// Jobs that still occupy a technician
+const ACTIVE_STATUSES: JobStatus[] = ['ASSIGNED', 'IN_PROGRESS', 'PAUSED'];
+
+/**
+ * Local calendar date of a timestamp as YYYY-MM-DD
+ */
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Estimated duration of a job in minutes
+ */
+export function getJobEstimateMinutes(job: {
+  estimatedMinutes: number | null;
+  pmSchedule?: { estimatedDuration: number | null } | null;
+}): number {
+  if (job.estimatedMinutes) return job.estimatedMinutes;
+  if (job.pmSchedule?.estimatedDuration) return Math.round(job.pmSchedule.estimatedDuration * 60);
+  return DEFAULT_JOB_MINUTES;
+}
+
+/**
+ * Active technician of the company a job can be assigned to
+ */
+export async function getAssignableTechnician(companyId: string, userId: string) {
+  const technician = await db.user.findFirst({
+    where: { id: userId, companyId, status: 'ACTIVE' },
+    select: { id: true, name: true },
+  });
+
+  if (!technician) {
+    throw new Error('Technician not found');
+  }
+
+  return technician;
+}
+
+/**
+ * Technician lanes over `days` days from `from`, with each day's load against capacity
+ */
+export async function getScheduleBoard(companyId: string, from: Date, days: number): Promise<ScheduleLane[]> {
+  const start = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + days);
+
+  const technicians = await db.user.findMany({
+    where: { companyId, status: 'ACTIVE', role: { in: TECHNICIAN_ROLES } },
+    select: { id: true, name: true },
+    orderBy: { name: 'asc' },
+  });
+
+  const jobs = await db.job.findMany({
+    where: {
+      companyId,
+      isVoid: false,
+      status: { in: ACTIVE_STATUSES },
+      assignedToId: { in: technicians.map((t) => t.id) },
+      OR: [{ scheduledStart: null }, { scheduledStart: { lt: end } }],
+    },
+    include: {
+      asset: { select: { code: true, description: true, location: true } },
+      pmSchedule: { select: { estimatedDuration: true } },
+    },
+    orderBy: [{ scheduledStart: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  const dateKeys = Array.from({ length: days }, (_, i) =>
+    toDateKey(new Date(start.getFullYear(), start.getMonth(), start.getDate() + i))
+  );
+
+  return technicians.map((technician) => {
+    const lane: ScheduleLane = {
+      technician,
+      unscheduled: [],
+      days: dateKeys.map((date) => ({
+        date,
+        jobs: [],
+        plannedMinutes: 0,
+        capacityMinutes: DAILY_CAPACITY_MINUTES,
+        overloaded: false,
+      })),
+    };
+
+    for (const job of jobs.filter((j) => j.assignedToId === technician.id)) {
+      const scheduled: ScheduledJob = {
+        id: job.id,
+        title: job.title,
+        status: job.status,
+        priority: job.priority,
+        type: job.type,
+        scheduledStart: job.scheduledStart,
+        estimateMinutes: getJobEstimateMinutes(job),
+        asset: job.asset,
+      };
+
+      const day = job.scheduledStart && job.scheduledStart >= start
+        ? lane.days.find((d) => d.date === toDateKey(job.scheduledStart!))
+        : undefined;
+
+      if (day) {
+        day.jobs.push(scheduled);
+        day.plannedMinutes += scheduled.estimateMinutes;
+      } else {
+        lane.unscheduled.push(scheduled);
+      }
+    }
+
+    for (const day of lane.days) {
+      day.overloaded = day.plannedMinutes > day.capacityMinutes;
+    }
+
+    return lane;
+  });
+}
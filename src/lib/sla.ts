@@ -0,0 +1,427 @@
+/**
+ * Job SLA
+ * Response and resolution targets per priority (optionally per job type), due times stamped on
+ * jobs when they are created, escalation of breaching jobs to supervisors and managers, and
+ * compliance reporting. Paused time does not count against the resolution target.
+ */
+
+import { db } from '@/lib/db';
+import { AlertSeverity, JobPriority, JobStatus, JobType } from '@prisma/client';
+
+// Types
+export interface SlaTargetInput {
+  priority: JobPriority;
+  jobType?: JobType | null;
+  responseMinutes: number;
+  resolutionMinutes: number;
+}
+
+export type SlaOutcome = 'MET' | 'BREACHED' | 'PENDING';
+
+export interface JobSlaState {
+  responseDueAt: Date | null;
+  resolutionDueAt: Date | null; // Effective, after adding paused time
+  response: SlaOutcome | null;
+  resolution: SlaOutcome | null;
+}
+
+export interface SlaComplianceRow {
+  key: string;
+  jobs: number;
+  responseMet: number;
+  responseBreached: number;
+  resolutionMet: number;
+  resolutionBreached: number;
+  compliance: number; // % of decided resolutions met
+}
+
+interface SlaJobFields {
+  status: JobStatus;
+  startedAt: Date | null;
+  pausedAt: Date | null;
+  completedAt: Date | null;
+  totalPauseTime: number;
+  responseDueAt: Date | null;
+  resolutionDueAt: Date | null;
+}
+
+// Used for any priority the company has not configured
+export const DEFAULT_SLA_TARGETS: Record<JobPriority, { responseMinutes: number; resolutionMinutes: number }> = {
+  CRITICAL: { responseMinutes: 30, resolutionMinutes: 4 * 60 },
+  HIGH: { responseMinutes: 2 * 60, resolutionMinutes: 24 * 60 },
+  MEDIUM: { responseMinutes: 8 * 60, resolutionMinutes: 72 * 60 },
+  LOW: { responseMinutes: 24 * 60, resolutionMinutes: 7 * 24 * 60 },
+};
+
+const PRIORITIES: JobPriority[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+const JOB_TYPES: JobType[] = ['BREAKDOWN', 'PREVENTIVE', 'CORRECTIVE', 'INSPECTION'];
+
+// Severity of the breach alert raised for a job of each priority
+const BREACH_SEVERITY: Record<JobPriority, AlertSeverity> = {
+  CRITICAL: 'CRITICAL',
+  HIGH: 'HIGH',
+  MEDIUM: 'MEDIUM',
+  LOW: 'LOW',
+};
+
+// Statuses in which the clock no longer runs
+const FINISHED_STATUSES: JobStatus[] = ['COMPLETED', 'CLOSED', 'CANCELLED'];
+
+/**
+ * Target for a priority and job type: a type-specific row, then the priority row, then the default
+ */
+export async function getSlaTarget(companyId: string, priority: JobPriority, jobType: JobType) {
+  const targets = await db.slaTarget.findMany({
+    where: {
+      companyId,
+      priority,
+      OR: [{ jobType }, { jobType: null }],
+    },
+  });
+
+  const target = targets.find((t) => t.jobType === jobType) || targets.find((t) => t.jobType === null);
+
+  return target
+    ? { responseMinutes: target.responseMinutes, resolutionMinutes: target.resolutionMinutes }
+    : DEFAULT_SLA_TARGETS[priority];
+}
+
+/**
+ * Configured targets and the effective target of every priority and job type
+ */
+export async function getSlaTargets(companyId: string) {
+  const targets = await db.slaTarget.findMany({
+    where: { companyId },
+    orderBy: [{ priority: 'asc' }, { jobType: 'asc' }],
+  });
+
+  const effective = PRIORITIES.flatMap((priority) =>
+    JOB_TYPES.map((jobType) => {
+      const target =
+        targets.find((t) => t.priority === priority && t.jobType === jobType) ||
+        targets.find((t) => t.priority === priority && t.jobType === null);
+
+      return {
+        priority,
+        jobType,
+        responseMinutes: target?.responseMinutes ?? DEFAULT_SLA_TARGETS[priority].responseMinutes,
+        resolutionMinutes: target?.resolutionMinutes ?? DEFAULT_SLA_TARGETS[priority].resolutionMinutes,
+        source: !target ? 'DEFAULT' : target.jobType ? 'JOB_TYPE' : 'PRIORITY',
+      };
+    })
+  );
+
+  return { targets, effective };
+}
+
+/**
+ * Create or replace the target of a priority (and optional job type)
+ */
+export async function saveSlaTarget(companyId: string, input: SlaTargetInput, userId: string) {
+  const { priority, responseMinutes, resolutionMinutes } = input;
+  const jobType = input.jobType || null;
+
+  if (!PRIORITIES.includes(priority)) {
+    throw new Error('Invalid priority');
+  }
+
+  if (jobType && !JOB_TYPES.includes(jobType)) {
+    throw new Error('Invalid job type');
+  }
+
+  if (!Number.isInteger(responseMinutes) || responseMinutes <= 0 ||
+      !Number.isInteger(resolutionMinutes) || resolutionMinutes <= 0) {
+    throw new Error('Response and resolution targets must be whole minutes greater than zero');
+  }
+
+  if (resolutionMinutes < responseMinutes) {
+    throw new Error('Resolution target cannot be shorter than the response target');
+  }
+
+  // Compound unique lookups cannot match a null job type, so find the row first
+  const existing = await db.slaTarget.findFirst({
+    where: { companyId, priority, jobType },
+  });
+
+  const target = existing
+    ? await db.slaTarget.update({
+        where: { id: existing.id },
+        data: { responseMinutes, resolutionMinutes, updatedBy: userId },
+      })
+    : await db.slaTarget.create({
+        data: { companyId, priority, jobType, responseMinutes, resolutionMinutes, createdBy: userId },
+      });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: existing ? 'UPDATE' : 'CREATE',
+      entity: 'SlaTarget',
+      entityId: target.id,
+      oldValue: existing ? JSON.stringify(existing) : null,
+      newValue: JSON.stringify(target),
+    },
+  });
+
+  return target;
+}
+
+/**
+ * Remove a target; jobs created afterwards fall back to the priority row or default
+ */
+export async function deleteSlaTarget(companyId: string, id: string, userId: string) {
+  const target = await db.slaTarget.findFirst({
+    where: { id, companyId },
+  });
+
+  if (!target) {
+    throw new Error('SLA target not found');
+  }
+
+  await db.slaTarget.delete({ where: { id } });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'DELETE',
+      entity: 'SlaTarget',
+      entityId: id,
+      oldValue: JSON.stringify(target),
+    },
+  });
+}
+
+/**
+ * Response and resolution due times of a job created at `from`
+ */
+export async function getSlaDueDates(
+  companyId: string,
+  priority: JobPriority,
+  jobType: JobType,
+  from: Date = new Date()
+) {
+  const target = await getSlaTarget(companyId, priority, jobType);
+
+  return {
+    responseDueAt: new Date(from.getTime() + target.responseMinutes * 60000),
+    resolutionDueAt: new Date(from.getTime() + target.resolutionMinutes * 60000),
+  };
+}
+
+/**
+ * Resolution due time pushed back by the time the job has spent paused
+ */
+function effectiveResolutionDue(job: SlaJobFields, now: Date): Date | null {
+  if (!job.resolutionDueAt) return null;
+
+  let pausedSeconds = job.totalPauseTime || 0;
+  if (job.status === 'PAUSED' && job.pausedAt) {
+    pausedSeconds += Math.floor((now.getTime() - job.pausedAt.getTime()) / 1000);
+  }
+
+  return new Date(job.resolutionDueAt.getTime() + pausedSeconds * 1000);
+}
+
+/**
+ * Whether a job met, breached or is still inside its SLA targets
+ */
+export function getJobSlaState(job: SlaJobFields, now: Date = new Date()): JobSlaState {
+  const resolutionDueAt = effectiveResolutionDue(job, now);
+  const cancelled = job.status === 'CANCELLED';
+
+  const outcome = (due: Date | null, doneAt: Date | null): SlaOutcome | null => {
+    if (!due) return null;
+    if (doneAt) return doneAt <= due ? 'MET' : 'BREACHED';
+    if (cancelled) return null;
+    return now > due ? 'BREACHED' : 'PENDING';
+  };
+
+  return {
+    responseDueAt: job.responseDueAt,
+    resolutionDueAt,
+    response: outcome(job.responseDueAt, job.startedAt),
+    resolution: outcome(resolutionDueAt, job.completedAt),
+  };
+}
+
+/**
+ * Notify supervisors (and managers for resolution breaches and critical jobs) and raise an alert
+ */
+async function escalateJob(
+  job: { id: string; companyId: string; title: string; priority: JobPriority },
+  breach: 'RESPONSE' | 'RESOLUTION',
+  dueAt: Date
+) {
+  const roles = breach === 'RESOLUTION' || job.priority === 'CRITICAL'
+    ? ['SUPERVISOR' as const, 'MANAGER' as const]
+    : ['SUPERVISOR' as const];
+
+  const recipients = await db.user.findMany({
+    where: { companyId: job.companyId, role: { in: roles }, status: 'ACTIVE' },
+    select: { id: true },
+  });
+
+  const label = breach === 'RESPONSE' ? 'response' : 'resolution';
+  const message = `${job.priority} job "${job.title}" missed its ${label} target (due ${dueAt.toLocaleString()})`;
+
+  for (const recipient of recipients) {
+    await db.notification.create({
+      data: {
+        userId: recipient.id,
+        title: `SLA ${label} breached`,
+        message,
+        type: 'SLA_BREACH',
+        referenceId: job.id,
+      },
+    });
+  }
+
+  await db.alert.create({
+    data: {
+      companyId: job.companyId,
+      type: 'SLA_BREACH',
+      severity: BREACH_SEVERITY[job.priority],
+      title: `SLA ${label} breached`,
+      message,
+      referenceType: 'JOB',
+      referenceId: job.id,
+    },
+  });
+}
+
+/**
+ * Find open jobs past their response or resolution due time and escalate each breach once
+ */
+export async function escalateSlaBreaches(companyId: string, now: Date = new Date()) {
+  const jobs = await db.job.findMany({
+    where: {
+      companyId,
+      isVoid: false,
+      status: { notIn: FINISHED_STATUSES },
+      OR: [
+        { startedAt: null, responseDueAt: { lt: now }, slaResponseBreachedAt: null },
+        { resolutionDueAt: { lt: now }, slaResolutionBreachedAt: null },
+      ],
+    },
+  });
+
+  let responseBreaches = 0;
+  let resolutionBreaches = 0;
+
+  for (const job of jobs) {
+    const state = getJobSlaState(job, now);
+
+    if (state.response === 'BREACHED' && !job.slaResponseBreachedAt) {
+      await db.job.update({
+        where: { id: job.id },
+        data: { slaResponseBreachedAt: now },
+      });
+      await escalateJob(job, 'RESPONSE', job.responseDueAt!);
+      responseBreaches++;
+    }
+
+    if (state.resolution === 'BREACHED' && !job.slaResolutionBreachedAt) {
+      await db.job.update({
+        where: { id: job.id },
+        data: { slaResolutionBreachedAt: now },
+      });
+      await escalateJob(job, 'RESOLUTION', state.resolutionDueAt!);
+      resolutionBreaches++;
+    }
+  }
+
+  return { responseBreaches, resolutionBreaches };
+}
+
+/**
+ * SLA escalation (Cron Job Handler)
+ * Call every few minutes to escalate breaching jobs of all active companies
+ */
+export async function runSlaEscalation(companyId?: string) {
+  const companies = companyId
+    ? [{ id: companyId }]
+    : await db.company.findMany({
+        where: { status: 'ACTIVE' },
+        select: { id: true },
+      });
+
+  const results: { companyId: string; responseBreaches: number; resolutionBreaches: number }[] = [];
+
+  for (const company of companies) {
+    const result = await escalateSlaBreaches(company.id);
+    results.push({ companyId: company.id, ...result });
+  }
+
+  return results;
+}
+
+/**
+ * SLA compliance of jobs created in a period, overall and per site (asset location) and technician
+ */
+export async function getSlaCompliance(companyId: string, startDate: Date, endDate: Date, now: Date = new Date()) {
+  const jobs = await db.job.findMany({
+    where: {
+      companyId,
+      isVoid: false,
+      resolutionDueAt: { not: null },
+      createdAt: { gte: startDate, lte: endDate },
+    },
+    include: {
+      asset: { select: { location: true } },
+      assignedTo: { select: { name: true } },
+    },
+  });
+
+  const newRow = (key: string): SlaComplianceRow => ({
+    key,
+    jobs: 0,
+    responseMet: 0,
+    responseBreached: 0,
+    resolutionMet: 0,
+    resolutionBreached: 0,
+    compliance: 100,
+  });
+
+  const overall = newRow('All');
+  const bySite = new Map<string, SlaComplianceRow>();
+  const byTechnician = new Map<string, SlaComplianceRow>();
+
+  for (const job of jobs) {
+    const state = getJobSlaState(job, now);
+    const site = job.asset.location || 'Unassigned';
+    const technician = job.assignedTo?.name || 'Unassigned';
+
+    if (!bySite.has(site)) bySite.set(site, newRow(site));
+    if (!byTechnician.has(technician)) byTechnician.set(technician, newRow(technician));
+
+    for (const row of [overall, bySite.get(site)!, byTechnician.get(technician)!]) {
+      row.jobs++;
+      if (state.response === 'MET') row.responseMet++;
+      if (state.response === 'BREACHED') row.responseBreached++;
+      if (state.resolution === 'MET') row.resolutionMet++;
+      if (state.resolution === 'BREACHED') row.resolutionBreached++;
+    }
+  }
+
+  const finish = (row: SlaComplianceRow) => {
+    const decided = row.resolutionMet + row.resolutionBreached;
+    row.compliance = decided > 0 ? (row.resolutionMet / decided) * 100 : 100;
+    return row;
+  };
+
+  const openBreaches = await db.job.count({
+    where: {
+      companyId,
+      isVoid: false,
+      status: { notIn: FINISHED_STATUSES },
+      OR: [{ slaResponseBreachedAt: { not: null } }, { slaResolutionBreachedAt: { not: null } }],
+    },
+  });
+
+  return {
+    overall: finish(overall),
+    openBreaches,
+    bySite: Array.from(bySite.values()).map(finish).sort((a, b) => a.compliance - b.compliance),
+    byTechnician: Array.from(byTechnician.values()).map(finish).sort((a, b) => a.compliance - b.compliance),
+  };
+}
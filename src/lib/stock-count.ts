@@ -0,0 +1,512 @@
+/**
+ * Stock Count Engine
+ * Physical stock takes and ABC-based cycle counts with variance posting
+ */
+
+import { db } from '@/lib/db';
+import { StockCountType } from '@prisma/client';
+import { adjustStock } from '@/lib/inventory';
+import { parseSerialNumbers, validateTrackedLine } from '@/lib/tracking';
+
+// Counts outside this tolerance must be recounted before approval
+export const RECOUNT_TOLERANCE_PERCENT = 5;
+
+// Variance value that raises a STOCK_VARIANCE alert
+export const VARIANCE_ALERT_VALUE = 500;
+
+// Shortage value that raises a FRAUD_SUSPECTED alert
+export const FRAUD_ALERT_VALUE = 5000;
+
+// Days between cycle counts per ABC class (see classifyItemsByConsumption; unclassified items count as C)
+export const CYCLE_COUNT_FREQUENCY_DAYS: Record<string, number> = {
+  A: 30,
+  B: 90,
+  C: 180,
+};
+
+// Types
+export interface CreateStockCountInput {
+  companyId: string;
+  storeId: string;
+  type?: StockCountType;
+  itemIds?: string[];
+  notes?: string;
+  userId: string;
+}
+
+export interface CountEntryInput {
+  lineId: string;
+  quantity: number;
+  serialNumbers?: string[] | string; // Required for serial-tracked items: the units found
+}
+
+export interface CycleCountDueItem {
+  itemId: string;
+  itemCode: string;
+  itemDescription: string;
+  abcClass: string;
+  lastCountedAt: Date | null;
+  daysSinceCount: number | null;
+  frequencyDays: number;
+}
+
+/**
+ * Generate a stock count number
+ */
+export function generateCountNumber(): string {
+  return `CNT-${Date.now().toString(36).toUpperCase()}`;
+}
+
+/**
+ * Check whether a first count is within tolerance of the frozen system quantity
+ */
+export function isWithinTolerance(systemQty: number, countedQty: number): boolean {
+  if (systemQty === countedQty) return true;
+  if (systemQty === 0) return false;
+
+  const variancePercent = (Math.abs(countedQty - systemQty) / Math.abs(systemQty)) * 100;
+  return variancePercent <= RECOUNT_TOLERANCE_PERCENT;
+}
+
+/**
+ * Get items in a store that are due for a cycle count
+ */
+export async function getCycleCountDue(
+  companyId: string,
+  storeId: string,
+  asOf: Date = new Date()
+): Promise<CycleCountDueItem[]> {
+  const stockLevels = await db.itemStock.findMany({
+    where: {
+      storeId,
+      item: { companyId, status: 'ACTIVE' },
+    },
+    include: {
+      item: { select: { id: true, code: true, description: true, abcClass: true } },
+    },
+  });
+
+  const due: CycleCountDueItem[] = [];
+
+  for (const stock of stockLevels) {
+    const abcClass = stock.item.abcClass || 'C';
+    const frequencyDays = CYCLE_COUNT_FREQUENCY_DAYS[abcClass] || CYCLE_COUNT_FREQUENCY_DAYS.C;
+    const daysSinceCount = stock.lastCountedAt
+      ? Math.floor((asOf.getTime() - stock.lastCountedAt.getTime()) / (1000 * 60 * 60 * 24))
+      : null;
+
+    if (daysSinceCount === null || daysSinceCount >= frequencyDays) {
+      due.push({
+        itemId: stock.item.id,
+        itemCode: stock.item.code,
+        itemDescription: stock.item.description,
+        abcClass,
+        lastCountedAt: stock.lastCountedAt,
+        daysSinceCount,
+        frequencyDays,
+      });
+    }
+  }
+
+  // Highest value class first, then longest since counted
+  return due.sort((a, b) =>
+    a.abcClass.localeCompare(b.abcClass) ||
+    (b.daysSinceCount ?? Infinity) - (a.daysSinceCount ?? Infinity)
+  );
+}
+
+/**
+ * Create a count session and freeze the system quantities
+ */
+export async function createStockCount(input: CreateStockCountInput) {
+  const { companyId, storeId, type = 'FULL', itemIds, notes, userId } = input;
+
+  const store = await db.store.findFirst({
+    where: { id: storeId, companyId },
+  });
+
+  if (!store) {
+    throw new Error('Store not found');
+  }
+
+  const openCount = await db.stockCount.findFirst({
+    where: {
+      storeId,
+      status: { in: ['COUNTING', 'REVIEW'] },
+    },
+  });
+
+  if (openCount) {
+    throw new Error(`Store already has an open count (${openCount.countNumber})`);
+  }
+
+  let selectedItemIds = itemIds;
+  if (!selectedItemIds && type === 'CYCLE') {
+    selectedItemIds = (await getCycleCountDue(companyId, storeId)).map((d) => d.itemId);
+  }
+
+  const stockLevels = await db.itemStock.findMany({
+    where: {
+      storeId,
+      item: { companyId, status: 'ACTIVE' },
+      ...(selectedItemIds ? { itemId: { in: selectedItemIds } } : {}),
+    },
+  });
+
+  if (stockLevels.length === 0) {
+    throw new Error('No items to count in this store');
+  }
+
+  const count = await db.stockCount.create({
+    data: {
+      companyId,
+      storeId,
+      countNumber: generateCountNumber(),
+      type,
+      status: 'COUNTING',
+      notes,
+      frozenAt: new Date(),
+      createdBy: userId,
+      lines: {
+        create: stockLevels.map((s) => ({
+          itemId: s.itemId,
+          systemQty: s.quantity,
+        })),
+      },
+    },
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'CREATE',
+      entity: 'StockCount',
+      entityId: count.id,
+      newValue: JSON.stringify({ countNumber: count.countNumber, type, lines: stockLevels.length }),
+    },
+  });
+
+  return count;
+}
+
+/**
+ * Record blind counts (or recounts while in review)
+ */
+export async function recordCounts(
+  countId: string,
+  companyId: string,
+  userId: string,
+  entries: CountEntryInput[]
+) {
+  const count = await db.stockCount.findFirst({
+    where: { id: countId, companyId },
+    include: {
+      lines: {
+        include: {
+          item: { select: { code: true, trackingType: true } },
+        },
+      },
+    },
+  });
+
+  if (!count) {
+    throw new Error('Stock count not found');
+  }
+
+  if (count.status !== 'COUNTING' && count.status !== 'REVIEW') {
+    throw new Error(`Cannot record counts in ${count.status} status`);
+  }
+
+  const linesById = new Map(count.lines.map((l) => [l.id, l]));
+
+  for (const entry of entries) {
+    const quantity = Number(entry.quantity);
+    if (isNaN(quantity) || quantity < 0) {
+      throw new Error('Counted quantity must be 0 or greater');
+    }
+
+    const line = linesById.get(entry.lineId);
+    if (!line) {
+      throw new Error('Count line not found');
+    }
+
+    if (count.status === 'REVIEW' && !line.recountRequired) {
+      throw new Error('Only lines flagged for recount can be updated during review');
+    }
+
+    // Serial-tracked units are counted by serial so a variance can say which units moved
+    if (line.item.trackingType === 'SERIAL') {
+      validateTrackedLine('SERIAL', line.item.code, {
+        quantity,
+        serialNumbers: parseSerialNumbers(entry.serialNumbers),
+      });
+    }
+  }
+
+  // Stock keeps moving while a count is open, so each count is compared with the system
+  // quantity at the time it was entered rather than the snapshot taken at the start
+  const stockLevels = await db.itemStock.findMany({
+    where: {
+      storeId: count.storeId,
+      itemId: { in: entries.map((e) => linesById.get(e.lineId)!.itemId) },
+    },
+    select: { itemId: true, quantity: true },
+  });
+  const systemQtyByItem = new Map(stockLevels.map((s) => [s.itemId, s.quantity]));
+
+  const now = new Date();
+  for (const entry of entries) {
+    const line = linesById.get(entry.lineId)!;
+    const systemQty = systemQtyByItem.get(line.itemId) ?? 0;
+    const serials = line.item.trackingType === 'SERIAL'
+      ? JSON.stringify(parseSerialNumbers(entry.serialNumbers))
+      : null;
+    await db.stockCountLine.update({
+      where: { id: entry.lineId },
+      data: count.status === 'COUNTING'
+        ? { countedQty: Number(entry.quantity), countedSystemQty: systemQty, countedSerials: serials, countedById: userId, countedAt: now }
+        : { recountQty: Number(entry.quantity), recountSystemQty: systemQty, recountSerials: serials, recountedById: userId, recountedAt: now },
+    });
+  }
+
+  return db.stockCount.findUnique({
+    where: { id: countId },
+    include: { lines: true },
+  });
+}
+
+/**
+ * Submit a count for review and flag lines outside tolerance for recount
+ */
+export async function submitCount(countId: string, companyId: string, userId: string) {
+  const count = await db.stockCount.findFirst({
+    where: { id: countId, companyId },
+    include: { lines: true },
+  });
+
+  if (!count) {
+    throw new Error('Stock count not found');
+  }
+
+  if (count.status !== 'COUNTING') {
+    throw new Error(`Cannot submit count in ${count.status} status`);
+  }
+
+  const uncounted = count.lines.filter((l) => l.countedQty === null);
+  if (uncounted.length > 0) {
+    throw new Error(`${uncounted.length} line(s) have not been counted`);
+  }
+
+  for (const line of count.lines) {
+    const recountRequired = !isWithinTolerance(line.countedSystemQty ?? line.systemQty, line.countedQty!);
+    if (recountRequired) {
+      await db.stockCountLine.update({
+        where: { id: line.id },
+        data: { recountRequired },
+      });
+    }
+  }
+
+  return db.stockCount.update({
+    where: { id: countId },
+    data: {
+      status: 'REVIEW',
+      submittedAt: new Date(),
+      submittedById: userId,
+      updatedBy: userId,
+    },
+    include: { lines: true },
+  });
+}
+
+/**
+ * Approve a count and post variance adjustments to the stock ledger
+ */
+export async function approveCount(countId: string, companyId: string, userId: string) {
+  const count = await db.stockCount.findFirst({
+    where: { id: countId, companyId },
+    include: {
+      store: { select: { name: true } },
+      lines: {
+        include: {
+          item: { select: { code: true, description: true, trackingType: true } },
+        },
+      },
+    },
+  });
+
+  if (!count) {
+    throw new Error('Stock count not found');
+  }
+
+  if (count.status !== 'REVIEW') {
+    throw new Error(`Cannot approve count in ${count.status} status`);
+  }
+
+  const pendingRecounts = count.lines.filter((l) => l.recountRequired && l.recountQty === null);
+  if (pendingRecounts.length > 0) {
+    throw new Error(`${pendingRecounts.length} line(s) are awaiting recount`);
+  }
+
+  // Variance against the system quantity when the final count was entered, so movements
+  // between the freeze and the count are not posted a second time
+  const results = count.lines.map((line) => {
+    const finalQty = line.recountQty ?? line.countedQty!;
+    const countSystemQty = line.recountQty !== null
+      ? line.recountSystemQty ?? line.systemQty
+      : line.countedSystemQty ?? line.systemQty;
+    return { line, finalQty, varianceQty: finalQty - countSystemQty, serialNumbers: [] as string[] };
+  });
+
+  // Serial-tracked variances name the units that went missing or turned up, so the serial
+  // register moves with on-hand; checked for every line before anything is posted
+  for (const result of results) {
+    const { line, varianceQty } = result;
+    if (line.item.trackingType !== 'SERIAL' || varianceQty === 0) continue;
+
+    const countedSerials = line.recountQty !== null ? line.recountSerials : line.countedSerials;
+    if (countedSerials === null) {
+      throw new Error(`${line.item.code} was counted without serial numbers; cancel the count and count it again`);
+    }
+    const counted = parseSerialNumbers(JSON.parse(countedSerials));
+
+    const inStore = await db.itemSerial.findMany({
+      where: { companyId, itemId: line.itemId, storeId: count.storeId, status: 'IN_STOCK' },
+      select: { serialNumber: true },
+    });
+    const inStoreSerials = inStore.map((s) => s.serialNumber);
+
+    if (varianceQty < 0) {
+      result.serialNumbers = inStoreSerials.filter((s) => !counted.includes(s));
+    } else {
+      result.serialNumbers = counted.filter((s) => !inStoreSerials.includes(s));
+
+      const elsewhere = await db.itemSerial.findFirst({
+        where: {
+          companyId,
+          itemId: line.itemId,
+          serialNumber: { in: result.serialNumbers },
+          status: 'IN_STOCK',
+          storeId: { not: null },
+        },
+      });
+      if (elsewhere) {
+        throw new Error(`Serial number ${elsewhere.serialNumber} of ${line.item.code} is in stock at another store`);
+      }
+    }
+
+    if (result.serialNumbers.length !== Math.abs(varianceQty)) {
+      throw new Error(`${line.item.code}: the serials counted do not account for a variance of ${varianceQty}; recount before approval`);
+    }
+  }
+
+  const now = new Date();
+  let totalVarianceValue = 0;
+
+  for (const { line, finalQty, varianceQty, serialNumbers } of results) {
+    let unitCost = 0;
+    let varianceValue = 0;
+
+    if (varianceQty !== 0) {
+      const adjustment = await adjustStock({
+        itemId: line.itemId,
+        storeId: count.storeId,
+        quantity: varianceQty,
+        referenceType: 'STOCK_COUNT',
+        referenceId: count.id,
+        serialNumbers,
+        userId,
+      });
+      unitCost = adjustment.unitCost;
+      varianceValue = adjustment.totalValue;
+      totalVarianceValue += varianceValue;
+
+      if (varianceValue <= -FRAUD_ALERT_VALUE) {
+        await db.alert.create({
+          data: {
+            companyId,
+            type: 'FRAUD_SUSPECTED',
+            severity: 'CRITICAL',
+            title: `Stock Shortage - ${line.item.code}`,
+            message: `Count ${count.countNumber} at ${count.store.name}: ${line.item.description} short by ${Math.abs(varianceQty)} (value ${Math.abs(varianceValue).toFixed(2)})`,
+            referenceType: 'STOCK_COUNT',
+            referenceId: count.id,
+          },
+        });
+      } else if (Math.abs(varianceValue) >= VARIANCE_ALERT_VALUE) {
+        await db.alert.create({
+          data: {
+            companyId,
+            type: 'STOCK_VARIANCE',
+            severity: 'HIGH',
+            title: `Stock Count Variance - ${line.item.code}`,
+            message: `Count ${count.countNumber} at ${count.store.name}: ${line.item.description} variance ${varianceQty > 0 ? '+' : ''}${varianceQty} (value ${varianceValue.toFixed(2)})`,
+            referenceType: 'STOCK_COUNT',
+            referenceId: count.id,
+          },
+        });
+      }
+    }
+
+    await db.stockCountLine.update({
+      where: { id: line.id },
+      data: { finalQty, varianceQty, unitCost, varianceValue },
+    });
+
+    await db.itemStock.update({
+      where: {
+        itemId_storeId: { itemId: line.itemId, storeId: count.storeId },
+      },
+      data: { lastCountedAt: now },
+    });
+  }
+
+  const approved = await db.stockCount.update({
+    where: { id: countId },
+    data: {
+      status: 'APPROVED',
+      approvedAt: now,
+      approvedById: userId,
+      totalVarianceValue,
+      updatedBy: userId,
+    },
+    include: { lines: true },
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'APPROVE',
+      entity: 'StockCount',
+      entityId: count.id,
+      newValue: JSON.stringify({ countNumber: count.countNumber, totalVarianceValue }),
+    },
+  });
+
+  return approved;
+}
+
+/**
+ * Cancel an open count without posting
+ */
+export async function cancelCount(countId: string, companyId: string, userId: string) {
+  const count = await db.stockCount.findFirst({
+    where: { id: countId, companyId },
+  });
+
+  if (!count) {
+    throw new Error('Stock count not found');
+  }
+
+  if (count.status !== 'COUNTING' && count.status !== 'REVIEW') {
+    throw new Error(`Cannot cancel count in ${count.status} status`);
+  }
+
+  return db.stockCount.update({
+    where: { id: countId },
+    data: {
+      status: 'CANCELLED',
+      updatedBy: userId,
+    },
+  });
+}
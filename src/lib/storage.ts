@@ -0,0 +1,96 @@
+/**
+ * File Storage
+ * Stores uploaded file bytes under a key. Local disk is the default driver; another backend
+ * (e.g. an S3-compatible store) plugs in by registering a driver and setting STORAGE_DRIVER.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Types
+export interface StorageDriver {
+  name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+  check(): Promise<Record<string, unknown>>; // Throws if the backend is unusable
+}
+
+// Root folder of the local driver
+const STORAGE_DIR = path.resolve(process.env.STORAGE_DIR || './storage');
+
+const drivers = new Map<string, () => StorageDriver>();
+let activeDriver: StorageDriver | null = null;
+
+/**
+ * Resolve a key inside the storage root, refusing keys that escape it
+ */
+function resolveLocalPath(key: string): string {
+  const filePath = path.resolve(STORAGE_DIR, key);
+  if (!filePath.startsWith(STORAGE_DIR + path.sep)) {
+    throw new Error('Invalid storage key');
+  }
+  return filePath;
+}
+
+/**
+ * Driver keeping files on the local disk under STORAGE_DIR
+ */
+function createLocalDriver(): StorageDriver {
+  return {
+    name: 'local',
+
+    async put(key, data) {
+      const filePath = resolveLocalPath(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+    },
+
+    async get(key) {
+      try {
+        return await fs.readFile(resolveLocalPath(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await fs.rm(resolveLocalPath(key), { force: true });
+    },
+
+    async check() {
+      await fs.mkdir(STORAGE_DIR, { recursive: true });
+      await fs.access(STORAGE_DIR, fs.constants.W_OK);
+      return { path: STORAGE_DIR };
+    },
+  };
+}
+
+drivers.set('local', createLocalDriver);
+
+/**
+ * Make a storage backend selectable through STORAGE_DRIVER
+ */
+export function registerStorageDriver(name: string, factory: () => StorageDriver) {
+  drivers.set(name, factory);
+  if (activeDriver?.name === name) {
+    activeDriver = null;
+  }
+}
+
+/**
+ * The configured storage driver
+ */
+export function getStorage(): StorageDriver {
+  if (!activeDriver) {
+    const name = process.env.STORAGE_DRIVER || 'local';
+    const factory = drivers.get(name);
+    if (!factory) {
+      throw new Error(`Unknown storage driver "${name}"`);
+    }
+    activeDriver = factory();
+  }
+
+  return activeDriver;
+}
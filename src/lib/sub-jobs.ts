@@ -0,0 +1,283 @@
+/**
+ * Sub-jobs
+ * Parent/child work orders: a major job split into sub-jobs per trade or vendor, each with its
+ * own assignee, item requests and costs. The parent's status follows its sub-jobs until they are
+ * done, when it is completed by hand, and its cost breakdown rolls theirs up (see getJobCostBreakdown).
+ */
+
+import { db } from '@/lib/db';
+import { updateJobRunningTotals } from '@/lib/costing';
+import { recordJobStatusEvent } from '@/lib/job-timeline';
+import { getAssignableTechnician } from '@/lib/scheduling';
+import { getSlaDueDates } from '@/lib/sla';
+import { JobPriority, JobStatus } from '@prisma/client';
+
+// Types
+export interface SubJobInput {
+  title: string;
+  description?: string;
+  assignedToId?: string | null;
+  priority?: JobPriority;
+  estimatedMinutes?: number | null;
+  itemRequestIds?: string[]; // Moved from the parent with their issue and return costs
+  costLogIds?: string[];     // Fuel and external repair costs, moved with their source record
+}
+
+// Status actions still taken by hand on a parent; the rest follow its sub-jobs
+export const PARENT_JOB_ACTIONS = ['assign', 'complete', 'close', 'cancel'];
+
+// Statuses after which a job can no longer be split
+const FINISHED_STATUSES: JobStatus[] = ['COMPLETED', 'CLOSED', 'CANCELLED'];
+
+// Costs that can move on their own, and the record each belongs to
+const MOVABLE_COST_REFERENCES = ['FUEL', 'EXTERNAL_REPAIR'];
+
+/**
+ * Create a sub-job under a job, optionally moving some of its requests and costs into it
+ */
+export async function createSubJob(companyId: string, parentJobId: string, input: SubJobInput, userId: string) {
+  const parent = await db.job.findFirst({
+    where: { id: parentJobId, companyId, isVoid: false },
+  });
+
+  if (!parent) {
+    throw new Error('Job not found');
+  }
+
+  if (parent.parentJobId) {
+    throw new Error('A sub-job cannot have sub-jobs of its own');
+  }
+
+  if (FINISHED_STATUSES.includes(parent.status)) {
+    throw new Error(`Cannot add a sub-job to a ${parent.status.toLowerCase()} job`);
+  }
+
+  const title = input.title?.trim();
+  if (!title) {
+    throw new Error('Sub-job title is required');
+  }
+
+  if (input.estimatedMinutes !== undefined && input.estimatedMinutes !== null &&
+      (!Number.isInteger(input.estimatedMinutes) || input.estimatedMinutes <= 0)) {
+    throw new Error('Estimate must be a whole number of minutes');
+  }
+
+  const technician = input.assignedToId
+    ? await getAssignableTechnician(companyId, input.assignedToId)
+    : null;
+
+  const itemRequestIds = input.itemRequestIds || [];
+  const requests = await db.itemRequest.findMany({
+    where: { id: { in: itemRequestIds }, jobId: parent.id },
+    include: { lines: { select: { id: true } } },
+  });
+
+  if (requests.length !== itemRequestIds.length) {
+    throw new Error('Item requests must belong to the parent job');
+  }
+
+  const costLogIds = input.costLogIds || [];
+  const costLogs = await db.jobCostLog.findMany({
+    where: { id: { in: costLogIds }, jobId: parent.id },
+  });
+
+  if (costLogs.length !== costLogIds.length) {
+    throw new Error('Costs must belong to the parent job');
+  }
+
+  if (costLogs.some((log) => !MOVABLE_COST_REFERENCES.includes(log.referenceType || ''))) {
+    throw new Error('Only fuel and external repair costs can be moved on their own; stores costs move with their request');
+  }
+
+  const priority = input.priority || parent.priority;
+
+  const child = await db.job.create({
+    data: {
+      companyId,
+      assetId: parent.assetId,
+      failureTypeId: parent.failureTypeId,
+      parentJobId: parent.id,
+      createdById: userId,
+      assignedToId: technician?.id || null,
+      title,
+      description: input.description?.trim() || `Part of "${parent.title}"`,
+      priority,
+      type: parent.type,
+      status: technician ? 'ASSIGNED' : 'CREATED',
+      safetyCritical: parent.safetyCritical,
+      safetyPhotoRequired: parent.safetyPhotoRequired,
+      estimatedMinutes: input.estimatedMinutes || null,
+      ...(await getSlaDueDates(companyId, priority, parent.type)),
+      createdBy: userId,
+    },
+  });
+
+  // Requests take their returns and every cost posted against either
+  if (requests.length > 0) {
+    const requestIds = requests.map((r) => r.id);
+    const returns = await db.itemReturn.findMany({
+      where: {
+        jobId: parent.id,
+        requestLineId: { in: requests.flatMap((r) => r.lines.map((l) => l.id)) },
+      },
+      select: { id: true },
+    });
+    const returnIds = returns.map((r) => r.id);
+
+    await db.itemRequest.updateMany({
+      where: { id: { in: requestIds } },
+      data: { jobId: child.id, updatedBy: userId },
+    });
+
+    await db.itemReturn.updateMany({
+      where: { id: { in: returnIds } },
+      data: { jobId: child.id },
+    });
+
+    await db.jobCostLog.updateMany({
+      where: {
+        jobId: parent.id,
+        OR: [
+          { referenceType: 'ISSUE', referenceId: { in: requestIds } },
+          { referenceId: { in: returnIds } },
+        ],
+      },
+      data: { jobId: child.id },
+    });
+  }
+
+  for (const log of costLogs) {
+    if (log.referenceType === 'FUEL' && log.referenceId) {
+      await db.fuelIssue.updateMany({
+        where: { id: log.referenceId, jobId: parent.id },
+        data: { jobId: child.id },
+      });
+    } else if (log.referenceType === 'EXTERNAL_REPAIR' && log.referenceId) {
+      await db.externalRepair.updateMany({
+        where: { id: log.referenceId, jobId: parent.id },
+        data: { jobId: child.id },
+      });
+    }
+  }
+
+  if (costLogs.length > 0) {
+    await db.jobCostLog.updateMany({
+      where: { id: { in: costLogIds } },
+      data: { jobId: child.id },
+    });
+  }
+
+  if (requests.length > 0 || costLogs.length > 0) {
+    await updateJobRunningTotals(parent.id);
+    await updateJobRunningTotals(child.id);
+  }
+
+  const moved = [
+    requests.length > 0 && `${requests.length} request(s)`,
+    costLogs.length > 0 && `${costLogs.length} cost(s)`,
+  ].filter(Boolean).join(' and ');
+
+  await recordJobStatusEvent({
+    jobId: parent.id,
+    fromStatus: parent.status,
+    toStatus: parent.status,
+    action: 'split',
+    reason: `Sub-job "${title}" created${moved ? `, moving ${moved}` : ''}`,
+    userId,
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'CREATE',
+      entity: 'Job',
+      entityId: child.id,
+      newValue: JSON.stringify({ ...child, itemRequestIds, costLogIds }),
+    },
+  });
+
+  if (technician) {
+    await db.notification.create({
+      data: {
+        userId: technician.id,
+        title: 'New Job Assigned',
+        message: `Job "${title}" has been assigned to you`,
+        type: 'JOB_ASSIGNED',
+        referenceId: child.id,
+      },
+    });
+  }
+
+  return child;
+}
+
+/**
+ * Status a parent should have given its sub-jobs, or null to leave it unchanged
+ */
+function deriveParentStatus(childStatuses: JobStatus[]): JobStatus | null {
+  const active = childStatuses.filter((status) => status !== 'CANCELLED');
+  if (active.length === 0) return null;
+
+  const done = (status: JobStatus) => status === 'COMPLETED' || status === 'CLOSED';
+
+  if (active.includes('IN_PROGRESS')) return 'IN_PROGRESS';
+  if (active.includes('PAUSED')) return 'PAUSED';
+  // Never COMPLETED, even once all are done: the parent is completed by hand so its own
+  // checklist, safety photo and returns are checked and its labour is costed
+  if (active.some(done)) return 'IN_PROGRESS';
+  return null;
+}
+
+/**
+ * Bring a parent job's status in line with its sub-jobs after one of them changed
+ */
+export async function syncParentJobStatus(parentJobId: string, userId: string) {
+  const parent = await db.job.findUnique({
+    where: { id: parentJobId },
+    include: {
+      childJobs: {
+        where: { isVoid: false },
+        select: { status: true },
+      },
+    },
+  });
+
+  if (!parent || FINISHED_STATUSES.includes(parent.status)) return null;
+
+  const status = deriveParentStatus(parent.childJobs.map((child) => child.status));
+  if (!status || status === parent.status) return null;
+
+  const now = new Date();
+  const updateData: Record<string, unknown> = {
+    status,
+    updatedBy: userId,
+  };
+
+  // Keep the same timestamps as a manual transition so SLA and pause time stay right
+  if (status === 'IN_PROGRESS' && !parent.startedAt) {
+    updateData.startedAt = now;
+  }
+  if (status === 'PAUSED') {
+    updateData.pausedAt = now;
+  } else if (parent.status === 'PAUSED' && parent.pausedAt) {
+    updateData.totalPauseTime =
+      (parent.totalPauseTime || 0) + Math.floor((now.getTime() - parent.pausedAt.getTime()) / 1000);
+    updateData.pausedAt = null;
+  }
+
+  const updated = await db.job.update({
+    where: { id: parentJobId },
+    data: updateData,
+  });
+
+  await recordJobStatusEvent({
+    jobId: parentJobId,
+    fromStatus: parent.status,
+    toStatus: status,
+    action: 'sync',
+    reason: 'Updated from sub-jobs',
+    userId,
+  });
+
+  return updated;
+}
@@ -0,0 +1,391 @@
+/**
+ * Labour Time Entries
+ * Technicians clock on and off jobs (or enter time afterwards for supervisor approval).
+ * Each closed, approved entry is costed at that technician's own rate as a LABOR cost log,
+ * and no technician can be booked on two jobs over the same period.
+ */
+
+import { db } from '@/lib/db';
+import { addLaborCost } from '@/lib/costing';
+
+// Types
+export interface ManualTimeEntryInput {
+  companyId: string;
+  jobId: string;
+  userId: string; // Technician the time is for
+  startedAt: Date;
+  endedAt: Date;
+  notes?: string;
+  createdBy: string;
+}
+
+// Jobs a technician can book time against
+const WORKABLE_JOB_STATUSES = ['ASSIGNED', 'IN_PROGRESS', 'PAUSED', 'COMPLETED'];
+
+// Longest single entry accepted
+const MAX_ENTRY_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Format a timestamp for error messages
+ */
+function formatTime(date: Date): string {
+  return date.toISOString().slice(0, 16).replace('T', ' ');
+}
+
+/**
+ * Throw if the technician already has time booked that overlaps the period
+ * (an open-ended period is a clock-on from `start` onwards)
+ */
+async function assertNoOverlap(userId: string, start: Date, end: Date | null, excludeId?: string) {
+  const clash = await db.jobTimeEntry.findFirst({
+    where: {
+      userId,
+      status: { not: 'REJECTED' },
+      ...(excludeId ? { id: { not: excludeId } } : {}),
+      ...(end ? { startedAt: { lt: end } } : {}),
+      OR: [{ endedAt: null }, { endedAt: { gt: start } }],
+    },
+    include: {
+      job: { select: { title: true } },
+      user: { select: { name: true } },
+    },
+  });
+
+  if (clash) {
+    throw new Error(
+      clash.endedAt
+        ? `${clash.user.name} is already booked on "${clash.job.title}" from ${formatTime(clash.startedAt)} to ${formatTime(clash.endedAt)}`
+        : `${clash.user.name} is still clocked on "${clash.job.title}"`
+    );
+  }
+}
+
+/**
+ * Load a job in the company that time can be booked against
+ */
+async function getWorkableJob(companyId: string, jobId: string) {
+  const job = await db.job.findFirst({
+    where: { id: jobId, companyId, isVoid: false },
+  });
+
+  if (!job) {
+    throw new Error('Job not found');
+  }
+
+  if (!WORKABLE_JOB_STATUSES.includes(job.status)) {
+    throw new Error(`Cannot book time on a ${job.status} job`);
+  }
+
+  return job;
+}
+
+/**
+ * Load a technician in the company
+ */
+async function getTechnician(companyId: string, userId: string) {
+  const user = await db.user.findFirst({
+    where: { id: userId, companyId, status: 'ACTIVE' },
+    select: { id: true, name: true, hourlyRate: true },
+  });
+
+  if (!user) {
+    throw new Error('Technician not found');
+  }
+
+  return user;
+}
+
+/**
+ * Cost an approved entry at the technician's rate and link the LABOR cost log
+ */
+async function postEntryCost(entryId: string, actorId: string) {
+  const entry = await db.jobTimeEntry.findUniqueOrThrow({
+    where: { id: entryId },
+    include: { user: { select: { name: true, hourlyRate: true } } },
+  });
+
+  const hours = entry.hours || 0;
+  const hourlyRate = entry.user.hourlyRate || 0;
+  const laborCost = hours * hourlyRate;
+
+  const costLogId = laborCost > 0
+    ? await addLaborCost(entry.jobId, hours, hourlyRate, entry.user.name, entry.id, actorId)
+    : null;
+
+  return db.jobTimeEntry.update({
+    where: { id: entry.id },
+    data: { hourlyRate, laborCost, costLogId, updatedBy: actorId },
+  });
+}
+
+/**
+ * Clock a technician on to a job from now
+ */
+export async function clockOn(companyId: string, jobId: string, userId: string, notes?: string) {
+  const job = await getWorkableJob(companyId, jobId);
+  if (job.status === 'COMPLETED') {
+    throw new Error('Cannot clock on to a completed job');
+  }
+
+  await getTechnician(companyId, userId);
+
+  const startedAt = new Date();
+  await assertNoOverlap(userId, startedAt, null);
+
+  const entry = await db.jobTimeEntry.create({
+    data: {
+      companyId,
+      jobId,
+      userId,
+      source: 'CLOCK',
+      status: 'OPEN',
+      startedAt,
+      notes,
+      createdBy: userId,
+    },
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'CREATE',
+      entity: 'JobTimeEntry',
+      entityId: entry.id,
+      newValue: JSON.stringify(entry),
+    },
+  });
+
+  return entry;
+}
+
+/**
+ * Clock a technician off a job; clocked time needs no approval and is costed straight away
+ */
+export async function clockOff(
+  companyId: string,
+  jobId: string,
+  userId: string,
+  actorId: string = userId,
+  endedAt: Date = new Date()
+) {
+  const open = await db.jobTimeEntry.findFirst({
+    where: { companyId, jobId, userId, status: 'OPEN' },
+  });
+
+  if (!open) {
+    throw new Error('Not clocked on to this job');
+  }
+
+  const entry = await db.jobTimeEntry.update({
+    where: { id: open.id },
+    data: {
+      endedAt,
+      hours: Math.max(endedAt.getTime() - open.startedAt.getTime(), 0) / HOUR_MS,
+      status: 'APPROVED',
+      approvedAt: endedAt,
+      updatedBy: actorId,
+    },
+  });
+
+  const costed = await postEntryCost(entry.id, actorId);
+
+  await db.auditLog.create({
+    data: {
+      userId: actorId,
+      action: 'UPDATE',
+      entity: 'JobTimeEntry',
+      entityId: entry.id,
+      oldValue: JSON.stringify(open),
+      newValue: JSON.stringify(costed),
+    },
+  });
+
+  return costed;
+}
+
+/**
+ * Clock everyone still on a job off it (job paused or completed)
+ */
+export async function clockOffJob(jobId: string, actorId: string): Promise<number> {
+  const open = await db.jobTimeEntry.findMany({
+    where: { jobId, status: 'OPEN' },
+    select: { companyId: true, userId: true },
+  });
+
+  const endedAt = new Date();
+  for (const entry of open) {
+    await clockOff(entry.companyId, jobId, entry.userId, actorId, endedAt);
+  }
+
+  return open.length;
+}
+
+/**
+ * Record time worked after the fact; it is costed once a supervisor approves it
+ */
+export async function createManualEntry(input: ManualTimeEntryInput) {
+  const { companyId, jobId, userId, startedAt, endedAt, notes, createdBy } = input;
+
+  if (isNaN(startedAt.getTime()) || isNaN(endedAt.getTime())) {
+    throw new Error('Invalid start or end time');
+  }
+
+  if (endedAt <= startedAt) {
+    throw new Error('End time must be after start time');
+  }
+
+  if (endedAt > new Date()) {
+    throw new Error('Time cannot be entered for the future');
+  }
+
+  const hours = (endedAt.getTime() - startedAt.getTime()) / HOUR_MS;
+  if (hours > MAX_ENTRY_HOURS) {
+    throw new Error(`A single entry cannot exceed ${MAX_ENTRY_HOURS} hours`);
+  }
+
+  const job = await getWorkableJob(companyId, jobId);
+  const technician = await getTechnician(companyId, userId);
+  await assertNoOverlap(userId, startedAt, endedAt);
+
+  const entry = await db.jobTimeEntry.create({
+    data: {
+      companyId,
+      jobId,
+      userId,
+      source: 'MANUAL',
+      status: 'PENDING_APPROVAL',
+      startedAt,
+      endedAt,
+      hours,
+      notes,
+      createdBy,
+    },
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId: createdBy,
+      action: 'CREATE',
+      entity: 'JobTimeEntry',
+      entityId: entry.id,
+      newValue: JSON.stringify(entry),
+    },
+  });
+
+  const supervisors = await db.user.findMany({
+    where: {
+      companyId,
+      role: { in: ['SUPERVISOR', 'ADMIN', 'MANAGER'] },
+      status: 'ACTIVE',
+      id: { not: userId },
+    },
+  });
+
+  for (const supervisor of supervisors) {
+    await db.notification.create({
+      data: {
+        userId: supervisor.id,
+        title: 'Time Entry Pending',
+        message: `${technician.name} entered ${hours.toFixed(2)} hours on "${job.title}" for approval`,
+        type: 'TIME_ENTRY_PENDING',
+        referenceId: entry.id,
+      },
+    });
+  }
+
+  return entry;
+}
+
+/**
+ * Load a manual entry awaiting approval, checking the approver is not approving their own time
+ */
+async function getPendingEntry(companyId: string, entryId: string, approverId: string) {
+  const entry = await db.jobTimeEntry.findFirst({
+    where: { id: entryId, companyId },
+    include: { job: { select: { status: true } } },
+  });
+
+  if (!entry) {
+    throw new Error('Time entry not found');
+  }
+
+  if (entry.status !== 'PENDING_APPROVAL') {
+    throw new Error(`Time entry is ${entry.status}`);
+  }
+
+  if (entry.userId === approverId) {
+    throw new Error('You cannot approve your own time');
+  }
+
+  return entry;
+}
+
+/**
+ * Approve a manual entry and cost it to the job
+ */
+export async function approveTimeEntry(companyId: string, entryId: string, approverId: string) {
+  const entry = await getPendingEntry(companyId, entryId, approverId);
+
+  if (['CLOSED', 'CANCELLED'].includes(entry.job.status)) {
+    throw new Error(`Cannot approve time on a ${entry.job.status} job`);
+  }
+
+  // Another entry may have been booked over the same period since this one was entered
+  await assertNoOverlap(entry.userId, entry.startedAt, entry.endedAt, entry.id);
+
+  await db.jobTimeEntry.update({
+    where: { id: entry.id },
+    data: {
+      status: 'APPROVED',
+      approvedById: approverId,
+      approvedAt: new Date(),
+      updatedBy: approverId,
+    },
+  });
+
+  const costed = await postEntryCost(entry.id, approverId);
+
+  await db.auditLog.create({
+    data: {
+      userId: approverId,
+      action: 'APPROVE',
+      entity: 'JobTimeEntry',
+      entityId: entry.id,
+      newValue: JSON.stringify(costed),
+    },
+  });
+
+  return costed;
+}
+
+/**
+ * Reject a manual entry; it is never costed
+ */
+export async function rejectTimeEntry(companyId: string, entryId: string, approverId: string, reason?: string) {
+  const entry = await getPendingEntry(companyId, entryId, approverId);
+
+  const rejected = await db.jobTimeEntry.update({
+    where: { id: entry.id },
+    data: {
+      status: 'REJECTED',
+      approvedById: approverId,
+      approvedAt: new Date(),
+      rejectionReason: reason,
+      updatedBy: approverId,
+    },
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId: approverId,
+      action: 'REJECT',
+      entity: 'JobTimeEntry',
+      entityId: entry.id,
+      newValue: JSON.stringify(rejected),
+    },
+  });
+
+  return rejected;
+}
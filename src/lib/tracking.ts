@@ -0,0 +1,664 @@
+/**
+ * Serial & Batch Tracking
+ * Serial numbers for individually tracked components (fitted to / removed from assets)
+ * and batch lots with expiry dates for consumables such as oils and filters
+ */
+
+import { db } from '@/lib/db';
+import { SerialEventType, SerialStatus } from '@prisma/client';
+
+// Types
+export interface TrackedLineInput {
+  quantity: number;
+  serialNumbers?: string[];
+}
+
+export interface SerialReceiptInput {
+  companyId: string;
+  itemId: string;
+  storeId: string;
+  serialNumbers: string[];
+  batchNumber?: string;
+  receiptId?: string;
+  userId: string;
+}
+
+export interface BatchReceiptInput {
+  itemId: string;
+  storeId: string;
+  batchNumber: string;
+  expiryDate?: Date | null;
+  quantity: number;
+}
+
+export interface BatchAllocation {
+  batchNumber: string;
+  quantity: number;
+  expiryDate: Date | null;
+}
+
+export interface SerialFitInput {
+  companyId: string;
+  itemId: string;
+  storeId: string;
+  serialNumbers: string[];
+  jobId: string;
+  assetId: string;
+  requestId: string;
+  userId: string;
+}
+
+export interface SerialRemovalInput {
+  companyId: string;
+  itemId: string;
+  serialNumber: string;
+  jobId: string;
+  returnId: string;
+  userId: string;
+}
+
+export interface SerialMoveInput {
+  companyId: string;
+  itemId: string;
+  serialNumbers: string[];
+  storeId: string | null; // Destination store; null while in transit or written off
+  eventType: 'TRANSFERRED' | 'ADJUSTED';
+  referenceType: string;
+  referenceId: string;
+  userId: string;
+}
+
+export interface SerialStateInput {
+  serialId: string;
+  status: SerialStatus;
+  storeId: string | null;
+  assetId: string | null;
+  jobId?: string | null;
+  eventType: SerialEventType;
+  referenceType: string;
+  referenceId: string;
+  userId: string;
+}
+
+export interface SerialReturnInput {
+  itemId: string;
+  serialNumber: string;
+  storeId: string;
+  condition: 'GOOD' | 'DAMAGED' | 'DEFECTIVE';
+  returnId: string;
+  userId: string;
+}
+
+/**
+ * Normalise serial numbers entered as an array or a comma/newline separated string
+ */
+export function parseSerialNumbers(value: string[] | string | null | undefined): string[] {
+  if (!value) return [];
+  const list = Array.isArray(value) ? value : value.split(/[\n,]/);
+  return list.map((s) => String(s).trim()).filter((s) => s.length > 0);
+}
+
+/**
+ * Check whether a batch is past its expiry date
+ */
+export function isExpired(expiryDate: Date | null, asOf: Date = new Date()): boolean {
+  return !!expiryDate && expiryDate.getTime() < asOf.getTime();
+}
+
+/**
+ * Validate the serial numbers captured on a receipt or issue line of a serial-tracked item
+ */
+export function validateTrackedLine(
+  trackingType: string,
+  itemCode: string,
+  line: TrackedLineInput
+) {
+  if (trackingType === 'SERIAL') {
+    const serials = line.serialNumbers || [];
+    if (!Number.isInteger(line.quantity)) {
+      throw new Error(`${itemCode} is serial tracked; quantity must be a whole number`);
+    }
+    if (serials.length !== line.quantity) {
+      throw new Error(`${itemCode} is serial tracked; ${line.quantity} serial number(s) required, got ${serials.length}`);
+    }
+    if (new Set(serials).size !== serials.length) {
+      throw new Error(`Duplicate serial numbers entered for ${itemCode}`);
+    }
+  }
+}
+
+/**
+ * Reject serial numbers that are already in stock or fitted to an asset
+ */
+export async function assertSerialsNotInService(itemId: string, serialNumbers: string[]) {
+  const active = await db.itemSerial.findMany({
+    where: {
+      itemId,
+      serialNumber: { in: serialNumbers },
+      status: { in: ['IN_STOCK', 'FITTED'] },
+    },
+    select: { serialNumber: true },
+  });
+
+  if (active.length > 0) {
+    throw new Error(`Serial number(s) already in service: ${active.map((s) => s.serialNumber).join(', ')}`);
+  }
+}
+
+/**
+ * Register serial numbers received into a store
+ * A serial previously removed or returned defective (e.g. back from repair) is re-received.
+ */
+export async function registerSerials(input: SerialReceiptInput) {
+  const { companyId, itemId, storeId, serialNumbers, batchNumber, receiptId, userId } = input;
+
+  await assertSerialsNotInService(itemId, serialNumbers);
+
+  const existing = await db.itemSerial.findMany({
+    where: { itemId, serialNumber: { in: serialNumbers } },
+  });
+
+  const serials: Awaited<ReturnType<typeof db.itemSerial.create>>[] = [];
+
+  for (const serialNumber of serialNumbers) {
+    const previous = existing.find((s) => s.serialNumber === serialNumber);
+
+    const serial = previous
+      ? await db.itemSerial.update({
+          where: { id: previous.id },
+          data: {
+            status: 'IN_STOCK',
+            storeId,
+            assetId: null,
+            batchNumber,
+            receiptId,
+            updatedBy: userId,
+          },
+        })
+      : await db.itemSerial.create({
+          data: {
+            companyId,
+            itemId,
+            serialNumber,
+            status: 'IN_STOCK',
+            storeId,
+            batchNumber,
+            receiptId,
+            createdBy: userId,
+          },
+        });
+
+    await db.serialEvent.create({
+      data: {
+        serialId: serial.id,
+        eventType: 'RECEIVED',
+        storeId,
+        referenceType: 'RECEIPT',
+        referenceId: receiptId,
+        userId,
+      },
+    });
+
+    serials.push(serial);
+  }
+
+  return serials;
+}
+
+/**
+ * Add received quantity to a batch lot in a store
+ */
+export async function receiveBatch(input: BatchReceiptInput) {
+  const { itemId, storeId, batchNumber, expiryDate, quantity } = input;
+
+  return db.itemBatch.upsert({
+    where: {
+      itemId_storeId_batchNumber: { itemId, storeId, batchNumber },
+    },
+    update: {
+      quantity: { increment: quantity },
+      ...(expiryDate ? { expiryDate } : {}),
+    },
+    create: {
+      itemId,
+      storeId,
+      batchNumber,
+      expiryDate: expiryDate || null,
+      quantity,
+    },
+  });
+}
+
+/**
+ * Quantity that can be issued from batch stock without touching expired lots
+ * Limited to the named batch when one is given.
+ */
+export async function getIssuableBatchQty(
+  itemId: string,
+  storeId: string,
+  batchNumber?: string
+): Promise<number> {
+  const now = new Date();
+
+  if (batchNumber) {
+    const batch = await db.itemBatch.findUnique({
+      where: {
+        itemId_storeId_batchNumber: { itemId, storeId, batchNumber },
+      },
+    });
+    return batch && !isExpired(batch.expiryDate, now) ? batch.quantity : 0;
+  }
+
+  const [batches, stockLevel] = await Promise.all([
+    db.itemBatch.findMany({
+      where: { itemId, storeId, quantity: { gt: 0 } },
+    }),
+    db.itemStock.findUnique({
+      where: { itemId_storeId: { itemId, storeId } },
+    }),
+  ]);
+
+  const batchedQty = batches.reduce((sum, b) => sum + b.quantity, 0);
+  const usableQty = batches
+    .filter((b) => !isExpired(b.expiryDate, now))
+    .reduce((sum, b) => sum + b.quantity, 0);
+  const unbatchedQty = Math.max((stockLevel?.quantity || 0) - batchedQty, 0);
+
+  return usableQty + unbatchedQty;
+}
+
+/**
+ * Consume batch quantities for an issue, first-expiry-first-out
+ * Expired batches are never issued. Stock received before batch tracking (unbatched) may still be issued.
+ */
+export async function consumeBatches(
+  itemId: string,
+  storeId: string,
+  quantity: number,
+  batchNumber?: string
+): Promise<BatchAllocation[]> {
+  const now = new Date();
+
+  if (batchNumber) {
+    const batch = await db.itemBatch.findUnique({
+      where: {
+        itemId_storeId_batchNumber: { itemId, storeId, batchNumber },
+      },
+    });
+
+    if (!batch) {
+      throw new Error(`Batch ${batchNumber} not found in this store`);
+    }
+    if (isExpired(batch.expiryDate, now)) {
+      throw new Error(`Batch ${batchNumber} expired on ${batch.expiryDate!.toISOString().slice(0, 10)} and cannot be issued`);
+    }
+    if (batch.quantity < quantity) {
+      throw new Error(`Insufficient quantity in batch ${batchNumber}. Available: ${batch.quantity}`);
+    }
+
+    await db.itemBatch.update({
+      where: { id: batch.id },
+      data: { quantity: batch.quantity - quantity },
+    });
+
+    return [{ batchNumber, quantity, expiryDate: batch.expiryDate }];
+  }
+
+  const [batches, stockLevel] = await Promise.all([
+    db.itemBatch.findMany({
+      where: { itemId, storeId, quantity: { gt: 0 } },
+    }),
+    db.itemStock.findUnique({
+      where: { itemId_storeId: { itemId, storeId } },
+    }),
+  ]);
+
+  const expired = batches.filter((b) => isExpired(b.expiryDate, now));
+  const usable = batches
+    .filter((b) => !isExpired(b.expiryDate, now))
+    .sort((a, b) => {
+      if (!a.expiryDate) return 1;
+      if (!b.expiryDate) return -1;
+      return a.expiryDate.getTime() - b.expiryDate.getTime();
+    });
+
+  const batchedQty = batches.reduce((sum, b) => sum + b.quantity, 0);
+  const usableQty = usable.reduce((sum, b) => sum + b.quantity, 0);
+  const unbatchedQty = Math.max((stockLevel?.quantity || 0) - batchedQty, 0);
+
+  if (expired.length > 0 && quantity > usableQty + unbatchedQty) {
+    throw new Error(
+      `Only ${usableQty + unbatchedQty} unexpired in stock; expired batch(es) ${expired.map((b) => b.batchNumber).join(', ')} cannot be issued`
+    );
+  }
+
+  const allocations: BatchAllocation[] = [];
+  let remaining = quantity;
+
+  for (const batch of usable) {
+    if (remaining <= 0) break;
+
+    const take = Math.min(batch.quantity, remaining);
+
+    await db.itemBatch.update({
+      where: { id: batch.id },
+      data: { quantity: batch.quantity - take },
+    });
+
+    allocations.push({ batchNumber: batch.batchNumber, quantity: take, expiryDate: batch.expiryDate });
+    remaining -= take;
+  }
+
+  return allocations;
+}
+
+/**
+ * Write batch lots down for a stock loss so batched quantity never exceeds what is on hand
+ * Call before the stock is decremented. Unbatched stock is lost first, then lots earliest expiry first,
+ * expired lots included.
+ */
+export async function writeOffBatches(
+  itemId: string,
+  storeId: string,
+  quantity: number
+): Promise<BatchAllocation[]> {
+  const [batches, stockLevel] = await Promise.all([
+    db.itemBatch.findMany({
+      where: { itemId, storeId, quantity: { gt: 0 } },
+      orderBy: [{ expiryDate: 'asc' }, { receivedAt: 'asc' }],
+    }),
+    db.itemStock.findUnique({
+      where: { itemId_storeId: { itemId, storeId } },
+    }),
+  ]);
+
+  const batchedQty = batches.reduce((sum, b) => sum + b.quantity, 0);
+  const unbatchedQty = Math.max((stockLevel?.quantity || 0) - batchedQty, 0);
+
+  const allocations: BatchAllocation[] = [];
+  let remaining = quantity - unbatchedQty;
+
+  for (const batch of batches) {
+    if (remaining <= 0) break;
+
+    const take = Math.min(batch.quantity, remaining);
+
+    await db.itemBatch.update({
+      where: { id: batch.id },
+      data: { quantity: batch.quantity - take },
+    });
+
+    allocations.push({ batchNumber: batch.batchNumber, quantity: take, expiryDate: batch.expiryDate });
+    remaining -= take;
+  }
+
+  return allocations;
+}
+
+/**
+ * Check that serials exist and are sitting in stock in the given store, ready to be issued or moved
+ */
+export async function assertSerialsIssuable(
+  companyId: string,
+  itemId: string,
+  serialNumbers: string[],
+  storeId: string
+) {
+  const serials = await db.itemSerial.findMany({
+    where: { companyId, itemId, serialNumber: { in: serialNumbers } },
+    include: { rotableUnit: { select: { id: true } } },
+  });
+
+  for (const serialNumber of serialNumbers) {
+    const serial = serials.find((s) => s.serialNumber === serialNumber);
+    if (!serial) {
+      throw new Error(`Serial number ${serialNumber} not found`);
+    }
+    if (serial.rotableUnit) {
+      throw new Error(`Serial number ${serialNumber} is a rotable unit and moves through the rotable pool`);
+    }
+    if (serial.status !== 'IN_STOCK') {
+      throw new Error(`Serial number ${serialNumber} is ${serial.status} and cannot be issued`);
+    }
+    if (serial.storeId !== storeId) {
+      throw new Error(`Serial number ${serialNumber} is not in this store`);
+    }
+  }
+
+  return serials;
+}
+
+/**
+ * Move serials with their stock: into transit or another store on transfer, or out of stock on adjustment
+ */
+export async function moveSerials(input: SerialMoveInput) {
+  const { companyId, itemId, serialNumbers, storeId, eventType, referenceType, referenceId, userId } = input;
+
+  const serials = await db.itemSerial.findMany({
+    where: { companyId, itemId, serialNumber: { in: serialNumbers } },
+  });
+
+  for (const serial of serials) {
+    await db.itemSerial.update({
+      where: { id: serial.id },
+      data: { storeId, updatedBy: userId },
+    });
+
+    await db.serialEvent.create({
+      data: {
+        serialId: serial.id,
+        eventType,
+        storeId: storeId ?? serial.storeId,
+        referenceType,
+        referenceId,
+        userId,
+      },
+    });
+  }
+
+  return serials;
+}
+
+/**
+ * Put a serial in a new status and location, for units whose moves are driven by the rotable pool
+ */
+export async function setSerialState(input: SerialStateInput) {
+  const { serialId, status, storeId, assetId, jobId, eventType, referenceType, referenceId, userId } = input;
+
+  const previous = await db.itemSerial.findUnique({ where: { id: serialId } });
+
+  if (!previous) {
+    throw new Error('Serial not found');
+  }
+
+  const serial = await db.itemSerial.update({
+    where: { id: serialId },
+    data: {
+      status,
+      storeId,
+      assetId,
+      ...(jobId ? { jobId } : {}),
+      updatedBy: userId,
+    },
+  });
+
+  await db.serialEvent.create({
+    data: {
+      serialId,
+      eventType,
+      storeId: storeId ?? previous.storeId,
+      assetId: assetId ?? previous.assetId,
+      jobId: jobId || null,
+      referenceType,
+      referenceId,
+      userId,
+    },
+  });
+
+  return serial;
+}
+
+/**
+ * Fit issued serials to the job's asset
+ */
+export async function fitSerials(input: SerialFitInput) {
+  const { companyId, itemId, storeId, serialNumbers, jobId, assetId, requestId, userId } = input;
+
+  const serials = await assertSerialsIssuable(companyId, itemId, serialNumbers, storeId);
+
+  for (const serial of serials) {
+    await db.itemSerial.update({
+      where: { id: serial.id },
+      data: {
+        status: 'FITTED',
+        storeId: null,
+        assetId,
+        jobId,
+        updatedBy: userId,
+      },
+    });
+
+    await db.serialEvent.create({
+      data: {
+        serialId: serial.id,
+        eventType: 'FITTED',
+        storeId: serial.storeId,
+        assetId,
+        jobId,
+        referenceType: 'REQUEST',
+        referenceId: requestId,
+        userId,
+      },
+    });
+  }
+}
+
+/**
+ * Reject removal of a serial that is sitting in a store rather than fitted to an asset
+ */
+export async function assertSerialRemovable(itemId: string, serialNumber: string) {
+  const serial = await db.itemSerial.findUnique({
+    where: { itemId_serialNumber: { itemId, serialNumber } },
+    include: { rotableUnit: { select: { id: true } } },
+  });
+
+  if (serial?.rotableUnit) {
+    throw new Error(`Serial number ${serialNumber} is a rotable unit and is removed through the rotable pool`);
+  }
+
+  if (serial && (serial.status === 'IN_STOCK' || serial.status === 'DEFECTIVE')) {
+    throw new Error(`Serial number ${serialNumber} is ${serial.status} and not fitted to an asset`);
+  }
+
+  return serial;
+}
+
+/**
+ * Record a serial removed from an asset when its return against a job is accepted
+ * Serials fitted before tracking started are registered on removal.
+ */
+export async function recordSerialRemoval(input: SerialRemovalInput) {
+  const { companyId, itemId, serialNumber, jobId, returnId, userId } = input;
+
+  const job = await db.job.findUnique({
+    where: { id: jobId },
+    select: { assetId: true },
+  });
+
+  const existing = await assertSerialRemovable(itemId, serialNumber);
+
+  const assetId = existing?.assetId || job?.assetId || null;
+
+  const serial = existing
+    ? await db.itemSerial.update({
+        where: { id: existing.id },
+        data: {
+          status: 'REMOVED',
+          assetId: null,
+          jobId,
+          updatedBy: userId,
+        },
+      })
+    : await db.itemSerial.create({
+        data: {
+          companyId,
+          itemId,
+          serialNumber,
+          status: 'REMOVED',
+          jobId,
+          createdBy: userId,
+        },
+      });
+
+  await db.serialEvent.create({
+    data: {
+      serialId: serial.id,
+      eventType: 'REMOVED',
+      assetId,
+      jobId,
+      referenceType: 'RETURN',
+      referenceId: returnId,
+      userId,
+    },
+  });
+
+  return serial;
+}
+
+/**
+ * Receive a removed serial back into a store; anything not in good condition is marked DEFECTIVE
+ */
+export async function returnSerialToStore(input: SerialReturnInput) {
+  const { itemId, serialNumber, storeId, condition, returnId, userId } = input;
+
+  const serial = await db.itemSerial.findUnique({
+    where: { itemId_serialNumber: { itemId, serialNumber } },
+  });
+
+  if (!serial) {
+    throw new Error(`Serial number ${serialNumber} not found`);
+  }
+
+  await db.itemSerial.update({
+    where: { id: serial.id },
+    data: {
+      status: condition === 'GOOD' ? 'IN_STOCK' : 'DEFECTIVE',
+      storeId,
+      assetId: null,
+      updatedBy: userId,
+    },
+  });
+
+  await db.serialEvent.create({
+    data: {
+      serialId: serial.id,
+      eventType: 'RETURNED',
+      storeId,
+      jobId: serial.jobId,
+      referenceType: 'RETURN',
+      referenceId: returnId,
+      condition,
+      userId,
+    },
+  });
+}
+
+/**
+ * Full history of a serial number: received, fitted, removed and returned events
+ */
+export async function getSerialHistory(companyId: string, serialNumber: string) {
+  return db.itemSerial.findMany({
+    where: { companyId, serialNumber },
+    include: {
+      item: { select: { id: true, code: true, description: true } },
+      asset: { select: { id: true, code: true, description: true } },
+      events: {
+        include: {
+          asset: { select: { id: true, code: true, description: true } },
+          job: { select: { id: true, title: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+}
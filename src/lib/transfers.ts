@@ -0,0 +1,552 @@
+/**
+ * Inter-Store Transfer Engine
+ * Handles transfer documents, dispatch into transit and receipt at the destination store
+ */
+
+import { db } from '@/lib/db';
+import { addCostLayer, costOutgoingStock } from '@/lib/cost-layers';
+import { evaluateStockLevel } from '@/lib/replenishment';
+import { putawayToBin, releaseFromBins } from '@/lib/bins';
+import { allocateBackorders } from '@/lib/backorders';
+import {
+  BatchAllocation,
+  assertSerialsIssuable,
+  consumeBatches,
+  moveSerials,
+  parseSerialNumbers,
+  receiveBatch,
+  validateTrackedLine,
+} from '@/lib/tracking';
+
+// Types
+export interface TransferLineInput {
+  itemId: string;
+  quantity: number;
+  serialNumbers?: string[]; // Required for serial-tracked items
+}
+
+export interface CreateTransferInput {
+  companyId: string;
+  fromStoreId: string;
+  toStoreId: string;
+  notes?: string;
+  lines: TransferLineInput[];
+  userId: string;
+}
+
+export interface ReceivedLineInput {
+  lineId: string;
+  receivedQty: number;
+  serialNumbers?: string[]; // Serials that arrived, when fewer than dispatched
+}
+
+const transferInclude = {
+  fromStore: { select: { id: true, name: true, code: true } },
+  toStore: { select: { id: true, name: true, code: true } },
+  dispatchedBy: { select: { id: true, name: true } },
+  receivedBy: { select: { id: true, name: true } },
+  lines: {
+    include: {
+      item: { select: { id: true, code: true, description: true, uom: true } },
+    },
+  },
+};
+
+/**
+ * Parse a JSON array column, treating empty or malformed values as empty
+ */
+function parseJsonArray<T>(value: string | null): T[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Generate a transfer number
+ */
+export function generateTransferNumber(): string {
+  return `TRF-${Date.now().toString(36).toUpperCase()}`;
+}
+
+/**
+ * Create a transfer document in DRAFT status
+ */
+export async function createTransfer(input: CreateTransferInput) {
+  const { companyId, fromStoreId, toStoreId, notes, lines, userId } = input;
+
+  if (fromStoreId === toStoreId) {
+    throw new Error('Source and destination stores must be different');
+  }
+
+  if (!lines || lines.length === 0) {
+    throw new Error('At least one transfer line is required');
+  }
+
+  for (const line of lines) {
+    if (!line.itemId || !(line.quantity > 0)) {
+      throw new Error('Each transfer line requires an item and a quantity greater than 0');
+    }
+  }
+
+  // One line per item: repeated lines are merged so stock is checked against the total sent
+  const merged = new Map<string, { itemId: string; quantity: number; serialNumbers: string[] }>();
+  for (const line of lines) {
+    const existing = merged.get(line.itemId);
+    const serialNumbers = parseSerialNumbers(line.serialNumbers);
+    if (existing) {
+      existing.quantity += line.quantity;
+      existing.serialNumbers.push(...serialNumbers);
+    } else {
+      merged.set(line.itemId, { itemId: line.itemId, quantity: line.quantity, serialNumbers });
+    }
+  }
+  const transferLines = Array.from(merged.values());
+
+  const stores = await db.store.findMany({
+    where: { id: { in: [fromStoreId, toStoreId] }, companyId },
+  });
+
+  if (stores.length !== 2) {
+    throw new Error('Store not found');
+  }
+
+  // Serials travel with the stock, so serial-tracked lines name the units being sent
+  const items = await db.item.findMany({
+    where: { id: { in: transferLines.map((l) => l.itemId) }, companyId },
+    select: { id: true, code: true, trackingType: true },
+  });
+
+  for (const line of transferLines) {
+    const item = items.find((i) => i.id === line.itemId);
+    if (!item) {
+      throw new Error('Item not found');
+    }
+
+    if (item.trackingType === 'SERIAL') {
+      validateTrackedLine('SERIAL', item.code, { quantity: line.quantity, serialNumbers: line.serialNumbers });
+      await assertSerialsIssuable(companyId, item.id, line.serialNumbers, fromStoreId);
+    }
+  }
+
+  const transfer = await db.stockTransfer.create({
+    data: {
+      companyId,
+      fromStoreId,
+      toStoreId,
+      transferNumber: generateTransferNumber(),
+      status: 'DRAFT',
+      notes,
+      createdBy: userId,
+      lines: {
+        create: transferLines.map((l) => ({
+          itemId: l.itemId,
+          quantity: l.quantity,
+          serialNumbers: l.serialNumbers.length > 0 ? JSON.stringify(l.serialNumbers) : null,
+        })),
+      },
+    },
+    include: transferInclude,
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'CREATE',
+      entity: 'StockTransfer',
+      entityId: transfer.id,
+      newValue: JSON.stringify(transfer),
+    },
+  });
+
+  return transfer;
+}
+
+/**
+ * Dispatch a transfer
+ * Decrements source stock and holds the quantity in transit against the destination store
+ */
+export async function dispatchTransfer(transferId: string, companyId: string, userId: string) {
+  const transfer = await db.stockTransfer.findFirst({
+    where: { id: transferId, companyId },
+    include: {
+      lines: {
+        include: {
+          item: { select: { description: true, trackingType: true } },
+        },
+      },
+    },
+  });
+
+  if (!transfer) {
+    throw new Error('Transfer not found');
+  }
+
+  if (transfer.status !== 'DRAFT') {
+    throw new Error(`Cannot dispatch transfer in ${transfer.status} status`);
+  }
+
+  // Validate all lines before moving anything
+  const sourceStock = await db.itemStock.findMany({
+    where: {
+      storeId: transfer.fromStoreId,
+      itemId: { in: transfer.lines.map((l) => l.itemId) },
+    },
+  });
+  const sourceByItem = new Map(sourceStock.map((s) => [s.itemId, s]));
+
+  const requiredByItem = new Map<string, number>();
+  for (const line of transfer.lines) {
+    requiredByItem.set(line.itemId, (requiredByItem.get(line.itemId) || 0) + line.quantity);
+  }
+
+  for (const line of transfer.lines) {
+    // Stock reserved for approved requests cannot be transferred away
+    const source = sourceByItem.get(line.itemId);
+    const available = source ? source.quantity - source.reservedQty : 0;
+    if (available < requiredByItem.get(line.itemId)!) {
+      throw new Error(`Insufficient stock for ${line.item.description}. Available: ${available}`);
+    }
+
+    // The serials may have been issued or moved since the transfer was drafted
+    if (line.item.trackingType === 'SERIAL') {
+      await assertSerialsIssuable(companyId, line.itemId, parseJsonArray<string>(line.serialNumbers), transfer.fromStoreId);
+    }
+  }
+
+  for (const line of transfer.lines) {
+    // Lots leave the source first-expiry-first-out, before its stock is decremented
+    let batches: BatchAllocation[] = [];
+    if (line.item.trackingType === 'BATCH') {
+      batches = await consumeBatches(line.itemId, transfer.fromStoreId, line.quantity);
+    } else if (line.item.trackingType === 'SERIAL') {
+      await moveSerials({
+        companyId,
+        itemId: line.itemId,
+        serialNumbers: parseJsonArray<string>(line.serialNumbers),
+        storeId: null,
+        eventType: 'TRANSFERRED',
+        referenceType: 'TRANSFER',
+        referenceId: transfer.id,
+        userId,
+      });
+    }
+
+    const { unitCost } = await costOutgoingStock(line.itemId, transfer.fromStoreId, line.quantity);
+    const source = sourceByItem.get(line.itemId)!;
+
+    const updatedSource = await db.itemStock.update({
+      where: { id: source.id },
+      data: { quantity: { decrement: line.quantity } },
+    });
+
+    await releaseFromBins(line.itemId, transfer.fromStoreId, line.quantity);
+
+    await db.itemStock.upsert({
+      where: {
+        itemId_storeId: { itemId: line.itemId, storeId: transfer.toStoreId },
+      },
+      update: {
+        inTransitQty: { increment: line.quantity },
+      },
+      create: {
+        itemId: line.itemId,
+        storeId: transfer.toStoreId,
+        quantity: 0,
+        inTransitQty: line.quantity,
+      },
+    });
+
+    await db.stockLedger.create({
+      data: {
+        itemId: line.itemId,
+        storeId: transfer.fromStoreId,
+        movementType: 'TRANSFER',
+        quantity: -line.quantity,
+        balanceAfter: updatedSource.quantity,
+        unitCost,
+        totalValue: -line.quantity * unitCost,
+        referenceType: 'TRANSFER',
+        referenceId: transfer.id,
+        userId,
+      },
+    });
+
+    await db.stockTransferLine.update({
+      where: { id: line.id },
+      data: {
+        dispatchedQty: line.quantity,
+        unitCost,
+        batches: batches.length > 0 ? JSON.stringify(batches) : null,
+      },
+    });
+
+    await evaluateStockLevel(line.itemId, transfer.fromStoreId);
+  }
+
+  const updated = await db.stockTransfer.update({
+    where: { id: transfer.id },
+    data: {
+      status: 'IN_TRANSIT',
+      dispatchedAt: new Date(),
+      dispatchedById: userId,
+      updatedBy: userId,
+    },
+    include: transferInclude,
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'DISPATCH',
+      entity: 'StockTransfer',
+      entityId: transfer.id,
+      newValue: JSON.stringify(updated),
+    },
+  });
+
+  return updated;
+}
+
+/**
+ * Receive a transfer at the destination store
+ * Releases the in-transit quantity, increments destination stock and raises an alert on discrepancies
+ */
+export async function receiveTransfer(
+  transferId: string,
+  companyId: string,
+  userId: string,
+  receivedLines?: ReceivedLineInput[]
+) {
+  const transfer = await db.stockTransfer.findFirst({
+    where: { id: transferId, companyId },
+    include: {
+      fromStore: { select: { name: true } },
+      toStore: { select: { name: true } },
+      lines: {
+        include: {
+          item: { select: { code: true, description: true, trackingType: true } },
+        },
+      },
+    },
+  });
+
+  if (!transfer) {
+    throw new Error('Transfer not found');
+  }
+
+  if (transfer.status !== 'IN_TRANSIT') {
+    throw new Error(`Cannot receive transfer in ${transfer.status} status`);
+  }
+
+  // Default to receiving exactly what was dispatched
+  const receivedByLine = new Map(
+    (receivedLines || []).map((l) => [l.lineId, l.receivedQty])
+  );
+
+  const receivedQuantities = transfer.lines.map((line) =>
+    receivedByLine.has(line.id) ? Number(receivedByLine.get(line.id)) : line.dispatchedQty
+  );
+
+  if (receivedQuantities.some((qty) => isNaN(qty) || qty < 0)) {
+    throw new Error('Received quantity must be 0 or greater');
+  }
+
+  // Only what left the source store can arrive; a surplus is found stock and goes through an adjustment
+  for (const [index, line] of transfer.lines.entries()) {
+    if (receivedQuantities[index] > line.dispatchedQty) {
+      throw new Error(`Received quantity for ${line.item.code} cannot exceed the ${line.dispatchedQty} dispatched`);
+    }
+  }
+
+  // Serials that arrived: all of those dispatched unless the receiver names them
+  const receivedSerials = transfer.lines.map((line, index) => {
+    if (line.item.trackingType !== 'SERIAL') return [];
+
+    const dispatched = parseJsonArray<string>(line.serialNumbers);
+    const named = (receivedLines || []).find((l) => l.lineId === line.id)?.serialNumbers;
+    const serialNumbers = named ? parseSerialNumbers(named) : dispatched;
+
+    if (serialNumbers.some((s) => !dispatched.includes(s))) {
+      throw new Error(`Received serial numbers for ${line.item.code} must be among those dispatched`);
+    }
+    validateTrackedLine('SERIAL', line.item.code, { quantity: receivedQuantities[index], serialNumbers });
+
+    return serialNumbers;
+  });
+
+  const discrepancies: string[] = [];
+  let discrepancyValue = 0;
+
+  for (const [index, line] of transfer.lines.entries()) {
+    const receivedQty = receivedQuantities[index];
+    const unitCost = line.unitCost || 0;
+
+    const destination = await db.itemStock.update({
+      where: {
+        itemId_storeId: { itemId: line.itemId, storeId: transfer.toStoreId },
+      },
+      data: {
+        quantity: { increment: receivedQty },
+        inTransitQty: { decrement: line.dispatchedQty },
+      },
+    });
+
+    // Lots arrive with their expiry dates; a short receipt is taken off the last lots first
+    let remainingQty = receivedQty;
+    for (const batch of parseJsonArray<BatchAllocation>(line.batches)) {
+      const quantity = Math.min(batch.quantity, remainingQty);
+      if (quantity <= 0) break;
+
+      await receiveBatch({
+        itemId: line.itemId,
+        storeId: transfer.toStoreId,
+        batchNumber: batch.batchNumber,
+        expiryDate: batch.expiryDate ? new Date(batch.expiryDate) : null,
+        quantity,
+      });
+      remainingQty -= quantity;
+    }
+
+    // Serials that did not arrive stay out of every store
+    if (receivedSerials[index].length > 0) {
+      await moveSerials({
+        companyId,
+        itemId: line.itemId,
+        serialNumbers: receivedSerials[index],
+        storeId: transfer.toStoreId,
+        eventType: 'TRANSFERRED',
+        referenceType: 'TRANSFER',
+        referenceId: transfer.id,
+        userId,
+      });
+    }
+
+    if (receivedQty > 0) {
+      const binId = await putawayToBin(line.itemId, transfer.toStoreId, receivedQty);
+
+      // Layers travel with the goods at their dispatch cost
+      await addCostLayer({
+        itemId: line.itemId,
+        storeId: transfer.toStoreId,
+        quantity: receivedQty,
+        unitCost,
+        sourceType: 'TRANSFER',
+        sourceId: transfer.id,
+      });
+
+      await db.stockLedger.create({
+        data: {
+          itemId: line.itemId,
+          storeId: transfer.toStoreId,
+          movementType: 'TRANSFER',
+          quantity: receivedQty,
+          balanceAfter: destination.quantity,
+          unitCost,
+          totalValue: receivedQty * unitCost,
+          referenceType: 'TRANSFER',
+          referenceId: transfer.id,
+          binId,
+          userId,
+        },
+      });
+    }
+
+    await db.stockTransferLine.update({
+      where: { id: line.id },
+      data: { receivedQty },
+    });
+
+    await evaluateStockLevel(line.itemId, transfer.toStoreId);
+    await allocateBackorders(line.itemId, transfer.toStoreId, userId);
+
+    if (receivedQty !== line.dispatchedQty) {
+      const variance = receivedQty - line.dispatchedQty;
+      discrepancyValue += Math.abs(variance) * unitCost;
+      const missingSerials = parseJsonArray<string>(line.serialNumbers)
+        .filter((s) => !receivedSerials[index].includes(s));
+      discrepancies.push(
+        `${line.item.code} ${line.item.description}: dispatched ${line.dispatchedQty}, received ${receivedQty}` +
+        (missingSerials.length > 0 ? ` (missing serials ${missingSerials.join(', ')})` : '')
+      );
+    }
+  }
+
+  const updated = await db.stockTransfer.update({
+    where: { id: transfer.id },
+    data: {
+      status: 'RECEIVED',
+      receivedAt: new Date(),
+      receivedById: userId,
+      hasDiscrepancy: discrepancies.length > 0,
+      updatedBy: userId,
+    },
+    include: transferInclude,
+  });
+
+  if (discrepancies.length > 0) {
+    await db.alert.create({
+      data: {
+        companyId,
+        type: 'STOCK_VARIANCE',
+        severity: discrepancyValue > 1000 ? 'HIGH' : 'MEDIUM',
+        title: `Transfer Discrepancy - ${transfer.transferNumber}`,
+        message: `Transfer from ${transfer.fromStore.name} to ${transfer.toStore.name} received with differences: ${discrepancies.join('; ')}`,
+        referenceType: 'TRANSFER',
+        referenceId: transfer.id,
+      },
+    });
+  }
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'RECEIVE',
+      entity: 'StockTransfer',
+      entityId: transfer.id,
+      newValue: JSON.stringify(updated),
+    },
+  });
+
+  return updated;
+}
+
+/**
+ * Cancel a transfer that has not yet been dispatched
+ */
+export async function cancelTransfer(transferId: string, companyId: string, userId: string) {
+  const transfer = await db.stockTransfer.findFirst({
+    where: { id: transferId, companyId },
+  });
+
+  if (!transfer) {
+    throw new Error('Transfer not found');
+  }
+
+  if (transfer.status !== 'DRAFT') {
+    throw new Error(`Cannot cancel transfer in ${transfer.status} status`);
+  }
+
+  const updated = await db.stockTransfer.update({
+    where: { id: transfer.id },
+    data: {
+      status: 'CANCELLED',
+      updatedBy: userId,
+    },
+    include: transferInclude,
+  });
+
+  await db.auditLog.create({
+    data: {
+      userId,
+      action: 'CANCEL',
+      entity: 'StockTransfer',
+      entityId: transfer.id,
+    },
+  });
+
+  return updated;
+}
@@ -0,0 +1,158 @@
+/**
+ * Unit of Measure Conversions
+ * Stock is held, posted and costed in the item's stock UOM; purchase and issue units convert via per-item factors
+ */
+
+import { db } from '@/lib/db';
+
+// Types
+export interface UomConversionInput {
+  uom: string;
+  factor: number;
+}
+
+export interface ItemUomInput {
+  uom: string | null;
+  purchaseUom: string | null;
+  issueUom: string | null;
+  conversions: UomConversionInput[];
+}
+
+export interface StockQuantity {
+  quantity: number;     // In stock UOM
+  uom: string | null;   // Unit as entered
+  uomQty: number;       // Quantity as entered
+  factor: number;       // Stock units per entered unit
+}
+
+/**
+ * Stock units in one unit of `uom` for an item (1 for the stock UOM itself)
+ */
+export async function getUomFactor(itemId: string, uom?: string | null): Promise<number> {
+  if (!uom) return 1;
+
+  const item = await db.item.findUnique({
+    where: { id: itemId },
+    select: {
+      code: true,
+      uom: true,
+      uomConversions: {
+        where: { uom },
+      },
+    },
+  });
+
+  if (!item) {
+    throw new Error('Item not found');
+  }
+
+  if (!item.uom || item.uom === uom) return 1;
+
+  const conversion = item.uomConversions[0];
+  if (!conversion) {
+    throw new Error(`No conversion from ${uom} to ${item.uom} defined for ${item.code}`);
+  }
+
+  return conversion.factor;
+}
+
+/**
+ * Convert a quantity entered in any of the item's units to stock units
+ */
+export async function toStockQuantity(
+  itemId: string,
+  quantity: number,
+  uom?: string | null
+): Promise<StockQuantity> {
+  const factor = await getUomFactor(itemId, uom);
+
+  return {
+    quantity: quantity * factor,
+    uom: uom || null,
+    uomQty: quantity,
+    factor,
+  };
+}
+
+/**
+ * Convert a cost per entered unit (e.g. per drum) to a cost per stock unit (per litre)
+ */
+export function toStockUnitCost(unitCost: number, factor: number): number {
+  return factor > 0 ? unitCost / factor : unitCost;
+}
+
+/**
+ * Validate an item's unit set: conversion units must exist in the company's UOM master,
+ * and purchase / issue units other than the stock unit need a conversion factor
+ */
+export async function validateItemUoms(companyId: string, input: ItemUomInput) {
+  const { uom, purchaseUom, issueUom, conversions } = input;
+  const codes = conversions.map((c) => c.uom);
+
+  if (new Set(codes).size !== codes.length) {
+    throw new Error('Each unit can only have one conversion factor');
+  }
+
+  for (const conversion of conversions) {
+    if (conversion.uom === uom) {
+      throw new Error(`${conversion.uom} is the stock unit and needs no conversion`);
+    }
+    if (!(conversion.factor > 0)) {
+      throw new Error(`Conversion factor for ${conversion.uom} must be greater than 0`);
+    }
+  }
+
+  const known = await db.unitOfMeasure.findMany({
+    where: { companyId, code: { in: codes }, isActive: true },
+    select: { code: true },
+  });
+
+  const unknown = codes.filter((code) => !known.some((u) => u.code === code));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown unit(s) of measure: ${unknown.join(', ')}`);
+  }
+
+  for (const unit of [purchaseUom, issueUom]) {
+    if (unit && unit !== uom && !codes.includes(unit)) {
+      throw new Error(`A conversion factor from ${unit} to ${uom || 'the stock unit'} is required`);
+    }
+  }
+}
+
+/**
+ * Replace an item's conversion factors
+ */
+export async function setItemConversions(itemId: string, conversions: UomConversionInput[]) {
+  await db.itemUomConversion.deleteMany({
+    where: { itemId, uom: { notIn: conversions.map((c) => c.uom) } },
+  });
+
+  for (const conversion of conversions) {
+    await db.itemUomConversion.upsert({
+      where: {
+        itemId_uom: { itemId, uom: conversion.uom },
+      },
+      update: { factor: conversion.factor },
+      create: {
+        itemId,
+        uom: conversion.uom,
+        factor: conversion.factor,
+      },
+    });
+  }
+}
+
+/**
+ * Format a stock quantity in an alternate unit alongside the stock unit, e.g. "2 DRUM (416 L)"
+ */
+export function formatDualQuantity(
+  stockQty: number,
+  stockUom: string | null,
+  uom: string | null,
+  factor: number
+): string {
+  if (!uom || uom === stockUom || factor === 1) {
+    return `${stockQty} ${stockUom || ''}`.trim();
+  }
+  return `${+(stockQty / factor).toFixed(4)} ${uom} (${stockQty} ${stockUom || ''})`.trim();
+}
@@ -0,0 +1,276 @@
+/**
+ * Stock Valuation Engine
+ * Reconstructs inventory quantity and value as of any date from the stock ledger
+ * and reconciles the ledger against live ItemStock balances
+ */
+
+import { db } from '@/lib/db';
+
+// Quantities closer than this are treated as equal
+const QTY_EPSILON = 0.0001;
+
+// Types
+export interface ValuationLine {
+  itemId: string;
+  itemCode: string;
+  itemDescription: string;
+  category: string | null;
+  uom: string | null;
+  storeId: string;
+  storeName: string;
+  quantity: number;      // balanceAfter of the last movement on or before the date
+  value: number;         // Running ledger value on or before the date
+  unitCost: number;
+  liveQty: number;       // Current ItemStock quantity
+  ledgerQty: number;     // balanceAfter of the latest movement overall
+  mismatch: string | null;
+}
+
+export interface ValuationGroup {
+  key: string;
+  quantity: number;
+  value: number;
+}
+
+export interface StockValuation {
+  asOf: Date;
+  lines: ValuationLine[];
+  byStore: ValuationGroup[];
+  byCategory: ValuationGroup[];
+  totalValue: number;
+  mismatchCount: number;
+}
+
+/**
+ * Signed value of a ledger movement: OUT is stored positive, TRANSFER/ADJUSTMENT carry their own sign
+ */
+function signedMovement(movementType: string, quantity: number, totalValue: number | null) {
+  const value = Math.abs(totalValue || 0);
+  if (movementType === 'OUT') {
+    return { quantity: -Math.abs(quantity), value: -value };
+  }
+  if (movementType === 'ADJUSTMENT' && quantity === 0) {
+    // Revaluation (e.g. an approved invoice price variance): signed value, no quantity
+    return { quantity: 0, value: totalValue || 0 };
+  }
+  if (movementType === 'TRANSFER' || movementType === 'ADJUSTMENT') {
+    return { quantity, value: Math.sign(quantity) * value };
+  }
+  return { quantity: Math.abs(quantity), value };
+}
+
+function groupLines(lines: ValuationLine[], keyOf: (line: ValuationLine) => string): ValuationGroup[] {
+  const groups = new Map<string, ValuationGroup>();
+  for (const line of lines) {
+    const key = keyOf(line);
+    const group = groups.get(key) || { key, quantity: 0, value: 0 };
+    group.quantity += line.quantity;
+    group.value += line.value;
+    groups.set(key, group);
+  }
+  return [...groups.values()].sort((a, b) => b.value - a.value);
+}
+
+/**
+ * Value stock per item and store as of a date
+ * Stock in transit between stores at that date is not held by either store and is excluded.
+ */
+export async function getStockValuation(
+  companyId: string,
+  asOf: Date,
+  storeId?: string
+): Promise<StockValuation> {
+  const [ledger, stockLevels] = await Promise.all([
+    db.stockLedger.findMany({
+      where: {
+        item: { companyId },
+        ...(storeId ? { storeId } : {}),
+      },
+      select: {
+        itemId: true,
+        storeId: true,
+        movementType: true,
+        quantity: true,
+        balanceAfter: true,
+        totalValue: true,
+        referenceType: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    db.itemStock.findMany({
+      where: {
+        item: { companyId },
+        ...(storeId ? { storeId } : {}),
+      },
+      select: { itemId: true, storeId: true, quantity: true },
+    }),
+  ]);
+
+  const positions = new Map<string, {
+    itemId: string;
+    storeId: string;
+    quantity: number;
+    value: number;
+    runningQty: number;
+    ledgerQty: number;
+    brokenChain: boolean;
+  }>();
+
+  for (const entry of ledger) {
+    // Bin moves shift stock inside a store and carry no value
+    if (entry.referenceType === 'BIN_MOVE') continue;
+
+    const key = `${entry.itemId}:${entry.storeId}`;
+    const position = positions.get(key) || {
+      itemId: entry.itemId,
+      storeId: entry.storeId,
+      quantity: 0,
+      value: 0,
+      runningQty: 0,
+      ledgerQty: 0,
+      brokenChain: false,
+    };
+
+    const movement = signedMovement(entry.movementType, entry.quantity, entry.totalValue);
+    position.runningQty += movement.quantity;
+    position.ledgerQty = entry.balanceAfter;
+    if (Math.abs(position.runningQty - entry.balanceAfter) > QTY_EPSILON) {
+      position.brokenChain = true;
+      position.runningQty = entry.balanceAfter;
+    }
+
+    if (entry.createdAt <= asOf) {
+      position.quantity = entry.balanceAfter;
+      position.value += movement.value;
+    }
+
+    positions.set(key, position);
+  }
+
+  const liveQty = new Map(stockLevels.map((s) => [`${s.itemId}:${s.storeId}`, s.quantity]));
+  for (const stock of stockLevels) {
+    const key = `${stock.itemId}:${stock.storeId}`;
+    if (!positions.has(key) && Math.abs(stock.quantity) > QTY_EPSILON) {
+      positions.set(key, {
+        itemId: stock.itemId,
+        storeId: stock.storeId,
+        quantity: 0,
+        value: 0,
+        runningQty: 0,
+        ledgerQty: 0,
+        brokenChain: false,
+      });
+    }
+  }
+
+  const [items, stores] = await Promise.all([
+    db.item.findMany({
+      where: { id: { in: [...new Set([...positions.values()].map((p) => p.itemId))] } },
+      select: { id: true, code: true, description: true, category: true, uom: true },
+    }),
+    db.store.findMany({
+      where: { companyId },
+      select: { id: true, name: true },
+    }),
+  ]);
+
+  const itemsById = new Map(items.map((i) => [i.id, i]));
+  const storesById = new Map(stores.map((s) => [s.id, s]));
+
+  const lines: ValuationLine[] = [];
+
+  for (const [key, position] of positions) {
+    const item = itemsById.get(position.itemId);
+    const store = storesById.get(position.storeId);
+    if (!item || !store) continue;
+
+    const live = liveQty.get(key) || 0;
+
+    let mismatch: string | null = null;
+    if (Math.abs(live - position.ledgerQty) > QTY_EPSILON) {
+      mismatch = `Ledger balance ${position.ledgerQty} differs from stock on hand ${live}`;
+    } else if (position.brokenChain) {
+      mismatch = 'Ledger balances do not follow from the recorded movements';
+    }
+
+    // Nothing held at the date and nothing to reconcile
+    if (Math.abs(position.quantity) <= QTY_EPSILON && !mismatch) continue;
+
+    lines.push({
+      itemId: item.id,
+      itemCode: item.code,
+      itemDescription: item.description,
+      category: item.category,
+      uom: item.uom,
+      storeId: store.id,
+      storeName: store.name,
+      quantity: position.quantity,
+      value: position.value,
+      unitCost: position.quantity > QTY_EPSILON ? position.value / position.quantity : 0,
+      liveQty: live,
+      ledgerQty: position.ledgerQty,
+      mismatch,
+    });
+  }
+
+  lines.sort((a, b) => a.storeName.localeCompare(b.storeName) || a.itemCode.localeCompare(b.itemCode));
+
+  return {
+    asOf,
+    lines,
+    byStore: groupLines(lines, (l) => l.storeName),
+    byCategory: groupLines(lines, (l) => l.category || 'Uncategorised'),
+    totalValue: lines.reduce((sum, l) => sum + l.value, 0),
+    mismatchCount: lines.filter((l) => l.mismatch).length,
+  };
+}
+
+/**
+ * Closing inventory value at the end of a month (used when locking the period)
+ */
+export async function getClosingInventoryValue(companyId: string, year: number, month: number) {
+  const endDate = new Date(year, month, 0, 23, 59, 59);
+  const valuation = await getStockValuation(companyId, endDate);
+  return valuation.totalValue;
+}
+
+/**
+ * Render a valuation as CSV for export
+ */
+export function valuationToCsv(valuation: StockValuation): string {
+  const escape = (value: string | number | null) => {
+    const text = value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const header = [
+    'Store',
+    'Item Code',
+    'Description',
+    'Category',
+    'UOM',
+    'Quantity',
+    'Unit Cost',
+    'Value',
+    'Live Qty',
+    'Mismatch',
+  ];
+
+  const rows = valuation.lines.map((l) => [
+    l.storeName,
+    l.itemCode,
+    l.itemDescription,
+    l.category,
+    l.uom,
+    l.quantity,
+    l.unitCost.toFixed(4),
+    l.value.toFixed(2),
+    l.liveQty,
+    l.mismatch,
+  ]);
+
+  rows.push(['TOTAL', '', '', '', '', '', '', valuation.totalValue.toFixed(2), '', '']);
+
+  return [header, ...rows].map((row) => row.map(escape).join(',')).join('\n');
+}